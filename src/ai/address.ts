@@ -363,7 +363,7 @@ async function callAddressModelRaw(input: string): Promise<string | null> {
       prompt_tokens: promptTokens,
       completion_tokens: completionTokens,
     });
-    addSpendUSD(approxCost);
+    addSpendUSD(approxCost, "address");
   } catch (e: any) {
     console.warn("[AI][addr] addSpendUSD failed", e?.message || e);
   }
@@ -1,5 +1,6 @@
 // src/ai/cost.ts
-import { supa } from "../db";
+import { rootSupa } from "../db";
+import { traceAiCall } from "./ingest/ingestTrace";
 
 /**
  * ENV knobs (with sane defaults)
@@ -12,6 +13,9 @@ import { supa } from "../db";
  *
  * Optional Postgres RPC (if created):
  *   create or replace function public.increment_ai_daily_spend(p_dt date, p_amount numeric) returns void ...
+ *
+ * Spend is real money even inside an admin replay's sandbox client, so the
+ * budget + usage log always go through rootSupa, never the `supa` override.
  */
 
 const DAILY_CAP = Number(process.env.AI_DAILY_USD ?? 5);
@@ -32,7 +36,7 @@ async function pickTable(): Promise<string> {
   if (resolvedTable) return resolvedTable;
   // probe PRIMARY_TABLE by a harmless select
   const today = new Date().toISOString().slice(0, 10);
-  const probe = await supa.from(PRIMARY_TABLE).select("dt").eq("dt", today).limit(1);
+  const probe = await rootSupa.from(PRIMARY_TABLE).select("dt").eq("dt", today).limit(1);
   if (!probe.error) {
     resolvedTable = PRIMARY_TABLE;
     return resolvedTable;
@@ -69,7 +73,7 @@ export function estimateCostUSDApprox(
 export async function getTodaySpendUSD(): Promise<number> {
   try {
     const table = await pickTable();
-    const { data, error } = await supa
+    const { data, error } = await rootSupa
       .from(table)
       .select("usd_spent")
       .eq("dt", new Date().toISOString().slice(0, 10))
@@ -128,14 +132,17 @@ export function logSpendApproved(approx: number, todayBefore: number, cap = DAIL
  * Add actual spend after the call. Tries your RPC first:
  *   increment_ai_daily_spend(p_dt date, p_amount numeric)
  * Falls back to upsert/increment in the resolved table.
+ * `source` (e.g. "address") also records the call on the running ingest trace;
+ * logAiUsageForCall traces its own calls and leaves it out.
  */
-export async function addSpendUSD(usd: number) {
+export async function addSpendUSD(usd: number, source?: string) {
+  if (source) traceAiCall({ source, cost_usd: Number(usd) || 0 });
   if (!(usd > 0) || !isFinite(usd)) return;
   const today = new Date().toISOString().slice(0, 10);
 
   // Try RPC if you created it (safe to fail)
   try {
-    const { error } = await supa.rpc("increment_ai_daily_spend", { p_dt: today, p_amount: usd });
+    const { error } = await rootSupa.rpc("increment_ai_daily_spend", { p_dt: today, p_amount: usd });
     if (!error) return;
     if (IS_DEV_LOG) console.warn("[AI$] RPC increment_ai_daily_spend error:", error.message);
   } catch (_) {
@@ -147,7 +154,7 @@ export async function addSpendUSD(usd: number) {
     const table = await pickTable();
 
     // Read current
-    const cur = await supa
+    const cur = await rootSupa
       .from(table)
       .select("usd_spent")
       .eq("dt", today)
@@ -156,7 +163,7 @@ export async function addSpendUSD(usd: number) {
     const prev = Number(cur.data?.usd_spent ?? 0);
     const next = Number((prev + usd).toFixed(6));
 
-    const up = await supa
+    const up = await rootSupa
       .from(table)
       .upsert({ dt: today as any, usd_spent: next }, { onConflict: "dt" });
 
@@ -194,6 +201,14 @@ export async function logAiUsageForCall(params: {
       model || undefined
     );
 
+    traceAiCall({
+      source: raw?.source ?? null,
+      model: model ?? null,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      cost_usd: costUsd,
+    });
+
     // 🔄 Keep your existing daily-budget tracking working
     if (costUsd > 0) {
       await addSpendUSD(costUsd);
@@ -210,7 +225,7 @@ export async function logAiUsageForCall(params: {
       raw: raw ? JSON.stringify(raw).slice(0, 50000) : null, // avoid insane blobs
     };
 
-    const { error } = await supa.from("ai_usage_log").insert(payload);
+    const { error } = await rootSupa.from("ai_usage_log").insert(payload);
     if (error && IS_DEV_LOG) {
       console.warn("[AI_USAGE_LOG] insert error:", error.message);
     }
@@ -0,0 +1,365 @@
+// src/ai/helpers/geocoder.ts
+import axios from "axios";
+import { supa } from "../../db";
+
+/**
+ * Address text → coordinates, for delivery quotes on typed addresses.
+ *
+ * Providers (GEOCODER_PROVIDERS, comma list tried in order; default
+ * "google,gazetteer"):
+ *   - "google"    → Google Geocoding API (GOOGLE_MAPS_API_KEY; skipped without one)
+ *   - "gazetteer" → the org's own landmarks / areas in `geo_gazetteer`
+ *   - "none"      → never geocode
+ *
+ * Table `geo_gazetteer` (maintained per org, /api/admin/gazetteer):
+ *   id uuid pk, org_id uuid, name text, aliases text[],
+ *   lat float8, lng float8, kind text ('landmark' | 'area'),
+ *   is_active bool default true, created_at, updated_at
+ *
+ * Hits are cached per org + normalised address in `geocode_cache`
+ * (org_id, address_key, lat, lng, provider, label, created_at;
+ * unique(org_id, address_key)) and in process memory, so a repeat customer's
+ * address is never looked up twice. GEOCODE_CACHE_DAYS (default 30).
+ */
+
+export type GeocodeInput = {
+  org_id: string;
+  address: string;
+};
+
+export type GeocodeResult = {
+  lat: number;
+  lng: number;
+  provider: string;
+  label?: string | null; // what matched (formatted address / gazetteer name)
+};
+
+export interface Geocoder {
+  readonly name: string;
+  geocode(input: GeocodeInput): Promise<GeocodeResult | null>;
+}
+
+// ─────────────────────────────
+// Normalising
+// ─────────────────────────────
+const ABBREVIATIONS: Record<string, string> = {
+  avenue: "ave",
+  av: "ave",
+  street: "st",
+  road: "rd",
+  first: "1st",
+  second: "2nd",
+  third: "3rd",
+  fourth: "4th",
+  fifth: "5th",
+  sixth: "6th",
+  seventh: "7th",
+  eighth: "8th",
+  ninth: "9th",
+  tenth: "10th",
+  near: "",
+  opp: "",
+  opposite: "",
+  behind: "",
+};
+
+/**
+ * "Anna Nagar, 2nd Avenue!" → "anna nagar 2nd ave". Any script is kept
+ * ("அண்ணா நகர்" stays as typed; \p{M} keeps Indic vowel signs).
+ */
+export function normalizeAddressKey(text: string): string {
+  return String(text || "")
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => (w in ABBREVIATIONS ? ABBREVIATIONS[w] : w))
+    .filter(Boolean)
+    .join(" ");
+}
+
+// ─────────────────────────────
+// Google
+// ─────────────────────────────
+export class GoogleGeocoder implements Geocoder {
+  readonly name = "google";
+
+  constructor(private apiKey: string = process.env.GOOGLE_MAPS_API_KEY || "") {}
+
+  async geocode(input: GeocodeInput): Promise<GeocodeResult | null> {
+    if (!this.apiKey) return null;
+
+    const resp = await axios.get("https://maps.googleapis.com/maps/api/geocode/json", {
+      params: { address: input.address, key: this.apiKey },
+      timeout: 8000,
+    });
+
+    const data = resp.data;
+    if (data.status !== "OK" || !data.results || data.results.length === 0) {
+      console.warn("[GEOCODE][GOOGLE_NO_RESULT]", { status: data.status, address: input.address });
+      return null;
+    }
+
+    const loc = data.results[0]?.geometry?.location;
+    if (!loc || typeof loc.lat !== "number" || typeof loc.lng !== "number") {
+      console.warn("[GEOCODE][GOOGLE_BAD_LOCATION]", { address: input.address, loc });
+      return null;
+    }
+
+    return {
+      lat: loc.lat,
+      lng: loc.lng,
+      provider: this.name,
+      label: data.results[0]?.formatted_address || null,
+    };
+  }
+}
+
+// ─────────────────────────────
+// Gazetteer (org landmarks / areas)
+// ─────────────────────────────
+export type GazetteerEntry = {
+  id: string;
+  org_id: string;
+  name: string;
+  aliases: string[] | null;
+  lat: number;
+  lng: number;
+  kind: "landmark" | "area" | null;
+  is_active: boolean | null;
+};
+
+// whole-word containment: "anna nagar" is in "12 anna nagar 2nd ave" but not in "annanagar"
+/**
+ * A key that's only digits ("12", "600040") says nothing about which place
+ * it is – fine to look up, never to cache or save under.
+ */
+export function isDistinctAddressKey(key: string): boolean {
+  return /\p{L}/u.test(key || "");
+}
+
+function containsPhrase(haystack: string, phrase: string) {
+  return !!phrase && ` ${haystack} `.includes(` ${phrase} `);
+}
+
+/**
+ * Pure matcher: the most specific entry whose name / alias appears in the
+ * address – a landmark beats any area, then the longest phrase wins.
+ */
+export function matchGazetteer(
+  entries: GazetteerEntry[],
+  address: string
+): { entry: GazetteerEntry; phrase: string } | null {
+  const key = normalizeAddressKey(address);
+  let best: { entry: GazetteerEntry; phrase: string; score: number } | null = null;
+
+  for (const entry of entries) {
+    if (entry.is_active === false) continue;
+
+    for (const raw of [entry.name, ...(entry.aliases || [])]) {
+      const phrase = normalizeAddressKey(raw);
+      if (!containsPhrase(key, phrase)) continue;
+
+      const score = (entry.kind === "landmark" ? 1000 : 0) + phrase.length;
+      if (!best || score > best.score) best = { entry, phrase, score };
+    }
+  }
+
+  return best ? { entry: best.entry, phrase: best.phrase } : null;
+}
+
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = "gazetteer";
+
+  async geocode(input: GeocodeInput): Promise<GeocodeResult | null> {
+    const { data, error } = await supa
+      .from("geo_gazetteer")
+      .select("*")
+      .eq("org_id", input.org_id)
+      .eq("is_active", true);
+
+    if (error) {
+      console.warn("[GEOCODE][GAZETTEER_ERR]", error.message);
+      return null;
+    }
+
+    const hit = matchGazetteer((data || []) as GazetteerEntry[], input.address);
+    if (!hit) return null;
+
+    return {
+      lat: Number(hit.entry.lat),
+      lng: Number(hit.entry.lng),
+      provider: this.name,
+      label: hit.entry.name,
+    };
+  }
+}
+
+// ─────────────────────────────
+// Chain (providers in order)
+// ─────────────────────────────
+export class ChainGeocoder implements Geocoder {
+  readonly name: string;
+
+  constructor(private providers: Geocoder[]) {
+    this.name = providers.map((p) => p.name).join(",");
+  }
+
+  async geocode(input: GeocodeInput): Promise<GeocodeResult | null> {
+    for (const p of this.providers) {
+      try {
+        const res = await p.geocode(input);
+        if (res) return res;
+      } catch (e: any) {
+        console.warn("[GEOCODE][PROVIDER_ERR]", p.name, e?.response?.data || e?.message || e);
+      }
+    }
+    return null;
+  }
+}
+
+// ─────────────────────────────
+// Active provider
+// ─────────────────────────────
+let active: Geocoder | null | undefined;
+
+function createFromEnv(): Geocoder | null {
+  const names = (process.env.GEOCODER_PROVIDERS || "google,gazetteer")
+    .toLowerCase()
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (names.includes("none")) return null;
+
+  const providers: Geocoder[] = [];
+  for (const n of names) {
+    if (n === "google") {
+      if (process.env.GOOGLE_MAPS_API_KEY) providers.push(new GoogleGeocoder());
+      else console.warn("[GEOCODE] GOOGLE_MAPS_API_KEY missing – google provider skipped");
+    } else if (n === "gazetteer") {
+      providers.push(new GazetteerGeocoder());
+    } else {
+      console.warn("[GEOCODE] unknown provider", n);
+    }
+  }
+
+  return providers.length ? new ChainGeocoder(providers) : null;
+}
+
+export function getGeocoder(): Geocoder | null {
+  if (active === undefined) active = createFromEnv();
+  return active;
+}
+
+// Swap provider at runtime (tests / simulator)
+export function setGeocoder(g: Geocoder | null) {
+  active = g;
+  memoryCache.clear();
+}
+
+// ─────────────────────────────
+// Cache
+// ─────────────────────────────
+const CACHE_TTL_MS = Number(process.env.GEOCODE_CACHE_DAYS || 30) * 24 * 3600_000;
+const MEMORY_CACHE_MAX = 2000;
+const memoryCache = new Map<string, { at: number; res: GeocodeResult }>();
+
+function rememberInMemory(key: string, res: GeocodeResult, at = Date.now()) {
+  if (memoryCache.size >= MEMORY_CACHE_MAX) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest !== undefined) memoryCache.delete(oldest);
+  }
+  memoryCache.set(key, { at, res });
+}
+
+async function readCache(org_id: string, addressKey: string): Promise<GeocodeResult | null> {
+  const memKey = `${org_id}|${addressKey}`;
+  const mem = memoryCache.get(memKey);
+  if (mem && Date.now() - mem.at < CACHE_TTL_MS) return mem.res;
+
+  const { data, error } = await supa
+    .from("geocode_cache")
+    .select("lat, lng, provider, label, created_at")
+    .eq("org_id", org_id)
+    .eq("address_key", addressKey)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const at = new Date(data.created_at).getTime();
+  if (!Number.isFinite(at) || Date.now() - at >= CACHE_TTL_MS) return null;
+
+  const res: GeocodeResult = {
+    lat: Number(data.lat),
+    lng: Number(data.lng),
+    provider: data.provider,
+    label: data.label ?? null,
+  };
+  rememberInMemory(memKey, res, at);
+  return res;
+}
+
+async function writeCache(org_id: string, addressKey: string, res: GeocodeResult) {
+  rememberInMemory(`${org_id}|${addressKey}`, res);
+
+  const { error } = await supa.from("geocode_cache").upsert(
+    {
+      org_id,
+      address_key: addressKey,
+      lat: res.lat,
+      lng: res.lng,
+      provider: res.provider,
+      label: res.label ?? null,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: "org_id,address_key" }
+  );
+  if (error) console.warn("[GEOCODE][CACHE_WRITE_ERR]", error.message);
+}
+
+/** Forget cached lookups for an org (e.g. after the gazetteer changed). */
+export async function clearGeocodeCache(org_id: string) {
+  for (const k of Array.from(memoryCache.keys())) {
+    if (k.startsWith(`${org_id}|`)) memoryCache.delete(k);
+  }
+  const { error } = await supa.from("geocode_cache").delete().eq("org_id", org_id);
+  if (error) console.warn("[GEOCODE][CACHE_CLEAR_ERR]", error.message);
+}
+
+// Never throws: a failed lookup just means "no coordinates"
+export async function geocodeAddress(
+  org_id: string,
+  address: string
+): Promise<(GeocodeResult & { cached: boolean }) | null> {
+  const addressKey = normalizeAddressKey(address);
+  if (!addressKey) return null;
+  const cacheable = isDistinctAddressKey(addressKey);
+
+  try {
+    const cached = cacheable ? await readCache(org_id, addressKey) : null;
+    if (cached) {
+      console.log("[GEOCODE][CACHE_HIT]", { org_id, addressKey, provider: cached.provider });
+      return { ...cached, cached: true };
+    }
+
+    const g = getGeocoder();
+    if (!g) return null;
+
+    const res = await g.geocode({ org_id, address });
+    console.log("[GEOCODE][DONE]", {
+      org_id,
+      providers: g.name,
+      provider: res?.provider || null,
+      found: !!res,
+    });
+    if (!res) return null;
+
+    if (cacheable) await writeCache(org_id, addressKey, res);
+    return { ...res, cached: false };
+  } catch (e: any) {
+    console.warn("[GEOCODE][ERR]", e?.message || e);
+    return null;
+  }
+}
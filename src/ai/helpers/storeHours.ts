@@ -1,83 +1,348 @@
 // src/ai/helpers/storeHours.ts
 import { supa } from "../../db";
 
+/**
+ * Store opening hours – one calendar shared by serviceIntentEngine (hours /
+ * "deliver now?" replies), the ordering flow (scheduleEngine slots) and the
+ * public GET /api/availability/hours endpoint.
+ *
+ * orgs columns:
+ *   opening_hours   jsonb  { "mon": [{ "open": "11:00", "close": "15:00" },
+ *                                    { "open": "18:00", "close": "02:00" }], … }
+ *                          a day missing / [] = closed that day;
+ *                          close at/before open = runs past midnight
+ *   store_holidays  jsonb  [{ "date": "2026-12-25", "note": "Christmas" }]
+ *                          (local dates; shifts *starting* that day are skipped)
+ *   closed_until    timestamptz   temporary "closed now" override
+ *   closed_reason   text
+ *   store_timezone  text   (default Asia/Kolkata)
+ *
+ * Without opening_hours the old daily delivery_open_time / delivery_close_time
+ * pair is used for every day; with neither the store counts as always open.
+ */
+
+export const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type WeekdayKey = (typeof WEEKDAY_KEYS)[number];
+
+export type HoursInterval = { open: string; close: string }; // "HH:MM"
+export type WeeklySchedule = Partial<Record<WeekdayKey, HoursInterval[]>>;
+export type StoreHoliday = { date: string; note?: string | null };
+
+export type StoreHoursConfig = {
+  timezone: string;
+  weekly: WeeklySchedule | null; // null = not configured (always open)
+  holidays: StoreHoliday[];
+  closedUntil: Date | null;
+  closedReason: string | null;
+};
+
 export type StoreHoursState = {
+  // "unknown" = lookup failed; callers should not promise open *or* closed
+  status: "open" | "closed" | "always_open" | "unknown";
   isOpenNow: boolean;
-  openTime?: string | null;   // "11:00"
-  closeTime?: string | null;  // "23:00"
+  reason?: "outside_hours" | "holiday" | "closed_override" | null;
   timezone?: string | null;
+  today?: HoursInterval[]; // today's intervals (local)
+  closesAt?: string | null; // end of the current interval
+  nextOpenAt?: string | null; // when closed: next opening
+  holiday?: StoreHoliday | null;
+  closedUntil?: string | null;
+  closedReason?: string | null;
+
+  // kept for older callers (first interval of today)
+  openTime?: string | null;
+  closeTime?: string | null;
 };
 
+export type OpenInterval = { start: Date; end: Date };
+
+export type LocalParts = {
+  y: number;
+  m: number; // 1-12
+  d: number;
+  weekday: number; // 0 = Sunday
+  minutes: number; // minutes since local midnight
+};
+
+const DEFAULT_TZ = "Asia/Kolkata";
+const LOOKAHEAD_DAYS = 8; // nextOpenAt search window
+
 function parseTimeToMinutes(t: string | null | undefined): number | null {
   if (!t) return null;
   // expect "HH:MM[:SS]"
-  const [hh, mm] = t.split(":");
-  const h = Number(hh);
-  const m = Number(mm ?? "0");
-  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
-  return h * 60 + m;
+  const m = String(t).match(/^(\d{1,2}):(\d{2})/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const mm = Number(m[2]);
+  if (h > 24 || mm > 59) return null;
+  return h * 60 + mm;
 }
 
-function getNowMinutesInTZ(timezone: string): number {
-  const now = new Date();
+const pad = (n: number) => String(n).padStart(2, "0");
+const dateKey = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
 
-  // Get hour/minute in the store's timezone using Intl.
+// ─────────────────────────────
+// Timezone helpers
+// ─────────────────────────────
+export function localParts(date: Date, timezone: string): LocalParts {
   const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
     hour: "2-digit",
     minute: "2-digit",
     hour12: false,
-    timeZone: timezone,
-  }).formatToParts(now);
+  }).formatToParts(date);
+
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "0";
+  const hour = Number(get("hour")) % 24; // some runtimes print 24:00
+
+  return {
+    y: Number(get("year")),
+    m: Number(get("month")),
+    d: Number(get("day")),
+    weekday: WEEKDAY_KEYS.indexOf(get("weekday").toLowerCase().slice(0, 3) as WeekdayKey),
+    minutes: hour * 60 + Number(get("minute")),
+  };
+}
 
-  const hourStr = parts.find((p) => p.type === "hour")?.value ?? "00";
-  const minStr = parts.find((p) => p.type === "minute")?.value ?? "00";
+function tzOffsetMinutes(date: Date, timezone: string): number {
+  const p = localParts(date, timezone);
+  const asUtc = Date.UTC(p.y, p.m - 1, p.d, 0, p.minutes);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/** Local wall-clock time in `timezone` → instant. `minutes` may exceed 24h (next day). */
+export function zonedTimeToUtc(
+  y: number,
+  m: number,
+  d: number,
+  minutes: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(y, m - 1, d, 0, minutes);
+  let t = guess - tzOffsetMinutes(new Date(guess), timezone) * 60_000;
+  // second pass settles DST edges
+  t = guess - tzOffsetMinutes(new Date(t), timezone) * 60_000;
+  return new Date(t);
+}
 
-  const h = Number(hourStr);
-  const m = Number(minStr);
-  return h * 60 + m;
+/** Local calendar day `offset` days after `date` (in `timezone`). */
+export function addLocalDays(date: Date, offset: number, timezone: string) {
+  const p = localParts(date, timezone);
+  const n = new Date(Date.UTC(p.y, p.m - 1, p.d + offset));
+  return { y: n.getUTCFullYear(), m: n.getUTCMonth() + 1, d: n.getUTCDate(), weekday: n.getUTCDay() };
+}
+
+// ─────────────────────────────
+// Config
+// ─────────────────────────────
+function cleanIntervals(list: any): HoursInterval[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((iv: any) => (Array.isArray(iv) ? { open: iv[0], close: iv[1] } : iv))
+    .filter(
+      (iv: any) =>
+        iv &&
+        parseTimeToMinutes(iv.open) != null &&
+        parseTimeToMinutes(iv.close) != null &&
+        parseTimeToMinutes(iv.open) !== parseTimeToMinutes(iv.close)
+    )
+    .map((iv: any) => ({ open: String(iv.open).slice(0, 5), close: String(iv.close).slice(0, 5) }));
 }
 
 /**
- * Returns whether delivery should be considered "open now"
- * based on org.delivery_open_time / org.delivery_close_time
- * and org.store_timezone (default: Asia/Kolkata).
+ * Validates an opening_hours payload (dashboard → POST /api/org/hours).
+ * Accepts { mon: [{open, close}] } or { mon: [["11:00","15:00"]] }.
  */
-export async function getDeliveryOpenState(
-  org_id: string
-): Promise<StoreHoursState> {
+export function parseWeeklySchedule(
+  raw: any
+): { ok: true; schedule: WeeklySchedule } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, error: "opening_hours_must_be_object" };
+  }
+
+  const schedule: WeeklySchedule = {};
+  for (const [k, v] of Object.entries(raw)) {
+    const key = k.toLowerCase().slice(0, 3) as WeekdayKey;
+    if (!WEEKDAY_KEYS.includes(key)) return { ok: false, error: `unknown_day:${k}` };
+    if (!Array.isArray(v)) return { ok: false, error: `intervals_must_be_array:${k}` };
+
+    const ivs = cleanIntervals(v);
+    if (ivs.length !== v.length) return { ok: false, error: `invalid_interval:${k}` };
+    schedule[key] = ivs;
+  }
+  return { ok: true, schedule };
+}
+
+function legacyWeekly(openTime?: string | null, closeTime?: string | null): WeeklySchedule | null {
+  const ivs = cleanIntervals([{ open: openTime, close: closeTime }]);
+  if (!ivs.length) return null;
+  return Object.fromEntries(WEEKDAY_KEYS.map((k) => [k, ivs])) as WeeklySchedule;
+}
+
+export function buildStoreHoursConfig(row: any): StoreHoursConfig {
+  const parsed = row?.opening_hours ? parseWeeklySchedule(row.opening_hours) : null;
+
+  const closedUntil = row?.closed_until ? new Date(row.closed_until) : null;
+
+  return {
+    timezone: (row?.store_timezone as string | null) || DEFAULT_TZ,
+    weekly:
+      parsed && parsed.ok
+        ? parsed.schedule
+        : legacyWeekly(row?.delivery_open_time, row?.delivery_close_time),
+    holidays: Array.isArray(row?.store_holidays)
+      ? row.store_holidays
+          .filter((h: any) => h && /^\d{4}-\d{2}-\d{2}$/.test(String(h.date)))
+          .map((h: any) => ({ date: String(h.date), note: h.note ?? null }))
+      : [],
+    closedUntil: closedUntil && !isNaN(closedUntil.getTime()) ? closedUntil : null,
+    closedReason: (row?.closed_reason as string | null) || null,
+  };
+}
+
+export async function loadStoreHoursConfig(org_id: string): Promise<StoreHoursConfig | null> {
   const { data, error } = await supa
     .from("orgs")
-    .select("delivery_open_time, delivery_close_time, store_timezone")
+    .select("*") // tolerant: opening_hours / store_holidays / closed_until may not exist yet
     .eq("id", org_id)
     .maybeSingle();
 
-  if (error) {
-    console.warn("[STORE_HOURS] org lookup error", error.message);
-    return { isOpenNow: true }; // be permissive on error
+  if (error || !data) {
+    console.warn("[STORE_HOURS] org lookup error", error?.message || "org_not_found");
+    return null;
   }
 
-  const openTime = (data as any)?.delivery_open_time as string | null;
-  const closeTime = (data as any)?.delivery_close_time as string | null;
-  const timezone =
-    ((data as any)?.store_timezone as string | null) || "Asia/Kolkata";
+  return buildStoreHoursConfig(data);
+}
+
+// ─────────────────────────────
+// Intervals
+// ─────────────────────────────
+
+/**
+ * Open intervals overlapping [from, to), holidays and the temporary closure
+ * already taken out. null = hours not configured (always open).
+ */
+export function openIntervalsBetween(
+  cfg: StoreHoursConfig,
+  from: Date,
+  to: Date
+): OpenInterval[] | null {
+  if (!cfg.weekly) return null;
 
-  const openMin = parseTimeToMinutes(openTime);
-  const closeMin = parseTimeToMinutes(closeTime);
+  const holidays = new Set(cfg.holidays.map((h) => h.date));
+  const out: OpenInterval[] = [];
 
-  // If not configured → treat as always open
-  if (openMin == null || closeMin == null) {
-    return { isOpenNow: true, openTime, closeTime, timezone };
+  // start a day early so last night's overnight shift is included
+  for (let i = -1; ; i++) {
+    const day = addLocalDays(from, i, cfg.timezone);
+    const dayStart = zonedTimeToUtc(day.y, day.m, day.d, 0, cfg.timezone);
+    if (dayStart >= to) break;
+    if (holidays.has(dateKey(day.y, day.m, day.d))) continue;
+
+    for (const iv of cfg.weekly[WEEKDAY_KEYS[day.weekday]] || []) {
+      const openMin = parseTimeToMinutes(iv.open)!;
+      const closeMin = parseTimeToMinutes(iv.close)!;
+      const endMin = closeMin > openMin ? closeMin : closeMin + 24 * 60;
+
+      let start = zonedTimeToUtc(day.y, day.m, day.d, openMin, cfg.timezone);
+      const end = zonedTimeToUtc(day.y, day.m, day.d, endMin, cfg.timezone);
+
+      if (cfg.closedUntil && start < cfg.closedUntil) {
+        if (end <= cfg.closedUntil) continue;
+        start = cfg.closedUntil;
+      }
+      if (end > from && start < to) out.push({ start, end });
+    }
   }
 
-  const nowMin = getNowMinutesInTZ(timezone);
+  return out.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export async function getOpenIntervals(
+  org_id: string,
+  from: Date,
+  to: Date
+): Promise<{ timezone: string; intervals: OpenInterval[] | null }> {
+  const cfg = await loadStoreHoursConfig(org_id);
+  if (!cfg) return { timezone: DEFAULT_TZ, intervals: null };
+  return { timezone: cfg.timezone, intervals: openIntervalsBetween(cfg, from, to) };
+}
+
+/** Open / closed at `at`, with today's hours and the next change. */
+export function storeHoursStateAt(cfg: StoreHoursConfig, at = new Date()): StoreHoursState {
+  const local = localParts(at, cfg.timezone);
+  const todayKey = dateKey(local.y, local.m, local.d);
+  const holiday = cfg.holidays.find((h) => h.date === todayKey) || null;
+  const today = holiday ? [] : cfg.weekly?.[WEEKDAY_KEYS[local.weekday]] || [];
 
-  // Simple V1 assumption: openMin < closeMin (no overnight shifts)
-  const isOpenNow = nowMin >= openMin && nowMin <= closeMin;
+  const base = {
+    timezone: cfg.timezone,
+    today,
+    holiday,
+    closedUntil: cfg.closedUntil && cfg.closedUntil > at ? cfg.closedUntil.toISOString() : null,
+    closedReason: cfg.closedUntil && cfg.closedUntil > at ? cfg.closedReason : null,
+    openTime: today[0]?.open ?? null,
+    closeTime: today[today.length - 1]?.close ?? null,
+  };
 
+  const ahead = new Date(at.getTime() + LOOKAHEAD_DAYS * 24 * 3600_000);
+  const intervals = openIntervalsBetween(cfg, at, ahead);
+
+  if (!intervals) {
+    // temporary closure still applies to a store without set hours
+    if (base.closedUntil) {
+      return { ...base, status: "closed", isOpenNow: false, reason: "closed_override", nextOpenAt: base.closedUntil };
+    }
+    return { ...base, status: "always_open", isOpenNow: true, reason: null };
+  }
+
+  const current = intervals.find((iv) => iv.start <= at && at < iv.end);
+  if (current) {
+    return { ...base, status: "open", isOpenNow: true, reason: null, closesAt: current.end.toISOString() };
+  }
+
+  const next = intervals.find((iv) => iv.start > at);
   return {
-    isOpenNow,
-    openTime,
-    closeTime,
-    timezone,
+    ...base,
+    status: "closed",
+    isOpenNow: false,
+    reason: base.closedUntil ? "closed_override" : holiday ? "holiday" : "outside_hours",
+    nextOpenAt: next ? next.start.toISOString() : null,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Returns whether delivery is open now, from the weekly calendar (or the old
+ * delivery_open_time / delivery_close_time pair) in org.store_timezone.
+ * A failed lookup is reported as status "unknown" – not as open.
+ */
+export async function getDeliveryOpenState(org_id: string): Promise<StoreHoursState> {
+  const cfg = await loadStoreHoursConfig(org_id);
+  if (!cfg) return { status: "unknown", isOpenNow: false };
+  return storeHoursStateAt(cfg);
+}
+
+/** "11:00 – 15:00, 18:00 – 02:00" */
+export function formatIntervals(ivs: HoursInterval[] | null | undefined): string {
+  return (ivs || []).map((iv) => `${iv.open} – ${iv.close}`).join(", ");
+}
+
+/** "Tue 12:00" style label for nextOpenAt in the store's timezone. */
+export function formatLocalTime(iso: string, timezone: string, now = new Date()): string {
+  const at = new Date(iso);
+  const p = localParts(at, timezone);
+  const today = addLocalDays(now, 0, timezone);
+  const tomorrow = addLocalDays(now, 1, timezone);
+  const hhmm = `${pad(Math.floor(p.minutes / 60))}:${pad(p.minutes % 60)}`;
+
+  if (p.y === today.y && p.m === today.m && p.d === today.d) return `today ${hhmm}`;
+  if (p.y === tomorrow.y && p.m === tomorrow.m && p.d === tomorrow.d) return `tomorrow ${hhmm}`;
+
+  const wd = WEEKDAY_KEYS[p.weekday];
+  return `${wd.charAt(0).toUpperCase()}${wd.slice(1)} ${hhmm}`;
+}
@@ -0,0 +1,683 @@
+// src/ai/ingest/abandonedCarts.ts
+import { supa } from "../../db";
+import type { ConversationState, IngestContext, IngestResult } from "./types";
+import { clearState, getStateTtlMinutes, setState } from "./stateManager";
+import { buildConfirmMenuForReply } from "./finalConfirmationEngine";
+import { addressRequestPrompt } from "./addressBook";
+import {
+  confirmOrderOptions,
+  fulfillmentOptions,
+  paymentMethodOptions,
+} from "./replyOptions";
+import { sendWabaTemplate } from "../../routes/waba";
+import { getLastInboundAt } from "../../routes/waba/templates";
+import { findCustomerChannel } from "../../routes/channels/identity";
+import { sendToCustomer } from "../../routes/channels";
+
+/**
+ * Abandoned carts.
+ *
+ * When a conversation state outlives its TTL (see stateManager.getState) the
+ * cart it was holding is kept here instead of being thrown away:
+ *
+ * Table `abandoned_carts`:
+ *   id                 uuid primary key
+ *   org_id             uuid
+ *   customer_phone     text         -- phone key (same as ai_conversation_state)
+ *   state              text         -- state the customer stopped at
+ *   items              jsonb        -- cart lines { name, variant, qty, price }
+ *   item_count         int
+ *   cart_total         numeric
+ *   order_id           uuid         -- draft order (confirmed but unpaid), if any
+ *   last_activity_at   timestamptz  -- ai_conversation_state.updated_at
+ *   abandoned_at       timestamptz
+ *   status             text         -- 'abandoned' | 'reminding' | 'reminded' | 'recovered' | 'skipped'
+ *   reminder_sent_at   timestamptz
+ *   reminder_via       text         -- 'text' | 'template' | 'telegram' | 'web'
+ *   reminder_error     text         -- why no reminder went out (skipped)
+ *   recovered_at       timestamptz
+ *   recovered_order_id uuid
+ *   created_at         timestamptz
+ *
+ * A worker expires stale states (so carts are captured even if the customer
+ * never writes again) and sends ONE reminder per cart within the org's
+ * reminder window after it was abandoned. A cart is recovered when the
+ * customer confirms / pays an order afterwards.
+ *
+ * A worker claims a cart (abandoned → reminding) before sending, so two
+ * workers can't remind the same cart; a send that throws puts it back to
+ * 'abandoned' for the next tick, a failed send marks it 'skipped'.
+ *
+ * orgs columns:
+ *   cart_reminders_enabled      boolean  (null → enabled)
+ *   cart_reminder_window_hours  int      (default 24 after abandoned_at; older carts are skipped)
+ */
+
+const TABLE = "abandoned_carts";
+
+const DEFAULT_REMINDER_WINDOW_HOURS = 24;
+const RECOVERY_ATTRIBUTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const WORKER_INTERVAL_MS = Number(process.env.CART_RECOVERY_POLL_MS || 5 * 60 * 1000);
+const WORKER_BATCH = 100;
+// states not due yet (long / org TTLs) are paged past, up to this many per tick
+const SWEEP_MAX_PAGES = 10;
+
+// Never sweep rows touched more recently than this (cheap pre-filter)
+const SWEEP_MIN_AGE_MS = 15 * 60 * 1000;
+
+const RESUME_WORDS = ["resume", "continue", "continue order", "resume order"];
+
+// Order-stage states → how to pick the conversation back up
+const paymentPendingReply = (order: any) =>
+  "💳 Your payment is still pending.\n" +
+  (order?.razorpay_payment_link_url
+    ? `Please pay using this link:\n*${order.razorpay_payment_link_url}*\n\n`
+    : "") +
+  "After payment, send screenshot here or type *paid*.\n" +
+  "Type *cancel* to change payment method.";
+
+const RESUME_ORDER_PROMPTS: Partial<
+  Record<
+    ConversationState,
+    { state: ConversationState; reply: string | ((order: any) => string); options?: () => any }
+  >
+> = {
+  awaiting_fulfillment: {
+    state: "awaiting_fulfillment",
+    reply:
+      "How would you like to receive your order?\n" +
+      "1) Store Pickup\n" +
+      "2) Home Delivery\n\n" +
+      "Please type *1* or *2*.",
+    options: fulfillmentOptions,
+  },
+  awaiting_address: {
+    state: "awaiting_address",
+    reply: "📍 Please send your delivery address.",
+  },
+  awaiting_location_pin: {
+    state: "awaiting_address",
+    reply: "📍 Please send your delivery address.",
+  },
+  awaiting_payment: {
+    state: "awaiting_payment",
+    reply:
+      "How would you like to pay?\n" +
+      "1) Cash\n" +
+      "2) Online Payment\n\n" +
+      "Please type *1* or *2*.",
+    options: paymentMethodOptions,
+  },
+  awaiting_payment_proof: {
+    state: "awaiting_payment_proof",
+    reply: paymentPendingReply,
+  },
+  awaiting_pickup_payment: {
+    state: "awaiting_pickup_payment",
+    reply: paymentPendingReply,
+  },
+};
+
+// draft order statuses a cart can be waiting in (payment states included)
+const DRAFT_ORDER_STATUSES = ["awaiting_customer_action", "awaiting_payment_proof"];
+
+export type AbandonedCartRow = {
+  id: string;
+  org_id: string;
+  customer_phone: string;
+  state: string | null;
+  items: any[];
+  item_count: number;
+  cart_total: number | null;
+  order_id: string | null;
+  last_activity_at: string | null;
+  abandoned_at: string;
+  status: "abandoned" | "reminding" | "reminded" | "recovered" | "skipped";
+  reminder_sent_at: string | null;
+  reminder_via: string | null;
+  reminder_error: string | null;
+  recovered_at: string | null;
+  recovered_order_id: string | null;
+};
+
+const OPEN_STATUSES = ["abandoned", "reminded"];
+// a skipped reminder doesn't stop the customer coming back on their own
+const RECOVERABLE_STATUSES = [...OPEN_STATUSES, "skipped"];
+
+function cartTotal(items: any[]): number {
+  return items.reduce(
+    (sum, it) => sum + (Number(it?.qty) || 0) * (Number(it?.price) || 0),
+    0
+  );
+}
+
+function cartLines(items: any[]): string[] {
+  return items.map((it) => {
+    const variant = it?.variant ? ` (${it.variant})` : "";
+    return `• ${it?.name || "Item"}${variant} x ${Number(it?.qty) || 1}`;
+  });
+}
+
+// ─────────────────────────────
+// Snapshot on expiry
+// ─────────────────────────────
+async function loadCartForSnapshot(
+  org_id: string,
+  from_phone: string
+): Promise<{ items: any[]; order_id: string | null }> {
+  const { data: temp } = await supa
+    .from("temp_selected_items")
+    .select("cart")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .maybeSingle();
+
+  const cart = Array.isArray(temp?.cart) ? temp!.cart : [];
+  if (cart.length) return { items: cart, order_id: null };
+
+  // confirmed but never finished (fulfillment / address / payment steps)
+  const { data: order } = await supa
+    .from("orders")
+    .select("id, items")
+    .eq("org_id", org_id)
+    .eq("source_phone", from_phone)
+    .in("status", DRAFT_ORDER_STATUSES)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (order?.id && Array.isArray(order.items) && order.items.length) {
+    return { items: order.items, order_id: order.id };
+  }
+
+  return { items: [], order_id: null };
+}
+
+export async function snapshotAbandonedCart(
+  org_id: string,
+  from_phone: string,
+  state: ConversationState,
+  lastActivityAt: string | null
+): Promise<AbandonedCartRow | null> {
+  const { items, order_id } = await loadCartForSnapshot(org_id, from_phone);
+  if (!items.length) return null;
+
+  const nowIso = new Date().toISOString();
+  const row = {
+    org_id,
+    customer_phone: from_phone,
+    state,
+    items,
+    item_count: items.length,
+    cart_total: cartTotal(items) || null,
+    order_id,
+    last_activity_at: lastActivityAt,
+    abandoned_at: nowIso,
+    status: "abandoned",
+  };
+
+  // one open cart per customer: a newer abandonment replaces the old one
+  const { data: open } = await supa
+    .from(TABLE)
+    .select("id")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .in("status", OPEN_STATUSES)
+    .order("abandoned_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = open?.id
+    ? await supa
+        .from(TABLE)
+        .update({ ...row, reminder_sent_at: null, reminder_via: null, reminder_error: null })
+        .eq("id", open.id)
+        .select("*")
+        .maybeSingle()
+    : await supa.from(TABLE).insert(row).select("*").maybeSingle();
+
+  if (error) {
+    console.warn("[CART][ABANDON] save err", error.message);
+    return null;
+  }
+
+  console.log("[CART][ABANDONED]", {
+    org_id,
+    from_phone,
+    state,
+    item_count: items.length,
+    order_id,
+  });
+
+  return (data as AbandonedCartRow) || null;
+}
+
+/**
+ * State outlived its TTL: keep the cart, then drop the state + scratch row so
+ * the customer's next message starts from idle.
+ */
+export async function expireConversationState(
+  org_id: string,
+  from_phone: string,
+  state: ConversationState,
+  updatedAt: string | null
+): Promise<void> {
+  console.log("[STATE][EXPIRED]", { org_id, from_phone, state, updatedAt });
+
+  try {
+    await snapshotAbandonedCart(org_id, from_phone, state, updatedAt);
+  } catch (e: any) {
+    console.warn("[CART][ABANDON] snapshot err", e?.message || e);
+  }
+
+  await clearState(org_id, from_phone);
+  await supa
+    .from("temp_selected_items")
+    .delete()
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone);
+}
+
+// Proactive expiry for customers who never come back
+export async function sweepExpiredStates(): Promise<number> {
+  const cutoff = new Date(Date.now() - SWEEP_MIN_AGE_MS).toISOString();
+
+  let expired = 0;
+  let offset = 0;
+
+  // oldest first; rows that aren't due (TTL 0 / longer TTL) stay in the set,
+  // so page past them instead of re-reading the same batch every tick
+  for (let page = 0; page < SWEEP_MAX_PAGES; page++) {
+    const { data: rows, error } = await supa
+      .from("ai_conversation_state")
+      .select("org_id, customer_phone, state, updated_at")
+      .lt("updated_at", cutoff)
+      .not("state", "is", null)
+      .neq("state", "idle")
+      .order("updated_at", { ascending: true })
+      .range(offset, offset + WORKER_BATCH - 1);
+
+    if (error) {
+      console.warn("[CART][SWEEP] load err", error.message);
+      break;
+    }
+
+    let kept = 0;
+    for (const r of rows || []) {
+      const state = r.state as ConversationState;
+      const ttl = await getStateTtlMinutes(r.org_id, state);
+      if (!ttl || Date.now() - new Date(r.updated_at).getTime() < ttl * 60_000) {
+        kept += 1;
+        continue;
+      }
+
+      // cleared → leaves the set, so the next page starts `kept` rows further
+      await expireConversationState(r.org_id, r.customer_phone, state, r.updated_at);
+      expired += 1;
+    }
+
+    if ((rows || []).length < WORKER_BATCH) break;
+    offset += kept;
+  }
+  return expired;
+}
+
+// ─────────────────────────────
+// Reminder
+// ─────────────────────────────
+// abandoned → reminding; false when another worker already has it
+async function claimCartForReminder(id: string): Promise<boolean> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .update({ status: "reminding" })
+    .eq("id", id)
+    .eq("status", "abandoned")
+    .select("id");
+
+  if (error) {
+    console.warn("[CART][REMIND] claim err", error.message);
+    return false;
+  }
+  return !!data?.length;
+}
+
+// only while we hold the claim
+async function markReminder(id: string, patch: Record<string, any>) {
+  const { error } = await supa
+    .from(TABLE)
+    .update(patch)
+    .eq("id", id)
+    .eq("status", "reminding");
+  if (error) console.warn("[CART][REMIND] update err", error.message);
+}
+
+function buildReminderText(cart: AbandonedCartRow, storeName: string | null): string {
+  const n = cart.item_count || cart.items.length;
+  return (
+    `🛒 You left ${n} item${n === 1 ? "" : "s"} in your cart` +
+    (storeName ? ` at *${storeName}*` : "") +
+    ":\n" +
+    cartLines(cart.items).join("\n") +
+    (cart.cart_total ? `\n\n💰 Total: ₹${Math.round(Number(cart.cart_total))}` : "") +
+    "\n\nReply *resume* to pick up where you left off."
+  );
+}
+
+export async function sendCartReminder(cart: AbandonedCartRow): Promise<boolean> {
+  if (!(await claimCartForReminder(cart.id))) {
+    console.log("[CART][REMIND][ALREADY_CLAIMED]", { id: cart.id });
+    return false;
+  }
+
+  try {
+    return await remindClaimedCart(cart);
+  } catch (e) {
+    // let the next tick retry it
+    await markReminder(cart.id, { status: "abandoned" });
+    throw e;
+  }
+}
+
+async function remindClaimedCart(cart: AbandonedCartRow): Promise<boolean> {
+  const { data: org } = await supa
+    .from("orgs")
+    .select(
+      "id, name, is_disabled, wa_phone_number_id, cart_reminders_enabled, cart_reminder_window_hours"
+    )
+    .eq("id", cart.org_id)
+    .maybeSingle();
+
+  const skip = async (reason: string) => {
+    await markReminder(cart.id, { status: "skipped", reminder_error: reason });
+    console.log("[CART][REMIND][SKIP]", { id: cart.id, reason });
+    return false;
+  };
+
+  if (!org) return skip("org_not_found");
+  if (org.is_disabled) return skip("org_disabled");
+  if (org.cart_reminders_enabled === false) return skip("reminders_disabled");
+
+  // counted from abandonment: a payment state can sit for two days before it
+  // expires, and Meta's 24h session is handled by the template fallback below
+  const windowHours = Number(org.cart_reminder_window_hours || DEFAULT_REMINDER_WINDOW_HOURS);
+  if (Date.now() - new Date(cart.abandoned_at).getTime() > windowHours * 60 * 60 * 1000) {
+    return skip("outside_window");
+  }
+
+  // customer already came back (new order, "resume"…) → nothing to remind
+  const lastInbound = await getLastInboundAt(cart.org_id, cart.customer_phone);
+  if (
+    lastInbound &&
+    cart.last_activity_at &&
+    lastInbound.getTime() > new Date(cart.last_activity_at).getTime()
+  ) {
+    return skip("customer_returned");
+  }
+
+  const text = buildReminderText(cart, org.name || null);
+  const target = await findCustomerChannel(cart.org_id, cart.customer_phone);
+
+  let sent = false;
+  let via: string | null = null;
+  let reason: string | undefined;
+
+  if (target.channel === "waba") {
+    if (!org.wa_phone_number_id) return skip("org_missing_wa_phone_number_id");
+
+    // free text inside Meta's 24h session, the 'cart_reminder' template outside it
+    const out = await sendWabaTemplate({
+      phoneNumberId: org.wa_phone_number_id,
+      to: cart.customer_phone,
+      orgId: cart.org_id,
+      purpose: "cart_reminder",
+      text,
+      vars: {
+        store_name: org.name || "",
+        cart_items: cart.items
+          .map((it) => `${Number(it?.qty) || 1}x ${it?.name || "Item"}`)
+          .join(", "),
+        order_total: cart.cart_total ? Math.round(Number(cart.cart_total)) : "",
+      },
+    });
+    sent = out.sent;
+    via = out.via;
+    reason = out.reason;
+  } else {
+    const out = await sendToCustomer({
+      orgId: cart.org_id,
+      customerKey: cart.customer_phone,
+      message: { text, senderType: "system" },
+    });
+    sent = out.ok;
+    via = out.channel || target.channel;
+    reason = out.error;
+  }
+
+  if (!sent) return skip(reason || "send_failed");
+
+  await markReminder(cart.id, {
+    status: "reminded",
+    reminder_sent_at: new Date().toISOString(),
+    reminder_via: via,
+    reminder_error: null,
+  });
+  console.log("[CART][REMIND][SENT]", { id: cart.id, via });
+  return true;
+}
+
+export async function sendDueCartReminders(): Promise<number> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .select("*")
+    .eq("status", "abandoned")
+    .is("reminder_sent_at", null)
+    .order("abandoned_at", { ascending: true })
+    .limit(WORKER_BATCH);
+
+  if (error) {
+    console.warn("[CART][REMIND] load err", error.message);
+    return 0;
+  }
+
+  let sent = 0;
+  for (const cart of (data || []) as AbandonedCartRow[]) {
+    try {
+      if (await sendCartReminder(cart)) sent += 1;
+    } catch (e: any) {
+      console.warn("[CART][REMIND] err", { id: cart.id, err: e?.message || e });
+    }
+  }
+  return sent;
+}
+
+// ─────────────────────────────
+// Recovery
+// ─────────────────────────────
+export async function markCartRecovered(
+  org_id: string,
+  from_phone: string,
+  order_id: string | null
+): Promise<void> {
+  const since = new Date(Date.now() - RECOVERY_ATTRIBUTION_MS).toISOString();
+
+  const { data: open } = await supa
+    .from(TABLE)
+    .select("id, status")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .in("status", RECOVERABLE_STATUSES)
+    .gte("abandoned_at", since)
+    .order("abandoned_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!open?.id) return;
+
+  const { error } = await supa
+    .from(TABLE)
+    .update({
+      status: "recovered",
+      recovered_at: new Date().toISOString(),
+      recovered_order_id: order_id,
+    })
+    .eq("id", open.id);
+
+  if (error) console.warn("[CART][RECOVERED] update err", error.message);
+  else console.log("[CART][RECOVERED]", { org_id, from_phone, cart_id: open.id, order_id });
+}
+
+// "resume" after a reminder → put the cart / draft order back
+export async function handleResumeCart(ctx: IngestContext): Promise<IngestResult | null> {
+  const { org_id, from_phone } = ctx;
+  const lower = (ctx.text || "").trim().toLowerCase();
+  if (!RESUME_WORDS.includes(lower)) return null;
+
+  const { data: cart } = await supa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .in("status", RECOVERABLE_STATUSES)
+    .order("abandoned_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!cart?.id || !Array.isArray(cart.items) || !cart.items.length) return null;
+
+  // draft order still waiting on the customer → continue at its step
+  if (cart.order_id) {
+    const { data: order } = await supa
+      .from("orders")
+      .select("id, status, razorpay_payment_link_url")
+      .eq("id", cart.order_id)
+      .maybeSingle();
+
+    const resume = RESUME_ORDER_PROMPTS[cart.state as ConversationState];
+    if (DRAFT_ORDER_STATUSES.includes(order?.status) && resume) {
+      await setState(org_id, from_phone, resume.state);
+      const reply = typeof resume.reply === "function" ? resume.reply(order) : resume.reply;
+      const ask =
+        resume.state === "awaiting_address"
+          ? await addressRequestPrompt(org_id, from_phone, reply)
+          : { reply, interactive: resume.options ? resume.options() : null };
+      return {
+        used: true,
+        kind: "order",
+        order_id: order.id,
+        reply: "👋 Welcome back! Let’s finish your order.\n\n" + ask.reply,
+        interactive: ask.interactive,
+      };
+    }
+  }
+
+  // cart never confirmed → restore it and show the confirm menu
+  const { error } = await supa.from("temp_selected_items").upsert(
+    {
+      org_id,
+      customer_phone: from_phone,
+      cart: cart.items,
+      item: null,
+      list: null,
+      updated_at: new Date().toISOString(),
+    } as any,
+    { onConflict: "org_id,customer_phone" }
+  );
+  if (error) {
+    console.warn("[CART][RESUME] restore err", error.message);
+    return null;
+  }
+
+  await setState(org_id, from_phone, "confirming_order");
+  return {
+    used: true,
+    kind: "order",
+    order_id: null,
+    reply: "👋 Welcome back! Here’s your cart.\n\n" + buildConfirmMenuForReply(cart.items),
+    interactive: confirmOrderOptions(),
+  };
+}
+
+// ─────────────────────────────
+// Stats
+// ─────────────────────────────
+export async function getCartRecoveryStats(
+  org_id: string,
+  fromIso: string,
+  toIso: string
+) {
+  const { data, error } = await supa
+    .from(TABLE)
+    .select("status, cart_total, reminder_sent_at, recovered_at")
+    .eq("org_id", org_id)
+    .gte("abandoned_at", fromIso)
+    .lte("abandoned_at", toIso);
+
+  if (error) throw error;
+
+  const rows = (data || []) as Pick<
+    AbandonedCartRow,
+    "status" | "cart_total" | "reminder_sent_at" | "recovered_at"
+  >[];
+
+  const abandoned = rows.length;
+  const reminded = rows.filter((r) => !!r.reminder_sent_at).length;
+  const recovered = rows.filter((r) => r.status === "recovered");
+  const recoveredAfterReminder = recovered.filter(
+    (r) => r.reminder_sent_at && r.recovered_at && r.recovered_at >= r.reminder_sent_at
+  ).length;
+  const skipped = rows.filter((r) => r.status === "skipped").length;
+
+  const sum = (list: typeof rows) =>
+    list.reduce((s, r) => s + (Number(r.cart_total) || 0), 0);
+  const rate = (n: number, d: number) => (d ? Math.round((n / d) * 1000) / 10 : 0);
+
+  return {
+    abandoned,
+    reminded,
+    skipped,
+    recovered: recovered.length,
+    recovered_after_reminder: recoveredAfterReminder,
+    recovery_rate_pct: rate(recovered.length, abandoned),
+    reminder_recovery_rate_pct: rate(recoveredAfterReminder, reminded),
+    abandoned_value: sum(rows),
+    recovered_value: sum(recovered),
+  };
+}
+
+// ─────────────────────────────
+// Worker: expire stale states + send due reminders
+// ─────────────────────────────
+let workerTimer: NodeJS.Timeout | null = null;
+let workerBusy = false;
+
+export async function processCartRecoveryOnce(): Promise<{ expired: number; reminded: number }> {
+  if (workerBusy) return { expired: 0, reminded: 0 };
+  workerBusy = true;
+  try {
+    const expired = await sweepExpiredStates();
+    const reminded = await sendDueCartReminders();
+    if (expired || reminded) {
+      console.log("[CART][WORKER]", { expired, reminded });
+    }
+    return { expired, reminded };
+  } catch (e: any) {
+    console.warn("[CART][WORKER] err", e?.message || e);
+    return { expired: 0, reminded: 0 };
+  } finally {
+    workerBusy = false;
+  }
+}
+
+export function startCartRecoveryWorker() {
+  if (workerTimer) return;
+  console.log("[CART][WORKER] started", { interval_ms: WORKER_INTERVAL_MS });
+  workerTimer = setInterval(() => {
+    processCartRecoveryOnce().catch(() => {});
+  }, WORKER_INTERVAL_MS);
+}
+
+export function stopCartRecoveryWorker() {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
@@ -0,0 +1,209 @@
+// src/ai/ingest/addressBook.ts
+import { supa } from "../../db";
+import { isDistinctAddressKey, normalizeAddressKey } from "../helpers/geocoder";
+import { numberedOptions } from "./replyOptions";
+import type { InteractiveReply } from "./types";
+
+/**
+ * Saved delivery addresses per customer ("home", "office") so regulars can
+ * pick one instead of typing it again.
+ *
+ * Table `customer_addresses`:
+ *   id uuid pk, org_id uuid, customer_phone text (digits only),
+ *   label text, address_text text, address_key text,
+ *   lat float8, lng float8, use_count int, last_used_at timestamptz,
+ *   created_at timestamptz; unique(org_id, customer_phone, address_key)
+ *
+ * An address is saved once the delivery details for an order are confirmed
+ * (addressEngine, end of the pin / skip step). "office: 5th floor, Tidel
+ * Park" saves it as *Office*; otherwise the first one is *Home*.
+ */
+
+const TABLE = "customer_addresses";
+const MAX_SAVED = 5;
+
+export type SavedAddress = {
+  id: string;
+  org_id: string;
+  customer_phone: string;
+  label: string | null;
+  address_text: string;
+  address_key: string;
+  lat: number | null;
+  lng: number | null;
+  use_count: number | null;
+  last_used_at: string | null;
+};
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+const LABEL_WORDS: Record<string, string> = {
+  home: "Home",
+  house: "Home",
+  office: "Office",
+  work: "Office",
+  other: "Other",
+};
+
+/** "Office: 5th floor, Tidel Park" → { label: "Office", text: "5th floor, Tidel Park" } */
+export function parseAddressLabel(raw: string): { label: string | null; text: string } {
+  const m = String(raw || "").match(/^\s*(home|house|office|work|other)\s*[:\-–]\s*(.+)$/is);
+  if (!m) return { label: null, text: String(raw || "").trim() };
+  return { label: LABEL_WORDS[m[1].toLowerCase()], text: m[2].trim() };
+}
+
+export async function listSavedAddresses(
+  org_id: string,
+  from_phone: string
+): Promise<SavedAddress[]> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("customer_phone", normalizePhone(from_phone))
+    .order("last_used_at", { ascending: false })
+    .limit(MAX_SAVED);
+
+  if (error) {
+    console.warn("[ADDR_BOOK][LIST_ERR]", error.message);
+    return [];
+  }
+  return (data || []) as SavedAddress[];
+}
+
+/**
+ * Upserts by normalised text: a known address just gets fresher coords /
+ * use count; a new one gets a label and pushes out the least recently used
+ * beyond MAX_SAVED.
+ */
+export async function saveCustomerAddress(
+  org_id: string,
+  from_phone: string,
+  addr: { text: string; lat?: number | null; lng?: number | null; label?: string | null }
+): Promise<SavedAddress | null> {
+  const phoneKey = normalizePhone(from_phone);
+  const address_key = normalizeAddressKey(addr.text);
+  if (!phoneKey || !isDistinctAddressKey(address_key)) return null;
+
+  try {
+    const { data: all } = await supa
+      .from(TABLE)
+      .select("*")
+      .eq("org_id", org_id)
+      .eq("customer_phone", phoneKey);
+
+    const rows = (all || []) as SavedAddress[];
+    const existing = rows.find((r) => r.address_key === address_key) || null;
+    const now = new Date().toISOString();
+
+    const label =
+      addr.label ||
+      existing?.label ||
+      (rows.some((r) => r.label === "Home") ? `Address ${rows.length + 1}` : "Home");
+
+    const { data, error } = await supa
+      .from(TABLE)
+      .upsert(
+        {
+          org_id,
+          customer_phone: phoneKey,
+          address_key,
+          address_text: addr.text.trim(),
+          label,
+          lat: addr.lat ?? existing?.lat ?? null,
+          lng: addr.lng ?? existing?.lng ?? null,
+          use_count: Number(existing?.use_count || 0) + 1,
+          last_used_at: now,
+          ...(existing ? {} : { created_at: now }),
+        },
+        { onConflict: "org_id,customer_phone,address_key" }
+      )
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.warn("[ADDR_BOOK][SAVE_ERR]", error.message);
+      return null;
+    }
+
+    // keep the book short – drop the stalest beyond MAX_SAVED
+    if (!existing && rows.length >= MAX_SAVED) {
+      const stale = [...rows]
+        .sort((a, b) => String(a.last_used_at || "").localeCompare(String(b.last_used_at || "")))
+        .slice(0, rows.length + 1 - MAX_SAVED);
+      for (const r of stale) {
+        await supa.from(TABLE).delete().eq("id", r.id);
+      }
+    }
+
+    console.log("[ADDR_BOOK][SAVED]", { org_id, phoneKey, label, isNew: !existing });
+    return (data as SavedAddress) || null;
+  } catch (e: any) {
+    console.warn("[ADDR_BOOK][SAVE_ERR]", e?.message || e);
+    return null;
+  }
+}
+
+function optionTitle(a: SavedAddress) {
+  return a.label || a.address_text;
+}
+
+/**
+ * The "where should we deliver?" prompt. With saved addresses:
+ * "1) Home … 2) Office … 3) New address"; otherwise the plain ask.
+ */
+export async function addressRequestPrompt(
+  org_id: string,
+  from_phone: string,
+  intro = "📍 Please send your delivery address."
+): Promise<{ reply: string; interactive: InteractiveReply | null }> {
+  const saved = await listSavedAddresses(org_id, from_phone);
+  if (!saved.length) return { reply: intro, interactive: null };
+
+  const lines = saved.map(
+    (a, i) => `${i + 1}) *${optionTitle(a)}* – ${a.address_text}`
+  );
+  lines.push(`${saved.length + 1}) New address`);
+
+  return {
+    reply:
+      "📍 Where should we deliver?\n" +
+      lines.join("\n") +
+      `\n\nReply with a number, or just send a new address.`,
+    interactive: numberedOptions([...saved.map(optionTitle), "New address"], {
+      button: "Choose address",
+      sectionTitle: "Saved addresses",
+    }),
+  };
+}
+
+const NEW_WORDS = ["new", "new address", "another", "another address", "different", "other address"];
+
+/**
+ * Reads the customer's answer to addressRequestPrompt: a number, a label
+ * ("home") or "new". null = not a choice (treat it as a typed address).
+ */
+export function pickSavedAddress(
+  saved: SavedAddress[],
+  text: string
+): { kind: "saved"; address: SavedAddress } | { kind: "new" } | null {
+  if (!saved.length) return null;
+
+  const t = String(text || "").trim().toLowerCase().replace(/[.)]+$/, "");
+  if (!t) return null;
+
+  if (/^\d{1,2}$/.test(t)) {
+    const n = Number(t);
+    if (n >= 1 && n <= saved.length) return { kind: "saved", address: saved[n - 1] };
+    if (n === saved.length + 1) return { kind: "new" };
+    return null;
+  }
+
+  if (NEW_WORDS.includes(t)) return { kind: "new" };
+
+  const label = (LABEL_WORDS[t] || t).toLowerCase();
+  const byLabel = saved.find((a) => (a.label || "").toLowerCase() === label);
+  if (byLabel) return { kind: "saved", address: byLabel };
+
+  return null;
+}
@@ -2,9 +2,17 @@
 import { supa } from "../../db";
 import { IngestContext, IngestResult, ConversationState } from "./types";
 import { setState, clearState } from "./stateManager";
-import axios from "axios"; // ⬅️ NEW
 import { detectMetaIntent } from "./metaIntent"; // ⬅️ NEW
 import { getAttempts, incAttempts, resetAttempts } from "./attempts"; // ⬅️ NEW
+import { paymentMethodOptions } from "./replyOptions";
+import { findDeliveryZone } from "./deliveryZones";
+import { geocodeAddress } from "../helpers/geocoder";
+import {
+  listSavedAddresses,
+  parseAddressLabel,
+  pickSavedAddress,
+  saveCustomerAddress,
+} from "./addressBook";
 // ─────────────────────────────────────────────
 // Address heuristic (same as your old version)
 // ─────────────────────────────────────────────
@@ -124,13 +132,22 @@ function haversineKm(
   return R * c;
 }
 
-type DeliveryQuote =
+type QuoteZone = {
+  id: string;
+  name: string;
+  matchedBy: "polygon" | "pincode";
+  minOrder: number | null;
+};
+
+export type DeliveryQuote =
   | {
       ok: true;
-      distanceKm: number;
+      distanceKm: number | null; // null when priced by a pincode zone without coords
       fee: number;
       freeKm: number | null;
       maxKm: number | null;
+      zone: QuoteZone | null;
+      etaMinutes: number | null;
       reason?: undefined;
     }
   | {
@@ -139,17 +156,22 @@ type DeliveryQuote =
       fee: number | null;
       freeKm: number | null;
       maxKm: number | null;
-      reason: "missing_coords" | "too_far" | "no_config";
+      zone: QuoteZone | null;
+      etaMinutes: number | null;
+      reason: "missing_coords" | "too_far" | "no_config" | "blocked_zone" | "below_min_order";
     };
 
 /**
  * Compute distance + fee based on org config.
- * NOTE: This expects BOTH store + customer coords to be present.
+ * Delivery zones (deliveryZones.ts) are checked first – by polygon on the
+ * coords, else by pincode in `addressText`; outside every zone we fall back
+ * to the store radius, which needs BOTH store + customer coords.
  */
-async function computeDeliveryQuote(
+export async function computeDeliveryQuote(
   org_id: string,
   customerLat: number | null,
-  customerLng: number | null
+  customerLng: number | null,
+  opts: { addressText?: string | null; orderTotal?: number | null } = {}
 ): Promise<DeliveryQuote> {
   const cfg = await getOrgConfig(org_id);
   if (!cfg) {
@@ -160,6 +182,8 @@ async function computeDeliveryQuote(
       fee: null,
       freeKm: null,
       maxKm: null,
+      zone: null,
+      etaMinutes: null,
     };
   }
 
@@ -171,12 +195,56 @@ async function computeDeliveryQuote(
   const maxKm =
     cfg.delivery_max_km != null ? Number(cfg.delivery_max_km) : null;
 
-  if (
-    storeLat == null ||
-    storeLng == null ||
-    customerLat == null ||
-    customerLng == null
-  ) {
+  const hasCoords =
+    storeLat != null &&
+    storeLng != null &&
+    customerLat != null &&
+    customerLng != null;
+
+  const distanceKm = hasCoords
+    ? haversineKm(
+        Number(storeLat),
+        Number(storeLng),
+        Number(customerLat),
+        Number(customerLng)
+      )
+    : null;
+
+  // 1) zones
+  const match = await findDeliveryZone(org_id, {
+    lat: customerLat,
+    lng: customerLng,
+    addressText: opts.addressText,
+  });
+
+  if (match) {
+    const z = match.zone;
+    const zone: QuoteZone = {
+      id: z.id,
+      name: z.name,
+      matchedBy: match.matchedBy,
+      minOrder: z.min_order != null ? Number(z.min_order) : null,
+    };
+    const etaMinutes = z.eta_minutes != null ? Number(z.eta_minutes) : null;
+    const fee = z.fee != null ? Number(z.fee) : 0;
+
+    console.log("[ADDR][QUOTE_ZONE]", { org_id, zone, blocked: !!z.blocked, fee, distanceKm });
+
+    if (z.blocked) {
+      return { ok: false, reason: "blocked_zone", distanceKm, fee: null, freeKm, maxKm, zone, etaMinutes: null };
+    }
+    if (
+      zone.minOrder != null &&
+      opts.orderTotal != null &&
+      Number(opts.orderTotal) < zone.minOrder
+    ) {
+      return { ok: false, reason: "below_min_order", distanceKm, fee, freeKm, maxKm, zone, etaMinutes };
+    }
+    return { ok: true, distanceKm, fee, freeKm, maxKm, zone, etaMinutes };
+  }
+
+  // 2) radius fallback
+  if (distanceKm == null) {
     // We can't compute distance right now (no coords or no geocoding)
     return {
       ok: false,
@@ -185,16 +253,11 @@ async function computeDeliveryQuote(
       fee: null,
       freeKm,
       maxKm,
+      zone: null,
+      etaMinutes: null,
     };
   }
 
-  const distanceKm = haversineKm(
-    Number(storeLat),
-    Number(storeLng),
-    Number(customerLat),
-    Number(customerLng)
-  );
-
   console.log("[ADDR][QUOTE_RAW]", {
     org_id,
     storeLat,
@@ -215,6 +278,8 @@ async function computeDeliveryQuote(
       fee: null,
       freeKm,
       maxKm,
+      zone: null,
+      etaMinutes: null,
     };
   }
 
@@ -258,62 +323,87 @@ async function computeDeliveryQuote(
     fee,
     freeKm,
     maxKm,
+    zone: null,
+    etaMinutes: null,
   };
 }
 
-/**
- * Geocoding via Google Maps.
- * Uses process.env.GOOGLE_MAPS_API_KEY
- */
-async function geocodeAddressToLatLng(
-  address: string
-): Promise<{ lat: number; lng: number } | null> {
-  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-  if (!apiKey) {
-    console.warn("[ADDR][GEOCODE] GOOGLE_MAPS_API_KEY missing");
-    return null;
-  }
-
-  const url = "https://maps.googleapis.com/maps/api/geocode/json";
-
-  try {
-    console.log("[ADDR][GEOCODE_REQ]", { address });
+// Small helpers
 
-    const resp = await axios.get(url, {
-      params: {
-        address,
-        key: apiKey,
-      },
-    });
+// Delivery details confirmed → keep the address in the customer's address book
+async function rememberConfirmedAddress(
+  org_id: string,
+  from_phone: string,
+  order: OrderRow,
+  lat: number | null,
+  lng: number | null
+) {
+  const text = (order.delivery_address_text || "").trim();
+  if (!text) return;
+
+  // label typed with the address ("office: …"); tolerate the column missing
+  const { data } = await supa
+    .from("orders")
+    .select("delivery_address_label")
+    .eq("id", order.id)
+    .maybeSingle();
 
-    const data = resp.data;
+  await saveCustomerAddress(org_id, from_phone, {
+    text,
+    lat,
+    lng,
+    label: (data as any)?.delivery_address_label || null,
+  });
+}
 
-    if (data.status !== "OK" || !data.results || data.results.length === 0) {
-      console.warn("[ADDR][GEOCODE_NO_RESULT]", {
-        status: data.status,
-        address,
-      });
-      return null;
-    }
+// Address we can't deliver to → message (caller goes back to awaiting_address)
+function quoteRejectReply(
+  quote: DeliveryQuote,
+  what: "address" | "location",
+  orderTotal: number | null
+): string | null {
+  if (quote.ok) return null;
+
+  if (quote.reason === "too_far") {
+    const distStr =
+      quote.distanceKm != null
+        ? `${quote.distanceKm.toFixed(1)} km`
+        : "too far";
+    const maxStr =
+      quote.maxKm != null
+        ? `${quote.maxKm.toFixed(1)} km`
+        : "the allowed radius";
+
+    return (
+      `This ${what} appears to be about ${distStr} from the store.\n` +
+      `We currently deliver only within ${maxStr}.\n\n` +
+      "Please send a closer delivery address."
+    );
+  }
 
-    const loc = data.results[0]?.geometry?.location;
-    if (!loc || typeof loc.lat !== "number" || typeof loc.lng !== "number") {
-      console.warn("[ADDR][GEOCODE_BAD_LOCATION]", { address, loc });
-      return null;
-    }
+  if (quote.reason === "blocked_zone") {
+    return (
+      `Sorry, we don’t deliver to *${quote.zone?.name || "this area"}* right now.\n\n` +
+      "Please send a different delivery address."
+    );
+  }
 
-    console.log("[ADDR][GEOCODE_OK]", { address, lat: loc.lat, lng: loc.lng });
-    return { lat: loc.lat, lng: loc.lng };
-  } catch (err: any) {
-    console.error(
-      "[ADDR][GEOCODE_ERR]",
-      err?.response?.data || err?.message || err
+  if (quote.reason === "below_min_order") {
+    const min = quote.zone?.minOrder ?? 0;
+    const cur = orderTotal != null ? ` (your order is ₹${orderTotal.toFixed(0)})` : "";
+    return (
+      `Orders to *${quote.zone?.name || "this area"}* need a minimum of *₹${min.toFixed(0)}*${cur}.\n\n` +
+      "Please send a different delivery address, or type *back* to change your order."
     );
-    return null;
   }
+
+  return null;
+}
+
+function formatEtaLine(quote: DeliveryQuote): string {
+  return quote.etaMinutes ? `\n⏱️ Estimated delivery: ~${quote.etaMinutes} min` : "";
 }
 
-// Small helpers
 function formatFeeLine(fee: number | null | undefined): string {
   if (fee == null) {
     return "🚚 Delivery fee: will be confirmed by the store.";
@@ -378,6 +468,65 @@ export async function handleAddress(
       };
     }
 
+    // 📒 Answer to the address book prompt ("1) Home 2) Office 3) New address")
+    const pick =
+      locLat == null && locLng == null
+        ? pickSavedAddress(await listSavedAddresses(org_id, from_phone), msg)
+        : null;
+
+    if (pick?.kind === "new") {
+      await setState(org_id, from_phone, "awaiting_address");
+      return {
+        used: true,
+        kind: "order",
+        order_id: null,
+        reply:
+          "📍 Please send your new delivery address (flat/door no, building, street, area, city, pincode if you know).\n" +
+          "Tip: start with *office:* or *home:* to save it under that name.",
+      };
+    }
+
+    if (pick?.kind === "saved") {
+      const order = await getLatestPendingOrder(org_id, from_phone);
+      if (!order) {
+        await clearState(org_id, from_phone);
+        return {
+          used: true,
+          kind: "order",
+          reply:
+            "⚠️ I couldn't find an active order.\nPlease type the item name to start a new order.",
+          order_id: null,
+        };
+      }
+
+      const saved = pick.address;
+      const { error: updErr } = await supa
+        .from("orders")
+        .update({
+          shipping_address: saved.address_text,
+          delivery_address_text: saved.address_text,
+          delivery_address_label: saved.label,
+          delivery_lat: saved.lat,
+          delivery_lng: saved.lng,
+        } as any)
+        .eq("id", order.id);
+
+      console.log("[ADDR][USE_SAVED_ADDRESS]", {
+        order_id: order.id,
+        updErr,
+        label: saved.label,
+      });
+
+      await resetAttempts(org_id, from_phone);
+      await setState(org_id, from_phone, "awaiting_location_pin");
+
+      // same as "skip": quote from the saved coords (or geocode the text)
+      return await handleAddress(
+        { ...ctx, text: "skip", location_lat: null, location_lng: null },
+        "awaiting_location_pin"
+      );
+    }
+
     // No text at all → ask again (even if they sent only pin)
     if (!msg && locLat == null && locLng == null) {
       await setState(org_id, from_phone, "awaiting_address");
@@ -450,7 +599,8 @@ export async function handleAddress(
       };
     }
 
-    const addressText = msg;
+    // "office: 5th floor, Tidel Park" → saved as Office once confirmed
+    const { label: addressLabel, text: addressText } = parseAddressLabel(msg);
 
     // Save address text; don't compute fee yet
     const { error: updErr } = await supa
@@ -458,7 +608,10 @@ export async function handleAddress(
       .update({
         shipping_address: addressText,
         delivery_address_text: addressText,
-        // we will fill lat/lng + fee in the next step
+        delivery_address_label: addressLabel,
+        // we will fill lat/lng + fee in the next step (clear any from an earlier address)
+        delivery_lat: null,
+        delivery_lng: null,
       } as any)
       .eq("id", order.id);
 
@@ -527,7 +680,7 @@ export async function handleAddress(
 
       // If we don't already have coords, try geocoding
       if (finalLat == null || finalLng == null) {
-        const geo = await geocodeAddressToLatLng(addr);
+        const geo = await geocodeAddress(org_id, addr);
         if (geo) {
           finalLat = geo.lat;
           finalLng = geo.lng;
@@ -540,7 +693,10 @@ export async function handleAddress(
         finalLng,
       });
 
-      const quote = await computeDeliveryQuote(org_id, finalLat, finalLng);
+      const quote = await computeDeliveryQuote(org_id, finalLat, finalLng, {
+        addressText: addr,
+        orderTotal: totalNum,
+      });
 
       let deliveryFee: number | null = null;
       let distanceKm: number | null = null;
@@ -552,26 +708,15 @@ export async function handleAddress(
         deliveryStatus = "confirmed";
       }
 
-      // If too far → reject and go back to address step
-      if (!quote.ok && quote.reason === "too_far") {
-        const distStr =
-          quote.distanceKm != null
-            ? `${quote.distanceKm.toFixed(1)} km`
-            : "too far";
-        const maxStr =
-          quote.maxKm != null
-            ? `${quote.maxKm.toFixed(1)} km`
-            : "the allowed radius";
-
+      // Too far / no-delivery zone / under the zone minimum → back to address step
+      const rejectReply = quoteRejectReply(quote, "address", totalNum);
+      if (rejectReply) {
         await setState(org_id, from_phone, "awaiting_address");
 
         return {
           used: true,
           kind: "order",
-          reply:
-            `This address appears to be about ${distStr} from the store.\n` +
-            `We currently deliver only within ${maxStr}.\n\n` +
-            "Please send a closer delivery address.",
+          reply: rejectReply,
           order_id: order.id,
         };
       }
@@ -584,6 +729,8 @@ export async function handleAddress(
           delivery_lng: finalLng,
           delivery_distance_km: distanceKm,
           delivery_fee: deliveryFee,
+          delivery_zone_id: quote.ok ? quote.zone?.id ?? null : null,
+          delivery_eta_minutes: quote.ok ? quote.etaMinutes : null,
           delivery_type: "delivery",
           delivery_status: deliveryStatus,
         } as any)
@@ -595,7 +742,9 @@ export async function handleAddress(
         quote,
       });
 
-      const feeLine = formatFeeLine(deliveryFee);
+      await rememberConfirmedAddress(org_id, from_phone, order, finalLat, finalLng);
+
+      const feeLine = formatFeeLine(deliveryFee) + formatEtaLine(quote);
       const totalLine =
         totalNum != null
           ? `\n💰 Order total (items): *₹${totalNum.toFixed(0)}*`
@@ -619,6 +768,7 @@ export async function handleAddress(
             "1) Cash\n" +
             "2) Online Payment\n\n" +
             "Please type *1* or *2*.",
+          interactive: paymentMethodOptions(),
           order_id: order.id,
         };
       }
@@ -640,6 +790,7 @@ export async function handleAddress(
           "1) Cash\n" +
           "2) Online Payment\n\n" +
           "Please type *1* or *2*.",
+        interactive: paymentMethodOptions(),
         order_id: order.id,
       };
     }
@@ -647,28 +798,20 @@ export async function handleAddress(
     // 2.b) User sends location pin (lat/lng present)
     if (locLat != null && locLng != null) {
       console.log("[ADDR][PIN_STAGE_HAS_LOCATION]", { locLat, locLng });
-      const quote = await computeDeliveryQuote(org_id, locLat, locLng);
-
-      // If too far → reject and go back to address step
-      if (!quote.ok && quote.reason === "too_far") {
-        const distStr =
-          quote.distanceKm != null
-            ? `${quote.distanceKm.toFixed(1)} km`
-            : "too far";
-        const maxStr =
-          quote.maxKm != null
-            ? `${quote.maxKm.toFixed(1)} km`
-            : "the allowed radius";
+      const quote = await computeDeliveryQuote(org_id, locLat, locLng, {
+        addressText: addr,
+        orderTotal: totalNum,
+      });
 
+      // Too far / no-delivery zone / under the zone minimum → back to address step
+      const rejectReply = quoteRejectReply(quote, "location", totalNum);
+      if (rejectReply) {
         await setState(org_id, from_phone, "awaiting_address");
 
         return {
           used: true,
           kind: "order",
-          reply:
-            `This location appears to be about ${distStr} from the store.\n` +
-            `We currently deliver only within ${maxStr}.\n\n` +
-            "Please send a closer delivery address.",
+          reply: rejectReply,
           order_id: order.id,
         };
       }
@@ -690,6 +833,8 @@ export async function handleAddress(
           delivery_lng: locLng,
           delivery_distance_km: distanceKm,
           delivery_fee: deliveryFee,
+          delivery_zone_id: quote.ok ? quote.zone?.id ?? null : null,
+          delivery_eta_minutes: quote.ok ? quote.etaMinutes : null,
           delivery_type: "delivery",
           delivery_status: deliveryStatus,
         } as any)
@@ -701,7 +846,9 @@ export async function handleAddress(
         quote,
       });
 
-      const feeLine = formatFeeLine(deliveryFee);
+      await rememberConfirmedAddress(org_id, from_phone, order, locLat, locLng);
+
+      const feeLine = formatFeeLine(deliveryFee) + formatEtaLine(quote);
       const totalLine =
         totalNum != null
           ? `\n💰 Order total (items): *₹${totalNum.toFixed(0)}*`
@@ -729,6 +876,7 @@ export async function handleAddress(
             "1) Cash\n" +
             "2) Online Payment\n\n" +
             "Please type *1* or *2*.",
+          interactive: paymentMethodOptions(),
           order_id: order.id,
         };
       }
@@ -751,6 +899,7 @@ export async function handleAddress(
           "1) Cash\n" +
           "2) Online Payment\n\n" +
           "Please type *1* or *2*.",
+        interactive: paymentMethodOptions(),
         order_id: order.id,
       };
     }
@@ -2,8 +2,9 @@
 
 import { supa } from "../../db";
 import { IngestContext, IngestResult } from "./types";
-
-const CANCELLABLE = ["pending", "accepted", "preparing"];
+import { ensureOrderRef, findOrderByNumber, parseOrderRef } from "../../order/orderNumbers";
+import { customerCanCancel, recordOrderEvent, transitionOrderStatus } from "../../order/orderLifecycle";
+import { emitOrderEvent } from "../../routes/realtimeOrders";
 
 export async function handleCancel(
   ctx: IngestContext
@@ -11,35 +12,79 @@ export async function handleCancel(
   const { org_id, from_phone } = ctx;
 
   // ─────────────────────────────────────────────
-  // Get most recent order
+  // "cancel 142" → that order, else the most recent one
   // ─────────────────────────────────────────────
-  const { data: order } = await supa
-    .from("orders")
-    .select("id, status, created_at")
-    .eq("org_id", org_id)
-    .eq("source_phone", from_phone)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
+  const ref = parseOrderRef(ctx.text);
+  const order = ref
+    ? await findOrderByNumber(org_id, ref, {
+        phone: from_phone,
+        select: "id, order_number, status, payment_status, created_at",
+      })
+    : (
+        await supa
+          .from("orders")
+          .select("id, order_number, status, payment_status, created_at")
+          .eq("org_id", org_id)
+          .eq("source_phone", from_phone)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      ).data;
 
   if (!order) {
     return {
       used: true,
       kind: "cancel",
-      reply: "You have no active orders to cancel.",
+      reply: ref
+        ? `🔎 We couldn't find order *#${ref}* on this number.`
+        : "You have no active orders to cancel.",
       order_id: null,
     };
   }
 
+  const orderRef = await ensureOrderRef(org_id, order);
+
+  // ─────────────────────────────────────────────
+  // Paid → refund involved, hand it to the store
+  // ─────────────────────────────────────────────
+  if (order.payment_status === "paid" && customerCanCancel(order.status)) {
+    await recordOrderEvent({
+      org_id,
+      order_id: order.id,
+      from_status: order.status,
+      to_status: order.status,
+      actor: { type: "customer", id: from_phone },
+      source: "chat",
+      reason: "customer_cancel_requested",
+      meta: { payment_status: order.payment_status },
+    });
+    emitOrderEvent(org_id, "order_cancel_requested", {
+      order_id: order.id,
+      order_number: order.order_number ?? null,
+      status: order.status,
+      payment_status: order.payment_status,
+      customer_phone: from_phone,
+    });
+
+    return {
+      used: true,
+      kind: "cancel",
+      reply:
+        `💳 Order #${orderRef} is already paid, so the store has to cancel it and arrange your refund.\n` +
+        "We've passed your request on – they'll get back to you here.",
+      order_id: order.id,
+    };
+  }
+
   // ─────────────────────────────────────────────
   // Check if order is cancellable
   // ─────────────────────────────────────────────
-  if (!CANCELLABLE.includes(order.status)) {
+  if (!customerCanCancel(order.status, order.payment_status)) {
     return {
       used: true,
       kind: "cancel",
       reply:
-        `❌ Order #${order.id} cannot be cancelled now.\n` +
+        `❌ Order #${orderRef} cannot be cancelled now.\n` +
         `Current status: *${order.status.toUpperCase()}*`,
       order_id: order.id,
     };
@@ -48,19 +93,35 @@ export async function handleCancel(
   // ─────────────────────────────────────────────
   // Update DB → cancel order
   // ─────────────────────────────────────────────
-  await supa
-    .from("orders")
-    .update({
-      status: "cancelled",
-      cancelled_at: new Date().toISOString(),
-    })
-    .eq("id", order.id);
+  const moved = await transitionOrderStatus({
+    org_id,
+    order_id: order.id,
+    to: "cancelled",
+    actor: { type: "customer", id: from_phone },
+    source: "chat",
+    reason: "customer_cancel",
+    patch: { cancelled_at: new Date().toISOString() },
+    // a payment landing meanwhile makes it the store's call
+    where: { payment_status: order.payment_status ?? null },
+  });
+
+  // the store moved it on (or it got paid) while we were looking
+  if ("error" in moved) {
+    return {
+      used: true,
+      kind: "cancel",
+      reply:
+        `❌ Order #${orderRef} cannot be cancelled now.\n` +
+        "Type *status* to see where it is.",
+      order_id: order.id,
+    };
+  }
 
   return {
     used: true,
     kind: "cancel",
     reply:
-      `🛑 Your order #${order.id} has been *cancelled*.\n` +
+      `🛑 Your order #${orderRef} has been *cancelled*.\n` +
       `If you want to order again, just type the item name.`,
     order_id: order.id,
   };
@@ -0,0 +1,176 @@
+// src/ai/ingest/deliveryZones.ts
+import { supa } from "../../db";
+
+/**
+ * Delivery zones – neighbourhoods / pincodes with their own fee, minimum
+ * order and ETA. computeDeliveryQuote (addressEngine) checks them before the
+ * old store-radius pricing; a point outside every zone falls back to radius.
+ *
+ * Table `delivery_zones`:
+ *   id uuid pk, org_id uuid, name text,
+ *   polygon jsonb        GeoJSON Polygon / MultiPolygon (or a Feature of one),
+ *                        coordinates are [lng, lat]
+ *   pincodes text[]      matched against a 6-digit pincode in the address text
+ *   fee numeric, min_order numeric, eta_minutes int,
+ *   blocked bool         "we don't deliver here" (e.g. across the river)
+ *   priority int         higher wins when zones overlap (blocked always wins)
+ *   is_active bool default true, created_at, updated_at
+ *
+ * A zone needs a polygon, pincodes or both. Polygons are matched on the
+ * customer's coordinates, pincodes only when there's no polygon hit.
+ * The matched zone is kept on the order (orders.delivery_zone_id,
+ * orders.delivery_eta_minutes).
+ */
+
+export type DeliveryZone = {
+  id: string;
+  org_id: string;
+  name: string;
+  polygon: any | null;
+  pincodes: string[] | null;
+  fee: number | null;
+  min_order: number | null;
+  eta_minutes: number | null;
+  blocked: boolean | null;
+  priority: number | null;
+  is_active: boolean | null;
+};
+
+export type ZoneMatch = {
+  zone: DeliveryZone;
+  matchedBy: "polygon" | "pincode";
+};
+
+type Ring = [number, number][];
+
+// ─────────────────────────────
+// Geometry
+// ─────────────────────────────
+
+// ray casting; ring is [lng, lat][]
+function pointInRing(lng: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// first ring is the outline, the rest are holes
+function pointInPolygonRings(lng: number, lat: number, rings: Ring[]): boolean {
+  if (!rings.length || !pointInRing(lng, lat, rings[0])) return false;
+  return !rings.slice(1).some((hole) => pointInRing(lng, lat, hole));
+}
+
+function polygonsOf(geo: any): Ring[][] {
+  if (!geo || typeof geo !== "object") return [];
+  if (geo.type === "Feature") return polygonsOf(geo.geometry);
+  if (geo.type === "Polygon") return [geo.coordinates || []];
+  if (geo.type === "MultiPolygon") return geo.coordinates || [];
+  return [];
+}
+
+export function pointInGeoJson(lat: number, lng: number, geo: any): boolean {
+  return polygonsOf(geo).some((rings) => pointInPolygonRings(lng, lat, rings));
+}
+
+/** Checks a zone polygon payload (admin routes). Returns an error code or null. */
+export function validateZonePolygon(geo: any): string | null {
+  const polys = polygonsOf(geo);
+  if (!polys.length) return "polygon_must_be_geojson_polygon";
+
+  for (const rings of polys) {
+    if (!Array.isArray(rings) || !rings.length) return "polygon_empty";
+    for (const ring of rings) {
+      if (!Array.isArray(ring) || ring.length < 4) return "polygon_ring_too_short";
+      const bad = ring.some(
+        (p: any) =>
+          !Array.isArray(p) ||
+          !Number.isFinite(Number(p[0])) ||
+          !Number.isFinite(Number(p[1])) ||
+          Math.abs(Number(p[0])) > 180 ||
+          Math.abs(Number(p[1])) > 90
+      );
+      if (bad) return "polygon_bad_coordinate";
+    }
+  }
+  return null;
+}
+
+// ─────────────────────────────
+// Pincodes
+// ─────────────────────────────
+
+/** Last 6-digit group in the address ("… Chennai 600 040" works too). */
+export function extractPincode(text: string | null | undefined): string | null {
+  const compact = String(text || "").replace(/(\d{3})\s+(\d{3})\b/g, "$1$2");
+  const all = compact.match(/\b\d{6}\b/g);
+  return all ? all[all.length - 1] : null;
+}
+
+export function normalizePincodes(raw: any): string[] {
+  const list = Array.isArray(raw) ? raw : String(raw || "").split(/[\s,]+/);
+  return Array.from(
+    new Set(list.map((p: any) => String(p).replace(/\s+/g, "")).filter((p) => /^\d{6}$/.test(p)))
+  );
+}
+
+// ─────────────────────────────
+// Lookup
+// ─────────────────────────────
+
+export async function listDeliveryZones(
+  org_id: string,
+  opts: { activeOnly?: boolean } = {}
+): Promise<DeliveryZone[]> {
+  let q = supa.from("delivery_zones").select("*").eq("org_id", org_id);
+  if (opts.activeOnly) q = q.eq("is_active", true);
+
+  const { data, error } = await q;
+  if (error) {
+    console.warn("[ZONES][LIST_ERR]", error.message);
+    return [];
+  }
+  return (data || []) as DeliveryZone[];
+}
+
+function byPriority(a: DeliveryZone, b: DeliveryZone) {
+  if (!!a.blocked !== !!b.blocked) return a.blocked ? -1 : 1;
+  return Number(b.priority || 0) - Number(a.priority || 0);
+}
+
+/** Pure matcher – polygon hits first, then pincode. */
+export function matchZone(
+  zones: DeliveryZone[],
+  point: { lat: number | null; lng: number | null; addressText?: string | null }
+): ZoneMatch | null {
+  const sorted = zones.filter((z) => z.is_active !== false).sort(byPriority);
+
+  if (point.lat != null && point.lng != null) {
+    const lat = Number(point.lat);
+    const lng = Number(point.lng);
+    const hit = sorted.find((z) => z.polygon && pointInGeoJson(lat, lng, z.polygon));
+    if (hit) return { zone: hit, matchedBy: "polygon" };
+  }
+
+  const pin = extractPincode(point.addressText);
+  if (pin) {
+    const hit = sorted.find((z) => (z.pincodes || []).includes(pin));
+    if (hit) return { zone: hit, matchedBy: "pincode" };
+  }
+
+  return null;
+}
+
+export async function findDeliveryZone(
+  org_id: string,
+  point: { lat: number | null; lng: number | null; addressText?: string | null }
+): Promise<ZoneMatch | null> {
+  const zones = await listDeliveryZones(org_id, { activeOnly: true });
+  if (!zones.length) return null;
+  return matchZone(zones, point);
+}
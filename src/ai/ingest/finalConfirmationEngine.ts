@@ -5,6 +5,23 @@ import type { IngestContext, IngestResult, ConversationState } from "./types";
 import { setState, clearState } from "./stateManager";
 import { resetAttempts } from "./attempts";
 import { emitNewOrder } from "../../routes/realtimeOrders";
+import { buildOrderRawText } from "./voiceNotes";
+import { markCartRecovered } from "./abandonedCarts";
+import { applyScheduleToNewOrder } from "./scheduleEngine";
+import { addressRequestPrompt } from "./addressBook";
+import { assignOrderNumber } from "../../order/orderNumbers";
+import { recordOrderCreated } from "../../order/orderLifecycle";
+import { refreshOrderTax } from "../../order/gstInvoice";
+import {
+  applyPendingPromoToOrder,
+  previewCartPromo,
+  type PromoEvaluation,
+} from "./promoEngine";
+import {
+  confirmOrderOptions,
+  editOrderOptions,
+  fulfillmentOptions,
+} from "./replyOptions";
 type CartLine = {
   product_id: string | number;
   name: string;
@@ -26,8 +43,8 @@ type TempRow = {
 // DB helpers (local copy, same table as orderEngine)
 // ─────────────────────────────────────────────
 
-function buildConfirmMenu(cart: CartLine[]): string {
-  const { text: cartText } = formatCart(cart);
+function buildConfirmMenu(cart: CartLine[], promo?: PromoEvaluation | null): string {
+  const { text: cartText } = formatCart(cart, promo);
   return (
     "🧺 Your cart:\n" +
     cartText +
@@ -114,7 +131,11 @@ function computeTotal(cart: CartLine[]): number {
   }, 0);
 }
 
-function formatCart(cart: CartLine[]): { text: string; total: number } {
+function formatCart(
+  cart: CartLine[],
+  promo?: PromoEvaluation | null,
+  tax = 0
+): { text: string; total: number } {
   if (!cart.length) {
     return { text: "Cart is empty.", total: 0 };
   }
@@ -131,7 +152,17 @@ function formatCart(cart: CartLine[]): { text: string; total: number } {
   });
 
   const total = computeTotal(cart);
-  const totalLine = total > 0 ? `\n\n💰 Total: ${total}` : "";
+  let totalLine = total > 0 ? `\n\n💰 Total: ${total}` : "";
+
+  // pending / applied promo code, GST on top → subtotal, adjustments, net total
+  const discount = promo?.ok && promo.discount > 0 ? promo.discount : 0;
+  if ((discount > 0 || tax > 0) && total > 0) {
+    totalLine =
+      `\n\n💰 Subtotal: ${total}` +
+      (promo?.ok && discount > 0 ? `\n🏷️ ${promo.code}: −${discount}` : "") +
+      (tax > 0 ? `\n🧾 GST: +${tax}` : "") +
+      `\n💰 Total: ${Math.max(0, total - discount) + tax}`;
+  }
 
   return {
     text: lines.join("\n") + totalLine,
@@ -197,19 +228,28 @@ export async function handleFinalConfirmation(
       return {
         used: true,
         kind: "order",
-        reply: buildConfirmMenu(cart),
+        reply: buildConfirmMenu(cart, await previewCartPromo(org_id, from_phone, cart)),
+        interactive: confirmOrderOptions(),
         order_id: null,
       };
     }
 
     // 1) CONFIRM ORDER → create order in DB
     if (choice === 1) {
-      const { text: cartText, total } = formatCart(cart);
+      const { total } = formatCart(cart);
+
+      // voice-note orders keep the transcript + audio
+      const { raw_text, audio_url } = await buildOrderRawText(
+        org_id,
+        from_phone,
+        ctx.text || ""
+      );
 
       const orderPayload = {
         org_id,
         source_phone: from_phone,
-        raw_text: ctx.text || "",
+        raw_text,
+        audio_url,
         items: cart,
         // ✅ Customer must still choose payment / complete payment
         status: "awaiting_customer_action",      
@@ -240,6 +280,30 @@ export async function handleFinalConfirmation(
         };
       }
 
+      // "KS-0142" – what the customer and the store will call this order
+      const orderNumber = await assignOrderNumber(org_id, saved.id);
+      await recordOrderCreated({
+        org_id,
+        order_id: saved.id,
+        status: "awaiting_customer_action",
+        actor: { type: "customer", id: from_phone },
+        source: "chat",
+        reason: "order_confirmed",
+        order: { ...orderPayload, id: saved.id, order_number: orderNumber },
+      });
+
+      // came back after abandoning a cart → count it as recovered
+      await markCartRecovered(org_id, from_phone, saved.id);
+
+      // requested slot ("tomorrow 8am") / after hours → next open slot
+      const schedule = await applyScheduleToNewOrder(org_id, from_phone, saved.id);
+
+      // "apply WELCOME10" typed earlier → discount on the order
+      const promo = await applyPendingPromoToOrder(org_id, from_phone, saved.id, cart);
+      // tax-exclusive org → GST on top (delivery fee's share comes at payment)
+      const tax = await refreshOrderTax(org_id, saved.id);
+      const { text: cartText } = formatCart(cart, promo?.evaluation, tax);
+
       // Reset cart + reset attempts for next step
       await clearCart(org_id, from_phone);
       await resetAttempts(org_id, from_phone);
@@ -262,20 +326,42 @@ export async function handleFinalConfirmation(
 
       await setState(org_id, from_phone, nextState);
 
+      const addressAsk =
+        nextState === "awaiting_address"
+          ? await addressRequestPrompt(org_id, from_phone)
+          : null;
+
       return {
         used: true,
         kind: "order",
         order_id: saved.id,
         reply:
           "✅ *Order confirmed!*\n\n" +
+          (orderNumber ? `🧾 Order *#${orderNumber}*\n\n` : "") +
           cartText +
           "\n\n" +
+          (promo && !promo.evaluation.ok ? `${promo.line}\n\n` : "") +
+          (schedule ? `${schedule.line}\n\n` : "") +
           (nextState === "awaiting_fulfillment"
             ? "How would you like to receive your order?\n" +
               "1) Store Pickup\n" +
               "2) Home Delivery\n\n" +
               "Please type *1* or *2*."
-            : "📍 Please send your delivery address."),
+            : addressAsk!.reply),
+        interactive:
+          nextState === "awaiting_fulfillment"
+            ? fulfillmentOptions()
+            : addressAsk!.interactive,
+        meta:
+          schedule || promo || orderNumber
+            ? {
+                ...(orderNumber ? { order_number: orderNumber } : {}),
+                ...(schedule
+                  ? { scheduled_for: schedule.scheduled_for, schedule_line: schedule.line }
+                  : {}),
+                ...(promo ? { promo_line: promo.line } : {}),
+              }
+            : undefined,
       };
     }
 
@@ -298,6 +384,7 @@ export async function handleFinalConfirmation(
           "3) Remove an item\n" +
           "4) Cancel order\n\n" +
           "Please reply with the number.",
+        interactive: editOrderOptions(false),
       };
     }
 
@@ -373,6 +460,7 @@ export async function handleFinalConfirmation(
         kind: "order",
         order_id: null,
         reply: buildEditMenu(cart),
+        interactive: editOrderOptions(),
       };
     }
 
@@ -441,6 +529,7 @@ export async function handleFinalConfirmation(
         kind: "order",
         order_id: null,
         reply: buildConfirmMenu(cart),
+        interactive: confirmOrderOptions(),
       };
     }
   }
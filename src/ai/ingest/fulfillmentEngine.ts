@@ -3,7 +3,11 @@ import { supa } from "../../db";
 import { IngestContext, IngestResult } from "./types";
 import { setState, clearState } from "./stateManager";
 import { detectMetaIntent } from "./metaIntent";
+import { fulfillmentOptions } from "./replyOptions";
+import { addressRequestPrompt } from "./addressBook";
+import { orderPayableAmount } from "./promoEngine";
 import { createRazorpayPaymentLink } from "../../payments/razorpay";
+import { refreshOrderTax } from "../../order/gstInvoice";
 /**
  * We store the user's choice in orders.delivery_type:
  * - "pickup" | "delivery"
@@ -55,7 +59,7 @@ function detectFulfillmentChoice(raw: string): FulfillmentChoice | null {
 async function getLatestActiveOrder(org_id: string, from_phone: string) {
   const { data, error } = await supa
     .from("orders")
-    .select("id, total_amount, items, delivery_fee, delivery_type, status, created_at, payment_status")
+    .select("id, total_amount, items, delivery_fee, discount_amount, delivery_type, status, created_at, payment_status")
     .eq("org_id", org_id)
     .eq("source_phone", from_phone)
     .in("status", ["awaiting_customer_action", "awaiting_store_action", "accepted"])
@@ -133,6 +137,7 @@ export async function handleFulfillment(ctx: IngestContext): Promise<IngestResul
         "1) Store Pickup\n" +
         "2) Home Delivery\n\n" +
         "Please type *1* or *2*.",
+      interactive: fulfillmentOptions(),
     };
   }
 
@@ -149,6 +154,7 @@ export async function handleFulfillment(ctx: IngestContext): Promise<IngestResul
         "1) Store Pickup\n" +
         "2) Home Delivery\n\n" +
         "Please type *1* or *2*.",
+      interactive: fulfillmentOptions(),
     };
   }
 
@@ -169,13 +175,14 @@ export async function handleFulfillment(ctx: IngestContext): Promise<IngestResul
   // If Home Delivery → continue existing flow to payment selection
   if (choice === "delivery") {
     await setState(org_id, from_phone, "awaiting_address");
+    // saved addresses → "1) Home 2) Office 3) New address"
+    const ask = await addressRequestPrompt(org_id, from_phone);
     return {
       used: true,
       kind: "order",
       order_id: order.id,
-      reply:
-        "✅ *Delivery selected!*\n\n" +
-        "📍 Please send your delivery address.",
+      reply: "✅ *Delivery selected!*\n\n" + ask.reply,
+      interactive: ask.interactive,
     };
   }
 
@@ -185,7 +192,8 @@ export async function handleFulfillment(ctx: IngestContext): Promise<IngestResul
 
   const store = await getOrgStoreInfo(org_id);
 
-  const amount = safeInr(order.total_amount ?? 0);
+  const tax_amount = await refreshOrderTax(org_id, order.id);
+  const amount = safeInr(orderPayableAmount({ ...order, delivery_fee: 0, tax_amount }));
   const pl = await createRazorpayPaymentLink({
     org_id,
     order_id: order.id,
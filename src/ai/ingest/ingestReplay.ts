@@ -0,0 +1,208 @@
+// src/ai/ingest/ingestReplay.ts
+import { rootSupa, withSupaClient } from "../../db";
+import {
+  MemoryStore,
+  createMemorySupabase,
+  registerBuiltinRpcs,
+} from "../../db/memoryStore";
+import { ingestCoreFromMessage } from "./index";
+import { listIngestTraces, type IngestTrace } from "./ingestTrace";
+import type { IngestContext } from "./types";
+
+/**
+ * Replays a customer's recorded messages (ingest_traces) against the current
+ * code and reports, step by step, what the bot does now vs what it did then.
+ *
+ * The replay never touches real data: it runs against a throw-away memory
+ * store seeded with a copy of the org's catalog / overrides / customer
+ * settings, with dashboard pushes and payment links switched off
+ * (isIngestReplay). Only the first step's state is restored – a cart or
+ * order that existed before the replayed window is not, so replay from where
+ * the conversation started (e.g. the customer's first "hi") for a fair diff.
+ * AI calls are real (and cost real money; it's in the result and counts
+ * against the daily AI budget – cost.ts writes through rootSupa).
+ */
+
+// org-wide reference data the engines read
+const REPLAY_ORG_TABLES = [
+  "products",
+  "product_aliases",
+  "product_prices",
+  "product_upsells",
+  "customer_aliases",
+  "org_intent_overrides",
+  "cleaner_learned_tokens",
+];
+
+// per-customer settings (filtered by customer_phone)
+const REPLAY_CUSTOMER_TABLES = [
+  "org_customer_settings",
+  "org_customer_profiles",
+  "customer_preferences",
+  "customer_addresses",
+];
+
+// what counts as "the bot behaved differently"
+const COMPARED_FIELDS = [
+  "reply",
+  "state_after",
+  "engine",
+  "intent_lane",
+  "intent_source",
+  "kind",
+  "interactive",
+] as const;
+
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export type ReplayStep = {
+  step: number;
+  trace_id: string;
+  at: string;
+  input: IngestTrace["input"];
+  recorded: Pick<IngestTrace, ComparedField | "state_before" | "ai_cost_usd">;
+  replayed: Pick<IngestTrace, ComparedField | "state_before" | "ai_cost_usd" | "error"> | null;
+  changed: boolean;
+  changes: { field: ComparedField; before: any; after: any }[];
+};
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+async function copyRows(
+  store: MemoryStore,
+  table: string,
+  filter: (q: any) => any
+) {
+  try {
+    const { data, error } = await filter(rootSupa.from(table).select("*"));
+    if (error) {
+      console.warn("[INGEST_REPLAY][SEED_SKIP]", table, error.message);
+      return;
+    }
+    store.seed({ [table]: data || [] });
+  } catch (e: any) {
+    console.warn("[INGEST_REPLAY][SEED_SKIP]", table, e?.message || e);
+  }
+}
+
+async function buildReplayStore(org_id: string, phoneKey: string) {
+  const store = new MemoryStore();
+  registerBuiltinRpcs(store);
+
+  await copyRows(store, "orgs", (q) => q.eq("id", org_id));
+  for (const t of REPLAY_ORG_TABLES) {
+    await copyRows(store, t, (q) => q.eq("org_id", org_id));
+  }
+  for (const t of REPLAY_CUSTOMER_TABLES) {
+    await copyRows(store, t, (q) => q.eq("org_id", org_id).eq("customer_phone", phoneKey));
+  }
+
+  return store;
+}
+
+function pick(t: Partial<IngestTrace>) {
+  return {
+    state_before: t.state_before ?? null,
+    reply: t.reply ?? null,
+    state_after: t.state_after ?? null,
+    engine: t.engine ?? null,
+    intent_lane: t.intent_lane ?? null,
+    intent_source: t.intent_source ?? null,
+    kind: t.kind ?? null,
+    interactive: t.interactive ?? null,
+    ai_cost_usd: Number(t.ai_cost_usd || 0),
+  };
+}
+
+const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export async function replayCustomerConversation(opts: {
+  org_id: string;
+  customer_phone: string;
+  since?: string | null;
+  until?: string | null;
+  limit?: number;
+}) {
+  const phoneKey = normalizePhone(opts.customer_phone);
+  const traces = await listIngestTraces({ ...opts, customer_phone: phoneKey });
+
+  if (!traces.length) {
+    return { org_id: opts.org_id, customer_phone: phoneKey, steps: [] as ReplayStep[], changed: 0, ai_cost_usd: 0 };
+  }
+
+  const store = await buildReplayStore(opts.org_id, phoneKey);
+  const client = createMemorySupabase(store);
+
+  const first = traces[0];
+  const fromPhone = first.input?.from_phone || phoneKey;
+  if (first.state_before && first.state_before !== "idle") {
+    store.seed({
+      ai_conversation_state: [
+        {
+          org_id: opts.org_id,
+          customer_phone: fromPhone,
+          state: first.state_before,
+          updated_at: new Date().toISOString(),
+        },
+      ],
+    });
+  }
+
+  const steps: ReplayStep[] = [];
+  let aiCost = 0;
+
+  for (const [i, t] of traces.entries()) {
+    const ctx: IngestContext = {
+      org_id: opts.org_id,
+      from_phone: t.input?.from_phone || fromPhone,
+      text: t.input?.text || "",
+      ts: Date.now(),
+      source: t.source || "waba",
+      location_lat: t.input?.location_lat ?? null,
+      location_lng: t.input?.location_lng ?? null,
+      media: t.input?.media ?? null,
+    };
+
+    let replayed: IngestTrace | null = null;
+    try {
+      await withSupaClient(client, () =>
+        ingestCoreFromMessage(ctx, {
+          replay: true,
+          onTrace: (tr) => {
+            replayed = tr;
+          },
+        })
+      );
+    } catch (e: any) {
+      console.warn("[INGEST_REPLAY][STEP_ERR]", { step: i + 1, err: e?.message || e });
+    }
+
+    const now = replayed as IngestTrace | null;
+    const changes = COMPARED_FIELDS.filter((f) => !same(t[f], now?.[f])).map((f) => ({
+      field: f,
+      before: t[f] ?? null,
+      after: now?.[f] ?? null,
+    }));
+
+    aiCost += Number(now?.ai_cost_usd || 0);
+
+    steps.push({
+      step: i + 1,
+      trace_id: t.id,
+      at: t.created_at,
+      input: t.input,
+      recorded: pick(t),
+      replayed: now ? { ...pick(now), error: now.error } : null,
+      changed: changes.length > 0,
+      changes,
+    });
+  }
+
+  return {
+    org_id: opts.org_id,
+    customer_phone: phoneKey,
+    steps,
+    changed: steps.filter((s) => s.changed).length,
+    ai_cost_usd: Number(aiCost.toFixed(6)),
+  };
+}
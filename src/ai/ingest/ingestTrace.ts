@@ -0,0 +1,203 @@
+// src/ai/ingest/ingestTrace.ts
+import { AsyncLocalStorage } from "async_hooks";
+import { rootSupa } from "../../db";
+import type { IngestContext, IngestResult, ConversationState } from "./types";
+
+/**
+ * Structured "why did the bot say that" trace – one row per
+ * ingestCoreFromMessage call, in `ingest_traces`:
+ *
+ *   id uuid pk, org_id uuid, customer_phone text, source text,
+ *   input jsonb        { from_phone, text, media, location_lat, location_lng }
+ *   state_before text, state_after text,
+ *   intent_lane text, intent_source text, override_hit bool,
+ *   engine text, ai_calls jsonb, ai_cost_usd numeric,
+ *   kind text, reply text, interactive jsonb, order_id uuid,
+ *   duration_ms int, error text, created_at timestamptz default now()
+ *
+ * Engines add to the running trace with traceIngest() / traceAiCall(); both
+ * are no-ops outside an ingest call. INGEST_TRACE=0 turns recording off.
+ * Replays (ingestReplay.ts) collect a trace but never store it.
+ */
+
+const TABLE = "ingest_traces";
+const TRACE_ENABLED = process.env.INGEST_TRACE !== "0";
+
+export type IngestTraceAiCall = {
+  source: string | null; // aiParseOrder, detectAndTranslate, address …
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost_usd: number;
+};
+
+export type IngestTrace = {
+  org_id: string;
+  customer_phone: string;
+  source: string;
+  input: {
+    from_phone: string; // as received (customer_phone is digits only)
+    text: string;
+    media: IngestContext["media"] | null;
+    location_lat: number | null;
+    location_lng: number | null;
+  };
+  state_before: ConversationState | null;
+  state_after: ConversationState | null;
+  intent_lane: string | null;
+  intent_source: string | null; // override | rule | ai | fallback
+  override_hit: boolean;
+  engine: string | null;
+  ai_calls: IngestTraceAiCall[];
+  ai_cost_usd: number;
+  kind: string | null;
+  reply: string | null;
+  interactive: any | null;
+  order_id: string | null;
+  duration_ms: number | null;
+  error: string | null;
+};
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+type TraceScope = { trace: IngestTrace; replay: boolean };
+
+const scope = new AsyncLocalStorage<TraceScope>();
+
+export function currentIngestTrace(): IngestTrace | null {
+  return scope.getStore()?.trace || null;
+}
+
+/** True while an admin replay is running (skip real-world side effects). */
+export function isIngestReplay(): boolean {
+  return !!scope.getStore()?.replay;
+}
+
+/** Merge fields into the running trace. First engine to claim a message wins. */
+export function traceIngest(patch: Partial<IngestTrace>) {
+  const t = currentIngestTrace();
+  if (!t) return;
+
+  const { engine, ...rest } = patch;
+  Object.assign(t, rest);
+  if (engine && !t.engine) t.engine = engine;
+}
+
+export function traceAiCall(call: Partial<IngestTraceAiCall> & { cost_usd: number }) {
+  const t = currentIngestTrace();
+  if (!t) return;
+
+  t.ai_calls.push({
+    source: call.source ?? null,
+    model: call.model ?? null,
+    prompt_tokens: call.prompt_tokens ?? null,
+    completion_tokens: call.completion_tokens ?? null,
+    cost_usd: Number(call.cost_usd) || 0,
+  });
+  t.ai_cost_usd = Number((t.ai_cost_usd + (Number(call.cost_usd) || 0)).toFixed(6));
+}
+
+export function newIngestTrace(ctx: IngestContext): IngestTrace {
+  return {
+    org_id: ctx.org_id,
+    customer_phone: normalizePhone(ctx.from_phone),
+    source: ctx.source,
+    input: {
+      from_phone: ctx.from_phone,
+      text: ctx.text || "",
+      media: ctx.media ?? null,
+      location_lat: ctx.location_lat ?? null,
+      location_lng: ctx.location_lng ?? null,
+    },
+    state_before: null,
+    state_after: null,
+    intent_lane: null,
+    intent_source: null,
+    override_hit: false,
+    engine: null,
+    ai_calls: [],
+    ai_cost_usd: 0,
+    kind: null,
+    reply: null,
+    interactive: null,
+    order_id: null,
+    duration_ms: null,
+    error: null,
+  };
+}
+
+/**
+ * Runs one ingest inside a trace scope, fills in the result / timing and
+ * (unless replaying) stores it. Errors are recorded and re-thrown.
+ */
+export async function runTracedIngest(
+  ctx: IngestContext,
+  run: () => Promise<IngestResult>,
+  opts: {
+    replay?: boolean;
+    readState?: () => Promise<ConversationState>;
+    onTrace?: (trace: IngestTrace) => void;
+  } = {}
+): Promise<{ result: IngestResult; trace: IngestTrace }> {
+  const trace = newIngestTrace(ctx);
+  const replay = !!opts.replay;
+  const started = Date.now();
+
+  return scope.run({ trace, replay }, async () => {
+    try {
+      const result = await run();
+
+      trace.kind = result?.kind ?? null;
+      trace.reply = result?.reply ?? null;
+      trace.interactive = result?.interactive ?? null;
+      trace.order_id = result?.order_id ?? null;
+      return { result, trace };
+    } catch (e: any) {
+      trace.error = e?.message || String(e);
+      throw e;
+    } finally {
+      trace.duration_ms = Date.now() - started;
+      if (opts.readState) {
+        trace.state_after = await opts.readState().catch(() => null);
+      }
+      if (!replay) await saveIngestTrace(trace);
+      opts.onTrace?.(trace);
+    }
+  });
+}
+
+async function saveIngestTrace(trace: IngestTrace) {
+  if (!TRACE_ENABLED) return;
+
+  try {
+    const { error } = await rootSupa.from(TABLE).insert(trace);
+    if (error) console.warn("[INGEST_TRACE][SAVE_ERR]", error.message);
+  } catch (e: any) {
+    console.warn("[INGEST_TRACE][SAVE_ERR]", e?.message || e);
+  }
+}
+
+export async function listIngestTraces(opts: {
+  org_id: string;
+  customer_phone: string;
+  since?: string | null;
+  until?: string | null;
+  limit?: number;
+}) {
+  let q = rootSupa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", opts.org_id)
+    .eq("customer_phone", normalizePhone(opts.customer_phone))
+    .order("created_at", { ascending: false })
+    .limit(Math.max(1, Math.min(500, opts.limit || 100)));
+
+  if (opts.since) q = q.gte("created_at", opts.since);
+  if (opts.until) q = q.lte("created_at", opts.until);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  // latest N, returned oldest first
+  return ((data || []) as (IngestTrace & { id: string; created_at: string })[]).reverse();
+}
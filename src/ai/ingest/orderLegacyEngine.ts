@@ -11,6 +11,7 @@ import { getAttempts, incAttempts, resetAttempts } from "./attempts";
 import { fuzzyChooseOption } from "./fuzzyOption";
 import { normalizeCustomerText } from "../lang/normalize";
 import { buildConfirmMenuForReply } from "./finalConfirmationEngine";
+import { buttonReply, confirmOrderOptions, listReply } from "./replyOptions";
 
 
 
@@ -222,6 +223,33 @@ function parseUpsellReply(raw: string, _maxQty: number): number | null {
   return null;
 }
 
+function upsellOptions() {
+  return buttonReply([
+    { id: "1", title: "Yes" },
+    { id: "2", title: "No" },
+    { id: "3", title: "Skip" },
+  ]);
+}
+
+// Interactive list mirroring the numbered variant lines ("1) Biryani – Full – 250")
+function variantOptions(variants: any[]) {
+  return listReply(
+    (variants || []).map((v: any, i: number) => ({
+      id: String(i + 1),
+      title: v.variant || v.display_name || v.canonical || `Option ${i + 1}`,
+      description: v.price_per_unit ? `₹${v.price_per_unit}` : null,
+    })),
+    { button: "Choose variant" }
+  );
+}
+
+function itemOptions(names: string[]) {
+  return listReply(
+    (names || []).map((name, i) => ({ id: String(i + 1), title: name })),
+    { button: "Choose item" }
+  );
+}
+
 // ─────────────────────────────────────────────
 // 🆕 Helpers for "item 1 of 3" prefix
 // ─────────────────────────────────────────────
@@ -484,6 +512,7 @@ export async function handleCatalogFallbackFlow(
         kind: "order",
         order_id: null,
         reply: buildUpsellPrompt(prefix, opt, vertical),
+        interactive: upsellOptions(),
       };
     }
 
@@ -575,6 +604,7 @@ export async function handleCatalogFallbackFlow(
             reply:
               itemPrefix +
               `Choose a variant for *${canonical}*:\n${variantLines}\n\nPlease reply with the number.`,
+            interactive: variantOptions(variants),
           };
         }
 
@@ -605,6 +635,7 @@ export async function handleCatalogFallbackFlow(
           reply:
             itemPrefix +
             `I found multiple items:\n${optionsText}\n\nPlease reply with the number.`,
+          interactive: itemOptions(matches.map((m) => m.canonical)),
         };
       }
     }
@@ -649,6 +680,7 @@ export async function handleCatalogFallbackFlow(
       kind: "order",
       order_id: null,
       reply: buildConfirmMenuForReply(newCart),
+      interactive: confirmOrderOptions(),
     };
   }
 
@@ -679,6 +711,7 @@ export async function handleCatalogFallbackFlow(
         kind: "order",
         order_id: null,
         reply: buildUpsellPrompt(prefix, opt, vertical),
+        interactive: upsellOptions(),
       };
     }
 
@@ -785,6 +818,7 @@ export async function handleCatalogFallbackFlow(
             reply:
               itemPrefix +
               `Choose a variant for *${canonical}*:\n${variantLines}\n\nPlease reply with the number.`,
+            interactive: variantOptions(variants),
           };
         }
 
@@ -804,6 +838,7 @@ export async function handleCatalogFallbackFlow(
           reply:
             itemPrefix +
             `I found multiple items:\n${optionsText}\n\nPlease reply with the number.`,
+          interactive: itemOptions(matches.map((m) => m.canonical)),
         };
       }
 
@@ -846,6 +881,7 @@ export async function handleCatalogFallbackFlow(
       kind: "order",
       order_id: null,
   reply: buildConfirmMenuForReply(newCart),
+  interactive: confirmOrderOptions(),
     };
   }
 
@@ -1003,6 +1039,7 @@ export async function handleCatalogFallbackFlow(
         reply:
           `${itemPrefix}I found multiple options:\n` +
           `${lines}\n\nPlease reply with the number.`,
+        interactive: variantOptions(match.list),
         order_id: null,
       };
     }
@@ -1063,6 +1100,7 @@ export async function handleCatalogFallbackFlow(
         used: true,
         kind: "order",
         reply: `Choose a variant for *${hit.canonical}*:\n${variantLines}\n\nPlease reply with the number.`,
+        interactive: variantOptions(hit.variants),
         order_id: null,
       };
     }
@@ -1088,6 +1126,7 @@ export async function handleCatalogFallbackFlow(
         reply:
           itemPrefix +
           `I found multiple items:\n${opts}\n\nPlease reply with the number.`,
+        interactive: itemOptions(variantHits.map((h) => h.canonical)),
         order_id: null,
       };
     }
@@ -1193,6 +1232,7 @@ export async function handleCatalogFallbackFlow(
         reply:
           itemPrefix +
           `Choose a variant for *${canonical}*:\n${variantLines}\n\nPlease reply with the number.`,
+        interactive: variantOptions(variants),
         order_id: null,
       };
     }
@@ -1370,6 +1410,7 @@ export async function handleCatalogFallbackFlow(
       used: true,
       kind: "order",
       reply: `Choose a variant for *${canonical}*:\n${variantLines}\n\nPlease reply with the number.`,
+      interactive: variantOptions(variants),
       order_id: null,
     };
   }
@@ -1397,6 +1438,7 @@ export async function handleCatalogFallbackFlow(
     reply:
       itemPrefix +
       `I found multiple items:\n${optionsText}\n\nPlease reply with the number.`,
+    interactive: itemOptions(matches.map((m) => m.canonical)),
     order_id: null,
   };
 }
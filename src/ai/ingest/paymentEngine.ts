@@ -5,6 +5,11 @@ import { IngestContext, IngestResult } from "./types";
 import { clearState, setState } from "./stateManager";
 import { emitNewOrder } from "../../routes/realtimeOrders";
 import { createRazorpayPaymentLink } from "../../payments/razorpay";
+import { paymentMethodOptions } from "./replyOptions";
+import { markCartRecovered } from "./abandonedCarts";
+import { ensureOrderRef } from "../../order/orderNumbers";
+import { transitionOrderStatus } from "../../order/orderLifecycle";
+import { refreshOrderTax } from "../../order/gstInvoice";
 
 const PAY_CASH = ["cash", "cod", "cash on delivery"];
 const PAY_CARD = ["card", "credit", "debit", "card on delivery"];
@@ -69,7 +74,12 @@ function buildOrderSummary(order: any | null): {
   }
 
   const deliveryFee = Number(order.delivery_fee ?? 0);
-  const grandTotal = subtotal + (deliveryFee > 0 ? deliveryFee : 0);
+  const discount = Math.max(0, Number(order.discount_amount ?? 0));
+  const tax = Math.max(0, Number(order.tax_amount ?? 0));
+  const grandTotal = Math.max(
+    0,
+    subtotal + (deliveryFee > 0 ? deliveryFee : 0) - discount + tax
+  );
 
   const feeLine =
     deliveryFee > 0
@@ -82,6 +92,10 @@ function buildOrderSummary(order: any | null): {
     lines.join("\n") +
     `\n\nSubtotal: ₹${subtotal}` +
     `\n${feeLine}` +
+    (discount > 0
+      ? `\nDiscount${order.promo_code ? ` (${order.promo_code})` : ""}: −₹${discount}`
+      : "") +
+    (tax > 0 ? `\nGST: ₹${tax}` : "") +
     `\n——————————\n` +
     `*Total Payable: ₹${grandTotal}*`;
 
@@ -125,6 +139,7 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
         "1) Cash\n" +
         "2) Online Payment\n\n" +
         "Or type: *cash* / *online* / *upi* / *card*.",
+      interactive: paymentMethodOptions(),
       order_id: null,
     };
   }
@@ -149,7 +164,7 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
   const { data: order } = await supa
     .from("orders")
     .select(
-      "id, status, items, total_amount, delivery_fee, delivery_type, created_at, currency_code, razorpay_payment_link_url,razorpay_payment_link_id,payment_provider"
+      "id, order_number, status, items, total_amount, delivery_fee, promo_code, discount_amount, delivery_type, created_at, currency_code, razorpay_payment_link_url,razorpay_payment_link_id,payment_provider"
     )
     .eq("org_id", org_id)
     .eq("source_phone", from_phone)
@@ -162,24 +177,33 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
     // always save chosen mode
     await supa.from("orders").update({ payment_mode: mode }).eq("id", order.id);
 
+    // fee and discount are settled by now → GST on top (tax-exclusive orgs)
+    (order as any).tax_amount = await refreshOrderTax(org_id, order.id);
+
+    // draft order picked back up after being abandoned
+    await markCartRecovered(org_id, from_phone, order.id);
+
     const isCashLike = mode === "cash" || mode === "card";
     const isOnlineLike = !isCashLike; // online / upi
 
     // ✅ COD/Card: send to store immediately (this triggers dashboard alarm via emitNewOrder)
     if (isCashLike) {
-      const { error: accErr } = await supa
-        .from("orders")
-        .update({
-          status: "awaiting_store_action",
+      const moved = await transitionOrderStatus({
+        org_id,
+        order_id: order.id,
+        to: "awaiting_store_action",
+        actor: { type: "customer", id: from_phone },
+        source: "chat",
+        reason: `payment_${mode}`,
+        patch: {
           payment_status: "unpaid",
           payment_provider: null,
           razorpay_payment_link_id: null,
           razorpay_payment_link_url: null,
-        } as any)
-        .eq("id", order.id)
-        .eq("org_id", org_id);
+        },
+      });
 
-      if (!accErr) {
+      if (!("error" in moved)) {
         try {
           emitNewOrder(org_id, {
             id: order.id,
@@ -204,14 +228,15 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
     // ✅ Online/UPI: generate Razorpay link FIRST (if possible), else fallback to QR
     if (isOnlineLike) {
       // Keep order open but mark as awaiting payment
-      await supa
-        .from("orders")
-        .update({
-          status: "awaiting_payment_proof", // 👈 IMPORTANT: makes the flow consistent
-          payment_status: "unpaid",
-        } as any)
-        .eq("id", order.id)
-        .eq("org_id", org_id);
+      await transitionOrderStatus({
+        org_id,
+        order_id: order.id,
+        to: "awaiting_payment_proof", // 👈 IMPORTANT: makes the flow consistent
+        actor: { type: "customer", id: from_phone },
+        source: "chat",
+        reason: `payment_${mode}`,
+        patch: { payment_status: "unpaid" },
+      });
 
       // Put the user in waiting state
       await setState(org_id, from_phone, "awaiting_payment_proof" as any);
@@ -238,7 +263,6 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
                 payment_status: "unpaid",
                 razorpay_payment_link_id: pl.id,
                 razorpay_payment_link_url: pl.short_url,
-                status: "awaiting_payment_proof",
               } as any)
               .eq("id", order.id)
               .eq("org_id", org_id);
@@ -364,7 +388,7 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
         (safeSummary
           ? safeSummary + `\n\n${nextStepLine}`
           : order?.id
-          ? `Your order (#${order.id}) is now being processed.\n\n${nextStepLine}`
+          ? `Your order (#${await ensureOrderRef(org_id, order)}) is now being processed.\n\n${nextStepLine}`
           : `Payment mode saved for your next order.`),
       order_id: order?.id || null,
       // 👇 Only non-null for online modes + QR configured
@@ -378,7 +402,7 @@ export async function handlePayment(ctx: IngestContext): Promise<IngestResult> {
   // Rich confirmation
   const reply =
     `💳 Payment method saved: *${modeLabel}*.\n\n` +
-    `🧾 *Order Summary (#${order.id})*\n` +
+    `🧾 *Order Summary (#${await ensureOrderRef(org_id, order)})*\n` +
     `${summaryBody}\n` +
     totalLine +
     `${nextStepLine}`;
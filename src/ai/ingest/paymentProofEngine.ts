@@ -0,0 +1,162 @@
+// src/ai/ingest/paymentProofEngine.ts
+
+import { supa } from "../../db";
+import type { IngestContext, IngestResult, InboundMedia } from "./types";
+import { clearState } from "./stateManager";
+import { emitNewOrder } from "../../routes/realtimeOrders";
+import { transitionOrderStatus } from "../../order/orderLifecycle";
+
+/**
+ * Payment screenshots / receipts sent while we wait for payment.
+ *
+ * Table `order_attachments`:
+ *   id           uuid primary key
+ *   org_id       uuid
+ *   order_id     uuid
+ *   kind         text   -- 'payment_proof' | 'customer_file'
+ *   url          text
+ *   mime_type    text
+ *   wa_media_id  text
+ *   caption      text
+ *   created_at   timestamptz
+ *
+ * Orders get `payment_proof_url`, `payment_proof_status`
+ * ('pending_review' | 'approved' | 'rejected') and `payment_proof_submitted_at`.
+ * Staff review it via POST /api/orders/:id/payment-proof/{approve,reject}.
+ */
+
+const PROOF_ORDER_STATUSES = [
+  "pending",
+  "awaiting_payment_or_method",
+  "awaiting_payment",
+  "awaiting_payment_proof",
+  "awaiting_customer_action",
+];
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+export function isProofMedia(media?: InboundMedia | null): boolean {
+  return !!media?.url && (media.kind === "image" || media.kind === "document");
+}
+
+export async function saveOrderAttachment(args: {
+  org_id: string;
+  order_id: string;
+  kind: "payment_proof" | "customer_file";
+  media: InboundMedia;
+}) {
+  const { error } = await supa.from("order_attachments").insert({
+    org_id: args.org_id,
+    order_id: args.order_id,
+    kind: args.kind,
+    url: args.media.url,
+    mime_type: args.media.mime_type,
+    wa_media_id: args.media.wa_media_id ?? null,
+    caption: args.media.caption ?? null,
+  });
+
+  if (error) {
+    console.warn("[PAYMENT_PROOF][ATTACH_ERR]", error.message);
+  }
+}
+
+export async function handlePaymentProof(
+  ctx: IngestContext
+): Promise<IngestResult> {
+  const { org_id, from_phone, media } = ctx;
+  const phoneKey = normalizePhone(from_phone);
+
+  if (!media || !isProofMedia(media)) {
+    return { used: false, kind: "payment", reply: null, order_id: null };
+  }
+
+  const { data: order } = await supa
+    .from("orders")
+    .select("id, created_at, total_amount, items, delivery_type, payment_status")
+    .eq("org_id", org_id)
+    .eq("source_phone", phoneKey)
+    .in("status", PROOF_ORDER_STATUSES as any)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!order?.id) {
+    return {
+      used: true,
+      kind: "payment",
+      order_id: null,
+      reply:
+        "📎 Thanks, we received your file.\n" +
+        "We couldn’t find an open order for it — our team will check and get back to you.",
+    };
+  }
+
+  if (order.payment_status === "paid") {
+    await clearState(org_id, from_phone);
+    return {
+      used: true,
+      kind: "payment",
+      order_id: order.id,
+      reply: "✅ Payment already received. No screenshot needed.",
+    };
+  }
+
+  await saveOrderAttachment({
+    org_id,
+    order_id: order.id,
+    kind: "payment_proof",
+    media,
+  });
+
+  const nowIso = new Date().toISOString();
+  const moved = await transitionOrderStatus({
+    org_id,
+    order_id: order.id,
+    to: "awaiting_store_action",
+    actor: { type: "customer", id: from_phone },
+    source: "chat",
+    reason: "payment_proof_submitted",
+    patch: {
+      payment_proof_url: media.url,
+      payment_proof_status: "pending_review",
+      payment_proof_submitted_at: nowIso,
+    },
+  });
+
+  if ("error" in moved) {
+    console.warn("[PAYMENT_PROOF][ORDER_UPDATE_ERR]", moved.error);
+  } else {
+    try {
+      emitNewOrder(org_id, {
+        id: order.id,
+        org_id,
+        source_phone: from_phone,
+        status: "awaiting_store_action",
+        created_at: order.created_at,
+        total_amount: order.total_amount ?? null,
+        items: order.items ?? [],
+        delivery_type: order.delivery_type ?? null,
+        payment_proof_status: "pending_review",
+      } as any);
+    } catch (e) {
+      console.warn("[PAYMENT_PROOF][SSE_EMIT_ERR]", e);
+    }
+  }
+
+  await clearState(org_id, from_phone);
+
+  console.log("[PAYMENT_PROOF][RECEIVED]", {
+    org_id,
+    order_id: order.id,
+    kind: media.kind,
+  });
+
+  return {
+    used: true,
+    kind: "payment",
+    order_id: order.id,
+    reply:
+      "🧾 Thanks! We received your payment screenshot.\n" +
+      "The store will verify it and confirm your order shortly.",
+  };
+}
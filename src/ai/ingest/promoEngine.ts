@@ -0,0 +1,537 @@
+// src/ai/ingest/promoEngine.ts
+import { supa } from "../../db";
+import type { ConversationState, IngestContext, IngestResult } from "./types";
+import { confirmOrderOptions, paymentMethodOptions } from "./replyOptions";
+import { refreshOrderTax } from "../../order/gstInvoice";
+
+/**
+ * Promo / coupon codes ("apply WELCOME10" in chat).
+ *
+ * Table `promo_codes`:
+ *   id uuid pk, org_id uuid, code text (stored upper-case; unique per org),
+ *   description text, kind text ('percent' | 'flat'), value numeric,
+ *   max_discount numeric   cap for percent codes
+ *   min_order numeric      on the items subtotal
+ *   first_order_only bool, per_customer_limit int, total_limit int,
+ *   valid_from timestamptz, valid_until timestamptz,
+ *   product_ids text[], categories text[]   scope (empty = whole cart)
+ *   is_active bool default true, created_at, updated_at
+ *
+ * Table `promo_redemptions`:
+ *   id uuid pk, org_id uuid, promo_id uuid, code text,
+ *   customer_phone text (digits only), order_id uuid unique,
+ *   discount numeric, created_at
+ *   Redemptions on cancelled / rejected orders don't count towards limits.
+ *
+ * A code typed before the order exists is kept in
+ * org_customer_settings.pending_promo_code and applied when the cart is
+ * confirmed. On the order: orders.promo_code, orders.discount_amount
+ * (total_amount stays the items subtotal – plus GST for tax-exclusive orgs,
+ * orders.tax_amount; payable = subtotal + delivery fee − discount + GST, see
+ * orderPayableAmount and order/gstInvoice refreshOrderTax).
+ */
+
+export type PromoCode = {
+  id: string;
+  org_id: string;
+  code: string;
+  description: string | null;
+  kind: "percent" | "flat";
+  value: number;
+  max_discount: number | null;
+  min_order: number | null;
+  first_order_only: boolean | null;
+  per_customer_limit: number | null;
+  total_limit: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  product_ids: string[] | null;
+  categories: string[] | null;
+  is_active: boolean | null;
+};
+
+export type PromoLine = {
+  product_id?: string | number | null;
+  name?: string;
+  qty: number;
+  price?: number | null;
+};
+
+export type PromoRejectReason =
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "min_order"
+  | "first_order_only"
+  | "usage_limit"
+  | "total_limit"
+  | "no_eligible_items";
+
+export type PromoEvaluation =
+  | {
+      ok: true;
+      code: string;
+      promo: PromoCode;
+      subtotal: number;
+      eligibleSubtotal: number;
+      discount: number;
+    }
+  | {
+      ok: false;
+      code: string;
+      promo: PromoCode | null;
+      reason: PromoRejectReason;
+    };
+
+const CLOSED_ORDER_STATUSES = ["cancelled", "cancelled_by_customer", "rejected"];
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+const money = (n: number) => Math.round(n * 100) / 100;
+const fmt = (n: number) => `₹${Number.isInteger(n) ? n : n.toFixed(2)}`;
+
+export function normalizePromoCode(code: string) {
+  return String(code || "").trim().toUpperCase();
+}
+
+// ─────────────────────────────
+// Parsing "apply WELCOME10"
+// ─────────────────────────────
+const APPLY_RE =
+  /^(?:apply|use|redeem)?\s*(?:promo|coupon|discount|voucher)?\s*(?:code)?\s*[:\-]?\s*([a-z0-9][a-z0-9_-]{2,23})$/i;
+
+export function parsePromoCommand(
+  text: string
+): { action: "apply"; code: string } | { action: "remove" } | null {
+  const t = String(text || "").trim();
+  if (!t) return null;
+
+  if (/^(remove|clear|delete)\s+(promo|coupon|discount|code)(\s+code)?$/i.test(t)) {
+    return { action: "remove" };
+  }
+
+  // needs a keyword – a bare "BIRYANI2" is an order, not a code
+  if (!/^(apply|use|redeem|promo|coupon|discount|voucher)\b/i.test(t)) return null;
+
+  const m = t.match(APPLY_RE);
+  if (!m) return null;
+
+  const code = normalizePromoCode(m[1]);
+  if (["CODE", "PROMO", "COUPON"].includes(code)) return null;
+  return { action: "apply", code };
+}
+
+// ─────────────────────────────
+// Evaluation
+// ─────────────────────────────
+export async function findPromoCode(org_id: string, code: string): Promise<PromoCode | null> {
+  const { data, error } = await supa
+    .from("promo_codes")
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("code", normalizePromoCode(code))
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[PROMO][LOOKUP_ERR]", error.message);
+    return null;
+  }
+  return (data as PromoCode) || null;
+}
+
+async function countRedemptions(
+  promo: PromoCode,
+  opts: { phoneKey?: string; excludeOrderId?: string | null }
+): Promise<number> {
+  let q = supa.from("promo_redemptions").select("order_id").eq("promo_id", promo.id);
+  if (opts.phoneKey) q = q.eq("customer_phone", opts.phoneKey);
+
+  const { data } = await q;
+  const orderIds = ((data || []) as { order_id: string }[])
+    .map((r) => r.order_id)
+    .filter((id) => id && id !== opts.excludeOrderId);
+  if (!orderIds.length) return 0;
+
+  const { data: orders } = await supa.from("orders").select("id, status").in("id", orderIds);
+  return ((orders || []) as { status: string }[]).filter(
+    (o) => !CLOSED_ORDER_STATUSES.includes(o.status)
+  ).length;
+}
+
+async function hasPreviousOrder(
+  org_id: string,
+  from_phone: string,
+  excludeOrderId?: string | null
+): Promise<boolean> {
+  const { data } = await supa
+    .from("orders")
+    .select("id, status")
+    .eq("org_id", org_id)
+    .eq("source_phone", from_phone)
+    .limit(50);
+
+  return ((data || []) as { id: string; status: string }[]).some(
+    (o) => o.id !== excludeOrderId && !CLOSED_ORDER_STATUSES.includes(o.status)
+  );
+}
+
+// product_ids / categories → the part of the cart the code applies to
+async function eligibleSubtotalFor(
+  promo: PromoCode,
+  org_id: string,
+  lines: PromoLine[]
+): Promise<number> {
+  const lineTotal = (l: PromoLine) => (Number(l.price) || 0) * (Number(l.qty) || 0);
+
+  const ids = (promo.product_ids || []).map(String);
+  const cats = (promo.categories || []).map((c) => c.toLowerCase());
+  if (!ids.length && !cats.length) return lines.reduce((s, l) => s + lineTotal(l), 0);
+
+  let categoryOf = new Map<string, string>();
+  const cartIds = lines.map((l) => l.product_id).filter((id) => id != null).map(String);
+  if (cats.length && cartIds.length) {
+    const { data } = await supa
+      .from("products")
+      .select("id, category")
+      .eq("org_id", org_id)
+      .in("id", cartIds);
+    categoryOf = new Map(
+      ((data || []) as { id: string; category: string | null }[]).map((p) => [
+        String(p.id),
+        (p.category || "").toLowerCase(),
+      ])
+    );
+  }
+
+  return lines
+    .filter((l) => {
+      const id = l.product_id != null ? String(l.product_id) : null;
+      if (id && ids.includes(id)) return true;
+      return !!id && cats.includes(categoryOf.get(id) || "");
+    })
+    .reduce((s, l) => s + lineTotal(l), 0);
+}
+
+/**
+ * Checks a code for this customer. `lines` null = no cart yet (only the
+ * code / dates / first-order / limits are checked).
+ */
+export async function evaluatePromo(
+  org_id: string,
+  from_phone: string,
+  code: string,
+  lines: PromoLine[] | null,
+  opts: { orderId?: string | null; now?: Date } = {}
+): Promise<PromoEvaluation> {
+  const norm = normalizePromoCode(code);
+  const promo = await findPromoCode(org_id, norm);
+  const reject = (reason: PromoRejectReason): PromoEvaluation => ({
+    ok: false,
+    code: norm,
+    promo,
+    reason,
+  });
+
+  if (!promo) return reject("not_found");
+  if (promo.is_active === false) return reject("inactive");
+
+  const now = opts.now || new Date();
+  if (promo.valid_from && new Date(promo.valid_from) > now) return reject("not_started");
+  if (promo.valid_until && new Date(promo.valid_until) < now) return reject("expired");
+
+  if (promo.first_order_only && (await hasPreviousOrder(org_id, from_phone, opts.orderId))) {
+    return reject("first_order_only");
+  }
+
+  if (promo.per_customer_limit != null && promo.per_customer_limit > 0) {
+    const used = await countRedemptions(promo, {
+      phoneKey: normalizePhone(from_phone),
+      excludeOrderId: opts.orderId,
+    });
+    if (used >= promo.per_customer_limit) return reject("usage_limit");
+  }
+
+  if (promo.total_limit != null && promo.total_limit > 0) {
+    const used = await countRedemptions(promo, { excludeOrderId: opts.orderId });
+    if (used >= promo.total_limit) return reject("total_limit");
+  }
+
+  if (!lines) {
+    return { ok: true, code: norm, promo, subtotal: 0, eligibleSubtotal: 0, discount: 0 };
+  }
+
+  const subtotal = money(
+    lines.reduce((s, l) => s + (Number(l.price) || 0) * (Number(l.qty) || 0), 0)
+  );
+  if (promo.min_order != null && subtotal < Number(promo.min_order)) return reject("min_order");
+
+  const eligibleSubtotal = money(await eligibleSubtotalFor(promo, org_id, lines));
+  if (eligibleSubtotal <= 0) return reject("no_eligible_items");
+
+  let discount =
+    promo.kind === "percent"
+      ? (eligibleSubtotal * Number(promo.value || 0)) / 100
+      : Number(promo.value || 0);
+  if (promo.kind === "percent" && promo.max_discount != null && Number(promo.max_discount) > 0) {
+    discount = Math.min(discount, Number(promo.max_discount));
+  }
+  discount = money(Math.max(0, Math.min(discount, eligibleSubtotal)));
+
+  return { ok: true, code: norm, promo, subtotal, eligibleSubtotal, discount };
+}
+
+export function promoRejectMessage(ev: PromoEvaluation): string {
+  if (!("reason" in ev)) return "";
+  const p = ev.promo;
+  const code = `*${ev.code}*`;
+
+  switch (ev.reason) {
+    case "not_found":
+    case "inactive":
+      return `❌ Sorry, ${code} isn’t a valid code.`;
+    case "not_started":
+      return `⏳ ${code} isn’t active yet.`;
+    case "expired":
+      return `⌛ Sorry, ${code} has expired.`;
+    case "min_order":
+      return `🛒 ${code} needs a minimum order of *${fmt(Number(p?.min_order || 0))}*.`;
+    case "first_order_only":
+      return `🙏 ${code} is only for your first order.`;
+    case "usage_limit":
+      return `🙏 You’ve already used ${code}.`;
+    case "total_limit":
+      return `🙏 Sorry, ${code} has been fully redeemed.`;
+    case "no_eligible_items":
+      return `🛒 ${code} doesn’t apply to the items in your cart.`;
+  }
+}
+
+export function promoAppliedLine(ev: PromoEvaluation): string {
+  if (!ev.ok) return "";
+  return ev.discount > 0
+    ? `🏷️ *${ev.code}* applied – you save *${fmt(ev.discount)}*.`
+    : `🏷️ *${ev.code}* saved – it’ll apply to your next order.`;
+}
+
+// ─────────────────────────────
+// Order helpers
+// ─────────────────────────────
+
+/** Items subtotal + delivery fee − discount + GST on top (what the customer pays). */
+export function orderPayableAmount(order: any): number {
+  const items = Array.isArray(order?.items) ? order.items : [];
+  const tax = Math.max(0, Number(order?.tax_amount || 0));
+  // total_amount already carries the GST
+  const itemsTotal = items.length
+    ? items.reduce((s: number, it: any) => s + (Number(it.price) || 0) * (Number(it.qty) || 0), 0) + tax
+    : Number(order?.total_amount || 0);
+  const fee = Math.max(0, Number(order?.delivery_fee || 0));
+  const discount = Math.max(0, Number(order?.discount_amount || 0));
+  return money(Math.max(0, itemsTotal + fee - discount));
+}
+
+async function setPendingPromo(org_id: string, from_phone: string, code: string | null) {
+  const { error } = await supa.from("org_customer_settings").upsert(
+    {
+      org_id,
+      customer_phone: normalizePhone(from_phone),
+      pending_promo_code: code,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "org_id,customer_phone" }
+  );
+  if (error) console.warn("[PROMO][PENDING_SAVE_ERR]", error.message);
+}
+
+async function getPendingPromo(org_id: string, from_phone: string): Promise<string | null> {
+  const { data } = await supa
+    .from("org_customer_settings")
+    .select("pending_promo_code")
+    .eq("org_id", org_id)
+    .eq("customer_phone", normalizePhone(from_phone))
+    .maybeSingle();
+  return (data as any)?.pending_promo_code || null;
+}
+
+async function saveOrderPromo(
+  org_id: string,
+  from_phone: string,
+  order_id: string,
+  ev: PromoEvaluation | null
+) {
+  await supa
+    .from("orders")
+    .update({
+      promo_code: ev?.ok ? ev.code : null,
+      discount_amount: ev?.ok ? ev.discount : 0,
+    } as any)
+    .eq("id", order_id);
+
+  await supa.from("promo_redemptions").delete().eq("order_id", order_id);
+  if (!ev?.ok) return;
+
+  const { error } = await supa.from("promo_redemptions").insert({
+    org_id,
+    promo_id: ev.promo.id,
+    code: ev.code,
+    customer_phone: normalizePhone(from_phone),
+    order_id,
+    discount: ev.discount,
+    created_at: new Date().toISOString(),
+  });
+  if (error) console.warn("[PROMO][REDEMPTION_ERR]", error.message);
+}
+
+/** Discount preview for the cart (pending code), or null without one. */
+export async function previewCartPromo(
+  org_id: string,
+  from_phone: string,
+  cart: PromoLine[]
+): Promise<PromoEvaluation | null> {
+  const code = await getPendingPromo(org_id, from_phone);
+  if (!code || !cart.length) return null;
+  return evaluatePromo(org_id, from_phone, code, cart);
+}
+
+/**
+ * Cart confirmed → apply the pending code to the new order. Returns the line
+ * for the confirmation message (applied, or why it no longer applies).
+ */
+export async function applyPendingPromoToOrder(
+  org_id: string,
+  from_phone: string,
+  order_id: string,
+  cart: PromoLine[]
+): Promise<{ evaluation: PromoEvaluation; line: string } | null> {
+  const code = await getPendingPromo(org_id, from_phone);
+  if (!code) return null;
+
+  const ev = await evaluatePromo(org_id, from_phone, code, cart, { orderId: order_id });
+  await setPendingPromo(org_id, from_phone, null);
+
+  if ("reason" in ev) {
+    console.log("[PROMO][NOT_APPLIED]", { org_id, order_id, code, reason: ev.reason });
+    return { evaluation: ev, line: promoRejectMessage(ev) };
+  }
+
+  await saveOrderPromo(org_id, from_phone, order_id, ev);
+  console.log("[PROMO][APPLIED]", { org_id, order_id, code, discount: ev.discount });
+  return { evaluation: ev, line: promoAppliedLine(ev) };
+}
+
+// ─────────────────────────────
+// Chat command
+// ─────────────────────────────
+
+const CART_STATES: ConversationState[] = [
+  "confirming_order",
+  "cart_edit_menu",
+  "cart_edit_item",
+  "cart_edit_qty",
+  "cart_remove_item",
+];
+
+// order exists but payment not chosen yet → discount goes straight on it
+const ORDER_STATES: ConversationState[] = [
+  "awaiting_fulfillment",
+  "awaiting_address",
+  "awaiting_location_pin",
+  "awaiting_payment",
+];
+
+function continueHint(state: ConversationState): Pick<IngestResult, "interactive"> & { text: string } {
+  if (state === "confirming_order") {
+    return { text: "Reply *1* to confirm your order or *2* to edit it.", interactive: confirmOrderOptions() };
+  }
+  if (state === "awaiting_payment") {
+    return {
+      text: "How would you like to pay?\n1) Cash\n2) Online Payment\n\nPlease type *1* or *2*.",
+      interactive: paymentMethodOptions(),
+    };
+  }
+  if (state === "idle") return { text: "Send your order whenever you’re ready 😊", interactive: null };
+  return { text: "Let’s continue where we left off 👇", interactive: null };
+}
+
+async function getDraftOrder(org_id: string, from_phone: string) {
+  const { data } = await supa
+    .from("orders")
+    .select("id, items, total_amount, delivery_fee, status, razorpay_payment_link_url")
+    .eq("org_id", org_id)
+    .eq("source_phone", from_phone)
+    .eq("status", "awaiting_customer_action")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data as any;
+}
+
+async function getCart(org_id: string, from_phone: string): Promise<PromoLine[]> {
+  const { data } = await supa
+    .from("temp_selected_items")
+    .select("cart")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .maybeSingle();
+  return Array.isArray((data as any)?.cart) ? ((data as any).cart as PromoLine[]) : [];
+}
+
+export async function handlePromoCommand(
+  ctx: IngestContext,
+  state: ConversationState,
+  cmd: { action: "apply"; code: string } | { action: "remove" }
+): Promise<IngestResult> {
+  const { org_id, from_phone } = ctx;
+  const hint = continueHint(state);
+  const reply = (text: string, order_id: string | null = null): IngestResult => ({
+    used: true,
+    kind: "order",
+    order_id,
+    reply: `${text}\n\n${hint.text}`,
+    interactive: hint.interactive,
+  });
+
+  const order = ORDER_STATES.includes(state) ? await getDraftOrder(org_id, from_phone) : null;
+
+  if (order?.razorpay_payment_link_url) {
+    return reply(
+      "💳 Your payment link is already created, so codes can’t be changed on this order.",
+      order.id
+    );
+  }
+
+  if (cmd.action === "remove") {
+    await setPendingPromo(org_id, from_phone, null);
+    if (order?.id) {
+      await saveOrderPromo(org_id, from_phone, order.id, null);
+      await refreshOrderTax(org_id, order.id);
+    }
+    return reply("🗑️ Promo code removed.", order?.id || null);
+  }
+
+  // draft order (after "confirm", before payment)
+  if (order?.id) {
+    const ev = await evaluatePromo(org_id, from_phone, cmd.code, order.items || [], {
+      orderId: order.id,
+    });
+    if (!ev.ok) return reply(promoRejectMessage(ev), order.id);
+
+    await saveOrderPromo(org_id, from_phone, order.id, ev);
+    const tax_amount = await refreshOrderTax(org_id, order.id);
+    const payable = orderPayableAmount({ ...order, discount_amount: ev.discount, tax_amount });
+    return reply(`${promoAppliedLine(ev)}\n💰 New total: *${fmt(payable)}*`, order.id);
+  }
+
+  // cart (or nothing yet) → keep it until the cart is confirmed
+  const cart = CART_STATES.includes(state) || state === "idle" ? await getCart(org_id, from_phone) : [];
+  const ev = await evaluatePromo(org_id, from_phone, cmd.code, cart.length ? cart : null);
+  if (!ev.ok) return reply(promoRejectMessage(ev));
+
+  await setPendingPromo(org_id, from_phone, ev.code);
+
+  if (!cart.length) {
+    const what = ev.promo.description ? ` (${ev.promo.description})` : "";
+    return reply(`🏷️ *${ev.code}*${what} saved – it’ll apply when you confirm your order.`);
+  }
+  return reply(`${promoAppliedLine(ev)}\n💰 New total: *${fmt(money(ev.subtotal - ev.discount))}*`);
+}
@@ -0,0 +1,118 @@
+// src/ai/ingest/replyOptions.ts
+// Builders for structured reply options (buttons / lists) attached to IngestResult.
+// Cloud API limits: max 3 reply buttons (title ≤ 20 chars),
+// max 10 list rows in total (title ≤ 24 chars, description ≤ 72 chars).
+
+import type {
+  InteractiveReply,
+  ReplyButton,
+  ReplyListRow,
+} from "./types";
+
+export const MAX_REPLY_BUTTONS = 3;
+export const MAX_LIST_ROWS = 10;
+
+function clip(s: string, max: number): string {
+  const t = (s || "").trim();
+  return t.length > max ? t.slice(0, max - 1) + "…" : t;
+}
+
+export function buttonReply(
+  buttons: ReplyButton[],
+  opts: { header?: string | null; footer?: string | null } = {}
+): InteractiveReply | null {
+  const list = (buttons || []).filter((b) => b && b.id && b.title);
+  if (!list.length || list.length > MAX_REPLY_BUTTONS) return null;
+
+  return {
+    type: "button",
+    buttons: list.map((b) => ({ id: String(b.id), title: clip(b.title, 20) })),
+    header: opts.header ?? null,
+    footer: opts.footer ?? null,
+  };
+}
+
+export function listReply(
+  rows: ReplyListRow[],
+  opts: {
+    button?: string;
+    sectionTitle?: string | null;
+    header?: string | null;
+    footer?: string | null;
+  } = {}
+): InteractiveReply | null {
+  const list = (rows || []).filter((r) => r && r.id && r.title);
+  if (!list.length || list.length > MAX_LIST_ROWS) return null;
+
+  return {
+    type: "list",
+    button: clip(opts.button || "Choose", 20),
+    sections: [
+      {
+        title: opts.sectionTitle ? clip(opts.sectionTitle, 24) : null,
+        rows: list.map((r) => ({
+          id: String(r.id),
+          title: clip(r.title, 24),
+          description: r.description ? clip(r.description, 72) : null,
+        })),
+      },
+    ],
+    header: opts.header ?? null,
+    footer: opts.footer ?? null,
+  };
+}
+
+// Numbered menu ("1) …", "2) …") → buttons when it fits, otherwise a list.
+export function numberedOptions(
+  titles: string[],
+  opts: { button?: string; sectionTitle?: string | null } = {}
+): InteractiveReply | null {
+  const rows = (titles || []).map((title, i) => ({
+    id: String(i + 1),
+    title,
+  }));
+
+  if (rows.length <= MAX_REPLY_BUTTONS) {
+    const fitsButtons = rows.every((r) => r.title.trim().length <= 20);
+    if (fitsButtons) return buttonReply(rows);
+  }
+
+  return listReply(rows, opts);
+}
+
+// ─────────────────────────────────────────────
+// Shared menus used by several engines
+// ─────────────────────────────────────────────
+
+export function confirmOrderOptions(): InteractiveReply | null {
+  return buttonReply([
+    { id: "1", title: "Confirm order" },
+    { id: "2", title: "Edit your order" },
+  ]);
+}
+
+export function editOrderOptions(withBack = true): InteractiveReply | null {
+  const rows: ReplyListRow[] = [
+    { id: "1", title: "Add another item" },
+    { id: "2", title: "Change quantity" },
+    { id: "3", title: "Remove an item" },
+    { id: "4", title: "Cancel order" },
+  ];
+  if (withBack) rows.push({ id: "5", title: "Back" });
+
+  return listReply(rows, { button: "Edit options" });
+}
+
+export function fulfillmentOptions(): InteractiveReply | null {
+  return buttonReply([
+    { id: "1", title: "Store Pickup" },
+    { id: "2", title: "Home Delivery" },
+  ]);
+}
+
+export function paymentMethodOptions(): InteractiveReply | null {
+  return buttonReply([
+    { id: "1", title: "Cash" },
+    { id: "2", title: "Online Payment" },
+  ]);
+}
@@ -0,0 +1,573 @@
+// src/ai/ingest/scheduleEngine.ts
+import { supa } from "../../db";
+import { OPEN_ORDER_STATUS_VALUES } from "../../order/orderLifecycle";
+import {
+  addLocalDays,
+  getOpenIntervals,
+  loadStoreHoursConfig,
+  localParts,
+  zonedTimeToUtc,
+  type OpenInterval,
+} from "../helpers/storeHours";
+
+/**
+ * Scheduled / pre-orders ("deliver tomorrow 8am").
+ *
+ * Orders carry the booked slot in orders.scheduled_for / scheduled_until
+ * (null = as soon as possible). Slots are cut from the store's open hours
+ * (helpers/storeHours) and limited per slot by capacity.
+ *
+ * orgs columns (all optional):
+ *   scheduling_enabled        bool  (default true)
+ *   schedule_slot_minutes     int   (default 30)
+ *   schedule_slot_capacity    int   orders per slot (0/null = unlimited)
+ *   schedule_days_ahead       int   how far ahead customers can book (default 3)
+ *   schedule_min_lead_minutes int   earliest slot = now + lead (default 30)
+ *
+ * A time asked for before there is an order is kept in
+ * org_customer_settings.requested_slot_at and applied when the order is
+ * confirmed. Orders confirmed while the store is closed go to the next free
+ * slot instead of being refused.
+ *
+ * Only open orders hold a slot. Booking one is count + write under a per-slot
+ * lock, so two customers can't both take the last place:
+ *
+ *   create or replace function reserve_order_slot(
+ *     p_org uuid, p_order uuid, p_start timestamptz, p_end timestamptz,
+ *     p_capacity int, p_statuses text[]
+ *   ) returns boolean language plpgsql as $$
+ *   declare n int;
+ *   begin
+ *     perform pg_advisory_xact_lock(hashtext(p_org::text || p_start::text));
+ *     if p_capacity is not null then
+ *       select count(*) into n from orders
+ *        where org_id = p_org and scheduled_for = p_start
+ *          and id <> p_order and status = any(p_statuses);
+ *       if n >= p_capacity then return false; end if;
+ *     end if;
+ *     update orders set scheduled_for = p_start, scheduled_until = p_end
+ *      where id = p_order and org_id = p_org;
+ *     return found;
+ *   end $$;
+ *
+ * Without the function, the slot is written first and given back if the
+ * recount shows it overfilled.
+ */
+
+export type ScheduleConfig = {
+  enabled: boolean;
+  slotMinutes: number;
+  capacity: number | null;
+  daysAhead: number;
+  minLeadMinutes: number;
+};
+
+export type DeliverySlot = {
+  start: string;
+  end: string;
+  label: string;
+  booked: number;
+  capacity: number | null;
+  available: boolean;
+};
+
+// orders that still need to be fulfilled (can be (re)scheduled by the customer)
+const SCHEDULABLE_ORDER_STATUSES = [
+  "pending",
+  "awaiting_payment_or_method",
+  "awaiting_fulfillment",
+  "awaiting_payment",
+  "awaiting_payment_proof",
+  "awaiting_customer_action",
+  "awaiting_store_action",
+];
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+const posInt = (v: any, dflt: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : dflt;
+};
+
+export async function getScheduleConfig(org_id: string): Promise<ScheduleConfig> {
+  const { data } = await supa
+    .from("orgs")
+    .select(
+      "scheduling_enabled, schedule_slot_minutes, schedule_slot_capacity, schedule_days_ahead, schedule_min_lead_minutes"
+    )
+    .eq("id", org_id)
+    .maybeSingle();
+
+  const row: any = data || {};
+  const cap = Number(row.schedule_slot_capacity);
+
+  return {
+    enabled: row.scheduling_enabled !== false,
+    slotMinutes: Math.min(240, posInt(row.schedule_slot_minutes, 30)),
+    capacity: Number.isFinite(cap) && cap > 0 ? Math.floor(cap) : null,
+    daysAhead: Math.min(14, posInt(row.schedule_days_ahead, 3)),
+    minLeadMinutes: row.schedule_min_lead_minutes == null ? 30 : Math.max(0, Number(row.schedule_min_lead_minutes) || 0),
+  };
+}
+
+export function formatSlotLabel(start: Date, timezone: string, now = new Date()): string {
+  const p = localParts(start, timezone);
+  const today = addLocalDays(now, 0, timezone);
+  const tomorrow = addLocalDays(now, 1, timezone);
+
+  const time = new Intl.DateTimeFormat("en-IN", {
+    timeZone: timezone,
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  }).format(start);
+
+  if (p.y === today.y && p.m === today.m && p.d === today.d) return `Today ${time}`;
+  if (p.y === tomorrow.y && p.m === tomorrow.m && p.d === tomorrow.d) return `Tomorrow ${time}`;
+
+  const day = new Intl.DateTimeFormat("en-IN", {
+    timeZone: timezone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  }).format(start);
+  return `${day}, ${time}`;
+}
+
+async function countBookings(org_id: string, from: Date, to: Date) {
+  const { data, error } = await supa
+    .from("orders")
+    .select("scheduled_for")
+    .eq("org_id", org_id)
+    .gte("scheduled_for", from.toISOString())
+    .lt("scheduled_for", to.toISOString())
+    .in("status", OPEN_ORDER_STATUS_VALUES);
+
+  if (error) console.warn("[SCHEDULE][COUNT_ERR]", error.message);
+
+  const counts = new Map<number, number>();
+  for (const r of data || []) {
+    const t = new Date((r as any).scheduled_for).getTime();
+    counts.set(t, (counts.get(t) || 0) + 1);
+  }
+  return counts;
+}
+
+function cutSlots(intervals: OpenInterval[], slotMinutes: number, earliest: Date, until: Date) {
+  const step = slotMinutes * 60_000;
+  const out: { start: Date; end: Date }[] = [];
+
+  for (const iv of intervals) {
+    for (let t = iv.start.getTime(); t + step <= iv.end.getTime(); t += step) {
+      if (t < earliest.getTime()) continue;
+      if (t >= until.getTime()) break;
+      out.push({ start: new Date(t), end: new Date(t + step) });
+    }
+  }
+  return out;
+}
+
+/**
+ * Bookable slots from now (+ lead) for `days` days. Hours not configured →
+ * no slots (the store takes orders any time, nothing to schedule).
+ */
+export async function listDeliverySlots(
+  org_id: string,
+  opts: { days?: number; includeFull?: boolean; now?: Date } = {}
+): Promise<{ timezone: string; config: ScheduleConfig; slots: DeliverySlot[] }> {
+  const config = await getScheduleConfig(org_id);
+  const now = opts.now || new Date();
+  const days = Math.min(14, opts.days || config.daysAhead);
+
+  const until = new Date(now.getTime() + days * 24 * 3600_000);
+  const earliest = new Date(now.getTime() + config.minLeadMinutes * 60_000);
+
+  const { timezone, intervals } = await getOpenIntervals(org_id, now, until);
+  if (!intervals) return { timezone, config, slots: [] };
+
+  const raw = cutSlots(intervals, config.slotMinutes, earliest, until);
+  const counts = raw.length ? await countBookings(org_id, raw[0].start, until) : new Map();
+
+  const slots = raw
+    .map((s) => {
+      const booked = counts.get(s.start.getTime()) || 0;
+      return {
+        start: s.start.toISOString(),
+        end: s.end.toISOString(),
+        label: formatSlotLabel(s.start, timezone, now),
+        booked,
+        capacity: config.capacity,
+        available: config.capacity == null || booked < config.capacity,
+      };
+    })
+    .filter((s) => opts.includeFull || s.available);
+
+  return { timezone, config, slots };
+}
+
+export async function isStoreOpenAt(org_id: string, at = new Date()): Promise<boolean> {
+  const { intervals } = await getOpenIntervals(org_id, at, new Date(at.getTime() + 60_000));
+  if (!intervals) return true;
+  return intervals.some((iv) => iv.start <= at && at < iv.end);
+}
+
+export async function nextAvailableSlot(org_id: string): Promise<{ slot: DeliverySlot; timezone: string } | null> {
+  const { timezone, slots } = await listDeliverySlots(org_id);
+  return slots[0] ? { slot: slots[0], timezone } : null;
+}
+
+// ─────────────────────────────
+// "tomorrow 8am" → Date
+// ─────────────────────────────
+const DAY_WORDS: [RegExp, number][] = [
+  [/\bday after tomorrow\b/, 2],
+  [/\b(tomorrow|tmrw|tmr|tomo|nalai|naalai)\b/, 1],
+  [/\b(today|tonight)\b/, 0],
+];
+
+const WEEKDAY_RE =
+  /\b(sun|mon|tue|wed|thu|fri|sat)(day|nesday|sday|rsday|urday|s|rs|r)?\b/;
+const WEEKDAY_WORDS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export type RequestedTime = {
+  at: Date | null; // exact time asked for
+  dayOffset: number | null; // a day without a time ("tomorrow")
+};
+
+export function parseRequestedTime(text: string, timezone: string, now = new Date()): RequestedTime {
+  const s = (text || "").toLowerCase();
+  const local = localParts(now, timezone);
+
+  let dayOffset: number | null = null;
+  for (const [re, off] of DAY_WORDS) {
+    if (re.test(s)) {
+      dayOffset = off;
+      break;
+    }
+  }
+  if (dayOffset == null) {
+    const wd = s.match(WEEKDAY_RE);
+    if (wd) dayOffset = (WEEKDAY_WORDS.indexOf(wd[1]) - local.weekday + 7) % 7;
+  }
+
+  let minutes: number | null = null;
+  if (/\bnoon\b/.test(s)) minutes = 12 * 60;
+  else if (/\bmidnight\b/.test(s)) minutes = 24 * 60;
+  else {
+    // needs am/pm, a colon, at/by/around or a day word – "2 biryani" is not a time
+    const m =
+      s.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.?|p\.m\.?)/) ||
+      s.match(/\b(\d{1,2})[:.](\d{2})\b()/) ||
+      s.match(/\b(?:at|by|around|@)\s*(\d{1,2})(?:[:.](\d{2}))?\b()/) ||
+      s.match(/\b(?:today|tonight|tomorrow|tmrw|morning|evening|night)\s+(\d{1,2})(?:[:.](\d{2}))?\b()/);
+
+    if (m) {
+      let h = Number(m[1]);
+      const mm = Number(m[2] || 0);
+      const mer = (m[3] || "").replace(/\./g, "");
+
+      if (h <= 24 && mm < 60) {
+        if (mer === "pm" && h < 12) h += 12;
+        else if (mer === "am" && h === 12) h = 0;
+        else if (!mer && h < 12) {
+          if (/\b(night|tonight|evening|eve)\b/.test(s)) h += 12;
+          else if (!/\bmorning\b/.test(s) && h <= 6) h += 12; // "at 5" → 5 pm
+        }
+        minutes = h * 60 + mm;
+      }
+    }
+  }
+
+  if (minutes == null) return { at: null, dayOffset };
+
+  let off = dayOffset ?? 0;
+  if (dayOffset == null && minutes <= local.minutes) off = 1; // "8am" said at 9am → tomorrow
+
+  const day = addLocalDays(now, off, timezone);
+  return { at: zonedTimeToUtc(day.y, day.m, day.d, minutes, timezone), dayOffset: off };
+}
+
+// ─────────────────────────────
+// Booking
+// ─────────────────────────────
+export async function setOrderSchedule(
+  org_id: string,
+  order_id: string,
+  slot: { start: string; end: string } | null
+) {
+  const { error } = await supa
+    .from("orders")
+    .update({
+      scheduled_for: slot?.start ?? null,
+      scheduled_until: slot?.end ?? null,
+    })
+    .eq("id", order_id)
+    .eq("org_id", org_id);
+
+  if (error) console.warn("[SCHEDULE][SET_ERR]", { org_id, order_id, error: error.message });
+  return !error;
+}
+
+/**
+ * Books `slot` for the order if it still has room (see reserve_order_slot
+ * above). False = full by now; the order keeps its previous slot.
+ */
+export async function reserveOrderSlot(
+  org_id: string,
+  order_id: string,
+  slot: { start: string; end: string },
+  capacity: number | null
+): Promise<boolean> {
+  if (capacity == null) return setOrderSchedule(org_id, order_id, slot);
+
+  const { data, error } = await supa.rpc("reserve_order_slot", {
+    p_org: org_id,
+    p_order: order_id,
+    p_start: slot.start,
+    p_end: slot.end,
+    p_capacity: capacity,
+    p_statuses: OPEN_ORDER_STATUS_VALUES,
+  });
+  if (!error) return data === true;
+
+  console.warn("[SCHEDULE][RESERVE_RPC_FALLBACK]", error.message);
+
+  const { data: prev } = await supa
+    .from("orders")
+    .select("scheduled_for, scheduled_until")
+    .eq("id", order_id)
+    .eq("org_id", org_id)
+    .maybeSingle();
+
+  if (!(await setOrderSchedule(org_id, order_id, slot))) return false;
+
+  const start = new Date(slot.start);
+  const booked = (await countBookings(org_id, start, new Date(start.getTime() + 1))).get(start.getTime()) || 0;
+  if (booked <= capacity) return true;
+
+  // lost the race for the last place → give it back (both racers may back
+  // off; a retry picks the next slot, overbooking can't happen)
+  await supa
+    .from("orders")
+    .update({ scheduled_for: prev?.scheduled_for ?? null, scheduled_until: prev?.scheduled_until ?? null })
+    .eq("id", order_id)
+    .eq("org_id", org_id)
+    .eq("scheduled_for", slot.start);
+  return false;
+}
+
+async function findOpenOrder(org_id: string, from_phone: string) {
+  const { data } = await supa
+    .from("orders")
+    .select("id, scheduled_for")
+    .eq("org_id", org_id)
+    .eq("source_phone", from_phone)
+    .in("status", SCHEDULABLE_ORDER_STATUSES)
+    .gte("created_at", new Date(Date.now() - 24 * 3600_000).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as { id: string; scheduled_for: string | null } | null) || null;
+}
+
+async function setRequestedSlot(org_id: string, from_phone: string, at: string | null) {
+  const { error } = await supa.from("org_customer_settings").upsert(
+    {
+      org_id,
+      customer_phone: normalizePhone(from_phone),
+      requested_slot_at: at,
+    },
+    { onConflict: "org_id,customer_phone" }
+  );
+  if (error) console.warn("[SCHEDULE][REQUEST_SAVE_ERR]", error.message);
+}
+
+async function getRequestedSlot(org_id: string, from_phone: string): Promise<string | null> {
+  const { data } = await supa
+    .from("org_customer_settings")
+    .select("requested_slot_at")
+    .eq("org_id", org_id)
+    .eq("customer_phone", normalizePhone(from_phone))
+    .maybeSingle();
+  return ((data as any)?.requested_slot_at as string | null) || null;
+}
+
+function slotContaining(slots: DeliverySlot[], at: Date) {
+  const t = at.getTime();
+  return slots.find((s) => new Date(s.start).getTime() <= t && t < new Date(s.end).getTime()) || null;
+}
+
+function nearestAvailable(slots: DeliverySlot[], at: Date, n = 3) {
+  const t = at.getTime();
+  return slots
+    .filter((s) => s.available)
+    .sort(
+      (a, b) =>
+        Math.abs(new Date(a.start).getTime() - t) - Math.abs(new Date(b.start).getTime() - t)
+    )
+    .slice(0, n)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+const slotList = (slots: DeliverySlot[]) =>
+  slots.map((s, i) => `${i + 1}) ${s.label}`).join("\n");
+
+/**
+ * delivery_time_specific lane: book the asked time (or list slots).
+ * null → scheduling not possible here (disabled / no hours), caller keeps the
+ * old hours-only answer.
+ */
+export async function handleScheduleRequest(
+  org_id: string,
+  from_phone: string,
+  text: string
+): Promise<string | null> {
+  const { timezone, config, slots } = await listDeliverySlots(org_id, { includeFull: true });
+  if (!config.enabled || !slots.length) return null;
+
+  const available = slots.filter((s) => s.available);
+  const req = parseRequestedTime(text, timezone);
+
+  // no exact time → show what's bookable (that day, if one was named)
+  if (!req.at) {
+    let pick = available;
+    if (req.dayOffset != null) {
+      const day = addLocalDays(new Date(), req.dayOffset, timezone);
+      pick = available.filter((s) => {
+        const p = localParts(new Date(s.start), timezone);
+        return p.y === day.y && p.m === day.m && p.d === day.d;
+      });
+    }
+    if (!pick.length) {
+      return available.length
+        ? `🗓 No free delivery slots that day.\nNext available:\n${slotList(available.slice(0, 3))}\n\nReply with a time, e.g. *${available[0].label.toLowerCase()}*.`
+        : "🗓 Sorry, there are no free delivery slots in the next few days.";
+    }
+    return (
+      `🗓 Available delivery slots:\n${slotList(pick.slice(0, 5))}\n\n` +
+      `Reply with a time, e.g. *${pick[0].label.toLowerCase()}*.`
+    );
+  }
+
+  const slot = slotContaining(slots, req.at);
+  if (!slot || !slot.available) {
+    const alt = nearestAvailable(slots, req.at);
+    const why = slot ? "that slot is fully booked" : "we don’t deliver at that time";
+    return alt.length
+      ? `❌ Sorry, ${why}.\nNearest available slots:\n${slotList(alt)}\n\nReply with one of these times.`
+      : `❌ Sorry, ${why}, and there are no free slots in the next ${config.daysAhead} days.`;
+  }
+
+  const open = await findOpenOrder(org_id, from_phone);
+  if (open) {
+    if (!(await reserveOrderSlot(org_id, open.id, slot, config.capacity))) {
+      const alt = nearestAvailable(
+        slots.filter((s) => s.start !== slot.start),
+        req.at
+      );
+      return alt.length
+        ? `❌ Sorry, that slot just filled up.\nNearest available slots:\n${slotList(alt)}\n\nReply with one of these times.`
+        : "❌ Sorry, that slot just filled up and there are no other free slots.";
+    }
+    await setRequestedSlot(org_id, from_phone, null);
+    return `✅ Your order is scheduled for *${slot.label}*.`;
+  }
+
+  await setRequestedSlot(org_id, from_phone, slot.start);
+  return (
+    `✅ *${slot.label}* is available.\n` +
+    "Send your order now (e.g. *2 Chicken Biryani, 1 Coke*) and I’ll book it for that slot."
+  );
+}
+
+/**
+ * Right after an order is created: apply the customer's requested slot, or –
+ * when the store is closed – book the next free slot. Returns a line for the
+ * confirmation message, or null for a normal ASAP order.
+ */
+export async function applyScheduleToNewOrder(
+  org_id: string,
+  from_phone: string,
+  order_id: string
+): Promise<{ scheduled_for: string | null; line: string } | null> {
+  try {
+    const { timezone, config, slots } = await listDeliverySlots(org_id);
+    if (!config.enabled) return null;
+
+    const requested = await getRequestedSlot(org_id, from_phone);
+    if (requested) {
+      await setRequestedSlot(org_id, from_phone, null);
+      const slot = slotContaining(slots, new Date(requested));
+      if (slot && (await reserveOrderSlot(org_id, order_id, slot, config.capacity))) {
+        return { scheduled_for: slot.start, line: `🗓 Scheduled for *${slot.label}*.` };
+      }
+      // slot filled up / passed meanwhile → fall through
+    }
+
+    if (await isStoreOpenAt(org_id)) {
+      return requested
+        ? { scheduled_for: null, line: "⚠️ Your requested time is no longer available, so we’ll deliver as soon as possible." }
+        : null;
+    }
+
+    // first free slot that we actually get (others may be booking too)
+    let next: DeliverySlot | null = null;
+    for (const s of slots.slice(0, 10)) {
+      if (await reserveOrderSlot(org_id, order_id, s, config.capacity)) {
+        next = s;
+        break;
+      }
+    }
+    if (!next) {
+      return {
+        scheduled_for: null,
+        line: "🌙 We’re closed right now – we’ll confirm your order when we open.",
+      };
+    }
+
+    console.log("[SCHEDULE][AFTER_HOURS]", { org_id, order_id, slot: next.start, timezone });
+    return {
+      scheduled_for: next.start,
+      line:
+        `🌙 We’re closed right now, so your order is scheduled for the next slot: *${next.label}*.\n` +
+        "Want a different time? Reply e.g. *tomorrow 1pm*.",
+    };
+  } catch (e: any) {
+    console.warn("[SCHEDULE][APPLY_ERR]", e?.message || e);
+    return null;
+  }
+}
+
+/** Dashboard queue: upcoming scheduled orders grouped by slot. */
+export async function getScheduledOrderQueue(org_id: string, opts: { days?: number } = {}) {
+  const timezone = (await loadStoreHoursConfig(org_id))?.timezone || "Asia/Kolkata";
+  const from = new Date(Date.now() - 60 * 60_000); // keep slots that just started
+  const to = new Date(Date.now() + Math.min(14, opts.days || 3) * 24 * 3600_000);
+
+  const { data, error } = await supa
+    .from("orders")
+    .select("*")
+    .eq("org_id", org_id)
+    .gte("scheduled_for", from.toISOString())
+    .lt("scheduled_for", to.toISOString())
+    .in("status", OPEN_ORDER_STATUS_VALUES)
+    .order("scheduled_for", { ascending: true });
+
+  if (error) throw error;
+
+  const bySlot = new Map<string, { start: string; end: string | null; label: string; orders: any[] }>();
+  for (const o of data || []) {
+    const key = (o as any).scheduled_for as string;
+    if (!bySlot.has(key)) {
+      bySlot.set(key, {
+        start: key,
+        end: (o as any).scheduled_until ?? null,
+        label: formatSlotLabel(new Date(key), timezone),
+        orders: [],
+      });
+    }
+    bySlot.get(key)!.orders.push(o);
+  }
+
+  return { timezone, slots: [...bySlot.values()] };
+}
@@ -1,6 +1,13 @@
 // src/ai/ingest/serviceIntentEngine.ts
 import { supa } from "../../db";
 import type { IngestResult } from "./types";
+import { handleScheduleRequest, nextAvailableSlot } from "./scheduleEngine";
+import {
+  formatIntervals,
+  formatLocalTime,
+  getDeliveryOpenState,
+  type StoreHoursState,
+} from "../helpers/storeHours";
 
 type ServiceIntent =
   | "delivery_now"
@@ -42,83 +49,38 @@ type OrgServiceConfig = {
 };
 
 
-function buildDeliveryTimeSpecificReply(cfg: OrgServiceConfig, text: string): string {
-  const name = cfg.name || "we";
-  const tz = cfg.store_timezone || "Asia/Kolkata";
-  const openT = cfg.delivery_open_time ?? null;
-  const closeT = cfg.delivery_close_time ?? null;
-
-  const hoursLine = fmtHours(openT, closeT);
-  const st = isOpenNowInTz(tz, openT, closeT);
-
-  // simple “best effort” messaging (no hard schedule promises)
-  // we just explain hours + ask confirmation
-  const lines: string[] = [];
-
-  lines.push(`🕒 About delivery timing:`);
-
-  if (hoursLine) lines.push(hoursLine);
-
-  if (st.hasHours) {
-    lines.push(
-      st.isOpen
-        ? `✅ ${name} is open now.`
-        : `❌ ${name} is closed right now.`
-    );
-  }
-
-  lines.push(
-    "",
-    `Please confirm your area + exact time (e.g. *today 12:00 AM*). I’ll tell you if delivery is possible.`
-  );
-
-  return lines.join("\n");
+function hoursState(hours: StoreHoursState) {
+  const hasHours = hours.status === "open" || hours.status === "closed";
+  return { hasHours, isOpen: hours.isOpenNow };
 }
 
-
-function parseHHMM(s?: string | null) {
-  if (!s) return null;
-  const m = String(s).match(/^(\d{1,2}):(\d{2})/); // supports "10:30" or "10:30:00"
-  if (!m) return null;
-  return { h: Number(m[1]), m: Number(m[2]) };
-}
-
-function getMinutesInTimeZone(tz: string) {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: tz,
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date());
-
-  const hh = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const mm = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hh * 60 + mm;
+function fmtHours(hours: StoreHoursState) {
+  // holiday, but last night's shift is still running
+  if (hours.holiday && hours.isOpenNow && hours.closesAt) {
+    return `Open until *${formatLocalTime(hours.closesAt, hours.timezone || "Asia/Kolkata")}*`;
+  }
+  if (hours.holiday) {
+    return `📅 Closed today${hours.holiday.note ? ` (${hours.holiday.note})` : ""}.`;
+  }
+  const today = formatIntervals(hours.today);
+  return today ? `Today’s hours: *${today}*` : "";
 }
 
-function isOpenNowInTz(tz: string, openHHMM: string | null, closeHHMM: string | null) {
-  const o = parseHHMM(openHHMM);
-  const c = parseHHMM(closeHHMM);
-  if (!o || !c) return { hasHours: false, isOpen: false };
-
-  const openMin = o.h * 60 + o.m;
-  const closeMin = c.h * 60 + c.m;
-  const nowMin = getMinutesInTimeZone(tz);
+// why we're closed + when we open again
+function closedDetail(hours: StoreHoursState) {
+  const tz = hours.timezone || "Asia/Kolkata";
+  const lines: string[] = [];
 
-  // same-day window
-  if (closeMin > openMin) {
-    return { hasHours: true, isOpen: nowMin >= openMin && nowMin < closeMin };
+  if (hours.reason === "closed_override") {
+    lines.push(`⏸️ Temporarily closed${hours.closedReason ? ` – ${hours.closedReason}` : ""}.`);
+  } else {
+    const h = fmtHours(hours);
+    if (h) lines.push(h);
   }
-
-  // overnight window (e.g. 18:00 → 02:00)
-  return { hasHours: true, isOpen: nowMin >= openMin || nowMin < closeMin };
-}
-
-function fmtHours(openHHMM: string | null, closeHHMM: string | null) {
-  if (!openHHMM || !closeHHMM) return "";
-  const o = (openHHMM || "").slice(0, 5);
-  const c = (closeHHMM || "").slice(0, 5);
-  return `Today’s hours: *${o} – ${c}*`;
+  if (hours.nextOpenAt) {
+    lines.push(`We open again *${formatLocalTime(hours.nextOpenAt, tz)}*.`);
+  }
+  return lines.join("\n");
 }
 
 
@@ -150,9 +112,18 @@ function buildStoreLocationReply(cfg: OrgServiceConfig): string {
   return lines.join("\n");
 }
 
+// After hours: offer the next bookable slot instead of just "closed"
+function closedOrderLine(nextSlotLabel?: string | null) {
+  return nextSlotLabel
+    ? `🗓 Next delivery slot: *${nextSlotLabel}* – send your order now and we’ll schedule it.`
+    : "You can still send your order — we’ll confirm it when we open.";
+}
+
 function buildDeliveryNowReply(
   cfg: OrgServiceConfig,
-  text: string
+  text: string,
+  hours: StoreHoursState,
+  nextSlotLabel?: string | null
 ): string {
   // Store custom override first
   if (cfg.faq_delivery_answer && cfg.faq_delivery_answer.trim()) {
@@ -160,14 +131,11 @@ function buildDeliveryNowReply(
   }
 
   const name = cfg.name || "we";
-  const tz = cfg.store_timezone || "Asia/Kolkata";
-  const openT = cfg.delivery_open_time ?? null;
-  const closeT = cfg.delivery_close_time ?? null;
 
-  const st = isOpenNowInTz(tz, openT, closeT);
-  const hoursLine = fmtHours(openT, closeT);
+  const st = hoursState(hours);
+  const hoursLine = fmtHours(hours);
   if (st.hasHours && !st.isOpen) {
-    return `❌ Sorry, *${name}* is *closed* right now, so we’re *not delivering now*.\n${hoursLine}\n\nYou can still send your order — we’ll confirm it when we open.`;
+    return `❌ Sorry, *${name}* is *closed* right now, so we’re *not delivering now*.\n${closedDetail(hours)}\n\n${closedOrderLine(nextSlotLabel)}`;
   }
   const freeKm = Number(cfg.delivery_free_km ?? 0);
   const maxKm = Number(cfg.delivery_max_km ?? 0);
@@ -212,25 +180,25 @@ function buildDeliveryNowReply(
   return lines.join("\n");
 }
 
-function buildOpeningHoursReply(cfg: OrgServiceConfig): string {
+function buildOpeningHoursReply(
+  cfg: OrgServiceConfig,
+  hours: StoreHoursState,
+  nextSlotLabel?: string | null
+): string {
   if (cfg.faq_opening_hours_answer && cfg.faq_opening_hours_answer.trim()) {
     return cfg.faq_opening_hours_answer.trim();
   }
 
   const name = cfg.name || "We";
-  const tz = cfg.store_timezone || "Asia/Kolkata";
 
-  const openT = cfg.delivery_open_time ?? null;
-  const closeT = cfg.delivery_close_time ?? null;
-
-  const st = isOpenNowInTz(tz, openT, closeT);
-  const hoursLine = fmtHours(openT, closeT);
+  const st = hoursState(hours);
+  const hoursLine = fmtHours(hours);
 
   if (st.hasHours) {
     if (st.isOpen) {
       return `✅ Yes, *${name}* is *OPEN* now.\n${hoursLine}\n\nType *menu* or send items (e.g. *2 Chicken Biryani, 1 Coke*).`;
     }
-    return `❌ *${name}* is *CLOSED* right now.\n${hoursLine}\n\nYou can still send your order — we’ll confirm it when we open.`;
+    return `❌ *${name}* is *CLOSED* right now.\n${closedDetail(hours)}\n\n${closedOrderLine(nextSlotLabel)}`;
   }
 
   // fallback if hours not configured
@@ -300,7 +268,7 @@ function buildDeliveryAreaReply(cfg: OrgServiceConfig): string {
 export async function handleServiceLaneAndReply(
   org_id: string,
   lane: ServiceLane,
-  opts?: { raw?: string; normalizedText?: string }
+  opts?: { raw?: string; normalizedText?: string; from_phone?: string }
 ): Promise<IngestResult | null> {
   try {
     const { data, error } = await supa
@@ -335,12 +303,18 @@ export async function handleServiceLaneAndReply(
 
     let reply: string | null = null;
 
+    const hours = await getDeliveryOpenState(org_id);
+    const nextSlotLabel =
+      lane === "delivery_now" || lane === "opening_hours"
+        ? (await nextAvailableSlot(org_id).catch(() => null))?.slot.label ?? null
+        : null;
+
     switch (lane) {
       case "delivery_now":
-        reply = buildDeliveryNowReply(cfg, text);
+        reply = buildDeliveryNowReply(cfg, text, hours, nextSlotLabel);
         break;
       case "opening_hours":
-        reply = buildOpeningHoursReply(cfg);
+        reply = buildOpeningHoursReply(cfg, hours, nextSlotLabel);
         break;
       case "pricing_generic":
         reply = buildPricingReply(cfg);
@@ -352,9 +326,14 @@ export async function handleServiceLaneAndReply(
         reply = buildStoreLocationReply(cfg);
         break;
       case "delivery_time_specific":
+        // book a slot when we can; otherwise explain the hours as before
+        if (opts?.from_phone) {
+          reply = await handleScheduleRequest(org_id, opts.from_phone, opts.raw || text);
+          if (reply) break;
+        }
         reply =
           "⏰ Delivery depends on our working hours.\n" +
-            buildOpeningHoursReply(cfg) +
+            buildOpeningHoursReply(cfg, hours) +
           "\n\nTell me the exact time (ex: *12:00 AM*) and your area, I’ll confirm if delivery is possible.";
           break;
       case "contact": {
@@ -0,0 +1,282 @@
+// src/ai/ingest/stateMachine.ts
+import type { IngestContext, IngestResult, ConversationState } from "./types";
+import {
+  handleAddressState,
+  handleCartState,
+  handleFulfillmentState,
+  handleIdleState,
+  handleOrderingState,
+  handlePaymentProofState,
+  handlePaymentState,
+  handlePickupPaymentState,
+} from "./stateHandlers";
+
+/**
+ * Conversation state machine – the single place that says which state may
+ * follow which, and which handler answers a message in each state: ingest/index.ts
+ * dispatches through STATE_MACHINE[state].handler (handlers live in
+ * stateHandlers.ts). Loading this module throws if a state has no handler.
+ *
+ * stateManager.setState() checks every transition against this table and
+ * rejects (and logs) anything not listed. Always allowed, so they are not
+ * repeated per state:
+ *   - staying in the same state (re-prompt)
+ *   - → idle          (clearState / reset / finished)
+ *   - → agent         (human handover)
+ *
+ * Staff / system actions that jump a customer to a state (e.g. rejecting a
+ * payment proof) pass { force: true } and are logged as forced.
+ *
+ * GET /api/admin/state-machine exports the graph (JSON or Mermaid).
+ */
+
+export type StateHandler = (
+  ctx: IngestContext,
+  state: ConversationState
+) => Promise<IngestResult>;
+
+export type StateDef = {
+  handler: StateHandler;
+  description: string;
+  next: ConversationState[];
+  legacy?: boolean; // valid value, but nothing sets it any more
+};
+
+// What the catalog / ordering flow (orderLegacyEngine) can move to
+const ORDERING_TARGETS: ConversationState[] = [
+  "ordering_item",
+  "ordering_variant",
+  "ordering_qty",
+  "ordering_upsell",
+  "confirming_order",
+];
+
+// Cart screens (finalConfirmationEngine)
+const CART_TARGETS: ConversationState[] = [
+  "confirming_order",
+  "cart_edit_menu",
+  "cart_edit_item",
+  "cart_edit_qty",
+  "cart_remove_item",
+];
+
+export const ALWAYS_ALLOWED_TARGETS: ConversationState[] = ["idle", "agent"];
+
+export const STATE_MACHINE: Record<ConversationState, StateDef> = {
+  idle: {
+    handler: handleIdleState,
+    description: "No conversation in progress",
+    // + abandoned-cart resume (abandonedCarts.handleResumeCart)
+    next: [
+      ...ORDERING_TARGETS,
+      "awaiting_fulfillment",
+      "awaiting_address",
+      "awaiting_payment",
+      "awaiting_payment_proof",
+      "awaiting_pickup_payment",
+    ],
+  },
+
+  // ── ordering ──
+  ordering_item: {
+    handler: handleOrderingState,
+    description: "Waiting for the customer to pick an item",
+    next: ORDERING_TARGETS,
+  },
+  ordering_variant: {
+    handler: handleOrderingState,
+    description: "Waiting for a variant choice",
+    next: ORDERING_TARGETS,
+  },
+  ordering_qty: {
+    handler: handleOrderingState,
+    description: "Waiting for a quantity",
+    next: ORDERING_TARGETS,
+  },
+  ordering_upsell: {
+    handler: handleOrderingState,
+    description: "Offered an add-on after an item",
+    next: ORDERING_TARGETS,
+  },
+
+  // ── cart ──
+  confirming_order: {
+    handler: handleCartState,
+    description: "Cart summary: confirm or edit",
+    next: [...CART_TARGETS, "awaiting_fulfillment", "awaiting_address"],
+  },
+  cart_edit_menu: {
+    handler: handleCartState,
+    description: "Edit menu: change / remove an item",
+    next: CART_TARGETS,
+  },
+  cart_edit_item: {
+    handler: handleCartState,
+    description: "Picking the cart line to change",
+    next: CART_TARGETS,
+  },
+  cart_edit_qty: {
+    handler: handleCartState,
+    description: "New quantity for a cart line",
+    next: CART_TARGETS,
+  },
+  cart_remove_item: {
+    handler: handleCartState,
+    description: "Picking the cart line to remove",
+    next: CART_TARGETS,
+  },
+
+  // ── fulfillment / address ──
+  awaiting_fulfillment: {
+    handler: handleFulfillmentState,
+    description: "Pickup or delivery (restaurants)",
+    next: ["awaiting_address", "awaiting_pickup_payment"],
+  },
+  awaiting_address: {
+    handler: handleAddressState,
+    description: "Waiting for a delivery address",
+    // back to pickup/delivery when the order screen re-asks it
+    next: ["awaiting_location_pin", "awaiting_payment", "awaiting_fulfillment"],
+  },
+  awaiting_location_pin: {
+    handler: handleAddressState,
+    description: "Address saved, waiting for a location pin or skip",
+    next: ["awaiting_address", "awaiting_payment"],
+  },
+
+  // ── payment ──
+  awaiting_payment: {
+    handler: handlePaymentState,
+    description: "Choosing cash / online",
+    next: ["awaiting_payment_proof"],
+  },
+  awaiting_payment_proof: {
+    handler: handlePaymentProofState,
+    description: "Waiting for online payment or a screenshot",
+    next: ["awaiting_payment"],
+  },
+  awaiting_pickup_payment: {
+    handler: handlePickupPaymentState,
+    description: "Pickup order waiting for the payment link to be paid",
+    next: [],
+  },
+
+  agent: {
+    handler: handleIdleState,
+    description: "Handed over to a human",
+    next: ORDERING_TARGETS,
+  },
+
+  // ── legacy values (kept so old rows still parse) ──
+  // addresses are now confirmed at the end of awaiting_location_pin (and saved
+  // to the address book there – addressBook.ts)
+  address_confirm_confirm: {
+    handler: handleIdleState,
+    description: "Legacy address confirmation",
+    next: ORDERING_TARGETS,
+    legacy: true,
+  },
+  building_order: {
+    handler: handleIdleState,
+    description: "Legacy",
+    next: ORDERING_TARGETS,
+    legacy: true,
+  },
+  order_finalised: {
+    handler: handleIdleState,
+    description: "Legacy",
+    next: ORDERING_TARGETS,
+    legacy: true,
+  },
+  status: {
+    handler: handleIdleState,
+    description: "Legacy",
+    next: ORDERING_TARGETS,
+    legacy: true,
+  },
+  cancel: {
+    handler: handleIdleState,
+    description: "Legacy",
+    next: ORDERING_TARGETS,
+    legacy: true,
+  },
+};
+
+export const CONVERSATION_STATES = Object.keys(STATE_MACHINE) as ConversationState[];
+
+export function isConversationState(s: string | null | undefined): s is ConversationState {
+  return !!s && Object.prototype.hasOwnProperty.call(STATE_MACHINE, s);
+}
+
+export function allowedNextStates(from: ConversationState): ConversationState[] {
+  const def = STATE_MACHINE[from];
+  return Array.from(new Set([from, ...(def?.next || []), ...ALWAYS_ALLOWED_TARGETS]));
+}
+
+export function canTransition(from: ConversationState, to: ConversationState): boolean {
+  if (!isConversationState(to)) return false;
+  if (from === to || ALWAYS_ALLOWED_TARGETS.includes(to)) return true;
+  return (STATE_MACHINE[from]?.next || []).includes(to);
+}
+
+// Name of the handler for a state (ingest traces, export)
+export function stateHandler(state: ConversationState): string | null {
+  return STATE_MACHINE[state]?.handler?.name || null;
+}
+
+function assertEveryStateHasHandler() {
+  const missing = CONVERSATION_STATES.filter(
+    (s) => typeof STATE_MACHINE[s].handler !== "function"
+  );
+  if (missing.length) {
+    throw new Error(`[STATE_MACHINE] no handler for: ${missing.join(", ")}`);
+  }
+}
+
+assertEveryStateHasHandler();
+
+// ─────────────────────────────
+// Export
+// ─────────────────────────────
+export function stateMachineAsJson() {
+  return {
+    always_allowed: ALWAYS_ALLOWED_TARGETS,
+    states: CONVERSATION_STATES.map((s) => ({
+      state: s,
+      ...STATE_MACHINE[s],
+      handler: stateHandler(s),
+    })),
+  };
+}
+
+/**
+ * Mermaid flowchart of the table. `counts` (customers currently in each
+ * state) is shown on the nodes to see where people pile up.
+ * The implicit "→ idle / → agent from anywhere" edges are left out to keep
+ * the graph readable.
+ */
+export function stateMachineToMermaid(opts: {
+  counts?: Partial<Record<string, number>>;
+  includeLegacy?: boolean;
+} = {}): string {
+  const lines = ["stateDiagram-v2"];
+  const shown = CONVERSATION_STATES.filter(
+    (s) => opts.includeLegacy || !STATE_MACHINE[s].legacy
+  );
+
+  for (const s of shown) {
+    const n = opts.counts?.[s];
+    const label = n != null ? `${s} (${n})` : s;
+    lines.push(`  ${s} : ${label}`);
+  }
+
+  lines.push("  [*] --> idle");
+  for (const s of shown) {
+    for (const t of STATE_MACHINE[s].next) {
+      if (!shown.includes(t)) continue;
+      lines.push(`  ${s} --> ${t}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
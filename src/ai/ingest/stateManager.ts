@@ -2,6 +2,11 @@
 
 import { supa } from "../../db";
 import type { ConversationState } from "./types";
+import { expireConversationState } from "./abandonedCarts";
+import { canTransition, isConversationState } from "./stateMachine";
+import { logFlowEvent } from "../../routes/waba/wabaimports";
+import { opsAlert } from "../../util/opsAlert";
+import { traceIngest } from "./ingestTrace";
 
 type StateRow = {
   org_id: string;
@@ -10,42 +15,76 @@ type StateRow = {
   updated_at?: string;
 };
 
-const VALID_STATES: ConversationState[] = [
-  "idle",
-  "ordering_item",
-  "ordering_variant",
-  "ordering_qty",
-  "ordering_upsell",
-
-  "confirming_order",
-  "cart_edit_menu",
-  "cart_edit_item",
-  "cart_edit_qty",
-  "cart_remove_item",
-
-  "awaiting_fulfillment",
-  "awaiting_address",
-  "awaiting_location_pin",
-  "address_confirm_confirm",
-
-  "awaiting_payment",
-  "awaiting_payment_proof",
-
-  "building_order",
-  "agent",
-
-  "order_finalised",
-  "status",
-  "cancel",
-  "awaiting_pickup_payment",
-  "awaiting_fulfillment",
-];
+/**
+ * How long (minutes) a state may sit untouched before getState resolves it to
+ * idle – otherwise "hi" three days later gets parsed as a quantity.
+ * Per org: orgs.state_ttl_minutes jsonb { "<state>": minutes, "default": minutes }
+ * (0 for a state = never expires).
+ */
+export const DEFAULT_STATE_TTL_MINUTES: Partial<Record<ConversationState, number>> & {
+  default: number;
+} = {
+  ordering_item: 120,
+  ordering_variant: 120,
+  ordering_qty: 120,
+  ordering_upsell: 120,
+  confirming_order: 180,
+  cart_edit_menu: 120,
+  cart_edit_item: 120,
+  cart_edit_qty: 120,
+  cart_remove_item: 120,
+  awaiting_fulfillment: 720,
+  awaiting_address: 720,
+  awaiting_location_pin: 720,
+  address_confirm_confirm: 720,
+  awaiting_payment: 1440,
+  awaiting_payment_proof: 2880,
+  awaiting_pickup_payment: 2880,
+  agent: 720,
+  default: 1440,
+};
+
+const TTL_CACHE_MS = 60_000;
+const orgTtlCache = new Map<string, { at: number; ttl: Record<string, number> | null }>();
+
+async function loadOrgStateTtl(org_id: string): Promise<Record<string, number> | null> {
+  const hit = orgTtlCache.get(org_id);
+  if (hit && Date.now() - hit.at < TTL_CACHE_MS) return hit.ttl;
+
+  const { data, error } = await supa
+    .from("orgs")
+    .select("state_ttl_minutes")
+    .eq("id", org_id)
+    .maybeSingle();
+
+  const raw = !error && data?.state_ttl_minutes;
+  const ttl = raw && typeof raw === "object" ? (raw as Record<string, number>) : null;
+  orgTtlCache.set(org_id, { at: Date.now(), ttl });
+  return ttl;
+}
+
+export async function getStateTtlMinutes(
+  org_id: string,
+  state: ConversationState
+): Promise<number | null> {
+  const org = await loadOrgStateTtl(org_id);
+
+  const pick = (src: Record<string, any> | null | undefined, key: string) =>
+    src && Object.prototype.hasOwnProperty.call(src, key) ? src[key] : undefined;
+
+  const v =
+    pick(org, state) ??
+    pick(DEFAULT_STATE_TTL_MINUTES, state) ??
+    pick(org, "default") ??
+    DEFAULT_STATE_TTL_MINUTES.default;
+
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
 
 function asState(s: string | null | undefined): ConversationState {
   if (!s) return "idle";
-  if (VALID_STATES.includes(s as ConversationState)) {
-    return s as ConversationState;
-  }
+  if (isConversationState(s)) return s;
   return "idle";
 }
 
@@ -55,20 +94,77 @@ export async function getState(
 ): Promise<ConversationState> {
   const { data, error } = await supa
     .from("ai_conversation_state")        // ❌ no generic here
-    .select("state")
+    .select("state, updated_at")
     .eq("org_id", org_id)
     .eq("customer_phone", from_phone)
     .maybeSingle();
 
   if (error || !data) return "idle";
-  return asState((data as StateRow).state);
+
+  const row = data as StateRow;
+  const state = asState(row.state);
+
+  // stale state → idle (the cart is kept as an abandoned cart)
+  if (state !== "idle" && row.updated_at) {
+    const ttl = await getStateTtlMinutes(org_id, state);
+    if (ttl && Date.now() - new Date(row.updated_at).getTime() >= ttl * 60_000) {
+      await expireConversationState(org_id, from_phone, state, row.updated_at);
+      return "idle";
+    }
+  }
+
+  return state;
 }
 
+/**
+ * Moves the customer to `state` if stateMachine allows it from the current
+ * one. Illegal transitions are rejected (state unchanged) and raised as an
+ * ops alert: the caller has usually already built the reply for `state`, so
+ * the customer is now answering a question the bot isn't waiting for – a
+ * missing edge in STATE_MACHINE to fix, not something to retry. Also
+ * recorded as an `illegal_state_transition` flow event and on the ingest
+ * trace. `force` is for staff / system actions outside the customer flow.
+ */
 export async function setState(
   org_id: string,
   from_phone: string,
-  state: ConversationState
-): Promise<void> {
+  state: ConversationState,
+  opts: { force?: boolean; source?: string } = {}
+): Promise<boolean> {
+  const { data: cur } = await supa
+    .from("ai_conversation_state")
+    .select("state")
+    .eq("org_id", org_id)
+    .eq("customer_phone", from_phone)
+    .maybeSingle();
+
+  const from = asState((cur as StateRow | null)?.state);
+
+  if (!canTransition(from, state)) {
+    const info = { org_id, from_phone, from, to: state, source: opts.source || null };
+
+    if (!opts.force) {
+      // first stack frame outside this file = the engine that asked
+      const caller =
+        (new Error().stack || "").split("\n").slice(2).find((l) => !l.includes("stateManager")) || null;
+      console.error("[STATE][ILLEGAL_TRANSITION]", { ...info, caller: caller?.trim() || null });
+      traceIngest({ error: `illegal_state_transition ${from} → ${state}` });
+      opsAlert(
+        `illegal_state_transition:${from}:${state}`,
+        `Illegal conversation state transition ${from} → ${state} (state left at ${from})`,
+        { ...info, caller: caller?.trim() || null }
+      );
+      await logFlowEvent({
+        orgId: org_id,
+        from: from_phone,
+        event: "illegal_state_transition",
+        meta: info,
+      });
+      return false;
+    }
+    console.log("[STATE][FORCED_TRANSITION]", info);
+  }
+
   const { error } = await supa
     .from("ai_conversation_state")
     .upsert(
@@ -83,7 +179,9 @@ export async function setState(
 
   if (error) {
     console.error("[STATE][SET][ERROR]", { org_id, from_phone, state, error });
+    return false;
   }
+  return true;
 }
 
 export async function clearState(
@@ -2,28 +2,42 @@
 
 import { supa } from "../../db";
 import { IngestContext, IngestResult } from "./types";
-
-const STATUS_LABELS: Record<string, string> = {
-  pending: "🕒 Pending (waiting for restaurant confirmation)",
-  accepted: "🟢 Accepted (order is being prepared)",
-  preparing: "👨‍🍳 Preparing your food",
-  ready: "📦 Ready for pickup",
-  out_for_delivery: "🚗 Out for delivery",
-  delivered: "✅ Delivered",
-  cancelled: "❌ Cancelled",
-};
+import { ensureOrderRef, findOrderByNumber, parseOrderRef } from "../../order/orderNumbers";
+import { orderStatusLabel } from "../../order/orderLifecycle";
 
 export async function handleStatus(
   ctx: IngestContext
 ): Promise<IngestResult> {
   const { org_id, from_phone } = ctx;
 
+  // ─────────────────────────────────────────────
+  // "status of 142" → that order (customer's own only)
+  // ─────────────────────────────────────────────
+  const ref = parseOrderRef(ctx.text);
+  if (ref) {
+    const byNumber = await findOrderByNumber(org_id, ref, {
+      phone: from_phone,
+      select: "id, order_number, status, created_at",
+    });
+    if (!byNumber) {
+      return {
+        used: true,
+        kind: "status",
+        reply:
+          `🔎 We couldn't find order *#${ref}* on this number.\n` +
+          "Type *status* to see your latest order.",
+        order_id: null,
+      };
+    }
+    return statusReply(org_id, byNumber);
+  }
+
   // ─────────────────────────────────────────────
   // Get the most recent order for this customer
   // ─────────────────────────────────────────────
   const { data: order } = await supa
     .from("orders")
-    .select("id, status, created_at")
+    .select("id, order_number, status, created_at")
     .eq("org_id", org_id)
     .eq("source_phone", from_phone)
     .order("created_at", { ascending: false })
@@ -42,14 +56,18 @@ export async function handleStatus(
     };
   }
 
-  const status = order.status;
-  const label = STATUS_LABELS[status] || status;
+  return statusReply(org_id, order);
+}
+
+async function statusReply(org_id: string, order: any): Promise<IngestResult> {
+  const label = orderStatusLabel(order.status);
+  const ref = await ensureOrderRef(org_id, order);
 
   return {
     used: true,
     kind: "status",
     reply:
-      `📦 *Order Status (#${order.id})*\n` +
+      `📦 *Order Status (#${ref})*\n` +
       `${label}\n\n` +
       `If you want to order something else, just type the item name.`,
     order_id: order.id,
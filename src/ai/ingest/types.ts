@@ -60,6 +60,17 @@ export type VariantMatchResult = {
   [canonicalName: string]: CatalogVariant[];
 };
 
+// Image / document / voice note the customer sent (already stored, see routes/waba/media.ts)
+export interface InboundMedia {
+  kind: "image" | "document" | "audio";
+  url: string;
+  mime_type: string;
+  wa_media_id?: string | null;
+  caption?: string | null;
+  filename?: string | null;
+  transcript?: string | null;
+}
+
 export interface IngestContext {
   org_id: string;
   from_phone: string;
@@ -68,6 +79,7 @@ export interface IngestContext {
   source: string; // "waba" | "local" | etc.
   location_lat?: number | null;
   location_lng?: number | null;
+  media?: InboundMedia | null;
   intent?:any
   vertical?:any
 }
@@ -85,6 +97,40 @@ type IntentLane =
   | "human_help"
   | "unknown";
 
+// Structured reply options (rendered as WhatsApp interactive messages).
+// Each option id is the same text the engines already accept when typed
+// (e.g. "1", "2"), so a tapped button maps straight back to that choice.
+export interface ReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface ReplyListRow {
+  id: string;
+  title: string;
+  description?: string | null;
+}
+
+export interface ReplyListSection {
+  title?: string | null;
+  rows: ReplyListRow[];
+}
+
+export type InteractiveReply =
+  | {
+      type: "button";
+      buttons: ReplyButton[];
+      header?: string | null;
+      footer?: string | null;
+    }
+  | {
+      type: "list";
+      button: string; // label of the "open list" button
+      sections: ReplyListSection[];
+      header?: string | null;
+      footer?: string | null;
+    };
+
 export interface IngestResult {
   used: boolean; // did AI actually handle it
   kind: "greeting" | "smalltalk" | "order" | "unknown" | "payment" | "status" | "cancel" | "manual_mode" | "service_inquiry" | "agent" | "inquiry";
@@ -94,6 +140,7 @@ export interface IngestResult {
   image?: any
   meta?: any
   intentLane?: IntentLane; 
+  interactive?: InteractiveReply | null;
 }
 
 export interface IngestInput {
@@ -108,4 +155,5 @@ export interface IngestInput {
   // 👇 add these
   location_lat?: number | null;
   location_lng?: number | null;
+  media?: InboundMedia | null;
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+// src/ai/ingest/voiceNotes.ts
+
+import { supa } from "../../db";
+
+/**
+ * Voice-note orders: the cart is usually built from one or more voice notes,
+ * but the order row is created later when the customer taps "Confirm".
+ * These helpers pull the recent transcripts back out of the inbox
+ * (messages.media_type = 'audio', messages.transcript) so the order keeps
+ * what the customer actually said in `raw_text` + the audio in `audio_url`.
+ */
+
+// How far back a voice note still counts as part of the current cart
+const VOICE_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+const normalizePhone = (p: string) => (p || "").replace(/[^\d]/g, "");
+
+export type VoiceNote = {
+  url: string;
+  transcript: string | null;
+  created_at: string;
+};
+
+export async function getRecentVoiceNotes(
+  org_id: string,
+  from_phone: string,
+  windowMs: number = VOICE_WINDOW_MS
+): Promise<VoiceNote[]> {
+  const phoneKey = normalizePhone(from_phone);
+  if (!org_id || !phoneKey) return [];
+
+  const { data: conv } = await supa
+    .from("conversations")
+    .select("id")
+    .eq("org_id", org_id)
+    .eq("customer_phone", phoneKey)
+    .maybeSingle();
+
+  if (!conv?.id) return [];
+
+  const since = new Date(Date.now() - windowMs).toISOString();
+  const { data, error } = await supa
+    .from("messages")
+    .select("media_url, transcript, created_at")
+    .eq("org_id", org_id)
+    .eq("conversation_id", conv.id)
+    .eq("direction", "in")
+    .eq("media_type", "audio")
+    .gte("created_at", since)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("[VOICE][RECENT_ERR]", error.message);
+    return [];
+  }
+
+  return (data || [])
+    .filter((m: any) => !!m.media_url)
+    .map((m: any) => ({
+      url: m.media_url,
+      transcript: m.transcript || null,
+      created_at: m.created_at,
+    }));
+}
+
+// raw_text / audio_url for a new order; falls back to the typed text
+export async function buildOrderRawText(
+  org_id: string,
+  from_phone: string,
+  fallbackText: string
+): Promise<{ raw_text: string; audio_url: string | null }> {
+  try {
+    const notes = await getRecentVoiceNotes(org_id, from_phone);
+    if (!notes.length) return { raw_text: fallbackText, audio_url: null };
+
+    const transcripts = notes
+      .map((n) => (n.transcript || "").trim())
+      .filter(Boolean);
+
+    return {
+      raw_text: transcripts.length
+        ? transcripts.map((t) => `🎤 ${t}`).join("\n")
+        : fallbackText,
+      audio_url: notes[notes.length - 1].url,
+    };
+  } catch (e: any) {
+    console.warn("[VOICE][RAW_TEXT_ERR]", e?.message || e);
+    return { raw_text: fallbackText, audio_url: null };
+  }
+}
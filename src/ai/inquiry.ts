@@ -348,7 +348,7 @@ async function callInquiryModelRaw(input: string): Promise<string | null> {
       prompt_tokens: promptTokens,
       completion_tokens: completionTokens,
     });
-    addSpendUSD(approxCost);
+    addSpendUSD(approxCost, "inquiry");
   } catch (e: any) {
     console.warn("[AI][inq] addSpendUSD failed", e?.message || e);
   }
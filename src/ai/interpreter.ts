@@ -244,7 +244,7 @@ LATEST_MESSAGE:
     });
 
     const parsed = response.output_parsed as AIInterpretation;
-    addSpendUSD(approxCost);
+    addSpendUSD(approxCost, "interpreter");
 
     // Safety: if model did something weird or confidence too low, degrade to unknown
     if (!parsed || parsed.confidence < 0.25) {
@@ -0,0 +1,172 @@
+// src/ai/lang/transcribe.ts
+import crypto from "crypto";
+import fs from "fs";
+import OpenAI, { toFile } from "openai";
+
+/**
+ * Speech-to-text for WhatsApp voice notes.
+ *
+ * Providers (TRANSCRIBER_PROVIDER):
+ *   - "openai"  → Whisper / gpt-4o-transcribe via the OpenAI audio API (default)
+ *   - "fixture" → canned transcripts, for local testing without an API key
+ *   - "none"    → voice notes are stored but never transcribed
+ *
+ * The transcript is fed into ingest as plain text, so Tamil / Tanglish
+ * voice orders go through the same normalize + translate path as typed ones.
+ */
+
+export type TranscribeInput = {
+  buffer: Buffer;
+  mimeType: string;
+  // stable key for fixtures / logs (WhatsApp media id)
+  mediaId?: string | null;
+  // ISO-639-1 hint, e.g. "ta"; providers may ignore it
+  languageHint?: string | null;
+};
+
+export type TranscriptResult = {
+  text: string;
+  language: string | null;
+  provider: string;
+};
+
+export interface Transcriber {
+  readonly name: string;
+  transcribe(input: TranscribeInput): Promise<TranscriptResult | null>;
+}
+
+// ─────────────────────────────
+// OpenAI
+// ─────────────────────────────
+const STT_MODEL = process.env.TRANSCRIBER_MODEL || "whisper-1";
+
+export class OpenAiTranscriber implements Transcriber {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(apiKey: string = process.env.OPENAI_API_KEY || "") {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async transcribe(input: TranscribeInput): Promise<TranscriptResult | null> {
+    const ext = (input.mimeType || "").includes("mpeg") ? "mp3" : "ogg";
+    const file = await toFile(input.buffer, `voice.${ext}`, {
+      type: input.mimeType || "audio/ogg",
+    });
+
+    const out: any = await this.client.audio.transcriptions.create({
+      model: STT_MODEL,
+      file,
+      ...(input.languageHint ? { language: input.languageHint } : {}),
+    });
+
+    const text = String(out?.text || "").trim();
+    if (!text) return null;
+
+    return {
+      text,
+      language: out?.language || input.languageHint || null,
+      provider: this.name,
+    };
+  }
+}
+
+// ─────────────────────────────
+// Fixture (local / tests)
+// ─────────────────────────────
+// Looks up by media id first, then by sha256 of the audio bytes.
+// TRANSCRIBER_FIXTURES may point to a JSON file: { "<mediaId|sha256>": "text" }
+export class FixtureTranscriber implements Transcriber {
+  readonly name = "fixture";
+  private fixtures: Record<string, string>;
+  private fallback: string | null;
+
+  constructor(
+    fixtures: Record<string, string> = {},
+    fallback: string | null = process.env.TRANSCRIBER_FIXTURE_DEFAULT || null
+  ) {
+    this.fixtures = { ...fixtures };
+    this.fallback = fallback;
+  }
+
+  static fromFile(path: string): FixtureTranscriber {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+      return new FixtureTranscriber(raw && typeof raw === "object" ? raw : {});
+    } catch (e: any) {
+      console.warn("[STT][FIXTURE] could not load", path, e?.message || e);
+      return new FixtureTranscriber();
+    }
+  }
+
+  set(key: string, text: string) {
+    this.fixtures[key] = text;
+  }
+
+  async transcribe(input: TranscribeInput): Promise<TranscriptResult | null> {
+    const sha = crypto.createHash("sha256").update(input.buffer).digest("hex");
+    const text =
+      (input.mediaId && this.fixtures[input.mediaId]) ||
+      this.fixtures[sha] ||
+      this.fallback;
+
+    if (!text) return null;
+    return { text, language: input.languageHint || null, provider: this.name };
+  }
+}
+
+// ─────────────────────────────
+// Active provider
+// ─────────────────────────────
+let active: Transcriber | null | undefined;
+
+function createFromEnv(): Transcriber | null {
+  const provider = (process.env.TRANSCRIBER_PROVIDER || "openai").toLowerCase();
+
+  if (provider === "none") return null;
+  if (provider === "fixture") {
+    const path = process.env.TRANSCRIBER_FIXTURES;
+    return path ? FixtureTranscriber.fromFile(path) : new FixtureTranscriber();
+  }
+  if (!process.env.OPENAI_API_KEY) {
+    console.warn("[STT] OPENAI_API_KEY missing – voice notes won't be transcribed");
+    return null;
+  }
+  return new OpenAiTranscriber();
+}
+
+export function getTranscriber(): Transcriber | null {
+  if (active === undefined) active = createFromEnv();
+  return active;
+}
+
+// Swap provider at runtime (tests / simulator)
+export function setTranscriber(t: Transcriber | null) {
+  active = t;
+}
+
+// Never throws: a failed transcription just means "no text"
+export async function transcribeAudio(
+  input: TranscribeInput
+): Promise<TranscriptResult | null> {
+  const t = getTranscriber();
+  if (!t) return null;
+
+  try {
+    const res = await t.transcribe({
+      ...input,
+      languageHint:
+        input.languageHint ?? (process.env.TRANSCRIBER_LANGUAGE_HINT || null),
+    });
+    console.log("[STT][DONE]", {
+      provider: t.name,
+      mediaId: input.mediaId || null,
+      chars: res?.text?.length || 0,
+      language: res?.language || null,
+    });
+    return res;
+  } catch (e: any) {
+    console.warn("[STT][ERR]", t.name, e?.message || e);
+    return null;
+  }
+}
@@ -1,9 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { createClient } from '@supabase/supabase-js';
+import { createMemorySupabase } from './db/memoryStore';
+
+// DB_MODE=memory → in-process store for the WhatsApp simulator / fixtures (never in production)
+export const USE_MEMORY_DB =
+  process.env.DB_MODE === "memory" && process.env.NODE_ENV !== "production";
+
 console.log("[DB] Using service role?", String(process.env.SUPABASE_SERVICE_ROLE || "").startsWith("sb_secret_"));
 console.log("[DB] SUPABASE_SERVICE_ROLE len", (process.env.SUPABASE_SERVICE_ROLE || "").length);
 console.log("[DB] SUPABASE_ANON_KEY len", (process.env.SUPABASE_ANON_KEY || "").length);
-export const supa = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE!,   // MUST be service role (not anon)
-  { auth: { persistSession: false } }
-);
\ No newline at end of file
+if (USE_MEMORY_DB) console.log("[DB] DB_MODE=memory – using in-process store");
+
+function createSupabase() {
+  return createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE!,   // MUST be service role (not anon)
+    { auth: { persistSession: false } }
+  );
+}
+
+type SupaClient = ReturnType<typeof createSupabase>;
+
+const baseSupa: SupaClient = USE_MEMORY_DB
+  ? (createMemorySupabase() as unknown as SupaClient)
+  : createSupabase();
+
+// Per-call client override (ingest replay runs against a sandboxed memory store)
+const supaOverride = new AsyncLocalStorage<SupaClient>();
+
+export const supa: SupaClient = new Proxy(baseSupa, {
+  get(target, prop) {
+    const client = (supaOverride.getStore() || target) as any;
+    const v = client[prop];
+    return typeof v === 'function' ? v.bind(client) : v;
+  },
+});
+
+/** Run `fn` with every `supa` call inside it (incl. awaited callees) going to `client`. */
+export function withSupaClient<T>(client: unknown, fn: () => Promise<T>): Promise<T> {
+  return supaOverride.run(client as SupaClient, fn);
+}
+
+/** The real client, ignoring any override (for reading/writing outside a sandbox). */
+export const rootSupa = baseSupa;
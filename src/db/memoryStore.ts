@@ -0,0 +1,518 @@
+// src/db/memoryStore.ts
+import crypto from "crypto";
+
+/**
+ * In-process stand-in for the Supabase client (DB_MODE=memory, dev only).
+ *
+ * Supports the subset of supabase-js the backend actually uses:
+ *   from(t).select/insert/update/upsert/delete
+ *   eq / neq / gt / gte / lt / lte / in / is / like / ilike / not / or / match / filter
+ *   order / limit / range / single / maybeSingle, select(…, { count: "exact" })
+ *   storage.from(bucket).upload / getPublicUrl / download
+ * Embedded selects (joins), RLS and constraints other than upsert's
+ * onConflict are not emulated. rpc() returns an error unless a handler is
+ * registered with memoryDb.onRpc(); the ones the backend depends on
+ * (inc_failed_attempts, assign_order_number, take_waba_send_slot,
+ * reserve_order_slot) are built in. Tables with a bigserial id in Postgres (SERIAL_TABLES) get increasing
+ * integer ids.
+ *
+ * Used by the WhatsApp simulator (routes/waba/simulator.ts) so conversation
+ * fixtures can run without a Supabase project.
+ */
+
+type Row = Record<string, any>;
+type Predicate = (row: Row) => boolean;
+type Result = { data: any; error: any; count?: number | null; status: number };
+
+const clone = <T>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" || typeof b === "boolean") return Number(a) - Number(b);
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== "" && b !== "" && Number.isFinite(na) && Number.isFinite(nb)) {
+    return na - nb;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function likeToRegex(pattern: string, flags: string): RegExp {
+  const src = String(pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/%/g, ".*")
+    .replace(/_/g, ".");
+  return new RegExp(`^${src}$`, flags);
+}
+
+const eqLoose = (a: any, b: any) =>
+  a === b || (a != null && b != null && String(a) === String(b));
+
+// PostgREST operator → predicate
+function opPredicate(col: string, op: string, value: any): Predicate {
+  switch (op) {
+    case "eq":
+      return (r) => eqLoose(r[col], value);
+    case "neq":
+      return (r) => !eqLoose(r[col], value);
+    case "gt":
+      return (r) => r[col] != null && compare(r[col], value) > 0;
+    case "gte":
+      return (r) => r[col] != null && compare(r[col], value) >= 0;
+    case "lt":
+      return (r) => r[col] != null && compare(r[col], value) < 0;
+    case "lte":
+      return (r) => r[col] != null && compare(r[col], value) <= 0;
+    case "like":
+      return (r) => r[col] != null && likeToRegex(value, "").test(String(r[col]));
+    case "ilike":
+      return (r) => r[col] != null && likeToRegex(value, "i").test(String(r[col]));
+    case "is":
+      return (r) =>
+        value === null || value === "null"
+          ? r[col] == null
+          : String(r[col]) === String(value);
+    case "in": {
+      const list = Array.isArray(value)
+        ? value
+        : String(value).replace(/^\(|\)$/g, "").split(",").map((s) => s.trim());
+      return (r) => list.some((v: any) => eqLoose(r[col], v));
+    }
+    case "cs":
+    case "contains":
+      return (r) => {
+        const have = r[col];
+        if (Array.isArray(have) && Array.isArray(value)) {
+          return value.every((v) => have.some((h) => eqLoose(h, v)));
+        }
+        if (have && typeof have === "object" && value && typeof value === "object") {
+          return Object.entries(value).every(([k, v]) => eqLoose(have[k], v));
+        }
+        return false;
+      };
+    default:
+      console.warn("[MEMDB] unsupported operator", op);
+      return () => true;
+  }
+}
+
+// "a.eq.1,b.ilike.%x%" → OR predicate (no nested and()/or())
+function orPredicate(expr: string): Predicate {
+  const parts: string[] = [];
+  let depth = 0;
+  let cur = "";
+  for (const ch of expr) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  if (cur) parts.push(cur);
+
+  const preds = parts.map((p) => {
+    const [col, op, ...rest] = p.trim().split(".");
+    const raw = rest.join(".");
+    if (op === "not") {
+      const [op2, ...rest2] = raw.split(".");
+      const inner = opPredicate(col, op2, rest2.join("."));
+      return (r: Row) => !inner(r);
+    }
+    return opPredicate(col, op, raw);
+  });
+  return (r) => preds.some((p) => p(r));
+}
+
+// bigserial primary keys (everything else gets a uuid)
+const SERIAL_TABLES = new Set(["realtime_events"]);
+
+export class MemoryStore {
+  tables = new Map<string, Row[]>();
+  files = new Map<string, { body: Buffer; contentType: string }>();
+  rpcHandlers = new Map<string, (args: any) => any>();
+  serials = new Map<string, number>();
+
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  reset() {
+    this.tables.clear();
+    this.files.clear();
+    this.serials.clear();
+  }
+
+  seed(data: Record<string, Row[]>) {
+    for (const [name, rows] of Object.entries(data || {})) {
+      const t = this.table(name);
+      for (const r of rows || []) t.push(withDefaults(clone(r), this.idFactory(name)));
+    }
+  }
+
+  dump(name?: string): any {
+    if (name) return clone(this.table(name));
+    return Object.fromEntries(
+      [...this.tables.entries()].map(([k, v]) => [k, clone(v)])
+    );
+  }
+
+  onRpc(name: string, handler: (args: any) => any) {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  idFactory(name: string): () => any {
+    if (!SERIAL_TABLES.has(name)) return () => crypto.randomUUID();
+    return () => {
+      const max = Math.max(this.serials.get(name) || 0, ...this.table(name).map((r) => Number(r.id) || 0));
+      this.serials.set(name, max + 1);
+      return max + 1;
+    };
+  }
+}
+
+function withDefaults(row: Row, newId: () => any = () => crypto.randomUUID()): Row {
+  if (row.id === undefined) row.id = newId();
+  if (row.created_at === undefined) row.created_at = new Date().toISOString();
+  return row;
+}
+
+class MemoryQuery implements PromiseLike<Result> {
+  private op: "select" | "insert" | "update" | "upsert" | "delete" = "select";
+  private filters: Predicate[] = [];
+  private values: Row[] = [];
+  private patch: Row = {};
+  private onConflict: string[] = ["id"];
+  private ignoreDuplicates = false;
+  private returning = false;
+  private orders: { col: string; asc: boolean; nullsFirst: boolean }[] = [];
+  private limitN: number | null = null;
+  private from_: number | null = null;
+  private to_: number | null = null;
+  private singleMode: "single" | "maybe" | null = null;
+  private countMode = false;
+  private headOnly = false;
+
+  constructor(private store: MemoryStore, private tableName: string) {}
+
+  select(_columns?: string, opts?: { count?: string; head?: boolean }) {
+    if (this.op === "select") {
+      this.countMode = !!opts?.count;
+      this.headOnly = !!opts?.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[], _opts?: any) {
+    this.op = "insert";
+    this.values = (Array.isArray(values) ? values : [values]).map((v) => clone(v));
+    return this;
+  }
+
+  update(values: Row) {
+    this.op = "update";
+    this.patch = clone(values);
+    return this;
+  }
+
+  upsert(
+    values: Row | Row[],
+    opts?: { onConflict?: string; ignoreDuplicates?: boolean }
+  ) {
+    this.op = "upsert";
+    this.values = (Array.isArray(values) ? values : [values]).map((v) => clone(v));
+    if (opts?.onConflict) {
+      this.onConflict = opts.onConflict.split(",").map((s) => s.trim());
+    }
+    this.ignoreDuplicates = !!opts?.ignoreDuplicates;
+    return this;
+  }
+
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  private where(p: Predicate) {
+    this.filters.push(p);
+    return this;
+  }
+
+  eq(col: string, v: any) { return this.where(opPredicate(col, "eq", v)); }
+  neq(col: string, v: any) { return this.where(opPredicate(col, "neq", v)); }
+  gt(col: string, v: any) { return this.where(opPredicate(col, "gt", v)); }
+  gte(col: string, v: any) { return this.where(opPredicate(col, "gte", v)); }
+  lt(col: string, v: any) { return this.where(opPredicate(col, "lt", v)); }
+  lte(col: string, v: any) { return this.where(opPredicate(col, "lte", v)); }
+  like(col: string, v: string) { return this.where(opPredicate(col, "like", v)); }
+  ilike(col: string, v: string) { return this.where(opPredicate(col, "ilike", v)); }
+  is(col: string, v: any) { return this.where(opPredicate(col, "is", v)); }
+  in(col: string, v: any[]) { return this.where(opPredicate(col, "in", v)); }
+  contains(col: string, v: any) { return this.where(opPredicate(col, "cs", v)); }
+  filter(col: string, op: string, v: any) { return this.where(opPredicate(col, op, v)); }
+  or(expr: string) { return this.where(orPredicate(expr)); }
+
+  not(col: string, op: string, v: any) {
+    const inner = opPredicate(col, op, v);
+    return this.where((r) => !inner(r));
+  }
+
+  match(obj: Row) {
+    for (const [k, v] of Object.entries(obj || {})) this.eq(k, v);
+    return this;
+  }
+
+  order(col: string, opts?: { ascending?: boolean; nullsFirst?: boolean }) {
+    const asc = opts?.ascending !== false;
+    this.orders.push({ col, asc, nullsFirst: opts?.nullsFirst ?? !asc });
+    return this;
+  }
+
+  limit(n: number) {
+    this.limitN = n;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.from_ = from;
+    this.to_ = to;
+    return this;
+  }
+
+  single() {
+    this.singleMode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = "maybe";
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((p) => p(row));
+  }
+
+  private sortAndSlice(rows: Row[]): Row[] {
+    let out = rows.slice();
+    if (this.orders.length) {
+      out.sort((a, b) => {
+        for (const o of this.orders) {
+          const av = a[o.col];
+          const bv = b[o.col];
+          if (av == null && bv != null) return o.nullsFirst ? -1 : 1;
+          if (bv == null && av != null) return o.nullsFirst ? 1 : -1;
+          const c = compare(av, bv);
+          if (c !== 0) return o.asc ? c : -c;
+        }
+        return 0;
+      });
+    }
+    if (this.from_ != null) out = out.slice(this.from_, (this.to_ ?? out.length - 1) + 1);
+    if (this.limitN != null) out = out.slice(0, this.limitN);
+    return out;
+  }
+
+  private finish(rows: Row[], count: number | null = null): Result {
+    const data = clone(rows);
+
+    if (this.singleMode) {
+      if (data.length > 1 || (this.singleMode === "single" && data.length === 0)) {
+        return {
+          data: null,
+          error: {
+            code: "PGRST116",
+            message: "JSON object requested, multiple (or no) rows returned",
+          },
+          status: 406,
+        };
+      }
+      return { data: data[0] ?? null, error: null, count, status: 200 };
+    }
+
+    return { data: this.headOnly ? null : data, error: null, count, status: 200 };
+  }
+
+  private execute(): Result {
+    const t = this.store.table(this.tableName);
+
+    if (this.op === "select") {
+      const hits = t.filter((r) => this.matches(r));
+      return this.finish(this.sortAndSlice(hits), this.countMode ? hits.length : null);
+    }
+
+    if (this.op === "insert") {
+      const newId = this.store.idFactory(this.tableName);
+      const rows = this.values.map((v) => withDefaults(v, newId));
+      t.push(...rows);
+      return this.returning ? this.finish(rows) : { data: null, error: null, status: 201 };
+    }
+
+    if (this.op === "update") {
+      const rows = t.filter((r) => this.matches(r));
+      for (const r of rows) Object.assign(r, clone(this.patch));
+      return this.returning ? this.finish(rows) : { data: null, error: null, status: 204 };
+    }
+
+    if (this.op === "upsert") {
+      const touched: Row[] = [];
+      for (const v of this.values) {
+        const existing = t.find((r) =>
+          this.onConflict.every((c) => v[c] !== undefined && eqLoose(r[c], v[c]))
+        );
+        if (existing) {
+          if (this.ignoreDuplicates) continue;
+          Object.assign(existing, v);
+          touched.push(existing);
+        } else {
+          const row = withDefaults(v, this.store.idFactory(this.tableName));
+          t.push(row);
+          touched.push(row);
+        }
+      }
+      return this.returning ? this.finish(touched) : { data: null, error: null, status: 201 };
+    }
+
+    // delete
+    const removed: Row[] = [];
+    for (let i = t.length - 1; i >= 0; i--) {
+      if (this.matches(t[i])) removed.unshift(...t.splice(i, 1));
+    }
+    return this.returning ? this.finish(removed) : { data: null, error: null, status: 204 };
+  }
+}
+
+// Postgres functions the conversation flow can't do without
+export function registerBuiltinRpcs(store: MemoryStore) {
+  store.onRpc("inc_failed_attempts", ({ _org, _phone }) => {
+    const t = store.table("session_state");
+    let row = t.find((r) => r.org_id === _org && r.from_phone === _phone);
+    if (!row) {
+      row = withDefaults({ org_id: _org, from_phone: _phone, failed_attempts: 0 });
+      t.push(row);
+    }
+    row.failed_attempts = Number(row.failed_attempts || 0) + 1;
+    return row.failed_attempts;
+  });
+
+  // see routes/waba/outbox.ts for the Postgres version
+  store.onRpc("take_waba_send_slot", ({ p_number }) => {
+    const t = store.table("waba_send_windows");
+    const w = new Date(Math.floor(Date.now() / 1000) * 1000).toISOString();
+    let row = t.find((r) => r.phone_number_id === p_number && r.window_start === w);
+    if (!row) {
+      row = { phone_number_id: p_number, window_start: w, sent: 0 };
+      t.push(row);
+    }
+    row.sent += 1;
+    const cutoff = new Date(Date.now() - 60_000).toISOString();
+    for (let i = t.length - 1; i >= 0; i--) {
+      if (t[i].phone_number_id === p_number && t[i].window_start < cutoff) t.splice(i, 1);
+    }
+    return [{ sent: row.sent, window_start: row.window_start }];
+  });
+
+  // see ai/ingest/scheduleEngine.ts for the Postgres version
+  store.onRpc("reserve_order_slot", ({ p_org, p_order, p_start, p_end, p_capacity, p_statuses }) => {
+    const orders = store.table("orders");
+    const at = new Date(p_start).getTime();
+    if (p_capacity != null) {
+      const n = orders.filter(
+        (r) =>
+          r.org_id === p_org &&
+          r.id !== p_order &&
+          r.scheduled_for &&
+          new Date(r.scheduled_for).getTime() === at &&
+          (p_statuses || []).includes(r.status)
+      ).length;
+      if (n >= p_capacity) return false;
+    }
+    const order = orders.find((r) => r.id === p_order && r.org_id === p_org);
+    if (!order) return false;
+    order.scheduled_for = p_start;
+    order.scheduled_until = p_end;
+    return true;
+  });
+
+  // see order/orderNumbers.ts for the Postgres version
+  store.onRpc("assign_order_number", ({ p_org, p_order, p_period, p_prefix, p_pad }) => {
+    const order = store.table("orders").find((r) => r.id === p_order && r.org_id === p_org);
+    if (!order) return [];
+    if (order.order_no == null) {
+      const counters = store.table("org_order_counters");
+      let c = counters.find((r) => r.org_id === p_org && r.period === p_period);
+      if (!c) {
+        c = { org_id: p_org, period: p_period, last_value: 0 };
+        counters.push(c);
+      }
+      c.last_value += 1;
+      const digits = String(c.last_value).padStart(Number(p_pad) || 0, "0");
+      order.order_no = c.last_value;
+      order.order_number = p_prefix ? `${p_prefix}-${digits}` : digits;
+      order.order_no_period = p_period;
+    }
+    return [{ order_no: order.order_no, order_number: order.order_number }];
+  });
+}
+
+export function createMemorySupabase(store: MemoryStore = memoryDb) {
+  return {
+    from: (table: string) => new MemoryQuery(store, table),
+
+    async rpc(name: string, args?: any): Promise<Result> {
+      const handler = store.rpcHandlers.get(name);
+      if (!handler) {
+        return {
+          data: null,
+          error: { message: `rpc ${name} not available in memory store` },
+          status: 404,
+        };
+      }
+      try {
+        return { data: await handler(args), error: null, status: 200 };
+      } catch (e: any) {
+        return { data: null, error: { message: e?.message || String(e) }, status: 500 };
+      }
+    },
+
+    storage: {
+      from: (bucket: string) => ({
+        async upload(path: string, body: any, opts?: { contentType?: string }) {
+          store.files.set(`${bucket}/${path}`, {
+            body: Buffer.isBuffer(body) ? body : Buffer.from(body),
+            contentType: opts?.contentType || "application/octet-stream",
+          });
+          return { data: { path }, error: null };
+        },
+        getPublicUrl(path: string) {
+          return { data: { publicUrl: `memory://storage/${bucket}/${path}` } };
+        },
+        async download(path: string) {
+          const f = store.files.get(`${bucket}/${path}`);
+          return f
+            ? { data: f.body, error: null }
+            : { data: null, error: { message: "not_found" } };
+        },
+      }),
+    },
+  };
+}
+
+// Process-wide store behind `supa` when DB_MODE=memory
+export const memoryDb = new MemoryStore();
+registerBuiltinRpcs(memoryDb);
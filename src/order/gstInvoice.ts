@@ -0,0 +1,716 @@
+// src/order/gstInvoice.ts
+import { supa } from "../db";
+
+/**
+ * GST computation and tax invoices for orders.
+ *
+ * Per product (products): hsn_code text, tax_rate numeric (GST %, e.g. 5, 12, 18)
+ * Per org (orgs):
+ *   gstin text, legal_name text, gst_state_code text ('33'; defaults to the
+ *   GSTIN prefix), tax_inclusive bool (catalog prices include GST; default
+ *   true – when false, GST is added on top of what the customer pays, see
+ *   refreshOrderTax),
+ *   default_tax_rate numeric (products without their own rate),
+ *   delivery_tax_rate numeric (delivery fee; default = default_tax_rate),
+ *   invoice_prefix text (default 'INV')
+ * Per order (optional): customer_gstin, place_of_supply (state code)
+ * Per order (tax-exclusive orgs): tax_amount numeric – GST charged on top;
+ *   total_amount is then the items subtotal + tax_amount
+ *
+ * Intra-state supply → CGST + SGST (half each); inter-state → IGST. Place of
+ * supply is the buyer GSTIN's state, else orders.place_of_supply, else the
+ * seller's state.
+ *
+ * Table `invoices` (one per order, never recomputed once issued):
+ *   id uuid pk, org_id uuid, order_id uuid unique, invoice_number text,
+ *   financial_year text ('2026-27'), seq int, issued_at timestamptz,
+ *   supply_type text ('intra' | 'inter'), place_of_supply text,
+ *   tax_inclusive bool, seller jsonb, buyer jsonb, lines jsonb, totals jsonb
+ *   unique(org_id, financial_year, seq)
+ * Numbers run per org and financial year (April–March): INV/2026-27/0001.
+ */
+
+export const INVOICEABLE_STATUSES = ["paid", "shipped", "delivered"];
+
+const DELIVERY_SAC = "996813"; // local delivery services
+
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+const GSTIN_RE = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function normalizeGstin(v: any): string | null {
+  const s = String(v ?? "").trim().toUpperCase();
+  return GSTIN_RE.test(s) ? s : null;
+}
+
+export function normalizeStateCode(v: any): string | null {
+  const s = String(v ?? "").trim().padStart(2, "0");
+  return GST_STATES[s] ? s : null;
+}
+
+/** "5" / 5 / "5%" → 5; null for empty; undefined = invalid */
+export function normalizeTaxRate(v: any): number | null | undefined {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(String(v).replace("%", "").trim());
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : undefined;
+}
+
+/** HSN / SAC: 4–8 digits */
+export function normalizeHsn(v: any): string | null | undefined {
+  const s = String(v ?? "").replace(/\s+/g, "");
+  if (!s) return null;
+  return /^\d{4,8}$/.test(s) ? s : undefined;
+}
+
+// ─────────────────────────────
+// Computation
+// ─────────────────────────────
+export type GstLineInput = {
+  name: string;
+  hsn_code: string | null;
+  qty: number;
+  unit_price: number;
+  amount: number; // qty × unit_price as charged
+  tax_rate: number;
+  discountable: boolean; // promo discounts apply to goods, not the delivery fee
+};
+
+export type InvoiceLine = {
+  name: string;
+  hsn_code: string | null;
+  qty: number;
+  unit_price: number;
+  amount: number;
+  discount: number;
+  taxable_value: number;
+  tax_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+};
+
+export type InvoiceTotals = {
+  amount: number;
+  discount: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  tax_total: number;
+  round_off: number;
+  grand_total: number;
+  by_rate: { tax_rate: number; taxable_value: number; cgst: number; sgst: number; igst: number }[];
+};
+
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+const sum = (xs: number[]) => r2(xs.reduce((s, x) => s + x, 0));
+
+export function computeGst(
+  inputs: GstLineInput[],
+  opts: { inclusive: boolean; interState: boolean; discount?: number }
+): { lines: InvoiceLine[]; totals: InvoiceTotals } {
+  // spread the order discount over the goods lines by value
+  const discountBase = sum(inputs.filter((l) => l.discountable).map((l) => l.amount));
+  const discount = Math.min(Math.max(0, Number(opts.discount || 0)), discountBase);
+  let discountLeft = r2(discount);
+  const lastDiscountable = inputs.map((l) => l.discountable).lastIndexOf(true);
+
+  const lines = inputs.map((l, idx): InvoiceLine => {
+    let lineDiscount = 0;
+    if (l.discountable && discountBase > 0) {
+      lineDiscount =
+        idx === lastDiscountable ? discountLeft : r2((discount * l.amount) / discountBase);
+      discountLeft = r2(discountLeft - lineDiscount);
+    }
+
+    const net = r2(l.amount - lineDiscount);
+    const rate = l.tax_rate;
+    const taxable = opts.inclusive ? r2(net / (1 + rate / 100)) : net;
+    const tax = opts.inclusive ? r2(net - taxable) : r2((taxable * rate) / 100);
+
+    const cgst = opts.interState ? 0 : r2(tax / 2);
+    const sgst = opts.interState ? 0 : r2(tax - cgst);
+    const igst = opts.interState ? tax : 0;
+
+    return {
+      name: l.name,
+      hsn_code: l.hsn_code,
+      qty: l.qty,
+      unit_price: r2(l.unit_price),
+      amount: r2(l.amount),
+      discount: lineDiscount,
+      taxable_value: taxable,
+      tax_rate: rate,
+      cgst,
+      sgst,
+      igst,
+      total: r2(taxable + tax),
+    };
+  });
+
+  const rates = Array.from(new Set(lines.map((l) => l.tax_rate))).sort((a, b) => a - b);
+  const by_rate = rates.map((rate) => {
+    const ls = lines.filter((l) => l.tax_rate === rate);
+    return {
+      tax_rate: rate,
+      taxable_value: sum(ls.map((l) => l.taxable_value)),
+      cgst: sum(ls.map((l) => l.cgst)),
+      sgst: sum(ls.map((l) => l.sgst)),
+      igst: sum(ls.map((l) => l.igst)),
+    };
+  });
+
+  const taxable_value = sum(lines.map((l) => l.taxable_value));
+  const cgst = sum(lines.map((l) => l.cgst));
+  const sgst = sum(lines.map((l) => l.sgst));
+  const igst = sum(lines.map((l) => l.igst));
+  const tax_total = r2(cgst + sgst + igst);
+  const exact = r2(taxable_value + tax_total);
+  const grand_total = Math.round(exact);
+
+  return {
+    lines,
+    totals: {
+      amount: sum(lines.map((l) => l.amount)),
+      discount: sum(lines.map((l) => l.discount)),
+      taxable_value,
+      cgst,
+      sgst,
+      igst,
+      tax_total,
+      round_off: r2(grand_total - exact),
+      grand_total,
+      by_rate,
+    },
+  };
+}
+
+// ─────────────────────────────
+// Order → invoice lines
+// ─────────────────────────────
+const num = (v: any) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Items as frozen by snapshotPricesFromCatalog (price_per_unit / line_total,
+ * hsn_code / tax_rate) or as the chat flow stores them (price).
+ */
+export function invoiceInputsFromOrder(order: any, org: any, items: any[]): GstLineInput[] {
+  const defaultRate = normalizeTaxRate(org?.default_tax_rate) ?? 0;
+
+  const goods = (items || [])
+    .filter(Boolean)
+    .map((it: any): GstLineInput => {
+      const qty = num(it.qty) ?? 1;
+      const unit = num(it.price_per_unit) ?? num(it.price) ?? 0;
+      const amount = num(it.line_total) ?? qty * unit;
+      const name = [it.display_name || it.name || it.canonical || "Item", it.variant]
+        .filter(Boolean)
+        .join(" – ");
+
+      return {
+        name,
+        hsn_code: normalizeHsn(it.hsn_code) || null,
+        qty,
+        unit_price: unit,
+        amount,
+        tax_rate: normalizeTaxRate(it.tax_rate) ?? defaultRate,
+        discountable: true,
+      };
+    })
+    .filter((l) => l.amount > 0);
+
+  const fee = num(order?.delivery_fee) ?? 0;
+  if (fee > 0) {
+    goods.push({
+      name: "Delivery charges",
+      hsn_code: DELIVERY_SAC,
+      qty: 1,
+      unit_price: fee,
+      amount: fee,
+      tax_rate: normalizeTaxRate(org?.delivery_tax_rate) ?? defaultRate,
+      discountable: false,
+    });
+  }
+
+  return goods;
+}
+
+export function sellerStateCode(org: any): string | null {
+  return normalizeStateCode(org?.gst_state_code) || (normalizeGstin(org?.gstin) || "").slice(0, 2) || null;
+}
+
+export function placeOfSupply(org: any, order: any): string | null {
+  const buyerGstin = normalizeGstin(order?.customer_gstin);
+  if (buyerGstin) return buyerGstin.slice(0, 2);
+  return normalizeStateCode(order?.place_of_supply) || sellerStateCode(org);
+}
+
+function isInterState(org: any, order: any): boolean {
+  const sellerState = sellerStateCode(org);
+  const pos = placeOfSupply(org, order);
+  return !!(sellerState && pos && sellerState !== pos);
+}
+
+// ─────────────────────────────
+// Tax-exclusive orgs: GST on top
+// ─────────────────────────────
+
+/** Catalog prices exclude GST, so it is added to what the customer pays. */
+export function isTaxExclusive(org: any): boolean {
+  return org?.tax_inclusive === false;
+}
+
+/**
+ * GST a tax-exclusive org charges on top of items + delivery fee − discount
+ * (0 for tax-inclusive orgs). Computed like the invoice, rounding included,
+ * so the amount collected is the invoice's grand total.
+ */
+export function gstOnTop(org: any, order: any, items: any[]): number {
+  if (!isTaxExclusive(org)) return 0;
+  const { totals } = computeGst(invoiceInputsFromOrder(order, org, items), {
+    inclusive: false,
+    interState: isInterState(org, order),
+    discount: Number(order?.discount_amount || 0),
+  });
+  return r2(totals.grand_total - (totals.amount - totals.discount));
+}
+
+/**
+ * Call before showing or charging an order's total. For a tax-exclusive org
+ * it stores the GST on top in orders.tax_amount (total_amount = items
+ * subtotal + GST) and freezes each item's rate and charged price, so the
+ * invoice later computes the same GST. Returns the GST on top; tax-inclusive
+ * orgs get 0 and the order is left alone.
+ */
+export async function refreshOrderTax(org_id: string, order_id: string): Promise<number> {
+  const { data: org } = await supa.from("orgs").select("*").eq("id", org_id).maybeSingle();
+  if (!isTaxExclusive(org)) return 0;
+
+  const { data: order, error } = await supa
+    .from("orders")
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("id", order_id)
+    .maybeSingle();
+  if (error || !order) {
+    console.warn("[GST][REFRESH_LOAD_ERR]", { order_id, error: error?.message });
+    return 0;
+  }
+
+  const items: any[] = Array.isArray(order.items) ? order.items : [];
+  const ids = items.map((it) => it?.product_id).filter((id) => id != null);
+  const { data: products } = ids.length
+    ? await supa.from("products").select("id, hsn_code, tax_rate").eq("org_id", org_id).in("id", ids)
+    : { data: [] as any[] };
+  const defaultRate = normalizeTaxRate(org.default_tax_rate) ?? 0;
+
+  // same "set once" rule as the price snapshot
+  const frozen = items.map((it: any) => {
+    if (!it) return it;
+    const product = (products || []).find((p: any) => String(p.id) === String(it.product_id));
+    return {
+      ...it,
+      hsn_code: it.hsn_code !== undefined ? it.hsn_code : product?.hsn_code ?? null,
+      tax_rate:
+        it.tax_rate !== undefined && it.tax_rate !== null
+          ? it.tax_rate
+          : normalizeTaxRate(product?.tax_rate) ?? defaultRate,
+      price_per_unit:
+        typeof it.price_per_unit === "number" || typeof it.price !== "number" ? it.price_per_unit : it.price,
+    };
+  });
+
+  const tax = gstOnTop(org, order, frozen);
+  const subtotal = sum(
+    invoiceInputsFromOrder({ ...order, delivery_fee: 0 }, org, frozen).map((l) => l.amount)
+  );
+
+  const { error: upErr } = await supa
+    .from("orders")
+    .update({ items: frozen, tax_amount: tax, total_amount: r2(subtotal + tax) } as any)
+    .eq("org_id", org_id)
+    .eq("id", order_id);
+  if (upErr) console.warn("[GST][REFRESH_SAVE_ERR]", { order_id, error: upErr.message });
+
+  return tax;
+}
+
+// ─────────────────────────────
+// Numbering
+// ─────────────────────────────
+
+/** Indian financial year (April–March) of `d` in the org's timezone: "2026-27" */
+export function financialYearOf(d: Date, timeZone = "Asia/Kolkata"): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+  }).formatToParts(d);
+  const y = Number(parts.find((p) => p.type === "year")?.value);
+  const m = Number(parts.find((p) => p.type === "month")?.value);
+  const start = m >= 4 ? y : y - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(prefix: string, fy: string, seq: number) {
+  return `${prefix}/${fy}/${String(seq).padStart(4, "0")}`;
+}
+
+async function nextInvoiceSeq(org_id: string, fy: string): Promise<number> {
+  const { data } = await supa
+    .from("invoices")
+    .select("seq")
+    .eq("org_id", org_id)
+    .eq("financial_year", fy)
+    .order("seq", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return Number((data as any)?.seq || 0) + 1;
+}
+
+// ─────────────────────────────
+// Issue / load
+// ─────────────────────────────
+export type Invoice = {
+  id: string;
+  org_id: string;
+  order_id: string;
+  invoice_number: string;
+  financial_year: string;
+  seq: number;
+  issued_at: string;
+  supply_type: "intra" | "inter";
+  place_of_supply: string | null;
+  tax_inclusive: boolean;
+  seller: {
+    name: string;
+    legal_name: string | null;
+    gstin: string | null;
+    address: string | null;
+    phone: string | null;
+    state_code: string | null;
+  };
+  buyer: {
+    name: string | null;
+    phone: string | null;
+    address: string | null;
+    gstin: string | null;
+  };
+  lines: InvoiceLine[];
+  totals: InvoiceTotals;
+};
+
+export async function getInvoiceForOrder(org_id: string, order_id: string): Promise<Invoice | null> {
+  const { data, error } = await supa
+    .from("invoices")
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("order_id", order_id)
+    .maybeSingle();
+  if (error) console.warn("[INVOICE][LOAD_ERR]", error.message);
+  return (data as Invoice) || null;
+}
+
+/**
+ * Issues the invoice for an order from its (already frozen) items. Returns
+ * the existing one if the order was invoiced before.
+ */
+export async function issueInvoice(org: any, order: any, items: any[]): Promise<Invoice> {
+  const existing = await getInvoiceForOrder(org.id, order.id);
+  if (existing) return existing;
+
+  const inclusive = !isTaxExclusive(org);
+  const sellerState = sellerStateCode(org);
+  const pos = placeOfSupply(org, order);
+  const interState = isInterState(org, order);
+
+  const { lines, totals } = computeGst(invoiceInputsFromOrder(order, org, items), {
+    inclusive,
+    interState,
+    discount: Number(order.discount_amount || 0),
+  });
+
+  const issuedAt = new Date();
+  const fy = financialYearOf(issuedAt, org.store_timezone || "Asia/Kolkata");
+  const prefix = String(org.invoice_prefix || "INV").trim() || "INV";
+
+  const base = {
+    org_id: org.id,
+    order_id: order.id,
+    financial_year: fy,
+    issued_at: issuedAt.toISOString(),
+    supply_type: interState ? "inter" : "intra",
+    place_of_supply: pos,
+    tax_inclusive: inclusive,
+    seller: {
+      name: org.name || "",
+      legal_name: org.legal_name || null,
+      gstin: normalizeGstin(org.gstin),
+      address: org.store_address_text || org.store_address || null,
+      phone: org.phone || org.store_phone || null,
+      state_code: sellerState,
+    },
+    buyer: {
+      name: order.customer_name || null,
+      phone: order.source_phone || null,
+      address: order.delivery_address_text || null,
+      gstin: normalizeGstin(order.customer_gstin),
+    },
+    lines,
+    totals,
+  };
+
+  // unique(org_id, financial_year, seq) – retry if two invoices race for a number
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const seq = await nextInvoiceSeq(org.id, fy);
+    const { data, error } = await supa
+      .from("invoices")
+      .insert({ ...base, seq, invoice_number: formatInvoiceNumber(prefix, fy, seq) })
+      .select("*")
+      .single();
+
+    if (!error && data) {
+      await supa
+        .from("orders")
+        .update({ invoice_number: (data as any).invoice_number } as any)
+        .eq("id", order.id);
+      console.log("[INVOICE][ISSUED]", {
+        org_id: org.id,
+        order_id: order.id,
+        invoice_number: (data as any).invoice_number,
+      });
+      return data as Invoice;
+    }
+
+    // the order itself got invoiced meanwhile
+    const raced = await getInvoiceForOrder(org.id, order.id);
+    if (raced) return raced;
+
+    console.warn("[INVOICE][INSERT_RETRY]", { attempt, error: error?.message });
+  }
+
+  throw new Error("invoice_number_allocation_failed");
+}
+
+// ─────────────────────────────
+// Rendering
+// ─────────────────────────────
+const esc = (s: any) =>
+  String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const money = (n: number) =>
+  Number(n || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function stateLabel(code: string | null) {
+  return code ? `${code} – ${GST_STATES[code] || "?"}` : "—";
+}
+
+export function renderInvoiceHtml(inv: Invoice): string {
+  const inter = inv.supply_type === "inter";
+  const t = inv.totals;
+
+  const rows = inv.lines
+    .map(
+      (l, i) => `<tr>
+  <td>${i + 1}</td>
+  <td>${esc(l.name)}</td>
+  <td>${esc(l.hsn_code || "")}</td>
+  <td class="n">${l.qty}</td>
+  <td class="n">${money(l.unit_price)}</td>
+  <td class="n">${l.discount ? money(l.discount) : ""}</td>
+  <td class="n">${money(l.taxable_value)}</td>
+  <td class="n">${l.tax_rate}%</td>
+  ${
+    inter
+      ? `<td class="n">${money(l.igst)}</td>`
+      : `<td class="n">${money(l.cgst)}</td><td class="n">${money(l.sgst)}</td>`
+  }
+  <td class="n">${money(l.total)}</td>
+</tr>`
+    )
+    .join("\n");
+
+  const rateRows = t.by_rate
+    .map(
+      (r) => `<tr><td>${r.tax_rate}%</td><td class="n">${money(r.taxable_value)}</td>${
+        inter
+          ? `<td class="n">${money(r.igst)}</td>`
+          : `<td class="n">${money(r.cgst)}</td><td class="n">${money(r.sgst)}</td>`
+      }</tr>`
+    )
+    .join("\n");
+
+  const taxHeads = inter ? "<th>IGST</th>" : "<th>CGST</th><th>SGST</th>";
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Tax Invoice ${esc(inv.invoice_number)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #111; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 12px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 12px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+  th { background: #f2f2f2; }
+  td.n, th.n { text-align: right; }
+  .parties { display: flex; gap: 24px; }
+  .parties > div { flex: 1; }
+  .totals { width: 45%; margin-left: auto; }
+  .muted { color: #555; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Tax Invoice</h1>
+<div class="parties">
+  <div>
+    <strong>${esc(inv.seller.legal_name || inv.seller.name)}</strong><br>
+    ${inv.seller.address ? `${esc(inv.seller.address)}<br>` : ""}
+    ${inv.seller.phone ? `Phone: ${esc(inv.seller.phone)}<br>` : ""}
+    GSTIN: ${esc(inv.seller.gstin || "—")}<br>
+    State: ${esc(stateLabel(inv.seller.state_code))}
+  </div>
+  <div>
+    Invoice No: <strong>${esc(inv.invoice_number)}</strong><br>
+    Date: ${esc(inv.issued_at.slice(0, 10))}<br>
+    Place of supply: ${esc(stateLabel(inv.place_of_supply))}<br>
+    <span class="muted">Prices ${inv.tax_inclusive ? "include" : "exclude"} GST</span>
+  </div>
+  <div>
+    <strong>Bill to</strong><br>
+    ${esc(inv.buyer.name || "Customer")}<br>
+    ${inv.buyer.phone ? `${esc(inv.buyer.phone)}<br>` : ""}
+    ${inv.buyer.address ? `${esc(inv.buyer.address)}<br>` : ""}
+    ${inv.buyer.gstin ? `GSTIN: ${esc(inv.buyer.gstin)}` : ""}
+  </div>
+</div>
+
+<table>
+<thead>
+<tr><th>#</th><th>Item</th><th>HSN/SAC</th><th class="n">Qty</th><th class="n">Rate</th><th class="n">Discount</th><th class="n">Taxable</th><th class="n">GST</th>${taxHeads}<th class="n">Amount</th></tr>
+</thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+
+<table class="totals">
+<tr><th>GST rate</th><th class="n">Taxable</th>${taxHeads}</tr>
+${rateRows}
+</table>
+
+<table class="totals">
+<tr><td>Taxable value</td><td class="n">${money(t.taxable_value)}</td></tr>
+${
+  inter
+    ? `<tr><td>IGST</td><td class="n">${money(t.igst)}</td></tr>`
+    : `<tr><td>CGST</td><td class="n">${money(t.cgst)}</td></tr>
+<tr><td>SGST</td><td class="n">${money(t.sgst)}</td></tr>`
+}
+${t.round_off ? `<tr><td>Round off</td><td class="n">${money(t.round_off)}</td></tr>` : ""}
+<tr><th>Total (₹)</th><th class="n">${money(t.grand_total)}</th></tr>
+</table>
+</body>
+</html>`;
+}
+
+/** Plain text layout (monospace) – used for the PDF. */
+export function renderInvoiceText(inv: Invoice): string[] {
+  const inter = inv.supply_type === "inter";
+  const t = inv.totals;
+  const pad = (s: any, n: number) => String(s ?? "").slice(0, n).padEnd(n);
+  const lpad = (s: any, n: number) => String(s ?? "").slice(0, n).padStart(n);
+  const rule = "-".repeat(90);
+
+  const out: string[] = [
+    "TAX INVOICE",
+    "",
+    inv.seller.legal_name || inv.seller.name,
+    ...(inv.seller.address ? [inv.seller.address] : []),
+    `GSTIN: ${inv.seller.gstin || "-"}   State: ${stateLabel(inv.seller.state_code)}`,
+    "",
+    `Invoice No: ${inv.invoice_number}   Date: ${inv.issued_at.slice(0, 10)}`,
+    `Place of supply: ${stateLabel(inv.place_of_supply)}`,
+    `Bill to: ${inv.buyer.name || "Customer"}${inv.buyer.phone ? `, ${inv.buyer.phone}` : ""}`,
+    ...(inv.buyer.address ? [`         ${inv.buyer.address}`] : []),
+    ...(inv.buyer.gstin ? [`Buyer GSTIN: ${inv.buyer.gstin}`] : []),
+    rule,
+    pad("Item", 26) +
+      pad("HSN", 9) +
+      lpad("Qty", 5) +
+      lpad("Taxable", 11) +
+      lpad("GST", 5) +
+      (inter ? lpad("IGST", 20) : lpad("CGST", 10) + lpad("SGST", 10)) +
+      lpad("Amount", 12),
+    rule,
+  ];
+
+  for (const l of inv.lines) {
+    out.push(
+      pad(l.name, 26) +
+        pad(l.hsn_code || "", 9) +
+        lpad(l.qty, 5) +
+        lpad(money(l.taxable_value), 11) +
+        lpad(`${l.tax_rate}%`, 5) +
+        (inter ? lpad(money(l.igst), 20) : lpad(money(l.cgst), 10) + lpad(money(l.sgst), 10)) +
+        lpad(money(l.total), 12)
+    );
+  }
+
+  out.push(rule);
+  const row = (label: string, v: number) => lpad(label, 70) + lpad(money(v), 20);
+  if (t.discount) out.push(row("Discount (included above)", t.discount));
+  out.push(row("Taxable value", t.taxable_value));
+  if (inter) out.push(row("IGST", t.igst));
+  else out.push(row("CGST", t.cgst), row("SGST", t.sgst));
+  if (t.round_off) out.push(row("Round off", t.round_off));
+  out.push(row("TOTAL (Rs.)", t.grand_total));
+
+  return out;
+}
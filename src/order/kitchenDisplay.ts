@@ -0,0 +1,459 @@
+// src/order/kitchenDisplay.ts
+import { supa } from "../db";
+import { emitOrderEvent } from "../routes/realtimeOrders";
+import { onOrderTransition, transitionOrderStatus } from "./orderLifecycle";
+import { notifyOrderStatusChange } from "./statusNotifications";
+import { orderRef } from "./orderNumbers";
+
+/**
+ * Kitchen display (KDS). An accepted order becomes one KDS item per order
+ * line, routed to a station by product category:
+ *
+ *   queued → cooking → ready          (bump an item = next state)
+ *   bump an order  = all its items ready, ticket leaves the screen
+ *   recall         = undo the last step (item) / bring a bumped ticket back
+ *
+ * The order follows along: first item cooking → "preparing", whole ticket
+ * bumped → "ready" (customer notified as for a dashboard change). A
+ * cancelled / rejected order voids its ticket.
+ *
+ * Every change goes out on the org's SSE stream:
+ *   event: kds_ticket  { action: created | bumped | recalled | voided, ticket }
+ *   event: kds_item    { action: bumped | recalled, item }
+ *
+ * Table `kds_items`:
+ *   id          uuid primary key
+ *   org_id      uuid
+ *   order_id    uuid
+ *   line_no     int    -- index in orders.items
+ *   name / variant / notes text, qty numeric
+ *   category    text
+ *   station     text
+ *   state       text   -- 'queued' | 'cooking' | 'ready'
+ *   started_at / ready_at / bumped_at / voided_at / created_at / updated_at timestamptz
+ *   unique (order_id, line_no)
+ *
+ * orgs.kds_stations jsonb:
+ *   [{ "id": "tandoor", "name": "Tandoor", "categories": ["breads", "kebabs"] }, …]
+ * Categories no station claims go to the default "kitchen" station.
+ */
+
+const TABLE = "kds_items";
+
+export const KDS_ITEM_STATES = ["queued", "cooking", "ready"] as const;
+export type KdsItemState = (typeof KDS_ITEM_STATES)[number];
+
+export const DEFAULT_STATION = "kitchen";
+
+export type KdsStation = { id: string; name: string; categories: string[] };
+
+export type KdsItem = {
+  id: string;
+  org_id: string;
+  order_id: string;
+  line_no: number;
+  name: string;
+  variant: string | null;
+  notes: string | null;
+  qty: number;
+  category: string | null;
+  station: string;
+  state: KdsItemState;
+  started_at: string | null;
+  ready_at: string | null;
+  bumped_at: string | null;
+  voided_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type KdsTicket = {
+  order_id: string;
+  order_ref: string;
+  order_status: string | null;
+  delivery_type: string | null;
+  scheduled_for: string | null;
+  created_at: string;
+  bumped_at: string | null;
+  items: KdsItem[];
+};
+
+export type KdsResult<T> = { ok: true } & T | { ok: false; error: string };
+
+// ─────────────────────────────
+// Stations
+// ─────────────────────────────
+
+const slug = (v: any) =>
+  String(v ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/** orgs.kds_stations, cleaned; always ends with the default station. */
+export function kdsStations(org: any): KdsStation[] {
+  const raw = Array.isArray(org?.kds_stations) ? org.kds_stations : [];
+  const out: KdsStation[] = [];
+  for (const s of raw) {
+    const id = slug(s?.id || s?.name);
+    if (!id || out.some((o) => o.id === id)) continue;
+    out.push({
+      id,
+      name: String(s?.name || id).trim(),
+      categories: (Array.isArray(s?.categories) ? s.categories : [])
+        .map((c: any) => String(c ?? "").trim().toLowerCase())
+        .filter(Boolean),
+    });
+  }
+  if (!out.some((o) => o.id === DEFAULT_STATION)) {
+    out.push({ id: DEFAULT_STATION, name: "Kitchen", categories: [] });
+  }
+  return out;
+}
+
+export function stationForCategory(stations: KdsStation[], category?: string | null): string {
+  const c = String(category || "").trim().toLowerCase();
+  const hit = c ? stations.find((s) => s.categories.includes(c)) : null;
+  return hit ? hit.id : DEFAULT_STATION;
+}
+
+// ─────────────────────────────
+// Tickets
+// ─────────────────────────────
+
+function groupTickets(orders: any[], items: KdsItem[]): KdsTicket[] {
+  const byOrder = new Map<string, KdsItem[]>();
+  for (const it of items) {
+    if (!byOrder.has(it.order_id)) byOrder.set(it.order_id, []);
+    byOrder.get(it.order_id)!.push(it);
+  }
+
+  return orders
+    .filter((o) => byOrder.has(String(o.id)))
+    .map((o) => {
+      const lines = byOrder.get(String(o.id))!.sort((a, b) => a.line_no - b.line_no);
+      return {
+        order_id: String(o.id),
+        order_ref: orderRef(o),
+        order_status: o.status ?? null,
+        delivery_type: o.delivery_type ?? null,
+        scheduled_for: o.scheduled_for ?? null,
+        created_at: lines[0].created_at,
+        bumped_at: lines.every((l) => l.bumped_at) ? lines[0].bumped_at : null,
+        items: lines,
+      };
+    })
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+}
+
+async function loadTicket(org_id: string, order_id: string): Promise<KdsTicket | null> {
+  const [{ data: order }, { data: items }] = await Promise.all([
+    supa.from("orders").select("*").eq("org_id", org_id).eq("id", order_id).maybeSingle(),
+    supa.from(TABLE).select("*").eq("org_id", org_id).eq("order_id", order_id).is("voided_at", null),
+  ]);
+  if (!order) return null;
+  return groupTickets([order], (items || []) as KdsItem[])[0] || null;
+}
+
+async function emitTicket(org_id: string, order_id: string, action: string) {
+  const ticket = await loadTicket(org_id, order_id);
+  emitOrderEvent(org_id, "kds_ticket", { action, order_id, ticket });
+}
+
+/**
+ * Open tickets, oldest first. `station` keeps only that station's items;
+ * `bumped` lists recently bumped tickets instead (for recall).
+ */
+export async function listKdsTickets(
+  org_id: string,
+  opts: { station?: string | null; bumped?: boolean; limit?: number } = {}
+): Promise<KdsTicket[]> {
+  let q = supa.from(TABLE).select("*").eq("org_id", org_id).is("voided_at", null);
+  if (opts.station) q = q.eq("station", opts.station);
+  q = opts.bumped
+    ? q.gte("bumped_at", new Date(Date.now() - 12 * 3600 * 1000).toISOString())
+    : q.is("bumped_at", null);
+
+  const { data: items, error } = await q.order("created_at", { ascending: true }).limit(1000);
+  if (error) throw error;
+  if (!items?.length) return [];
+
+  const orderIds = Array.from(new Set((items as KdsItem[]).map((i) => i.order_id)));
+  const { data: orders, error: ordErr } = await supa
+    .from("orders")
+    .select("*")
+    .eq("org_id", org_id)
+    .in("id", orderIds);
+  if (ordErr) throw ordErr;
+
+  const tickets = groupTickets(orders || [], items as KdsItem[]);
+  if (!opts.bumped) return tickets;
+
+  // most recently bumped first
+  return tickets
+    .sort((a, b) => String(b.items[0].bumped_at).localeCompare(String(a.items[0].bumped_at)))
+    .slice(0, opts.limit || 20);
+}
+
+/** Accepted order → KDS items. Safe to call twice (unique per order line). */
+export async function createKdsTickets(org_id: string, order_id: string): Promise<void> {
+  const [{ data: order }, { data: org }] = await Promise.all([
+    supa.from("orders").select("*").eq("org_id", org_id).eq("id", order_id).maybeSingle(),
+    supa.from("orgs").select("id, kds_stations").eq("id", org_id).maybeSingle(),
+  ]);
+  const lines = Array.isArray(order?.items) ? order.items : [];
+  if (!order || !lines.length) return;
+
+  const { data: products } = await supa
+    .from("products")
+    .select("id, canonical, category")
+    .eq("org_id", org_id);
+  const byId = new Map<string, any>();
+  const byName = new Map<string, any>();
+  for (const p of products || []) {
+    byId.set(String(p.id), p);
+    if (p.canonical) byName.set(String(p.canonical).trim().toLowerCase(), p);
+  }
+
+  const stations = kdsStations(org);
+  const now = new Date().toISOString();
+
+  const rows = lines.map((it: any, line_no: number) => {
+    const name = String(it?.canonical || it?.name || "Item").trim();
+    const product =
+      (it?.product_id != null && byId.get(String(it.product_id))) || byName.get(name.toLowerCase());
+    const category = String(it?.category || product?.category || "").trim() || null;
+    return {
+      org_id,
+      order_id,
+      line_no,
+      name,
+      variant: String(it?.variant || "").trim() || null,
+      notes: String(it?.notes || "").trim() || null,
+      qty: Number(it?.qty) || 1,
+      category,
+      station: stationForCategory(stations, category),
+      state: "queued",
+      created_at: now,
+      updated_at: now,
+    };
+  });
+
+  const { data: inserted, error } = await supa
+    .from(TABLE)
+    .upsert(rows, { onConflict: "order_id,line_no", ignoreDuplicates: true })
+    .select("id");
+  if (error) {
+    console.warn("[KDS][CREATE_ERR]", { order_id, error: error.message });
+    return;
+  }
+  if (!inserted?.length) return;
+
+  console.log("[KDS][TICKET]", { org_id, order_id, items: inserted.length });
+  await emitTicket(org_id, order_id, "created");
+}
+
+/** Cancelled / rejected order → off every screen. */
+export async function voidKdsTickets(org_id: string, order_id: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { data, error } = await supa
+    .from(TABLE)
+    .update({ voided_at: now, updated_at: now })
+    .eq("org_id", org_id)
+    .eq("order_id", order_id)
+    .is("voided_at", null)
+    .select("id");
+  if (error) {
+    console.warn("[KDS][VOID_ERR]", { order_id, error: error.message });
+    return;
+  }
+  if (data?.length) emitOrderEvent(org_id, "kds_ticket", { action: "voided", order_id, ticket: null });
+}
+
+// ─────────────────────────────
+// Order status follows the kitchen
+// ─────────────────────────────
+
+async function syncOrderStatus(org_id: string, order_id: string, to: "preparing" | "ready") {
+  try {
+    const moved = await transitionOrderStatus({
+      org_id,
+      order_id,
+      to,
+      actor: { type: "store" },
+      source: "kds",
+      from: to === "preparing" ? ["accepted"] : ["accepted", "preparing"],
+    });
+    if (!("error" in moved) && moved.changed) {
+      await notifyOrderStatusChange({ org_id, order_id, status: to });
+    }
+  } catch (e: any) {
+    console.warn("[KDS][ORDER_SYNC_ERR]", { order_id, to, error: e?.message || e });
+  }
+}
+
+// ─────────────────────────────
+// Bump / recall
+// ─────────────────────────────
+
+async function loadItem(org_id: string, item_id: string): Promise<KdsItem | null> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("id", item_id)
+    .is("voided_at", null)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as KdsItem) || null;
+}
+
+async function updateItem(item: KdsItem, patch: Partial<KdsItem>): Promise<KdsItem | null> {
+  // only if nobody else moved it since we read it
+  const { data, error } = await supa
+    .from(TABLE)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", item.id)
+    .eq("state", item.state)
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+  return (data as KdsItem) || null;
+}
+
+/** queued → cooking → ready. */
+export async function bumpKdsItem(org_id: string, item_id: string): Promise<KdsResult<{ item: KdsItem }>> {
+  const item = await loadItem(org_id, item_id);
+  if (!item) return { ok: false, error: "item_not_found" };
+  if (item.state === "ready") return { ok: false, error: "already_ready" };
+
+  const now = new Date().toISOString();
+  const patch: Partial<KdsItem> =
+    item.state === "queued" ? { state: "cooking", started_at: now } : { state: "ready", ready_at: now };
+
+  const updated = await updateItem(item, patch);
+  if (!updated) return { ok: false, error: "state_conflict" };
+
+  emitOrderEvent(org_id, "kds_item", { action: "bumped", item: updated });
+  if (updated.state === "cooking") await syncOrderStatus(org_id, item.order_id, "preparing");
+
+  return { ok: true, item: updated };
+}
+
+/** One step back; an item on a bumped ticket brings the ticket back too. */
+export async function recallKdsItem(org_id: string, item_id: string): Promise<KdsResult<{ item: KdsItem }>> {
+  const item = await loadItem(org_id, item_id);
+  if (!item) return { ok: false, error: "item_not_found" };
+  if (item.state === "queued") return { ok: false, error: "already_queued" };
+
+  const patch: Partial<KdsItem> =
+    item.state === "ready"
+      ? { state: "cooking", ready_at: null, bumped_at: null }
+      : { state: "queued", started_at: null };
+
+  const updated = await updateItem(item, patch);
+  if (!updated) return { ok: false, error: "state_conflict" };
+
+  emitOrderEvent(org_id, "kds_item", { action: "recalled", item: updated });
+  if (item.bumped_at) await emitTicket(org_id, item.order_id, "recalled");
+
+  return { ok: true, item: updated };
+}
+
+/**
+ * Everything on the ticket (or just this station's part) is ready and off
+ * the screen. Once no station has it any more the order is "ready".
+ */
+export async function bumpKdsOrder(
+  org_id: string,
+  order_id: string,
+  station?: string | null
+): Promise<KdsResult<{ ticket: KdsTicket | null }>> {
+  let q = supa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("order_id", order_id)
+    .is("voided_at", null)
+    .is("bumped_at", null);
+  if (station) q = q.eq("station", station);
+
+  const { data: open, error } = await q;
+  if (error) throw error;
+  if (!open?.length) return { ok: false, error: "ticket_not_found" };
+
+  const now = new Date().toISOString();
+  for (const it of open as KdsItem[]) {
+    await supa
+      .from(TABLE)
+      .update({
+        state: "ready",
+        ready_at: it.ready_at || now,
+        bumped_at: now,
+        updated_at: now,
+      })
+      .eq("id", it.id);
+  }
+
+  const { data: left } = await supa
+    .from(TABLE)
+    .select("id")
+    .eq("org_id", org_id)
+    .eq("order_id", order_id)
+    .is("voided_at", null)
+    .is("bumped_at", null);
+
+  await emitTicket(org_id, order_id, "bumped");
+  if (!left?.length) await syncOrderStatus(org_id, order_id, "ready");
+
+  return { ok: true, ticket: await loadTicket(org_id, order_id) };
+}
+
+/**
+ * Bumped ticket back on the screen (items stay ready). No order_id → the
+ * ticket bumped last (at this station).
+ */
+export async function recallKdsOrder(
+  org_id: string,
+  order_id?: string | null,
+  station?: string | null
+): Promise<KdsResult<{ ticket: KdsTicket | null }>> {
+  let target = order_id || null;
+  if (!target) {
+    let q = supa
+      .from(TABLE)
+      .select("order_id, bumped_at")
+      .eq("org_id", org_id)
+      .is("voided_at", null)
+      .not("bumped_at", "is", null);
+    if (station) q = q.eq("station", station);
+    const { data: last } = await q.order("bumped_at", { ascending: false }).limit(1);
+    target = last?.[0]?.order_id || null;
+  }
+  if (!target) return { ok: false, error: "nothing_to_recall" };
+
+  let q = supa
+    .from(TABLE)
+    .update({ bumped_at: null, updated_at: new Date().toISOString() })
+    .eq("org_id", org_id)
+    .eq("order_id", target)
+    .is("voided_at", null)
+    .not("bumped_at", "is", null);
+  if (station) q = q.eq("station", station);
+
+  const { data: recalled, error } = await q.select("id");
+  if (error) throw error;
+  if (!recalled?.length) return { ok: false, error: "ticket_not_found" };
+
+  await emitTicket(org_id, target, "recalled");
+  return { ok: true, ticket: await loadTicket(org_id, target) };
+}
+
+/** Tickets appear on accept and disappear on cancel, whoever made the change. */
+export function startKitchenDisplay() {
+  onOrderTransition(async ({ org_id, order_id, to }) => {
+    if (to === "accepted") await createKdsTickets(org_id, order_id);
+    else if (to === "cancelled" || to === "rejected") await voidKdsTickets(org_id, order_id);
+  });
+}
@@ -0,0 +1,349 @@
+// src/order/kitchenTicket.ts
+import { orderRef } from "./orderNumbers";
+
+/**
+ * Kitchen tickets and customer receipts for thermal printers (ESC/POS,
+ * 58mm / 80mm) and the browser (printable HTML).
+ *
+ * A kitchen ticket has what the cook needs – big order number, fulfilment,
+ * items with variants and notes (modifier engine writes item.notes), no
+ * prices. A receipt adds prices, fee / discount and payment.
+ */
+
+export type TicketKind = "kitchen" | "receipt";
+export type PaperWidth = 58 | 80;
+
+// Font A (12x24) characters per line
+const COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export function normalizePaperWidth(v: any): PaperWidth | null {
+  const n = Number(String(v ?? "").replace(/mm$/i, ""));
+  return n === 58 || n === 80 ? n : null;
+}
+
+export type TicketLine = {
+  qty: number;
+  name: string;
+  variant: string | null;
+  notes: string | null;
+  price: number | null; // line total
+};
+
+export type Ticket = {
+  store_name: string;
+  order_ref: string;
+  placed_at: string | null;
+  timezone: string;
+  fulfilment: "delivery" | "pickup" | null;
+  scheduled_for: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  address: string | null;
+  lines: TicketLine[];
+  subtotal: number;
+  delivery_fee: number;
+  discount: number;
+  promo_code: string | null;
+  tax: number; // GST on top (tax-exclusive orgs)
+  total: number;
+  payment: string | null;
+};
+
+const num = (v: any) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+};
+
+export function ticketFromOrder(org: any, order: any): Ticket {
+  const items = Array.isArray(order?.items) ? order.items : [];
+
+  const lines: TicketLine[] = items.map((it: any) => {
+    const qty = num(it?.qty) || 1;
+    const unit = it?.price ?? it?.price_per_unit ?? it?.unit_price;
+    const lineTotal =
+      it?.line_total != null ? num(it.line_total) : unit != null ? num(unit) * qty : null;
+    return {
+      qty,
+      name: String(it?.canonical || it?.name || "Item").trim(),
+      variant: String(it?.variant || "").trim() || null,
+      notes: String(it?.notes || "").trim() || null,
+      price: lineTotal,
+    };
+  });
+
+  const tax = Math.max(0, num(order?.tax_amount));
+  // total_amount includes the GST on top
+  const subtotal = lines.some((l) => l.price != null)
+    ? lines.reduce((s, l) => s + (l.price || 0), 0)
+    : num(order?.total_amount) - tax;
+  const fee = Math.max(0, num(order?.delivery_fee));
+  const discount = Math.max(0, num(order?.discount_amount));
+  const delivery = String(order?.delivery_type || "").toLowerCase();
+  const payMode = String(order?.payment_mode || "").trim();
+  const paid = order?.payment_status === "paid";
+
+  return {
+    store_name: org?.name || "",
+    order_ref: orderRef(order),
+    placed_at: order?.created_at || null,
+    timezone: org?.store_timezone || "Asia/Kolkata",
+    fulfilment: delivery === "delivery" || delivery === "pickup" ? (delivery as any) : null,
+    scheduled_for: order?.scheduled_for || null,
+    customer_name: order?.customer_name || null,
+    customer_phone: order?.source_phone || null,
+    address: delivery === "delivery" ? order?.delivery_address_text || null : null,
+    lines,
+    subtotal,
+    delivery_fee: fee,
+    discount,
+    promo_code: order?.promo_code || null,
+    tax,
+    total: Math.max(0, subtotal + fee - discount + tax),
+    payment: paid
+      ? `PAID${payMode ? ` (${payMode})` : ""}`
+      : payMode
+      ? `${payMode.toUpperCase()} – to collect`
+      : null,
+  };
+}
+
+const formatTime = (iso: string | null, timeZone: string) => {
+  if (!iso) return "";
+  try {
+    return new Intl.DateTimeFormat("en-IN", {
+      timeZone,
+      day: "2-digit",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(iso));
+  } catch {
+    return iso;
+  }
+};
+
+const rupees = (n: number) => `Rs.${Math.round(n)}`;
+
+// ─────────────────────────────
+// Plain text (fixed width) – shared by ESC/POS and previews
+// ─────────────────────────────
+
+type Styled = { text: string; bold?: boolean; big?: boolean; center?: boolean };
+
+function wrap(text: string, width: number, indent = ""): string[] {
+  const out: string[] = [];
+  const lead = /^ */.exec(String(text))![0];
+  let line = "";
+  for (const word of String(text).split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : (out.length ? indent : lead) + word;
+    if (next.length <= width) {
+      line = next;
+      continue;
+    }
+    if (line) out.push(line);
+    // words longer than the paper get cut
+    let w = word;
+    while (w.length > width - indent.length) {
+      out.push(indent + w.slice(0, width - indent.length));
+      w = w.slice(width - indent.length);
+    }
+    line = indent + w;
+  }
+  if (line) out.push(line);
+  return out;
+}
+
+const leftRight = (left: string, right: string, width: number) => {
+  const space = Math.max(1, width - left.length - right.length);
+  return left.length + right.length + 1 > width
+    ? [left, " ".repeat(Math.max(0, width - right.length)) + right]
+    : [left + " ".repeat(space) + right];
+};
+
+function ticketRows(t: Ticket, kind: TicketKind, width: PaperWidth): Styled[] {
+  const cols = COLUMNS[width];
+  const rule = "-".repeat(cols);
+  const rows: Styled[] = [];
+  const push = (text: string, style: Omit<Styled, "text"> = {}) => rows.push({ text, ...style });
+
+  if (kind === "receipt" && t.store_name) push(t.store_name, { bold: true, center: true });
+  push(kind === "kitchen" ? "KITCHEN" : "RECEIPT", { center: true });
+  push(`#${t.order_ref}`, { big: true, bold: true, center: true });
+  push(formatTime(t.placed_at, t.timezone), { center: true });
+
+  if (t.fulfilment) push(t.fulfilment === "delivery" ? "DELIVERY" : "PICKUP", { bold: true, center: true });
+  if (t.scheduled_for) push(`FOR ${formatTime(t.scheduled_for, t.timezone)}`, { bold: true, center: true });
+  push(rule);
+
+  for (const l of t.lines) {
+    const head = `${l.qty} x ${l.name}`;
+    if (kind === "receipt" && l.price != null) {
+      for (const s of leftRight(head, rupees(l.price), cols)) push(s);
+    } else {
+      for (const s of wrap(head, cols, "    ")) push(s, { bold: kind === "kitchen" });
+    }
+    if (l.variant) for (const s of wrap(`    ${l.variant}`, cols, "    ")) push(s);
+    if (l.notes) for (const s of wrap(`    ** ${l.notes}`, cols, "       ")) push(s, { bold: true });
+  }
+  push(rule);
+
+  if (kind === "receipt") {
+    for (const s of leftRight("Subtotal", rupees(t.subtotal), cols)) push(s);
+    if (t.delivery_fee) for (const s of leftRight("Delivery", rupees(t.delivery_fee), cols)) push(s);
+    if (t.discount) {
+      for (const s of leftRight(`Discount${t.promo_code ? ` (${t.promo_code})` : ""}`, `-${rupees(t.discount)}`, cols)) {
+        push(s);
+      }
+    }
+    if (t.tax) for (const s of leftRight("GST", rupees(t.tax), cols)) push(s);
+    for (const s of leftRight("TOTAL", rupees(t.total), cols)) push(s, { bold: true });
+    if (t.payment) push(t.payment);
+    push(rule);
+  }
+
+  if (t.customer_name || t.customer_phone) {
+    push([t.customer_name, t.customer_phone ? `+${String(t.customer_phone).replace(/^\+/, "")}` : null]
+      .filter(Boolean)
+      .join("  "));
+  }
+  if (t.address) for (const s of wrap(t.address, cols)) push(s);
+  if (kind === "kitchen" && t.payment) push(t.payment);
+  if (kind === "receipt") push("Thank you!", { center: true });
+
+  return rows;
+}
+
+// ₹ and friends aren't in the printer's code page
+function toAscii(s: string): string {
+  return String(s ?? "")
+    .replace(/₹/g, "Rs.")
+    .replace(/[–—]/g, "-")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+export function renderTicketText(t: Ticket, kind: TicketKind, width: PaperWidth = 80): string {
+  const cols = COLUMNS[width];
+  return ticketRows(t, kind, width)
+    .map((r) => {
+      const text = toAscii(r.text);
+      if (!r.center) return text;
+      const pad = Math.max(0, Math.floor((cols - text.length) / 2));
+      return " ".repeat(pad) + text;
+    })
+    .join("\n");
+}
+
+// ─────────────────────────────
+// ESC/POS
+// ─────────────────────────────
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+export function renderTicketEscPos(t: Ticket, kind: TicketKind, width: PaperWidth = 80): Buffer {
+  const bytes: number[] = [ESC, 0x40]; // init
+  const write = (s: string) => {
+    for (const ch of Buffer.from(toAscii(s), "ascii")) bytes.push(ch);
+  };
+
+  for (const r of ticketRows(t, kind, width)) {
+    bytes.push(ESC, 0x61, r.center ? 1 : 0); // align
+    bytes.push(ESC, 0x45, r.bold ? 1 : 0); // bold
+    bytes.push(GS, 0x21, r.big ? 0x11 : 0x00); // double width + height
+    write(r.text);
+    bytes.push(0x0a);
+  }
+
+  bytes.push(ESC, 0x61, 0, ESC, 0x45, 0, GS, 0x21, 0);
+  bytes.push(ESC, 0x64, 4); // feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0); // partial cut
+
+  return Buffer.from(bytes);
+}
+
+// ─────────────────────────────
+// Printable HTML
+// ─────────────────────────────
+
+const esc = (s: any) =>
+  String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const inr = (n: number) => `₹${Math.round(n).toLocaleString("en-IN")}`;
+
+export function renderReceiptHtml(t: Ticket, kind: TicketKind = "receipt", width: PaperWidth = 80): string {
+  const priced = kind === "receipt";
+
+  const rows = t.lines
+    .map(
+      (l) => `<tr>
+  <td class="q">${l.qty}×</td>
+  <td>${esc(l.name)}${l.variant ? `<div class="muted">${esc(l.variant)}</div>` : ""}${
+        l.notes ? `<div class="note">${esc(l.notes)}</div>` : ""
+      }</td>
+  ${priced ? `<td class="n">${l.price != null ? inr(l.price) : ""}</td>` : ""}
+</tr>`
+    )
+    .join("\n");
+
+  const totals = priced
+    ? `<table class="totals">
+  <tr><td>Subtotal</td><td class="n">${inr(t.subtotal)}</td></tr>
+  ${t.delivery_fee ? `<tr><td>Delivery</td><td class="n">${inr(t.delivery_fee)}</td></tr>` : ""}
+  ${
+    t.discount
+      ? `<tr><td>Discount${t.promo_code ? ` (${esc(t.promo_code)})` : ""}</td><td class="n">−${inr(t.discount)}</td></tr>`
+      : ""
+  }
+  ${t.tax ? `<tr><td>GST</td><td class="n">${inr(t.tax)}</td></tr>` : ""}
+  <tr class="grand"><td>Total</td><td class="n">${inr(t.total)}</td></tr>
+</table>`
+    : "";
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${priced ? "Receipt" : "Kitchen ticket"} #${esc(t.order_ref)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 3mm; }
+  body { font-family: "Courier New", monospace; font-size: 12px; color: #000; width: ${width - 6}mm; margin: 0 auto; }
+  .c { text-align: center; }
+  .big { font-size: 22px; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; }
+  td { vertical-align: top; padding: 2px 0; }
+  td.q { width: 2.5em; font-weight: bold; }
+  td.n { text-align: right; white-space: nowrap; }
+  .muted { color: #444; }
+  .note { font-weight: bold; }
+  .note::before { content: "** "; }
+  .totals { border-top: 1px dashed #000; margin-top: 4px; }
+  .grand td { font-weight: bold; border-top: 1px dashed #000; }
+  hr { border: 0; border-top: 1px dashed #000; }
+  @media screen { body { margin: 16px auto; } }
+</style>
+</head>
+<body>
+${priced && t.store_name ? `<div class="c"><strong>${esc(t.store_name)}</strong></div>` : ""}
+<div class="c big">#${esc(t.order_ref)}</div>
+<div class="c">${esc(formatTime(t.placed_at, t.timezone))}</div>
+${t.fulfilment ? `<div class="c"><strong>${t.fulfilment === "delivery" ? "DELIVERY" : "PICKUP"}</strong></div>` : ""}
+${t.scheduled_for ? `<div class="c"><strong>For ${esc(formatTime(t.scheduled_for, t.timezone))}</strong></div>` : ""}
+<hr>
+<table>
+${rows}
+</table>
+${totals}
+${t.payment ? `<div>${esc(t.payment)}</div>` : ""}
+<hr>
+${t.customer_name || t.customer_phone ? `<div>${esc([t.customer_name, t.customer_phone ? `+${String(t.customer_phone).replace(/^\+/, "")}` : null].filter(Boolean).join("  "))}</div>` : ""}
+${t.address ? `<div>${esc(t.address)}</div>` : ""}
+${priced ? `<p class="c">Thank you!</p>` : ""}
+</body>
+</html>`;
+}
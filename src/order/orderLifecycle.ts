@@ -0,0 +1,402 @@
+// src/order/orderLifecycle.ts
+import { supa } from "../db";
+
+/**
+ * The one order lifecycle: every status an order can be in, which moves are
+ * allowed, and an audit row for each move.
+ *
+ *   chat checkout:  awaiting_customer_action → awaiting_payment_proof → awaiting_store_action
+ *   dashboard:      draft → awaiting_confirmation
+ *   text / legacy:  pending
+ *   then:           accepted → preparing → ready → out_for_delivery / shipped → delivered → paid
+ *   any open order: → cancelled / rejected (final)
+ *
+ * Status writes go through transitionOrderStatus(), which refuses illegal
+ * jumps and records them in order_events:
+ *
+ *   create table order_events (
+ *     id uuid primary key default gen_random_uuid(),
+ *     org_id uuid not null, order_id uuid not null,
+ *     from_status text, to_status text not null,
+ *     actor_type text not null,   -- customer | store | system | payment
+ *     actor_id text, source text, reason text, meta jsonb,
+ *     created_at timestamptz not null default now()
+ *   );
+ *   create index on order_events (order_id, created_at);
+ */
+
+export const ORDER_STATUSES = [
+  "draft",
+  "awaiting_confirmation",
+  "awaiting_customer_action",
+  "awaiting_payment_proof",
+  "awaiting_store_action",
+  "pending",
+  "accepted",
+  "preparing",
+  "ready",
+  "out_for_delivery",
+  "shipped",
+  "delivered",
+  "paid",
+  "cancelled",
+  "rejected",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Older names still found in rows / sent by clients
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  awaiting_payment_or_method: "awaiting_customer_action",
+  awaiting_payment: "awaiting_payment_proof",
+  awaiting_pickup_payment: "awaiting_payment_proof",
+  confirmed: "accepted",
+  packing: "preparing",
+  cancelled_by_customer: "cancelled",
+  archived_for_new: "cancelled",
+};
+
+const STATUS_SET = new Set<string>(ORDER_STATUSES);
+
+/** Lowercased canonical status, or null if it isn't one (aliases mapped). */
+export function normalizeOrderStatus(s?: string | null): OrderStatus | null {
+  const v = String(s ?? "").trim().toLowerCase();
+  if (STATUS_SET.has(v)) return v as OrderStatus;
+  return STATUS_ALIASES[v] || null;
+}
+
+const FULFILMENT: OrderStatus[] = ["preparing", "ready", "out_for_delivery", "shipped", "delivered", "paid"];
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  draft: ["awaiting_confirmation", "awaiting_customer_action", "pending", "accepted", "cancelled"],
+  awaiting_confirmation: ["awaiting_customer_action", "pending", "accepted", "rejected", "cancelled"],
+  awaiting_customer_action: ["awaiting_payment_proof", "awaiting_store_action", "accepted", "cancelled"],
+  // proof rejected by staff sends it back to awaiting_payment_proof
+  awaiting_payment_proof: ["awaiting_customer_action", "awaiting_store_action", "accepted", "cancelled"],
+  awaiting_store_action: ["awaiting_payment_proof", "accepted", "rejected", "cancelled"],
+  pending: ["awaiting_customer_action", "awaiting_store_action", "accepted", "rejected", "cancelled"],
+  accepted: [...FULFILMENT, "cancelled"],
+  preparing: ["ready", "out_for_delivery", "shipped", "delivered", "paid", "cancelled"],
+  ready: ["out_for_delivery", "shipped", "delivered", "paid", "cancelled"],
+  out_for_delivery: ["delivered", "paid", "cancelled"],
+  shipped: ["delivered", "paid"],
+  // COD settled after delivery / prepaid order dispatched
+  delivered: ["paid"],
+  paid: ["shipped", "delivered"],
+  cancelled: [],
+  rejected: [],
+};
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = [
+  "draft",
+  "awaiting_confirmation",
+  "awaiting_customer_action",
+  "awaiting_payment_proof",
+  "awaiting_store_action",
+  "pending",
+  "accepted",
+  "preparing",
+  "ready",
+  "out_for_delivery",
+];
+
+export const CLOSED_ORDER_STATUSES: OrderStatus[] = ["shipped", "delivered", "paid", "cancelled", "rejected"];
+
+/** Raw `status` values of open orders, legacy names included (for `.in("status", …)`). */
+export const OPEN_ORDER_STATUS_VALUES: string[] = [
+  ...OPEN_ORDER_STATUSES,
+  ...Object.keys(STATUS_ALIASES).filter((k) => OPEN_ORDER_STATUSES.includes(STATUS_ALIASES[k])),
+];
+
+// Once the kitchen is on it, cancelling is the store's call. Paid orders are
+// always the store's call too: cancelling one means a refund.
+const CUSTOMER_CANCELLABLE: OrderStatus[] = [
+  "draft",
+  "awaiting_confirmation",
+  "awaiting_customer_action",
+  "awaiting_payment_proof",
+  "awaiting_store_action",
+  "pending",
+  "accepted",
+  "preparing",
+];
+
+export function allowedNextStatuses(from?: string | null): OrderStatus[] {
+  const cur = normalizeOrderStatus(from);
+  return cur ? TRANSITIONS[cur] : [...ORDER_STATUSES];
+}
+
+export function canTransition(from: string | null | undefined, to: string): boolean {
+  const next = normalizeOrderStatus(to);
+  if (!next) return false;
+  const cur = normalizeOrderStatus(from);
+  // unknown legacy status: let staff move it anywhere canonical
+  if (!cur) return true;
+  return cur === next || TRANSITIONS[cur].includes(next);
+}
+
+export function isOrderOpen(status?: string | null): boolean {
+  const s = normalizeOrderStatus(status);
+  return !!s && OPEN_ORDER_STATUSES.includes(s);
+}
+
+export function customerCanCancel(status?: string | null, paymentStatus?: string | null): boolean {
+  const s = normalizeOrderStatus(status);
+  if (String(paymentStatus || "").toLowerCase() === "paid") return false;
+  return !!s && CUSTOMER_CANCELLABLE.includes(s);
+}
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: "📝 Draft",
+  awaiting_confirmation: "🕒 Waiting for your confirmation",
+  awaiting_customer_action: "🕒 Waiting for you to choose a payment method",
+  awaiting_payment_proof: "💳 Waiting for payment",
+  awaiting_store_action: "🕒 Pending (waiting for restaurant confirmation)",
+  pending: "🕒 Pending (waiting for restaurant confirmation)",
+  accepted: "🟢 Accepted (order is being prepared)",
+  preparing: "👨‍🍳 Preparing your food",
+  ready: "📦 Ready for pickup",
+  out_for_delivery: "🚗 Out for delivery",
+  shipped: "🚚 Shipped",
+  delivered: "✅ Delivered",
+  paid: "✅ Completed",
+  cancelled: "❌ Cancelled",
+  rejected: "❌ Declined by the store",
+};
+
+/** Customer-facing status line ("🚗 Out for delivery"). */
+export function orderStatusLabel(status?: string | null): string {
+  const s = normalizeOrderStatus(status);
+  return s ? STATUS_LABELS[s] : String(status || "");
+}
+
+// ─────────────────────────────
+// Transitions + audit trail
+// ─────────────────────────────
+
+export type OrderActorType = "customer" | "store" | "system" | "payment";
+
+export type OrderActor = { type: OrderActorType; id?: string | null };
+
+export type OrderEventInput = {
+  org_id: string;
+  order_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: OrderActor;
+  source: string;
+  reason?: string | null;
+  meta?: Record<string, any> | null;
+};
+
+/** Appends to order_events. Never throws – the status change already happened. */
+export async function recordOrderEvent(ev: OrderEventInput): Promise<void> {
+  try {
+    const { error } = await supa.from("order_events").insert({
+      org_id: ev.org_id,
+      order_id: ev.order_id,
+      from_status: ev.from_status,
+      to_status: ev.to_status,
+      actor_type: ev.actor.type,
+      actor_id: ev.actor.id ?? null,
+      source: ev.source,
+      reason: ev.reason ?? null,
+      meta: ev.meta ?? null,
+      created_at: new Date().toISOString(),
+    });
+    if (error) console.warn("[ORDER_EVENT][INSERT_ERR]", error.message);
+  } catch (e: any) {
+    console.warn("[ORDER_EVENT][INSERT_ERR]", e?.message || e);
+  }
+}
+
+export type OrderTransition = {
+  org_id: string;
+  order_id: string;
+  from: string | null;
+  to: OrderStatus;
+  created: boolean; // new order (from is null)
+  actor: OrderActor;
+  source: string;
+  reason: string | null;
+  order: any;
+};
+
+// Side effects of a status change (kitchen display…); run after the write,
+// never block or fail it
+type OrderTransitionListener = (t: OrderTransition) => void | Promise<void>;
+const transitionListeners: OrderTransitionListener[] = [];
+
+export function onOrderTransition(listener: OrderTransitionListener) {
+  transitionListeners.push(listener);
+}
+
+function notifyTransition(t: OrderTransition) {
+  for (const listener of transitionListeners) {
+    Promise.resolve()
+      .then(() => listener(t))
+      .catch((e) => console.warn("[ORDER_EVENT][LISTENER_ERR]", e?.message || e));
+  }
+}
+
+export type TransitionError = "invalid_status" | "order_not_found" | "illegal_transition" | "status_conflict";
+
+export type TransitionResult =
+  | { ok: true; from: string | null; to: OrderStatus; changed: boolean; order: any }
+  | { ok: false; error: TransitionError; from?: string | null; to?: string; allowed?: OrderStatus[] };
+
+/**
+ * Moves an order to `to` if the lifecycle allows it, together with any other
+ * columns in `patch`, and records who did it. Moving to the status it already
+ * has is a no-op (changed: false) so retried webhooks / double taps are safe.
+ * The update only applies if the status is still the one we checked;
+ * `from` narrows which current statuses the caller accepts at all, and
+ * `where` adds other columns that must still hold (e.g. a proof still
+ * pending review) – status_conflict otherwise.
+ */
+export async function transitionOrderStatus(opts: {
+  org_id: string;
+  order_id: string;
+  to: string;
+  actor: OrderActor;
+  source: string;
+  reason?: string | null;
+  patch?: Record<string, any>;
+  meta?: Record<string, any> | null;
+  select?: string;
+  from?: string[];
+  where?: Record<string, any>;
+}): Promise<TransitionResult> {
+  const to = normalizeOrderStatus(opts.to);
+  if (!to) return { ok: false, error: "invalid_status", to: opts.to };
+
+  const { data: cur, error: loadErr } = await supa
+    .from("orders")
+    .select("id, status")
+    .eq("id", opts.order_id)
+    .eq("org_id", opts.org_id)
+    .maybeSingle();
+
+  if (loadErr) throw loadErr;
+  if (!cur) return { ok: false, error: "order_not_found", to };
+
+  const from: string | null = cur.status ?? null;
+  const select = opts.select || "*";
+
+  if (opts.from && !opts.from.includes(String(from))) {
+    return { ok: false, error: "status_conflict", from, to };
+  }
+
+  const guarded = (q: any) => {
+    for (const [col, val] of Object.entries(opts.where || {})) {
+      q = val == null ? q.is(col, null) : q.eq(col, val);
+    }
+    return q;
+  };
+
+  if (normalizeOrderStatus(from) === to) {
+    const hasPatch = !!opts.patch && Object.keys(opts.patch).length > 0;
+    const { data, error } = hasPatch
+      ? await guarded(supa.from("orders").update(opts.patch).eq("id", cur.id).eq("org_id", opts.org_id))
+          .select(select)
+          .maybeSingle()
+      : await guarded(supa.from("orders").select(select).eq("id", cur.id).eq("org_id", opts.org_id)).maybeSingle();
+    if (error) throw error;
+    if (!data) return { ok: false, error: "status_conflict", from, to };
+    return { ok: true, from, to, changed: false, order: data };
+  }
+
+  if (!canTransition(from, to)) {
+    return { ok: false, error: "illegal_transition", from, to, allowed: allowedNextStatuses(from) };
+  }
+
+  let q = supa
+    .from("orders")
+    .update({ ...(opts.patch || {}), status: to })
+    .eq("id", cur.id)
+    .eq("org_id", opts.org_id);
+  q = from == null ? q.is("status", null) : q.eq("status", from);
+  q = guarded(q);
+
+  const { data: updated, error: updErr } = await q.select(select).maybeSingle();
+  if (updErr) throw updErr;
+  if (!updated) return { ok: false, error: "status_conflict", from, to };
+
+  await recordOrderEvent({
+    org_id: opts.org_id,
+    order_id: cur.id,
+    from_status: from,
+    to_status: to,
+    actor: opts.actor,
+    source: opts.source,
+    reason: opts.reason,
+    meta: opts.meta,
+  });
+
+  notifyTransition({
+    org_id: opts.org_id,
+    order_id: cur.id,
+    from,
+    to,
+    created: false,
+    actor: opts.actor,
+    source: opts.source,
+    reason: opts.reason ?? null,
+    order: updated,
+  });
+
+  return { ok: true, from, to, changed: true, order: updated };
+}
+
+/**
+ * First row of an order's timeline. Listeners see it as a transition with
+ * `created: true`; pass the inserted row as `order` when you have it.
+ */
+export async function recordOrderCreated(opts: {
+  org_id: string;
+  order_id: string;
+  status: string;
+  actor: OrderActor;
+  source: string;
+  reason?: string | null;
+  meta?: Record<string, any> | null;
+  order?: any;
+}): Promise<void> {
+  await recordOrderEvent({
+    org_id: opts.org_id,
+    order_id: opts.order_id,
+    from_status: null,
+    to_status: opts.status,
+    actor: opts.actor,
+    source: opts.source,
+    reason: opts.reason,
+    meta: opts.meta,
+  });
+
+  const to = normalizeOrderStatus(opts.status);
+  if (!to) return;
+  notifyTransition({
+    org_id: opts.org_id,
+    order_id: opts.order_id,
+    from: null,
+    to,
+    created: true,
+    actor: opts.actor,
+    source: opts.source,
+    reason: opts.reason ?? null,
+    order: opts.order ?? null,
+  });
+}
+
+/** Oldest first – creation, then each status change. */
+export async function getOrderTimeline(org_id: string, order_id: string): Promise<any[]> {
+  const { data, error } = await supa
+    .from("order_events")
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("order_id", order_id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
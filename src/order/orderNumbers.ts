@@ -0,0 +1,182 @@
+// src/order/orderNumbers.ts
+import { supa } from "../db";
+
+/**
+ * Human-friendly per-org order numbers ("KS-0142") for customer messages,
+ * the dashboard and lookups ("status of 142").
+ *
+ * orgs: order_number_prefix text ('KS'; none = just digits),
+ *       order_number_reset text ('never' | 'daily'; default 'never'),
+ *       order_number_padding int (default 4)
+ * orders: order_no int, order_number text (display), order_no_period text
+ *
+ * Numbers come from Postgres so two orders can't get the same one and none
+ * are skipped: the counter bump and the order update run in one call.
+ *
+ *   create table org_order_counters (
+ *     org_id uuid, period text, last_value int not null,
+ *     primary key (org_id, period)
+ *   );
+ *
+ *   create function assign_order_number(
+ *     p_org uuid, p_order uuid, p_period text, p_prefix text, p_pad int
+ *   ) returns table(order_no int, order_number text) language plpgsql as $$
+ *   declare n int; label text;
+ *   begin
+ *     select o.order_no, o.order_number into n, label
+ *       from orders o where o.id = p_order and o.org_id = p_org for update;
+ *     if not found then return; end if;
+ *     if n is null then
+ *       insert into org_order_counters (org_id, period, last_value)
+ *         values (p_org, p_period, 1)
+ *         on conflict (org_id, period)
+ *         do update set last_value = org_order_counters.last_value + 1
+ *         returning last_value into n;
+ *       label := case when coalesce(p_prefix, '') <> '' then p_prefix || '-' else '' end
+ *             || lpad(n::text, greatest(p_pad, length(n::text)), '0');
+ *       update orders set order_no = n, order_number = label, order_no_period = p_period
+ *         where id = p_order;
+ *     end if;
+ *     return query select n, label;
+ *   end $$;
+ *
+ * Period is 'all' without a reset, else the org-local date ('2026-10-19').
+ */
+
+export type OrderNumberSettings = {
+  prefix: string;
+  reset: "never" | "daily";
+  padding: number;
+  timezone: string;
+};
+
+export function orderNumberSettings(org: any): OrderNumberSettings {
+  const pad = Number(org?.order_number_padding);
+  return {
+    prefix: String(org?.order_number_prefix || "").trim().toUpperCase(),
+    reset: org?.order_number_reset === "daily" ? "daily" : "never",
+    padding: Number.isInteger(pad) && pad >= 1 && pad <= 8 ? pad : 4,
+    timezone: org?.store_timezone || "Asia/Kolkata",
+  };
+}
+
+export function orderNumberPeriod(s: OrderNumberSettings, at = new Date()): string {
+  if (s.reset !== "daily") return "all";
+  // en-CA → YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone: s.timezone }).format(at);
+}
+
+export function formatOrderNumber(prefix: string, n: number, padding = 4): string {
+  const digits = String(n).padStart(padding, "0");
+  return prefix ? `${prefix}-${digits}` : digits;
+}
+
+/**
+ * Gives the order its number (idempotent – an order keeps the one it has).
+ * Never throws: without a number, messages fall back to the short id.
+ */
+export async function assignOrderNumber(
+  org_id: string,
+  order_id: string
+): Promise<string | null> {
+  try {
+    const { data: org } = await supa
+      .from("orgs")
+      .select("*")
+      .eq("id", org_id)
+      .maybeSingle();
+
+    const s = orderNumberSettings(org);
+    const { data, error } = await supa.rpc("assign_order_number", {
+      p_org: org_id,
+      p_order: order_id,
+      p_period: orderNumberPeriod(s),
+      p_prefix: s.prefix,
+      p_pad: s.padding,
+    });
+
+    if (error) {
+      console.warn("[ORDER_NO][ASSIGN_ERR]", { org_id, order_id, error: error.message });
+      return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row?.order_number || null;
+  } catch (e: any) {
+    console.warn("[ORDER_NO][ASSIGN_ERR]", e?.message || e);
+    return null;
+  }
+}
+
+/** "KS-0142" / "#0142" – or the short id for orders from before numbering. */
+export function orderRef(order: { id?: string | null; order_number?: string | null } | null) {
+  if (order?.order_number) return order.order_number;
+  return String(order?.id || "").slice(0, 8).toUpperCase();
+}
+
+/**
+ * Number for an order that may not have one yet (older / legacy inserts).
+ */
+export async function ensureOrderRef(
+  org_id: string,
+  order: { id: string; order_number?: string | null }
+): Promise<string> {
+  if (order.order_number) return order.order_number;
+  const assigned = await assignOrderNumber(org_id, order.id);
+  if (assigned) order.order_number = assigned;
+  return orderRef(order);
+}
+
+// ─────────────────────────────
+// Lookup by number
+// ─────────────────────────────
+
+/**
+ * An order number in free text: "status of 142", "cancel #KS-0142",
+ * "order no. 57". Bare numbers only count after status / order words so
+ * "2 biryani" is never read as order 2.
+ */
+export function parseOrderRef(text: string): string | null {
+  const t = String(text || "").trim();
+  if (!t) return null;
+
+  const prefixed = t.match(/#?\b([A-Za-z]{1,6}-\d{1,6})\b/);
+  if (prefixed) return prefixed[1].toUpperCase();
+
+  const hashed = t.match(/#\s*(\d{1,6})\b/);
+  if (hashed) return hashed[1];
+
+  const worded = t.match(
+    /\b(?:status|track|tracking|cancel|order|order\s*(?:no\.?|number|num))\s*(?:of|for|my)?\s*(?:order)?\s*(?:no\.?|number)?\s*[:#]?\s*(\d{1,6})\s*$/i
+  );
+  return worded ? worded[1] : null;
+}
+
+/**
+ * Finds an org's order by its number. With a daily reset the same number
+ * repeats, so the most recent one wins. `phone` limits it to a customer.
+ */
+export async function findOrderByNumber(
+  org_id: string,
+  ref: string,
+  opts: { phone?: string | null; select?: string } = {}
+): Promise<any | null> {
+  const raw = String(ref || "").trim().replace(/^#/, "").toUpperCase();
+  const m = raw.match(/^(?:([A-Z]{1,6})-)?0*(\d{1,6})$/);
+  if (!m) return null;
+
+  let q = supa
+    .from("orders")
+    .select(opts.select || "*")
+    .eq("org_id", org_id)
+    .eq("order_no", Number(m[2]));
+  if (m[1]) q = q.eq("order_number", raw);
+  if (opts.phone) q = q.eq("source_phone", opts.phone);
+
+  const { data, error } = await q.order("created_at", { ascending: false }).limit(1).maybeSingle();
+  if (error) {
+    console.warn("[ORDER_NO][LOOKUP_ERR]", error.message);
+    return null;
+  }
+  return data || null;
+}
@@ -0,0 +1,250 @@
+// src/order/printQueue.ts
+import crypto from "crypto";
+import { supa } from "../db";
+import { onNewOrder } from "../routes/realtimeOrders";
+import { normalizeOrderStatus } from "./orderLifecycle";
+import {
+  PaperWidth,
+  TicketKind,
+  normalizePaperWidth,
+  renderReceiptHtml,
+  renderTicketEscPos,
+  renderTicketText,
+  ticketFromOrder,
+} from "./kitchenTicket";
+
+/**
+ * Print jobs for the local print agent – a small program next to the
+ * thermal printer that polls GET /api/print/jobs/next and reports back.
+ * Accepted orders queue a kitchen ticket on their own (emitNewOrder →
+ * onNewOrder); staff can queue reprints / receipts.
+ *
+ * Table `print_jobs`:
+ *   id          uuid primary key
+ *   org_id      uuid
+ *   order_id    uuid
+ *   kind        text   -- 'kitchen' | 'receipt'
+ *   dedupe_key  text   -- 'kitchen:<order_id>' for the automatic ticket
+ *   status      text   -- 'queued' | 'printing' | 'printed' | 'failed'
+ *   attempts    int
+ *   claimed_by  text   -- agent name from the poll
+ *   claimed_at / printed_at / created_at timestamptz
+ *   last_error  text
+ *   unique (org_id, dedupe_key)
+ *
+ * orgs columns:
+ *   print_agent_key        text  (agent auth; set via POST /api/print/agent-key)
+ *   kitchen_print_enabled  bool  (null → on once the org has an agent key)
+ *   print_paper_width      int   58 | 80 (default 80)
+ *
+ * Content is rendered when the agent claims the job, so a reprint shows
+ * the order as it is now.
+ */
+
+const TABLE = "print_jobs";
+
+const MAX_ATTEMPTS = 3;
+// a claimed job the agent never reported on goes back to the queue
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type PrintJob = {
+  id: string;
+  org_id: string;
+  order_id: string;
+  kind: TicketKind;
+  dedupe_key: string;
+  status: "queued" | "printing" | "printed" | "failed";
+  attempts: number;
+  claimed_by: string | null;
+  claimed_at: string | null;
+  printed_at: string | null;
+  last_error: string | null;
+  created_at: string;
+};
+
+export function newPrintAgentKey(): string {
+  return `pa_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export async function enqueuePrintJob(opts: {
+  org_id: string;
+  order_id: string;
+  kind: TicketKind;
+  dedupe_key?: string; // omit for a fresh job every time (reprint)
+}): Promise<PrintJob | null> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .upsert(
+      {
+        org_id: opts.org_id,
+        order_id: opts.order_id,
+        kind: opts.kind,
+        dedupe_key: opts.dedupe_key || `${opts.kind}:${opts.order_id}:${crypto.randomUUID()}`,
+        status: "queued",
+        attempts: 0,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: "org_id,dedupe_key", ignoreDuplicates: true }
+    )
+    .select("*");
+
+  if (error) {
+    console.warn("[PRINT][ENQUEUE_ERR]", { order_id: opts.order_id, error: error.message });
+    return null;
+  }
+  return ((Array.isArray(data) ? data[0] : data) as PrintJob) || null;
+}
+
+/** onNewOrder listener: an order that just got accepted → one kitchen ticket. */
+export async function queueKitchenTicketOnAccept(org_id: string, payload: any): Promise<void> {
+  const order_id = payload?.id || payload?.order_id;
+  if (!order_id || normalizeOrderStatus(payload?.status) !== "accepted") return;
+
+  const { data: org } = await supa
+    .from("orgs")
+    .select("id, print_agent_key, kitchen_print_enabled")
+    .eq("id", org_id)
+    .maybeSingle();
+
+  const enabled =
+    typeof org?.kitchen_print_enabled === "boolean" ? org.kitchen_print_enabled : !!org?.print_agent_key;
+  if (!enabled) return;
+
+  const job = await enqueuePrintJob({
+    org_id,
+    order_id,
+    kind: "kitchen",
+    dedupe_key: `kitchen:${order_id}`,
+  });
+  if (job) console.log("[PRINT][QUEUED]", { org_id, order_id, job_id: job.id });
+}
+
+export function startKitchenPrinting() {
+  onNewOrder((org_id, payload) => queueKitchenTicketOnAccept(org_id, payload));
+}
+
+/**
+ * Hands the oldest queued job to an agent. The status check in the update
+ * keeps two agents from printing the same ticket.
+ */
+export async function claimNextPrintJob(org_id: string, agent: string): Promise<PrintJob | null> {
+  const now = new Date();
+
+  // agent died mid-print → try again, unless it already had all its tries
+  const staleBefore = new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString();
+  await supa
+    .from(TABLE)
+    .update({ status: "failed", last_error: "claim_timeout", claimed_by: null, claimed_at: null })
+    .eq("org_id", org_id)
+    .eq("status", "printing")
+    .gte("attempts", MAX_ATTEMPTS)
+    .lt("claimed_at", staleBefore);
+  await supa
+    .from(TABLE)
+    .update({ status: "queued", claimed_by: null, claimed_at: null })
+    .eq("org_id", org_id)
+    .eq("status", "printing")
+    .lt("attempts", MAX_ATTEMPTS)
+    .lt("claimed_at", staleBefore);
+
+  const { data: queued, error } = await supa
+    .from(TABLE)
+    .select("id, attempts")
+    .eq("org_id", org_id)
+    .eq("status", "queued")
+    .order("created_at", { ascending: true })
+    .limit(5);
+
+  if (error) throw error;
+
+  for (const cand of (queued || []) as Pick<PrintJob, "id" | "attempts">[]) {
+    if (Number(cand.attempts || 0) >= MAX_ATTEMPTS) {
+      await supa
+        .from(TABLE)
+        .update({ status: "failed", last_error: "max_attempts" })
+        .eq("id", cand.id)
+        .eq("status", "queued");
+      continue;
+    }
+
+    const { data: claimed } = await supa
+      .from(TABLE)
+      .update({
+        status: "printing",
+        claimed_by: agent || null,
+        claimed_at: now.toISOString(),
+        attempts: Number(cand.attempts || 0) + 1,
+      })
+      .eq("id", cand.id)
+      .eq("status", "queued")
+      .select("*")
+      .maybeSingle();
+    if (claimed) return claimed as PrintJob;
+  }
+  return null;
+}
+
+/**
+ * Agent's report. A failed print is retried until MAX_ATTEMPTS. Only a job
+ * that is still out for printing takes a report – a late one for a job that
+ * timed out and went back to the queue (or finished) gets job_not_printing.
+ */
+export async function completePrintJob(
+  org_id: string,
+  job_id: string,
+  result: { ok: boolean; error?: string | null }
+): Promise<PrintJob | { error: "job_not_found" | "job_not_printing"; status?: string }> {
+  const { data: job } = await supa
+    .from(TABLE)
+    .select("*")
+    .eq("org_id", org_id)
+    .eq("id", job_id)
+    .maybeSingle();
+  if (!job) return { error: "job_not_found" };
+  if (job.status !== "printing") return { error: "job_not_printing", status: job.status };
+
+  const patch: any = result.ok
+    ? { status: "printed", printed_at: new Date().toISOString(), last_error: null }
+    : {
+        status: Number(job.attempts || 0) >= MAX_ATTEMPTS ? "failed" : "queued",
+        last_error: String(result.error || "print_failed").slice(0, 500),
+        claimed_by: null,
+        claimed_at: null,
+      };
+
+  const { data, error } = await supa
+    .from(TABLE)
+    .update(patch)
+    .eq("org_id", org_id)
+    .eq("id", job_id)
+    .eq("status", "printing")
+    .eq("attempts", job.attempts)
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+  // requeued / reclaimed between the read and the update
+  if (!data) return { error: "job_not_printing" };
+  return data as PrintJob;
+}
+
+export type PrintFormat = "escpos" | "text" | "html";
+
+/** Ticket / receipt for an order in the format the agent asked for. */
+export function renderOrderDocument(
+  org: any,
+  order: any,
+  kind: TicketKind,
+  format: PrintFormat,
+  width?: PaperWidth | null
+): { contentType: string; body: Buffer | string } {
+  const paper = width || normalizePaperWidth(org?.print_paper_width) || 80;
+  const ticket = ticketFromOrder(org, order);
+
+  if (format === "escpos") {
+    return { contentType: "application/octet-stream", body: renderTicketEscPos(ticket, kind, paper) };
+  }
+  if (format === "text") {
+    return { contentType: "text/plain; charset=utf-8", body: renderTicketText(ticket, kind, paper) };
+  }
+  return { contentType: "text/html; charset=utf-8", body: renderReceiptHtml(ticket, kind, paper) };
+}
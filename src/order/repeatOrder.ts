@@ -1,5 +1,7 @@
 // src/order/repeatOrder.ts
 import { supa } from "../db";
+import { assignOrderNumber } from "./orderNumbers";
+import { recordOrderCreated } from "./orderLifecycle";
 
 /**
  * Result of "repeat last order" helper.
@@ -117,6 +119,24 @@ export async function repeatLastOrderForCustomer(opts: {
       };
     }
 
+    const orderNumber = await assignOrderNumber(org_id, created.id);
+    await recordOrderCreated({
+      org_id,
+      order_id: created.id,
+      status: "pending",
+      actor: { type: "customer", id: last.source_phone },
+      source: "chat",
+      reason: "repeat_last_order",
+      meta: { repeat_from: last.id },
+      order: {
+        ...created,
+        org_id,
+        source_phone: last.source_phone,
+        status: "pending",
+        order_number: orderNumber,
+      },
+    });
+
     // 3) Learning writes: treat repeated items as another positive signal
     try {
       for (const it of items) {
@@ -0,0 +1,389 @@
+// src/order/statusNotifications.ts
+import { supa } from "../db";
+import { getToneFromOrg, Tone } from "../ai/tone";
+import { sendWabaTemplate } from "../routes/waba";
+import { findCustomerChannel } from "../routes/channels/identity";
+import { sendToCustomer } from "../routes/channels";
+import { normalizeOrderStatus, orderStatusLabel, OrderStatus } from "./orderLifecycle";
+import { ensureOrderRef } from "./orderNumbers";
+
+/**
+ * Tells the customer when staff move their order along ("accepted",
+ * "out for delivery", "delivered"…) so they don't have to ask "status".
+ *
+ * orgs.status_notifications jsonb – per status, all optional:
+ *   { "accepted": { "enabled": true, "templates": { "en": "…", "ta": "…" } }, … }
+ *   Templates may use {order_number} {store_name} {customer_name}
+ *   {order_total} {reason}. Missing ones use the built-in copy below,
+ *   worded for the org's tone (ai/tone).
+ * orgs.notification_language text – used when the customer's language is unknown
+ * org_customer_settings.preferred_lang text – language the customer last wrote in
+ *
+ * Each status goes out at most once per order, so clicking a status twice
+ * (or back and forth) doesn't spam:
+ *
+ *   create table order_status_notifications (
+ *     id uuid primary key default gen_random_uuid(),
+ *     org_id uuid, order_id uuid, status text,
+ *     via text, error text, sent_at timestamptz,
+ *     created_at timestamptz default now(),
+ *     unique (order_id, status)
+ *   );
+ *
+ * Outside Meta's 24h window the 'order_status' WABA template is used.
+ */
+
+export const NOTIFIABLE_STATUSES: OrderStatus[] = [
+  "accepted",
+  "preparing",
+  "ready",
+  "out_for_delivery",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "rejected",
+];
+
+// "preparing" follows "accepted" within minutes – opt-in only
+const DEFAULT_DISABLED: OrderStatus[] = ["preparing"];
+
+const TABLE = "order_status_notifications";
+
+const DEFAULT_COPY: Record<string, Record<Tone, string>> = {
+  accepted: {
+    casual: "🟢 Yay! {store_name} has accepted your order *#{order_number}*. We're on it!",
+    neutral: "🟢 Your order *#{order_number}* has been accepted by {store_name}.",
+    formal: "🟢 Your order *#{order_number}* has been accepted. Thank you for choosing {store_name}.",
+  },
+  preparing: {
+    casual: "👨‍🍳 Your order *#{order_number}* is being prepared right now!",
+    neutral: "👨‍🍳 Your order *#{order_number}* is being prepared.",
+    formal: "👨‍🍳 Your order *#{order_number}* is now being prepared.",
+  },
+  ready: {
+    casual: "📦 Your order *#{order_number}* is ready! Come grab it 🙌",
+    neutral: "📦 Your order *#{order_number}* is ready for pickup.",
+    formal: "📦 Your order *#{order_number}* is ready for collection.",
+  },
+  out_for_delivery: {
+    casual: "🚗 Your order *#{order_number}* is on its way! 🛵",
+    neutral: "🚗 Your order *#{order_number}* is out for delivery.",
+    formal: "🚗 Your order *#{order_number}* has been dispatched and is out for delivery.",
+  },
+  shipped: {
+    casual: "🚚 Your order *#{order_number}* has been shipped! 🎉",
+    neutral: "🚚 Your order *#{order_number}* has been shipped.",
+    formal: "🚚 Your order *#{order_number}* has been shipped.",
+  },
+  delivered: {
+    casual: "✅ Order *#{order_number}* delivered. Enjoy! 😋",
+    neutral: "✅ Your order *#{order_number}* has been delivered. Thank you!",
+    formal: "✅ Your order *#{order_number}* has been delivered. Thank you for ordering from {store_name}.",
+  },
+  cancelled: {
+    casual: "❌ Sorry, your order *#{order_number}* has been cancelled.{reason}",
+    neutral: "❌ Your order *#{order_number}* has been cancelled.{reason}",
+    formal: "❌ We regret to inform you that your order *#{order_number}* has been cancelled.{reason}",
+  },
+  rejected: {
+    casual: "❌ Sorry, {store_name} couldn't take your order *#{order_number}* this time.{reason}",
+    neutral: "❌ Sorry, {store_name} couldn't accept your order *#{order_number}*.{reason}",
+    formal: "❌ We regret that {store_name} is unable to accept your order *#{order_number}*.{reason}",
+  },
+};
+
+// Other languages: one register is enough
+const LOCALISED_COPY: Record<string, Record<string, string>> = {
+  hi: {
+    accepted: "🟢 आपका ऑर्डर *#{order_number}* {store_name} ने स्वीकार कर लिया है।",
+    preparing: "👨‍🍳 आपका ऑर्डर *#{order_number}* तैयार किया जा रहा है।",
+    ready: "📦 आपका ऑर्डर *#{order_number}* पिकअप के लिए तैयार है।",
+    out_for_delivery: "🚗 आपका ऑर्डर *#{order_number}* डिलीवरी के लिए निकल चुका है।",
+    shipped: "🚚 आपका ऑर्डर *#{order_number}* भेज दिया गया है।",
+    delivered: "✅ आपका ऑर्डर *#{order_number}* डिलीवर हो गया है। धन्यवाद!",
+    cancelled: "❌ आपका ऑर्डर *#{order_number}* रद्द कर दिया गया है।{reason}",
+    rejected: "❌ माफ़ कीजिए, {store_name} आपका ऑर्डर *#{order_number}* स्वीकार नहीं कर सका।{reason}",
+  },
+  ta: {
+    accepted: "🟢 உங்கள் ஆர்டர் *#{order_number}* {store_name} ஏற்றுக்கொண்டது.",
+    preparing: "👨‍🍳 உங்கள் ஆர்டர் *#{order_number}* தயாராகிக்கொண்டிருக்கிறது.",
+    ready: "📦 உங்கள் ஆர்டர் *#{order_number}* பிக்கப்புக்கு தயார்.",
+    out_for_delivery: "🚗 உங்கள் ஆர்டர் *#{order_number}* டெலிவரிக்கு புறப்பட்டுவிட்டது.",
+    shipped: "🚚 உங்கள் ஆர்டர் *#{order_number}* அனுப்பப்பட்டது.",
+    delivered: "✅ உங்கள் ஆர்டர் *#{order_number}* டெலிவரி செய்யப்பட்டது. நன்றி!",
+    cancelled: "❌ உங்கள் ஆர்டர் *#{order_number}* ரத்து செய்யப்பட்டது.{reason}",
+    rejected: "❌ மன்னிக்கவும், {store_name} உங்கள் ஆர்டர் *#{order_number}* ஏற்க முடியவில்லை.{reason}",
+  },
+};
+
+const REASON_LABEL: Record<string, string> = {
+  en: "Reason",
+  hi: "कारण",
+  ta: "காரணம்",
+};
+
+export type StatusNotificationSetting = {
+  enabled: boolean;
+  templates: Record<string, string>;
+};
+
+/** Effective per-status settings (org overrides on top of the defaults). */
+export function statusNotificationSettings(org: any): Record<string, StatusNotificationSetting> {
+  const raw = org?.status_notifications && typeof org.status_notifications === "object"
+    ? org.status_notifications
+    : {};
+
+  const out: Record<string, StatusNotificationSetting> = {};
+  for (const status of NOTIFIABLE_STATUSES) {
+    const cfg = raw[status] || {};
+    const templates: Record<string, string> = {};
+    if (cfg.templates && typeof cfg.templates === "object") {
+      for (const [lang, text] of Object.entries(cfg.templates)) {
+        const t = String(text ?? "").trim();
+        if (t) templates[normalizeLang(lang)] = t;
+      }
+    }
+    out[status] = {
+      enabled: typeof cfg.enabled === "boolean" ? cfg.enabled : !DEFAULT_DISABLED.includes(status),
+      templates,
+    };
+  }
+  return out;
+}
+
+// "ta-IN" / "TA" → "ta"
+export function normalizeLang(lang?: string | null): string {
+  return String(lang || "").trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Message text for a status: org copy in the customer's language, built-in
+ * copy in that language, then English (org copy, else built-in for the tone).
+ */
+export function buildStatusNotificationText(opts: {
+  status: string;
+  setting?: StatusNotificationSetting | null;
+  tone: Tone;
+  lang?: string | null;
+  vars: Record<string, any>;
+}): string | null {
+  const lang = normalizeLang(opts.lang) || "en";
+  const custom = opts.setting?.templates || {};
+
+  const candidates: Array<[string, string | undefined]> = [
+    [lang, custom[lang]],
+    [lang, LOCALISED_COPY[lang]?.[opts.status]],
+    ["en", custom.en],
+    ["en", DEFAULT_COPY[opts.status]?.[opts.tone]],
+  ];
+  const picked = candidates.find(([, t]) => !!t);
+  if (!picked) return null;
+
+  const [usedLang, template] = picked;
+  const reason = String(opts.vars.reason ?? "").trim();
+  const vars: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(opts.vars).map(([k, v]) => [k, v == null ? "" : String(v)])),
+    reason: reason ? `\n${REASON_LABEL[usedLang] || REASON_LABEL.en}: ${reason}` : "",
+  };
+
+  return String(template)
+    .replace(/\{(\w+)\}/g, (m, key) => (key in vars ? vars[key] : m))
+    .trim();
+}
+
+// ─────────────────────────────
+// Customer language
+// ─────────────────────────────
+
+/**
+ * Remembers what language the customer writes in (from detectAndTranslate).
+ * Only messages with actual words count – "1" or "ok" say nothing about it.
+ */
+export async function rememberCustomerLanguage(
+  org_id: string,
+  phone: string,
+  lang: string | null | undefined,
+  text: string
+): Promise<void> {
+  const code = normalizeLang(lang);
+  const customer_phone = String(phone || "").replace(/[^\d]/g, "");
+  if (!code || !customer_phone || !/\p{L}{3,}/u.test(String(text || ""))) return;
+
+  try {
+    const { error } = await supa.from("org_customer_settings").upsert(
+      { org_id, customer_phone, preferred_lang: code },
+      { onConflict: "org_id,customer_phone" }
+    );
+    if (error) console.warn("[STATUS_NOTIFY][LANG_SAVE_ERR]", error.message);
+  } catch (e: any) {
+    console.warn("[STATUS_NOTIFY][LANG_SAVE_ERR]", e?.message || e);
+  }
+}
+
+async function customerLanguage(org_id: string, phone: string): Promise<string | null> {
+  const { data } = await supa
+    .from("org_customer_settings")
+    .select("preferred_lang")
+    .eq("org_id", org_id)
+    .eq("customer_phone", String(phone || "").replace(/[^\d]/g, ""))
+    .maybeSingle();
+  return data?.preferred_lang || null;
+}
+
+// ─────────────────────────────
+// Send
+// ─────────────────────────────
+
+export type StatusNotifyResult = {
+  sent: boolean;
+  via?: string | null;
+  skipped?: string;
+};
+
+/**
+ * Sends the status update for an order that just moved to `status`.
+ * Never throws – the status change stands either way.
+ */
+export async function notifyOrderStatusChange(opts: {
+  org_id: string;
+  order_id: string;
+  status: string;
+  reason?: string | null;
+}): Promise<StatusNotifyResult> {
+  const skip = (reason: string): StatusNotifyResult => {
+    console.log("[STATUS_NOTIFY][SKIP]", { order_id: opts.order_id, status: opts.status, reason });
+    return { sent: false, skipped: reason };
+  };
+
+  let claimId: string | undefined;
+  let sent = false;
+
+  try {
+    const status = normalizeOrderStatus(opts.status);
+    if (!status || !NOTIFIABLE_STATUSES.includes(status)) return skip("not_notifiable");
+
+    const { data: org } = await supa.from("orgs").select("*").eq("id", opts.org_id).maybeSingle();
+    if (!org) return skip("org_not_found");
+    if (org.is_disabled) return skip("org_disabled");
+
+    const setting = statusNotificationSettings(org)[status];
+    if (!setting.enabled) return skip("disabled");
+
+    const { data: order } = await supa
+      .from("orders")
+      .select("id, order_number, source_phone, customer_name, total_amount, delivery_fee, discount_amount")
+      .eq("id", opts.order_id)
+      .eq("org_id", opts.org_id)
+      .maybeSingle();
+    if (!order) return skip("order_not_found");
+
+    const phone = String(order.source_phone || "").replace(/[^\d]/g, "");
+    if (!phone) return skip("no_phone");
+
+    // claim (order, status) first – a second click finds it taken
+    const { data: claimed, error: claimErr } = await supa
+      .from(TABLE)
+      .upsert(
+        {
+          org_id: opts.org_id,
+          order_id: order.id,
+          status,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "order_id,status", ignoreDuplicates: true }
+      )
+      .select("id");
+    if (claimErr) {
+      console.warn("[STATUS_NOTIFY][CLAIM_ERR]", claimErr.message);
+      return skip("claim_failed");
+    }
+    claimId = Array.isArray(claimed) ? claimed[0]?.id : (claimed as any)?.id;
+    if (!claimId) return skip("already_sent");
+
+    const lang = (await customerLanguage(opts.org_id, phone)) || org.notification_language || "en";
+    const orderNumber = await ensureOrderRef(opts.org_id, order);
+    const total =
+      Number(order.total_amount || 0) + Number(order.delivery_fee || 0) - Number(order.discount_amount || 0);
+
+    const vars = {
+      order_number: orderNumber,
+      store_name: org.name || "",
+      customer_name: order.customer_name || "",
+      order_total: total > 0 ? `₹${Math.round(total)}` : "",
+      reason: opts.reason || "",
+    };
+
+    const text = buildStatusNotificationText({
+      status,
+      setting,
+      tone: getToneFromOrg(org),
+      lang,
+      vars,
+    });
+    if (!text) return skip("no_template");
+
+    const target = await findCustomerChannel(opts.org_id, phone);
+
+    let via: string | null = null;
+    let error: string | undefined;
+
+    if (target.channel === "waba") {
+      if (!org.wa_phone_number_id) {
+        error = "org_missing_wa_phone_number_id";
+      } else {
+        // free text inside Meta's 24h session, the 'order_status' template outside it
+        const out = await sendWabaTemplate({
+          phoneNumberId: org.wa_phone_number_id,
+          to: phone,
+          orgId: opts.org_id,
+          purpose: "order_status",
+          text,
+          language: lang,
+          vars: {
+            customer_name: vars.customer_name,
+            store_name: vars.store_name,
+            order_id: orderNumber,
+            order_status: orderStatusLabel(status),
+            order_total: vars.order_total,
+            message: text,
+          },
+        });
+        sent = out.sent;
+        via = out.via;
+        error = out.reason;
+      }
+    } else {
+      const out = await sendToCustomer({
+        orgId: opts.org_id,
+        customerKey: phone,
+        message: { text, senderType: "system" },
+      });
+      sent = out.ok;
+      via = out.channel || target.channel;
+      error = out.error;
+    }
+
+    if (!sent) return skip(error || "send_failed");
+
+    await supa
+      .from(TABLE)
+      .update({ via, sent_at: new Date().toISOString(), error: null })
+      .eq("id", claimId);
+
+    console.log("[STATUS_NOTIFY][SENT]", { order_id: order.id, status, via, lang });
+    return { sent: true, via };
+  } catch (e: any) {
+    console.warn("[STATUS_NOTIFY][ERR]", e?.message || e);
+    return { sent: false, skipped: "error" };
+  } finally {
+    // nothing went out (send failed or threw) → free the claim so the next
+    // click can try again
+    if (claimId && !sent) {
+      try {
+        await supa.from(TABLE).delete().eq("id", claimId);
+      } catch (e: any) {
+        console.warn("[STATUS_NOTIFY][RELEASE_ERR]", e?.message || e);
+      }
+    }
+  }
+}
@@ -2,6 +2,8 @@
 import axios from "axios";
 import crypto from "crypto";
 import { supa } from "../db";
+import { isIngestReplay } from "../ai/ingest/ingestTrace";
+import { ensureOrderRef } from "../order/orderNumbers";
 
 type OrgRzp = {
   razorpay_key_id: string | null;
@@ -55,6 +57,11 @@ export async function createRazorpayPaymentLink(opts: {
   customer_name?: string;
   customer_email?: string;
 }): Promise<{ id: string; short_url: string }> {
+  // admin replay: never create real links
+  if (isIngestReplay()) {
+    return { id: "plink_replay", short_url: "https://rzp.io/replay" };
+  }
+
   const org = await getOrgRazorpay(opts.org_id);
 
   if (!org.razorpay_key_id || !org.razorpay_key_secret) {
@@ -83,10 +90,18 @@ export async function createRazorpayPaymentLink(opts: {
 
   const contact = String(opts.customer_phone || "").replace(/[^\d]/g, "");
 
+  // customers see this on the payment page – use the order number, not the UUID
+  const { data: ord } = await supa
+    .from("orders")
+    .select("id, order_number")
+    .eq("id", opts.order_id)
+    .maybeSingle();
+  const orderLabel = ord ? await ensureOrderRef(opts.org_id, ord as any) : opts.order_id;
+
   const payload: any = {
     amount: amount_paise,
     currency: "INR",
-    description: `KartoOrder payment for order #${opts.order_id}`,
+    description: `KartoOrder payment for order #${orderLabel}`,
     reference_id,
     customer: {
       contact,
@@ -0,0 +1,299 @@
+// src/realtime/orgEvents.ts
+import crypto from "crypto";
+import { supa } from "../db";
+import { isIngestReplay } from "../ai/ingest/ingestTrace";
+import { OrderTransition, onOrderTransition } from "../order/orderLifecycle";
+import { PubSub, getPubSub } from "./pubsub";
+
+/**
+ * Org event stream behind /api/realtime/orders (SSE).
+ *
+ * Every event gets an increasing id from `realtime_events` and is kept for
+ * REPLAY_WINDOW_MS, so a dashboard that reconnects with Last-Event-ID gets
+ * what it missed. Events are fanned out over the pub/sub bus, so a client
+ * connected to any instance sees events published on all of them.
+ *
+ *   create table realtime_events (
+ *     id bigserial primary key,
+ *     org_id uuid not null,
+ *     type text not null,
+ *     payload jsonb,
+ *     created_at timestamptz not null default now()
+ *   );
+ *   create index on realtime_events (org_id, id);
+ */
+
+// ─────────────────────────────
+// Catalogue
+// ─────────────────────────────
+
+export const ORG_EVENT_TYPES = [
+  "new_order", // dashboard list upsert (kept for existing clients)
+  "order_created",
+  "order_updated",
+  "order_paid",
+  "order_cancelled",
+  "order_cancel_requested",
+  "message_received",
+  "manual_mode_changed",
+  "kds_ticket",
+  "kds_item",
+] as const;
+
+export type OrgEventType = (typeof ORG_EVENT_TYPES)[number];
+
+export interface OrgEventPayloads {
+  new_order: Record<string, any>;
+  order_created: {
+    order_id: string;
+    order_number: string | null;
+    status: string;
+    source: string;
+    order: Record<string, any> | null;
+  };
+  /** Any status change (cancel / paid included). */
+  order_updated: {
+    order_id: string;
+    order_number: string | null;
+    from: string | null;
+    to: string;
+    source: string;
+    order: Record<string, any> | null;
+  };
+  /** Razorpay capture, approved payment proof, or COD settled (status → paid). */
+  order_paid: {
+    order_id: string;
+    order_number: string | null;
+    method: "razorpay" | "payment_proof" | "cod" | string;
+    amount: number | null;
+  };
+  order_cancelled: {
+    order_id: string;
+    order_number: string | null;
+    from: string | null;
+    status: "cancelled" | "rejected";
+    by: string;
+    reason: string | null;
+  };
+  /** Customer asked to cancel an order only the store can cancel (e.g. already paid). */
+  order_cancel_requested: {
+    order_id: string;
+    order_number: string | null;
+    status: string;
+    payment_status: string | null;
+    customer_phone: string;
+  };
+  message_received: {
+    conversation_id: string;
+    customer_phone: string;
+    channel: string;
+    message_id: string | null;
+    preview: string;
+    media_type: string | null;
+  };
+  manual_mode_changed: {
+    customer_phone: string;
+    enabled: boolean;
+    until: string | null;
+  };
+  kds_ticket: { action: string; order_id: string; ticket: any };
+  kds_item: { action: string; item: any };
+}
+
+export type OrgEvent<T extends OrgEventType = OrgEventType> = {
+  id: number | null; // null: not persisted (db down) – delivered, but can't be resumed from
+  org_id: string;
+  type: T;
+  data: OrgEventPayloads[T];
+  created_at: string;
+};
+
+const TABLE = "realtime_events";
+const TOPIC = "org_events";
+
+export const REPLAY_WINDOW_MS = 30 * 60 * 1000;
+export const REPLAY_MAX_EVENTS = 500;
+const PRUNE_EVERY_MS = 5 * 60 * 1000;
+
+type LocalListener = (ev: OrgEvent) => void;
+
+/**
+ * One hub per process. The factory exists so tests can run two "instances"
+ * on a shared memory bus.
+ */
+export function createOrgEventHub(pubsub: () => PubSub) {
+  const instanceId = crypto.randomUUID();
+  const listeners = new Map<string, Set<LocalListener>>();
+  let started = false;
+
+  function deliverLocal(ev: OrgEvent) {
+    for (const fn of Array.from(listeners.get(ev.org_id) || [])) {
+      try {
+        fn(ev);
+      } catch (e: any) {
+        console.warn("[ORG_EVENTS][LISTENER_ERR]", e?.message || e);
+      }
+    }
+  }
+
+  /** Live events for one org on this instance (own + other instances). */
+  function subscribe(org_id: string, fn: LocalListener): () => void {
+    if (!listeners.has(org_id)) listeners.set(org_id, new Set());
+    listeners.get(org_id)!.add(fn);
+    return () => {
+      const set = listeners.get(org_id);
+      set?.delete(fn);
+      if (set && !set.size) listeners.delete(org_id);
+    };
+  }
+
+  function localCount(org_id: string) {
+    return listeners.get(org_id)?.size || 0;
+  }
+
+  async function publish<T extends OrgEventType>(
+    org_id: string,
+    type: T,
+    data: OrgEventPayloads[T]
+  ): Promise<OrgEvent<T>> {
+    const ev: OrgEvent<T> = { id: null, org_id, type, data, created_at: new Date().toISOString() };
+
+    try {
+      const { data: row, error } = await supa
+        .from(TABLE)
+        .insert({ org_id, type, payload: data ?? null, created_at: ev.created_at })
+        .select("id, created_at")
+        .single();
+      if (error) throw error;
+      ev.id = Number(row.id);
+    } catch (e: any) {
+      console.warn("[ORG_EVENTS][PERSIST_ERR]", { org_id, type, error: e?.message || e });
+    }
+
+    console.log(`[SSE][EMIT][${type}]`, { org_id, id: ev.id, clients: localCount(org_id) });
+
+    deliverLocal(ev);
+    try {
+      await pubsub().publish(TOPIC, { origin: instanceId, event: ev });
+    } catch (e: any) {
+      console.warn("[ORG_EVENTS][FANOUT_ERR]", { org_id, type, error: e?.message || e });
+    }
+    return ev;
+  }
+
+  /**
+   * Events after `lastId`, oldest first. `gap` means the client was gone
+   * longer than the replay window (or we can't tell) and should reload.
+   */
+  async function since(org_id: string, lastId: number): Promise<{ events: OrgEvent[]; gap: boolean }> {
+    const cutoff = new Date(Date.now() - REPLAY_WINDOW_MS).toISOString();
+
+    const [{ data: rows, error }, { data: anchor }] = await Promise.all([
+      supa
+        .from(TABLE)
+        .select("*")
+        .eq("org_id", org_id)
+        .gt("id", lastId)
+        .gte("created_at", cutoff)
+        .order("id", { ascending: true })
+        .limit(REPLAY_MAX_EVENTS + 1),
+      supa.from(TABLE).select("id").eq("org_id", org_id).eq("id", lastId).maybeSingle(),
+    ]);
+    if (error) throw error;
+
+    const events = (rows || []).slice(0, REPLAY_MAX_EVENTS).map(
+      (r: any): OrgEvent => ({
+        id: Number(r.id),
+        org_id: r.org_id,
+        type: r.type,
+        data: r.payload,
+        created_at: r.created_at,
+      })
+    );
+    const gap = !anchor || (rows || []).length > REPLAY_MAX_EVENTS;
+    return { events, gap };
+  }
+
+  async function prune() {
+    const cutoff = new Date(Date.now() - REPLAY_WINDOW_MS).toISOString();
+    const { error } = await supa.from(TABLE).delete().lt("created_at", cutoff);
+    if (error) console.warn("[ORG_EVENTS][PRUNE_ERR]", error.message);
+  }
+
+  /** Receive other instances' events + keep the replay table short. */
+  function start() {
+    if (started) return;
+    started = true;
+
+    pubsub().subscribe(TOPIC, (msg: any) => {
+      if (!msg?.event?.org_id || msg.origin === instanceId) return;
+      deliverLocal(msg.event as OrgEvent);
+    });
+
+    const timer = setInterval(() => void prune(), PRUNE_EVERY_MS);
+    timer.unref?.();
+  }
+
+  return { instanceId, publish, subscribe, since, start, prune };
+}
+
+export const orgEvents = createOrgEventHub(getPubSub);
+
+export function publishOrgEvent<T extends OrgEventType>(org_id: string, type: T, data: OrgEventPayloads[T]) {
+  return orgEvents.publish(org_id, type, data);
+}
+
+// ─────────────────────────────
+// Order lifecycle → typed events
+// ─────────────────────────────
+
+function publishTransition(t: OrderTransition) {
+  // sandboxed replay: same rule as emitNewOrder
+  if (isIngestReplay()) return;
+
+  const order_number = t.order?.order_number ?? null;
+
+  if (t.created) {
+    return void publishOrgEvent(t.org_id, "order_created", {
+      order_id: t.order_id,
+      order_number,
+      status: t.to,
+      source: t.source,
+      order: t.order,
+    });
+  }
+
+  void publishOrgEvent(t.org_id, "order_updated", {
+    order_id: t.order_id,
+    order_number,
+    from: t.from,
+    to: t.to,
+    source: t.source,
+    order: t.order,
+  });
+
+  if (t.to === "cancelled" || t.to === "rejected") {
+    void publishOrgEvent(t.org_id, "order_cancelled", {
+      order_id: t.order_id,
+      order_number,
+      from: t.from,
+      status: t.to,
+      by: t.actor.type,
+      reason: t.reason ?? null,
+    });
+  }
+
+  if (t.to === "paid") {
+    void publishOrgEvent(t.org_id, "order_paid", {
+      order_id: t.order_id,
+      order_number,
+      method: t.order?.payment_mode === "online" ? "razorpay" : "cod",
+      amount: t.order?.order_total ?? t.order?.total_amount ?? null,
+    });
+  }
+}
+
+export function startOrgEvents() {
+  orgEvents.start();
+  onOrderTransition(publishTransition);
+}
@@ -0,0 +1,123 @@
+// src/realtime/pubsub.ts
+import type { SupabaseClient, RealtimeChannel } from "@supabase/supabase-js";
+import { USE_MEMORY_DB, rootSupa } from "../db";
+
+/**
+ * Fan-out between backend instances. Whatever one instance publishes on a
+ * topic reaches every subscriber on every instance (the publisher's own
+ * subscribers included – callers skip their own messages if they need to).
+ *
+ *   memory   – one process only; simulator / tests (several hubs can share it)
+ *   supabase – Supabase Realtime broadcast, no extra infrastructure
+ *
+ * The supabase bus carries every org's events, so its channels are private:
+ * the service-role client gets in, browser (anon / authenticated) clients
+ * must not. Turn off "Allow public access" under Realtime settings and keep
+ * realtime.messages closed to them for our topics:
+ *
+ *   create policy "pubsub is server-only" on realtime.messages
+ *     as restrictive for all to anon, authenticated
+ *     using (realtime.topic() not like 'pubsub:%')
+ *     with check (realtime.topic() not like 'pubsub:%');
+ *
+ * REALTIME_PUBSUB=memory|supabase picks one; default is memory with
+ * DB_MODE=memory, supabase otherwise.
+ */
+
+export type PubSubHandler = (message: any) => void;
+
+export interface PubSub {
+  publish(topic: string, message: any): Promise<void>;
+  /** Returns the unsubscribe function. */
+  subscribe(topic: string, handler: PubSubHandler): () => void;
+}
+
+export function createMemoryPubSub(): PubSub {
+  const handlers = new Map<string, Set<PubSubHandler>>();
+
+  return {
+    async publish(topic, message) {
+      const set = handlers.get(topic);
+      if (!set) return;
+      // async like a real broker: publish never runs handlers inline
+      const copy = JSON.parse(JSON.stringify(message));
+      for (const h of Array.from(set)) {
+        queueMicrotask(() => {
+          try {
+            h(copy);
+          } catch (e: any) {
+            console.warn("[PUBSUB][memory] handler error", e?.message || e);
+          }
+        });
+      }
+    },
+
+    subscribe(topic, handler) {
+      if (!handlers.has(topic)) handlers.set(topic, new Set());
+      handlers.get(topic)!.add(handler);
+      return () => {
+        handlers.get(topic)?.delete(handler);
+      };
+    },
+  };
+}
+
+export function createSupabasePubSub(client: SupabaseClient): PubSub {
+  const channels = new Map<string, RealtimeChannel>();
+  const handlers = new Map<string, Set<PubSubHandler>>();
+
+  function channelFor(topic: string): RealtimeChannel {
+    let ch = channels.get(topic);
+    if (ch) return ch;
+
+    ch = client.channel(`pubsub:${topic}`, {
+      config: { private: true, broadcast: { self: true, ack: false } },
+    });
+    ch.on("broadcast", { event: "message" }, ({ payload }) => {
+      for (const h of Array.from(handlers.get(topic) || [])) {
+        try {
+          h(payload);
+        } catch (e: any) {
+          console.warn("[PUBSUB][supabase] handler error", e?.message || e);
+        }
+      }
+    });
+    ch.subscribe((status) => {
+      if (status !== "SUBSCRIBED") console.warn("[PUBSUB][supabase] channel", topic, status);
+    });
+    channels.set(topic, ch);
+    return ch;
+  }
+
+  return {
+    async publish(topic, message) {
+      const res = await channelFor(topic).send({ type: "broadcast", event: "message", payload: message });
+      if (res !== "ok") throw new Error(`pubsub_publish_${res}`);
+    },
+
+    subscribe(topic, handler) {
+      if (!handlers.has(topic)) handlers.set(topic, new Set());
+      handlers.get(topic)!.add(handler);
+      channelFor(topic);
+      return () => {
+        handlers.get(topic)?.delete(handler);
+      };
+    },
+  };
+}
+
+let current: PubSub | null = null;
+
+export function getPubSub(): PubSub {
+  if (!current) {
+    const kind = (process.env.REALTIME_PUBSUB || (USE_MEMORY_DB ? "memory" : "supabase")).toLowerCase();
+    current =
+      kind === "memory" ? createMemoryPubSub() : createSupabasePubSub(rootSupa as unknown as SupabaseClient);
+  }
+  return current;
+}
+
+/** Swap the process-wide bus (tests, or a different broker). */
+export function setPubSub(pubsub: PubSub) {
+  current = pubsub;
+}
@@ -4,6 +4,10 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { supa } from "../db";
 import { ensureAdmin } from "./_ensureAdmin";
+import {
+  stateMachineAsJson,
+  stateMachineToMermaid,
+} from "../ai/ingest/stateMachine";
 
 export const admin = express.Router();
 
@@ -450,5 +454,44 @@ admin.get("/ai/spend/:orgId/monthly", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/state-machine?format=json|mermaid&org_id=optional&legacy=1
+ * Conversation state graph. With org_id, each state carries the number of
+ * customers currently sitting in it.
+ */
+admin.get("/state-machine", ensureAdmin, async (req, res) => {
+  try {
+    const orgId = String(req.query.org_id || "").trim();
+    const format = String(req.query.format || "json").toLowerCase();
+
+    let counts: Record<string, number> | undefined;
+    if (orgId) {
+      const { data, error } = await supa
+        .from("ai_conversation_state")
+        .select("state")
+        .eq("org_id", orgId);
+      if (error) throw error;
+
+      counts = {};
+      for (const r of data || []) {
+        const k = String((r as any).state || "idle");
+        counts[k] = (counts[k] || 0) + 1;
+      }
+    }
+
+    if (format === "mermaid") {
+      res.type("text/plain");
+      return res.send(
+        stateMachineToMermaid({ counts, includeLegacy: req.query.legacy === "1" })
+      );
+    }
+
+    return res.json({ ...stateMachineAsJson(), counts: counts || null });
+  } catch (e: any) {
+    console.error("[ADMIN][STATE_MACHINE] error:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "state_machine_failed" });
+  }
+});
+
 
 export default admin;
\ No newline at end of file
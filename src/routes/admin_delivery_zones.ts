@@ -0,0 +1,209 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import {
+  listDeliveryZones,
+  matchZone,
+  normalizePincodes,
+  validateZonePolygon,
+} from "../ai/ingest/deliveryZones";
+import { computeDeliveryQuote } from "../ai/ingest/addressEngine";
+
+export const adminDeliveryZones = express.Router();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[adminDeliveryZones][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+const numOrNull = (v: any) => {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : undefined; // undefined = invalid
+};
+
+/**
+ * Builds a delivery_zones row from the request body.
+ * `partial` (PUT) only validates / returns the fields that were sent.
+ */
+function zoneFromBody(body: any, partial: boolean): { row: any } | { error: string } {
+  const row: any = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = trim(body.name);
+    if (!name) return { error: "name_required" };
+    row.name = name;
+  }
+
+  if (body.polygon !== undefined) {
+    if (body.polygon === null) {
+      row.polygon = null;
+    } else {
+      const err = validateZonePolygon(body.polygon);
+      if (err) return { error: err };
+      row.polygon = body.polygon;
+    }
+  }
+
+  if (body.pincodes !== undefined) {
+    row.pincodes = normalizePincodes(body.pincodes);
+  }
+
+  for (const k of ["fee", "min_order", "eta_minutes"] as const) {
+    if (body[k] === undefined) continue;
+    const n = numOrNull(body[k]);
+    if (n === undefined) return { error: `invalid_${k}` };
+    row[k] = k === "eta_minutes" && n != null ? Math.round(n) : n;
+  }
+
+  if (body.priority !== undefined) {
+    const p = Number(body.priority);
+    if (!Number.isFinite(p)) return { error: "invalid_priority" };
+    row.priority = Math.round(p);
+  }
+
+  if (body.blocked !== undefined) row.blocked = body.blocked === true;
+  if (body.is_active !== undefined) row.is_active = body.is_active !== false;
+
+  if (!partial) {
+    row.blocked = row.blocked ?? false;
+    row.is_active = row.is_active ?? true;
+    row.priority = row.priority ?? 0;
+    if (!row.polygon && !(row.pincodes || []).length) {
+      return { error: "polygon_or_pincodes_required" };
+    }
+  }
+
+  return { row };
+}
+
+adminDeliveryZones.get("/", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const items = await listDeliveryZones(req.org_id);
+    items.sort((a, b) => Number(b.priority || 0) - Number(a.priority || 0));
+    return res.json({ items });
+  } catch (e: any) {
+    console.error("[adminDeliveryZones][GET] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "delivery_zones_list_failed" });
+  }
+});
+
+adminDeliveryZones.post("/", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const built = zoneFromBody(req.body || {}, false);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const now = new Date().toISOString();
+    const { data, error } = await supa
+      .from("delivery_zones")
+      .insert({ ...built.row, org_id: req.org_id, created_at: now, updated_at: now })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminDeliveryZones][POST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "delivery_zone_create_failed" });
+  }
+});
+
+adminDeliveryZones.put("/:id", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    const built = zoneFromBody(req.body || {}, true);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const { data, error } = await supa
+      .from("delivery_zones")
+      .update({ ...built.row, updated_at: new Date().toISOString() })
+      .eq("org_id", req.org_id)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "delivery_zone_not_found" });
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminDeliveryZones][PUT] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "delivery_zone_update_failed" });
+  }
+});
+
+adminDeliveryZones.delete("/:id", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    if (!id) return res.status(400).json({ error: "id_required" });
+
+    const { error } = await supa
+      .from("delivery_zones")
+      .delete()
+      .eq("org_id", req.org_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return res.json({ ok: true });
+  } catch (e: any) {
+    console.error("[adminDeliveryZones][DELETE] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "delivery_zone_delete_failed" });
+  }
+});
+
+/**
+ * POST /test { lat?, lng?, address?, order_total? }
+ * Which zone (if any) a point / address falls in, and the quote the
+ * customer would get – same path as the WhatsApp address flow.
+ */
+adminDeliveryZones.post("/test", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const body = req.body || {};
+    const lat = body.lat != null && body.lat !== "" ? Number(body.lat) : null;
+    const lng = body.lng != null && body.lng !== "" ? Number(body.lng) : null;
+    const address = trim(body.address) || null;
+    const orderTotal =
+      body.order_total != null && body.order_total !== "" ? Number(body.order_total) : null;
+
+    if ((lat == null || lng == null) && !address) {
+      return res.status(400).json({ error: "lat_lng_or_address_required" });
+    }
+    if ((lat != null && !Number.isFinite(lat)) || (lng != null && !Number.isFinite(lng))) {
+      return res.status(400).json({ error: "invalid_lat_lng" });
+    }
+
+    const zones = await listDeliveryZones(req.org_id);
+    const match = matchZone(zones, { lat, lng, addressText: address });
+    const quote = await computeDeliveryQuote(req.org_id, lat, lng, {
+      addressText: address,
+      orderTotal,
+    });
+
+    return res.json({
+      ok: true,
+      zone: match ? { ...match.zone, matched_by: match.matchedBy } : null,
+      quote,
+    });
+  } catch (e: any) {
+    console.error("[adminDeliveryZones][TEST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "delivery_zone_test_failed" });
+  }
+});
+
+export default adminDeliveryZones;
@@ -0,0 +1,192 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import {
+  clearGeocodeCache,
+  geocodeAddress,
+  matchGazetteer,
+  normalizeAddressKey,
+  type GazetteerEntry,
+} from "../ai/helpers/geocoder";
+
+export const adminGazetteer = express.Router();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[adminGazetteer][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+/**
+ * Builds a geo_gazetteer row from the request body.
+ * `partial` (PUT) only validates / returns the fields that were sent.
+ */
+function entryFromBody(body: any, partial: boolean): { row: any } | { error: string } {
+  const row: any = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = trim(body.name);
+    if (!normalizeAddressKey(name)) return { error: "name_required" };
+    row.name = name;
+  }
+
+  if (body.aliases !== undefined) {
+    const list = Array.isArray(body.aliases) ? body.aliases : asStr(body.aliases).split(",");
+    row.aliases = Array.from(new Set(list.map(trim).filter(Boolean)));
+  }
+
+  for (const [k, max] of [["lat", 90], ["lng", 180]] as const) {
+    if (partial && body[k] === undefined) continue;
+    const n = Number(body[k]);
+    if (body[k] === null || body[k] === "" || !Number.isFinite(n) || Math.abs(n) > max) {
+      return { error: `invalid_${k}` };
+    }
+    row[k] = n;
+  }
+
+  if (body.kind !== undefined) {
+    row.kind = body.kind === "landmark" ? "landmark" : "area";
+  }
+  if (body.is_active !== undefined) row.is_active = body.is_active !== false;
+
+  if (!partial) {
+    row.kind = row.kind ?? "area";
+    row.is_active = row.is_active ?? true;
+  }
+
+  return { row };
+}
+
+adminGazetteer.get("/", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const { data, error } = await supa
+      .from("geo_gazetteer")
+      .select("*")
+      .eq("org_id", req.org_id)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+
+    return res.json({ items: data || [] });
+  } catch (e: any) {
+    console.error("[adminGazetteer][GET] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "gazetteer_list_failed" });
+  }
+});
+
+adminGazetteer.post("/", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const built = entryFromBody(req.body || {}, false);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const now = new Date().toISOString();
+    const { data, error } = await supa
+      .from("geo_gazetteer")
+      .insert({ ...built.row, org_id: req.org_id, created_at: now, updated_at: now })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    // cached lookups may now resolve differently
+    await clearGeocodeCache(req.org_id);
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminGazetteer][POST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "gazetteer_create_failed" });
+  }
+});
+
+adminGazetteer.put("/:id", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    const built = entryFromBody(req.body || {}, true);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const { data, error } = await supa
+      .from("geo_gazetteer")
+      .update({ ...built.row, updated_at: new Date().toISOString() })
+      .eq("org_id", req.org_id)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "gazetteer_entry_not_found" });
+
+    await clearGeocodeCache(req.org_id);
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminGazetteer][PUT] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "gazetteer_update_failed" });
+  }
+});
+
+adminGazetteer.delete("/:id", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    if (!id) return res.status(400).json({ error: "id_required" });
+
+    const { error } = await supa
+      .from("geo_gazetteer")
+      .delete()
+      .eq("org_id", req.org_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    await clearGeocodeCache(req.org_id);
+
+    return res.json({ ok: true });
+  } catch (e: any) {
+    console.error("[adminGazetteer][DELETE] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "gazetteer_delete_failed" });
+  }
+});
+
+/**
+ * POST /test { address }
+ * What the gazetteer matches for an address, and what the full geocoder
+ * chain (cache → providers) returns for it.
+ */
+adminGazetteer.post("/test", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const address = trim((req.body || {}).address);
+    if (!address) return res.status(400).json({ error: "address_required" });
+
+    const { data, error } = await supa
+      .from("geo_gazetteer")
+      .select("*")
+      .eq("org_id", req.org_id);
+    if (error) throw error;
+
+    const hit = matchGazetteer((data || []) as GazetteerEntry[], address);
+
+    return res.json({
+      ok: true,
+      address_key: normalizeAddressKey(address),
+      gazetteer: hit ? { ...hit.entry, matched_phrase: hit.phrase } : null,
+      geocode: await geocodeAddress(req.org_id, address),
+    });
+  } catch (e: any) {
+    console.error("[adminGazetteer][TEST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "gazetteer_test_failed" });
+  }
+});
+
+export default adminGazetteer;
@@ -0,0 +1,65 @@
+// src/routes/admin_ingest_traces.ts
+import express from "express";
+import { ensureAdmin } from "./_ensureAdmin";
+import { listIngestTraces } from "../ai/ingest/ingestTrace";
+import { replayCustomerConversation } from "../ai/ingest/ingestReplay";
+
+/**
+ * "Why did the bot say that?"
+ *
+ *   GET  /api/admin/ingest-traces?org_id&customer_phone&since&until&limit
+ *        → recorded steps (state before/after, intent lane, override, engine, AI calls, reply)
+ *   POST /api/admin/ingest-traces/replay  { org_id, customer_phone, since?, until?, limit? }
+ *        → the same messages re-run against the current code (sandboxed), with per-step diffs
+ */
+export const adminIngestTraces = express.Router();
+
+const trim = (v: any) => (v == null ? "" : String(v)).trim();
+
+adminIngestTraces.get("/", ensureAdmin, async (req, res) => {
+  try {
+    const org_id = trim(req.query.org_id);
+    const customer_phone = trim(req.query.customer_phone);
+    if (!org_id || !customer_phone) {
+      return res.status(400).json({ error: "org_id_and_customer_phone_required" });
+    }
+
+    const items = await listIngestTraces({
+      org_id,
+      customer_phone,
+      since: trim(req.query.since) || null,
+      until: trim(req.query.until) || null,
+      limit: Number(req.query.limit || 100),
+    });
+
+    return res.json({ items });
+  } catch (e: any) {
+    console.error("[ADMIN][INGEST_TRACES] error:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "ingest_traces_failed" });
+  }
+});
+
+adminIngestTraces.post("/replay", ensureAdmin, async (req, res) => {
+  try {
+    const org_id = trim(req.body?.org_id);
+    const customer_phone = trim(req.body?.customer_phone);
+    if (!org_id || !customer_phone) {
+      return res.status(400).json({ error: "org_id_and_customer_phone_required" });
+    }
+
+    const out = await replayCustomerConversation({
+      org_id,
+      customer_phone,
+      since: trim(req.body?.since) || null,
+      until: trim(req.body?.until) || null,
+      limit: Math.min(200, Number(req.body?.limit || 50)),
+    });
+
+    return res.json(out);
+  } catch (e: any) {
+    console.error("[ADMIN][INGEST_REPLAY] error:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "ingest_replay_failed" });
+  }
+});
+
+export default adminIngestTraces;
@@ -2,6 +2,7 @@
 import express from "express";
 import jwt from "jsonwebtoken";
 import { supa } from "../db";
+import { normalizeHsn, normalizeTaxRate } from "../order/gstInvoice";
 
 export const adminProducts = express.Router();
 
@@ -33,6 +34,23 @@ const asStr = (v: any) =>
   typeof v === "string" ? v : v == null ? "" : String(v);
 const trim = (v: any) => asStr(v).trim();
 
+// GST fields (hsn_code, tax_rate) – only touched when sent, so older clients
+// saving a product don't wipe them
+function taxFieldsFromBody(body: any): { fields: any } | { error: string } {
+  const fields: any = {};
+  if (body.hsn_code !== undefined) {
+    const hsn = normalizeHsn(body.hsn_code);
+    if (hsn === undefined) return { error: "invalid_hsn_code" };
+    fields.hsn_code = hsn;
+  }
+  if (body.tax_rate !== undefined) {
+    const rate = normalizeTaxRate(body.tax_rate);
+    if (rate === undefined) return { error: "invalid_tax_rate" };
+    fields.tax_rate = rate;
+  }
+  return { fields };
+}
+
 // ─────────────────────────────────────────────────────────
 // GET /api/admin/products
 // Query: ?limit=&offset=&search=&category=
@@ -125,6 +143,9 @@ adminProducts.post(
         if (!Number.isNaN(n)) price_per_unit = n;
       }
 
+      const tax = taxFieldsFromBody(body);
+      if ("error" in tax) return res.status(400).json({ error: tax.error });
+
       const row = {
         org_id,
         canonical,
@@ -136,6 +157,7 @@ adminProducts.post(
         dynamic_price: !!body.dynamic_price,
         is_active: body.is_active === false ? false : true,
         price_per_unit, // 👈 NEW
+        ...tax.fields,
       };
 
       if (id) {
@@ -235,7 +257,7 @@ adminProducts.post(
 // POST /api/admin/products/import
 // Body: { csvText: string, mode?: 'upsert' | 'insert' }
 // Simple CSV: header row + records with columns:
-// canonical,display_name,category,base_unit,brand,variant,dynamic_price,is_active,price_per_unit?
+// canonical,display_name,category,base_unit,brand,variant,dynamic_price,is_active,price_per_unit?,hsn_code?,tax_rate?
 // ─────────────────────────────────────────────────────────
 adminProducts.post(
   "/import",
@@ -276,6 +298,8 @@ adminProducts.post(
       const idxDyn = findIdx("dynamic_price");
       const idxActive = findIdx("is_active");
       const idxPrice = findIdx("price_per_unit"); // 👈 NEW (optional column)
+      const idxHsn = findIdx("hsn_code");
+      const idxTaxRate = findIdx("tax_rate");
 
       let imported = 0;
       let updated = 0;
@@ -317,6 +341,17 @@ adminProducts.post(
           }
         }
 
+        // GST columns are optional; invalid values are skipped like bad prices
+        const tax: any = {};
+        if (idxHsn >= 0) {
+          const hsn = normalizeHsn(cols[idxHsn]);
+          if (hsn !== undefined) tax.hsn_code = hsn;
+        }
+        if (idxTaxRate >= 0) {
+          const rate = normalizeTaxRate(cols[idxTaxRate]);
+          if (rate !== undefined) tax.tax_rate = rate;
+        }
+
         if (mode === "insert") {
           const { error } = await supa.from("products").insert({
             org_id,
@@ -329,6 +364,7 @@ adminProducts.post(
             dynamic_price,
             is_active,
             price_per_unit,
+            ...tax,
           });
           if (error) {
             console.warn(
@@ -367,6 +403,7 @@ adminProducts.post(
                 dynamic_price,
                 is_active,
                 price_per_unit,
+                ...tax,
               })
               .eq("id", (existing as any).id)
               .eq("org_id", org_id);
@@ -390,6 +427,7 @@ adminProducts.post(
               dynamic_price,
               is_active,
               price_per_unit,
+              ...tax,
             });
             if (insErr) {
               console.warn(
@@ -0,0 +1,238 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import { evaluatePromo, normalizePromoCode } from "../ai/ingest/promoEngine";
+
+export const adminPromoCodes = express.Router();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[adminPromoCodes][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+const numOrNull = (v: any) => {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : undefined; // undefined = invalid
+};
+
+const dateOrNull = (v: any) => {
+  if (v === null || v === undefined || v === "") return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString();
+};
+
+const listOf = (v: any) =>
+  Array.from(
+    new Set((Array.isArray(v) ? v : asStr(v).split(",")).map(trim).filter(Boolean))
+  ) as string[];
+
+/**
+ * Builds a promo_codes row from the request body.
+ * `partial` (PUT) only validates / returns the fields that were sent.
+ */
+function promoFromBody(body: any, partial: boolean): { row: any } | { error: string } {
+  const row: any = {};
+
+  if (!partial || body.code !== undefined) {
+    const code = normalizePromoCode(body.code);
+    if (!/^[A-Z0-9][A-Z0-9_-]{2,23}$/.test(code)) return { error: "invalid_code" };
+    row.code = code;
+  }
+
+  if (!partial || body.kind !== undefined) {
+    if (body.kind !== "percent" && body.kind !== "flat") return { error: "invalid_kind" };
+    row.kind = body.kind;
+  }
+
+  if (!partial || body.value !== undefined) {
+    const v = Number(body.value);
+    if (!Number.isFinite(v) || v <= 0) return { error: "invalid_value" };
+    if ((row.kind ?? body.kind) === "percent" && v > 100) return { error: "invalid_value" };
+    row.value = v;
+  }
+
+  for (const k of ["max_discount", "min_order"] as const) {
+    if (body[k] === undefined) continue;
+    const n = numOrNull(body[k]);
+    if (n === undefined) return { error: `invalid_${k}` };
+    row[k] = n;
+  }
+
+  for (const k of ["per_customer_limit", "total_limit"] as const) {
+    if (body[k] === undefined) continue;
+    const n = numOrNull(body[k]);
+    if (n === undefined) return { error: `invalid_${k}` };
+    row[k] = n == null ? null : Math.round(n);
+  }
+
+  for (const k of ["valid_from", "valid_until"] as const) {
+    if (body[k] === undefined) continue;
+    const d = dateOrNull(body[k]);
+    if (d === undefined) return { error: `invalid_${k}` };
+    row[k] = d;
+  }
+  if (row.valid_from && row.valid_until && row.valid_from > row.valid_until) {
+    return { error: "invalid_validity_window" };
+  }
+
+  if (body.product_ids !== undefined) row.product_ids = listOf(body.product_ids);
+  if (body.categories !== undefined) row.categories = listOf(body.categories);
+  if (body.description !== undefined) row.description = trim(body.description) || null;
+  if (body.first_order_only !== undefined) row.first_order_only = body.first_order_only === true;
+  if (body.is_active !== undefined) row.is_active = body.is_active !== false;
+
+  if (!partial) {
+    row.first_order_only = row.first_order_only ?? false;
+    row.is_active = row.is_active ?? true;
+  }
+
+  return { row };
+}
+
+adminPromoCodes.get("/", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const { data, error } = await supa
+      .from("promo_codes")
+      .select("*")
+      .eq("org_id", req.org_id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    return res.json({ items: data || [] });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][GET] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_codes_list_failed" });
+  }
+});
+
+adminPromoCodes.post("/", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const built = promoFromBody(req.body || {}, false);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const { data: dup } = await supa
+      .from("promo_codes")
+      .select("id")
+      .eq("org_id", req.org_id)
+      .eq("code", built.row.code)
+      .maybeSingle();
+    if (dup) return res.status(409).json({ error: "promo_code_exists" });
+
+    const now = new Date().toISOString();
+    const { data, error } = await supa
+      .from("promo_codes")
+      .insert({ ...built.row, org_id: req.org_id, created_at: now, updated_at: now })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][POST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_code_create_failed" });
+  }
+});
+
+adminPromoCodes.put("/:id", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    const built = promoFromBody(req.body || {}, true);
+    if ("error" in built) return res.status(400).json({ error: built.error });
+
+    const { data, error } = await supa
+      .from("promo_codes")
+      .update({ ...built.row, updated_at: new Date().toISOString() })
+      .eq("org_id", req.org_id)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "promo_code_not_found" });
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][PUT] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_code_update_failed" });
+  }
+});
+
+// Redemptions keep their code text, so deleting a code doesn't touch past orders
+adminPromoCodes.delete("/:id", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const id = trim(req.params.id);
+    if (!id) return res.status(400).json({ error: "id_required" });
+
+    const { error } = await supa
+      .from("promo_codes")
+      .delete()
+      .eq("org_id", req.org_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return res.json({ ok: true });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][DELETE] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_code_delete_failed" });
+  }
+});
+
+/** GET /:id/redemptions – who used the code, on which orders. */
+adminPromoCodes.get("/:id/redemptions", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const { data, error } = await supa
+      .from("promo_redemptions")
+      .select("*")
+      .eq("org_id", req.org_id)
+      .eq("promo_id", trim(req.params.id))
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    return res.json({ items: data || [] });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][REDEMPTIONS] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_redemptions_list_failed" });
+  }
+});
+
+/**
+ * POST /test { code, customer_phone?, items: [{ product_id, qty, price }] }
+ * The discount a customer would get – same checks as "apply CODE" in chat.
+ */
+adminPromoCodes.post("/test", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const body = req.body || {};
+    const code = normalizePromoCode(body.code);
+    if (!code) return res.status(400).json({ error: "code_required" });
+
+    const items = Array.isArray(body.items) ? body.items : null;
+    const evaluation = await evaluatePromo(req.org_id, trim(body.customer_phone), code, items);
+
+    return res.json({ ok: true, evaluation });
+  } catch (e: any) {
+    console.error("[adminPromoCodes][TEST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "promo_code_test_failed" });
+  }
+});
+
+export default adminPromoCodes;
@@ -0,0 +1,167 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import {
+  fetchMetaTemplates,
+  TEMPLATE_PURPOSES,
+  TEMPLATE_VARIABLES,
+} from "./waba/templates";
+
+export const adminWabaTemplates = express.Router();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[adminWabaTemplates][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+const SELECT_COLS =
+  "id, purpose, template_name, language, param_mapping, is_active, updated_at";
+
+// GET /meta → templates approved in Meta for this org's WABA (+ current mapping)
+adminWabaTemplates.get("/meta", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string;
+    const meta = await fetchMetaTemplates(org_id);
+    if (!meta.ok) {
+      return res.status(400).json({ error: meta.error || "meta_templates_failed" });
+    }
+
+    const { data: mapped, error } = await supa
+      .from("waba_templates")
+      .select(SELECT_COLS)
+      .eq("org_id", org_id);
+
+    if (error) throw error;
+
+    const items = meta.templates.map((t) => ({
+      ...t,
+      mapped_purposes: (mapped || [])
+        .filter((m: any) => m.template_name === t.name && m.language === t.language)
+        .map((m: any) => m.purpose),
+    }));
+
+    return res.json({ items });
+  } catch (e: any) {
+    console.error("[adminWabaTemplates][GET /meta] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "meta_templates_failed" });
+  }
+});
+
+// GET / → current purpose → template mapping
+adminWabaTemplates.get("/", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string;
+
+    const { data, error } = await supa
+      .from("waba_templates")
+      .select(SELECT_COLS)
+      .eq("org_id", org_id)
+      .order("purpose", { ascending: true });
+
+    if (error) throw error;
+
+    return res.json({
+      items: data || [],
+      purposes: TEMPLATE_PURPOSES,
+      variables: TEMPLATE_VARIABLES,
+    });
+  } catch (e: any) {
+    console.error("[adminWabaTemplates][GET] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "waba_templates_get_failed" });
+  }
+});
+
+// POST / → map a purpose (+ language) to an approved template
+// Body: { purpose, template_name, language, param_mapping: ["customer_name", "order_id"], is_active }
+adminWabaTemplates.post("/", ensureOrgAuth, express.json(), async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string;
+    const body = req.body || {};
+
+    const purpose = trim(body.purpose);
+    const template_name = trim(body.template_name);
+    const language = trim(body.language) || "en";
+
+    if (!purpose) return res.status(400).json({ error: "purpose_required" });
+    if (!(TEMPLATE_PURPOSES as readonly string[]).includes(purpose)) {
+      return res
+        .status(400)
+        .json({ error: "invalid_purpose", allowed: TEMPLATE_PURPOSES });
+    }
+    if (!template_name) return res.status(400).json({ error: "template_name_required" });
+
+    const param_mapping = Array.isArray(body.param_mapping)
+      ? body.param_mapping.map((k: any) => trim(k)).filter(Boolean)
+      : [];
+
+    const unknown = param_mapping.filter(
+      (k: string) => !(TEMPLATE_VARIABLES as readonly string[]).includes(k)
+    );
+    if (unknown.length) {
+      return res
+        .status(400)
+        .json({ error: "unknown_variables", unknown, allowed: TEMPLATE_VARIABLES });
+    }
+
+    const row = {
+      org_id,
+      purpose,
+      template_name,
+      language,
+      param_mapping,
+      is_active: body.is_active === false ? false : true,
+      updated_at: new Date().toISOString(),
+    };
+
+    // upsert by unique(org_id, purpose, language)
+    const { data, error } = await supa
+      .from("waba_templates")
+      .upsert(row, { onConflict: "org_id,purpose,language" })
+      .select(SELECT_COLS)
+      .single();
+
+    if (error) throw error;
+
+    return res.json({ ok: true, item: data });
+  } catch (e: any) {
+    console.error("[adminWabaTemplates][POST] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "waba_template_upsert_failed" });
+  }
+});
+
+adminWabaTemplates.delete("/:id", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string;
+    const id = trim(req.params.id || "");
+    if (!id) return res.status(400).json({ error: "id_required" });
+
+    const { error } = await supa
+      .from("waba_templates")
+      .delete()
+      .eq("org_id", org_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return res.json({ ok: true });
+  } catch (e: any) {
+    console.error("[adminWabaTemplates][DELETE] err:", e?.message || e);
+    return res.status(500).json({ error: e.message || "waba_template_delete_failed" });
+  }
+});
+
+export default adminWabaTemplates;
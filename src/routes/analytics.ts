@@ -2,6 +2,7 @@
 import express from "express";
 import jwt from "jsonwebtoken";
 import { supa } from "../db";
+import { getCartRecoveryStats } from "../ai/ingest/abandonedCarts";
 
 export const analytics = express.Router();
 
@@ -256,4 +257,39 @@ analytics.get("/summary", ensureAuth, async (req: any, res) => {
   }
 });
 
-export default analytics;
\ No newline at end of file
+// ─────────────────────────────────────────────
+// GET /api/analytics/abandoned-carts
+// Query: ?from=ISO&to=ISO  → abandoned / reminded / recovered + rates
+// ─────────────────────────────────────────────
+analytics.get("/abandoned-carts", ensureAuth, async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string | undefined;
+    if (!org_id) {
+      return res.status(400).json({ error: "missing_org" });
+    }
+
+    const to = parseDateParam(req.query.to) || new Date();
+    const from =
+      parseDateParam(req.query.from) ||
+      new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000); // last 30 days by default
+
+    const stats = await getCartRecoveryStats(
+      org_id,
+      from.toISOString(),
+      to.toISOString()
+    );
+
+    return res.json({
+      org_id,
+      range: { from: from.toISOString(), to: to.toISOString() },
+      ...stats,
+    });
+  } catch (e: any) {
+    console.error("[analytics][abandoned-carts] ERR", e?.message || e);
+    return res
+      .status(500)
+      .json({ error: e?.message || "analytics_abandoned_carts_failed" });
+  }
+});
+
+export default analytics;
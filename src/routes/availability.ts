@@ -1,5 +1,6 @@
 import express from 'express';
 import { supa } from '../db';
+import { loadStoreHoursConfig, storeHoursStateAt } from '../ai/helpers/storeHours';
 
 export const availability = express.Router();
 
@@ -40,4 +41,35 @@ availability.get('/', async (req, res) => {
   }
 });
 
+/**
+ * Public store hours for the storefront: open/closed now, the weekly
+ * calendar and upcoming holidays (helpers/storeHours).
+ * GET /api/availability/hours?org_id=
+ */
+availability.get('/hours', async (req, res) => {
+  try {
+    const { org_id } = req.query as { org_id?: string };
+    if (!org_id) return res.status(400).json({ ok: false, error: 'org_id_required' });
+
+    const cfg = await loadStoreHoursConfig(org_id);
+    if (!cfg) return res.status(404).json({ ok: false, error: 'org_not_found' });
+
+    const now = storeHoursStateAt(cfg);
+    const todayKey = new Date().toLocaleDateString('en-CA', { timeZone: cfg.timezone });
+
+    return res.json({
+      ok: true,
+      timezone: cfg.timezone,
+      now,
+      weekly: cfg.weekly,
+      holidays: cfg.holidays
+        .filter((h) => h.date >= todayKey)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    });
+  } catch (e: any) {
+    console.error('[availability/hours]', e?.message || e);
+    return res.status(500).json({ ok: false, error: 'server_error' });
+  }
+});
+
 export default availability;
\ No newline at end of file
@@ -0,0 +1,265 @@
+// src/routes/channelWebhooks.ts
+import express from "express";
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import { supa } from "../db";
+import {
+  getChannelAdapter,
+  loadChannelOrg,
+  processChannelMessage,
+} from "./channels";
+import { authorizeWebSession, checkWebSessionToken, findCustomerKey } from "./channels/identity";
+import { confirmPhoneVerification, startPhoneVerification } from "./channels/phoneVerification";
+import { registerTelegramWebhook } from "./channels/telegramAdapter";
+import { beginWebChatTurn, endWebChatTurn, signWebChatBody } from "./channels/webChatAdapter";
+
+/**
+ * Inbound webhooks for non-WhatsApp channels (WhatsApp stays on /webhook/whatsapp).
+ *
+ *   POST /api/channels/telegram/:orgId          ← Telegram Bot API updates
+ *   POST /api/channels/telegram/setup           → setWebhook for the caller's org (JWT)
+ *   POST /api/channels/web/:orgId/messages      ← web chat message, replies in response
+ *   GET  /api/channels/web/:orgId/messages      → poll later replies for a session
+ *   POST /api/channels/web/:orgId/phone/start   { session_id, phone } → code on WhatsApp
+ *   POST /api/channels/web/:orgId/phone/verify  { session_id, code }  → phone linked
+ *
+ * Web requests after the first carry X-Session-Token (or are signed, see
+ * webChatAdapter.ts); a GET from a signing server signs the session_id.
+ */
+export const channelWebhooks = express.Router();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[CHANNELS][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+// ─────────────────────────────
+// Telegram
+// ─────────────────────────────
+channelWebhooks.post("/telegram/setup", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const org_id = req.org_id as string;
+    const org = await loadChannelOrg(org_id);
+    if (!org) return res.status(404).json({ ok: false, error: "org_not_found" });
+
+    // first setup → generate the shared secret Telegram will echo back
+    if (!org.telegram_webhook_secret) {
+      org.telegram_webhook_secret = crypto.randomBytes(24).toString("hex");
+      const { error } = await supa
+        .from("orgs")
+        .update({ telegram_webhook_secret: org.telegram_webhook_secret })
+        .eq("id", org_id);
+      if (error) throw error;
+    }
+
+    const base = String(req.body?.public_url || process.env.APP_PUBLIC_URL || "");
+    if (!base) return res.status(400).json({ ok: false, error: "public_url_required" });
+
+    const out = await registerTelegramWebhook(org, base);
+    return res.status(out.ok ? 200 : 400).json(out);
+  } catch (e: any) {
+    console.error("[CHANNELS][telegram/setup] err:", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "telegram_setup_failed" });
+  }
+});
+
+channelWebhooks.post("/telegram/:orgId", async (req, res) => {
+  const adapter = getChannelAdapter("telegram")!;
+
+  try {
+    const org = await loadChannelOrg(String(req.params.orgId || ""));
+    if (!org) return res.sendStatus(404);
+
+    const check = await adapter.verify(req, org);
+    if (!check.ok) {
+      console.warn("[TELEGRAM][SIG_REJECT]", { org_id: org.id, reason: check.reason });
+      return res.sendStatus(401);
+    }
+
+    for (const env of adapter.parseInbound(req, org)) {
+      await processChannelMessage(adapter, org, env);
+    }
+
+    return res.sendStatus(200);
+  } catch (e: any) {
+    console.error("[TELEGRAM][ERR]", e?.message || e);
+    // Telegram retries non-2xx forever – dedup covers real retries
+    return res.sendStatus(200);
+  }
+});
+
+// ─────────────────────────────
+// Web chat
+// ─────────────────────────────
+const sessionTokenOf = (req: any) => String(req.headers["x-session-token"] || "").trim() || null;
+
+function sameSignature(expected: string, given: string) {
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(given.replace(/^sha256=/, ""), "utf8");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// POST bodies of signing orgs are checked by adapter.verify; everyone else
+// needs the session's token
+async function ensureWebSession(req: any, res: any, org: any, session_id: string) {
+  if (org.webchat_secret) {
+    const check = await getChannelAdapter("web")!.verify(req, org);
+    if (check.ok) return true;
+    res.status(401).json({ ok: false, error: check.reason || "unauthorized" });
+    return false;
+  }
+  if (await checkWebSessionToken(org.id, session_id, sessionTokenOf(req))) return true;
+  res.status(401).json({ ok: false, error: "bad_session_token" });
+  return false;
+}
+
+channelWebhooks.post("/web/:orgId/messages", async (req, res) => {
+  const adapter = getChannelAdapter("web")!;
+
+  try {
+    const org = await loadChannelOrg(String(req.params.orgId || ""));
+    if (!org) return res.status(404).json({ ok: false, error: "org_not_found" });
+
+    const check = await adapter.verify(req, org);
+    if (!check.ok) {
+      return res.status(401).json({ ok: false, error: check.reason || "unauthorized" });
+    }
+
+    const [env] = adapter.parseInbound(req, org);
+    if (!env) return res.status(400).json({ ok: false, error: "session_id_required" });
+
+    let session_token: string | null = null;
+    if (!org.webchat_secret) {
+      const auth = await authorizeWebSession(org.id, env.external_id, sessionTokenOf(req));
+      if ("reason" in auth) return res.status(401).json({ ok: false, error: auth.reason });
+      session_token = auth.issued;
+    }
+
+    // replies sent while processing are collected and returned below
+    beginWebChatTurn(org.id, env.external_id);
+    const result = await processChannelMessage(adapter, org, env);
+    const replies = endWebChatTurn(org.id, env.external_id);
+
+    return res.json({
+      ok: true,
+      handled: result.handled,
+      reason: result.reason,
+      customer_key: result.customer_key || null,
+      // first message of a session only – keep it, it's needed from now on
+      ...(session_token ? { session_token } : {}),
+      replies,
+    });
+  } catch (e: any) {
+    console.error("[WEB][ERR]", e?.message || e);
+    return res.status(500).json({ ok: false, error: "webchat_failed" });
+  }
+});
+
+// ?session_id=…&after=<iso>  → outbound messages since `after`
+channelWebhooks.get("/web/:orgId/messages", async (req, res) => {
+  try {
+    const org_id = String(req.params.orgId || "");
+    const session_id = String(req.query.session_id || "").trim().slice(0, 128);
+    const after = String(req.query.after || "");
+    if (!org_id || !session_id) {
+      return res.status(400).json({ ok: false, error: "session_id_required" });
+    }
+
+    const org = await loadChannelOrg(org_id);
+    if (!org) return res.status(404).json({ ok: false, error: "org_not_found" });
+
+    const authorized = org.webchat_secret
+      ? sameSignature(
+          signWebChatBody(session_id, org.webchat_secret),
+          String(req.headers["x-signature"] || "")
+        )
+      : await checkWebSessionToken(org_id, session_id, sessionTokenOf(req));
+    if (!authorized) return res.status(401).json({ ok: false, error: "unauthorized" });
+
+    const customer_key = await findCustomerKey(org_id, "web", session_id);
+    if (!customer_key) return res.json({ ok: true, items: [] });
+
+    const { data: conv } = await supa
+      .from("conversations")
+      .select("id")
+      .eq("org_id", org_id)
+      .eq("customer_phone", customer_key)
+      .maybeSingle();
+
+    if (!conv?.id) return res.json({ ok: true, items: [] });
+
+    let q = supa
+      .from("messages")
+      .select("id, body, sender_type, created_at")
+      .eq("org_id", org_id)
+      .eq("conversation_id", conv.id)
+      .eq("direction", "out");
+
+    if (after) q = q.gt("created_at", after);
+
+    const { data, error } = await q
+      .order("created_at", { ascending: true })
+      .limit(50);
+    if (error) throw error;
+
+    return res.json({ ok: true, items: data || [] });
+  } catch (e: any) {
+    console.error("[WEB][GET messages] err:", e?.message || e);
+    return res.status(500).json({ ok: false, error: "webchat_poll_failed" });
+  }
+});
+
+channelWebhooks.post("/web/:orgId/phone/start", async (req, res) => {
+  try {
+    const org = await loadChannelOrg(String(req.params.orgId || ""));
+    if (!org) return res.status(404).json({ ok: false, error: "org_not_found" });
+
+    const session_id = String(req.body?.session_id || "").trim().slice(0, 128);
+    const phone = String(req.body?.phone || "");
+    if (!session_id || !phone) {
+      return res.status(400).json({ ok: false, error: "session_id_and_phone_required" });
+    }
+    if (!(await ensureWebSession(req, res, org, session_id))) return;
+
+    const out = await startPhoneVerification(org, "web", session_id, phone);
+    const status = !("error" in out) ? 200 : out.error === "too_soon" ? 429 : 400;
+    return res.status(status).json(out);
+  } catch (e: any) {
+    console.error("[WEB][phone/start] err:", e?.message || e);
+    return res.status(500).json({ ok: false, error: "phone_verification_failed" });
+  }
+});
+
+channelWebhooks.post("/web/:orgId/phone/verify", async (req, res) => {
+  try {
+    const org = await loadChannelOrg(String(req.params.orgId || ""));
+    if (!org) return res.status(404).json({ ok: false, error: "org_not_found" });
+
+    const session_id = String(req.body?.session_id || "").trim().slice(0, 128);
+    const code = String(req.body?.code || "").trim();
+    if (!session_id || !code) {
+      return res.status(400).json({ ok: false, error: "session_id_and_code_required" });
+    }
+    if (!(await ensureWebSession(req, res, org, session_id))) return;
+
+    const out = await confirmPhoneVerification(org, "web", session_id, code);
+    const status = !("error" in out) ? 200 : out.error === "too_many_attempts" ? 429 : 400;
+    return res.status(status).json(out);
+  } catch (e: any) {
+    console.error("[WEB][phone/verify] err:", e?.message || e);
+    return res.status(500).json({ ok: false, error: "phone_verification_failed" });
+  }
+});
+
+export default channelWebhooks;
@@ -0,0 +1,272 @@
+// src/routes/channels/identity.ts
+import crypto from "crypto";
+import { supa } from "../../db";
+import type { ChannelName, InboundChannelMessage } from "./types";
+
+/**
+ * Channel identity → customer_key.
+ *
+ * Everything downstream (ai_conversation_state, conversations, orders.source_phone)
+ * is keyed by a digits-only "phone key". WhatsApp gives us the phone; other
+ * channels give a chat / session id, so we map it here:
+ *
+ * Table `channel_identities`:
+ *   org_id        uuid
+ *   channel       text     -- 'telegram' | 'web'
+ *   external_id   text     -- chat id / web session id
+ *   customer_key  text     -- phone key used by state + inbox
+ *   phone         text     -- set once the customer shares a phone number
+ *   display_name  text
+ *   session_token_hash text -- web: sha256 of the token issued on first contact
+ *   last_seen_at  timestamptz
+ *   unique (org_id, channel, external_id)
+ *
+ * Until a phone is known the key is synthetic: "0" + channel code + digits.
+ * Real phone keys never start with 0 (country codes don't), so they can't
+ * collide. Once a phone is shared the key switches to it and the customer
+ * continues the same conversation they have on WhatsApp – so only a phone
+ * the channel has proven belongs to the sender (`phone_verified`) is linked,
+ * anything else would hand that customer's conversation and orders to
+ * whoever typed the number in.
+ */
+
+const TABLE = "channel_identities";
+
+const CHANNEL_CODE: Record<ChannelName, string> = {
+  waba: "",
+  telegram: "1",
+  web: "2",
+};
+
+const digits = (s: string) => String(s || "").replace(/[^\d]/g, "");
+
+export function syntheticCustomerKey(channel: ChannelName, externalId: string): string {
+  const d = digits(externalId);
+  // numeric ids (Telegram) stay readable; anything else is hashed to digits
+  const body =
+    d && d.length === String(externalId).replace(/^-/, "").length
+      ? d
+      : BigInt(
+          "0x" +
+            crypto.createHash("sha256").update(String(externalId)).digest("hex").slice(0, 15)
+        ).toString();
+  return `0${CHANNEL_CODE[channel]}${body}`;
+}
+
+export function isSyntheticCustomerKey(key: string): boolean {
+  return String(key || "").startsWith("0");
+}
+
+export async function resolveCustomerKey(
+  orgId: string,
+  msg: Pick<InboundChannelMessage, "channel" | "external_id" | "phone" | "phone_verified" | "name">
+): Promise<string> {
+  if (msg.channel === "waba") return digits(msg.phone || msg.external_id);
+
+  const phoneKey = msg.phone && msg.phone_verified ? digits(msg.phone) : "";
+  if (msg.phone && !msg.phone_verified) {
+    console.warn("[CHANNEL][IDENTITY] unverified phone ignored", {
+      org_id: orgId,
+      channel: msg.channel,
+      external_id: msg.external_id,
+    });
+  }
+  const nowIso = new Date().toISOString();
+
+  const { data: existing, error } = await supa
+    .from(TABLE)
+    .select("customer_key, phone")
+    .eq("org_id", orgId)
+    .eq("channel", msg.channel)
+    .eq("external_id", msg.external_id)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[CHANNEL][IDENTITY] lookup err", error.message);
+    return phoneKey || syntheticCustomerKey(msg.channel, msg.external_id);
+  }
+
+  const customer_key =
+    phoneKey ||
+    existing?.customer_key ||
+    syntheticCustomerKey(msg.channel, msg.external_id);
+
+  const { error: upErr } = await supa.from(TABLE).upsert(
+    {
+      org_id: orgId,
+      channel: msg.channel,
+      external_id: msg.external_id,
+      customer_key,
+      phone: phoneKey || existing?.phone || null,
+      ...(msg.name ? { display_name: msg.name } : {}),
+      last_seen_at: nowIso,
+    },
+    { onConflict: "org_id,channel,external_id" }
+  );
+
+  if (upErr) console.warn("[CHANNEL][IDENTITY] upsert err", upErr.message);
+
+  return customer_key;
+}
+
+// ─────────────────────────────
+// Web chat sessions
+// ─────────────────────────────
+// The widget picks its own session_id, so knowing one must not be enough to
+// read or write that conversation: the first request for a session gets a
+// token back, every later one has to present it.
+
+const hashToken = (t: string) => crypto.createHash("sha256").update(t).digest("hex");
+
+function sameHash(a: string, b: string) {
+  const x = Buffer.from(a, "utf8");
+  const y = Buffer.from(b, "utf8");
+  return x.length === y.length && crypto.timingSafeEqual(x, y);
+}
+
+export type WebSessionAuth =
+  | { ok: true; issued: string | null }
+  | { ok: false; reason: "session_token_required" | "bad_session_token" };
+
+/**
+ * Checks `token` for a web session, or issues the session's token if it has
+ * none yet (`issued`, returned to the client once).
+ */
+export async function authorizeWebSession(
+  orgId: string,
+  sessionId: string,
+  token: string | null
+): Promise<WebSessionAuth> {
+  const { data: row, error } = await supa
+    .from(TABLE)
+    .select("customer_key, session_token_hash")
+    .eq("org_id", orgId)
+    .eq("channel", "web")
+    .eq("external_id", sessionId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (row?.session_token_hash) {
+    if (!token) return { ok: false, reason: "session_token_required" };
+    return sameHash(hashToken(token), row.session_token_hash)
+      ? { ok: true, issued: null }
+      : { ok: false, reason: "bad_session_token" };
+  }
+
+  const issued = crypto.randomBytes(24).toString("hex");
+  const q = row
+    ? supa
+        .from(TABLE)
+        .update({ session_token_hash: hashToken(issued) })
+        .eq("org_id", orgId)
+        .eq("channel", "web")
+        .eq("external_id", sessionId)
+        .is("session_token_hash", null)
+    : supa.from(TABLE).upsert(
+        {
+          org_id: orgId,
+          channel: "web",
+          external_id: sessionId,
+          customer_key: syntheticCustomerKey("web", sessionId),
+          session_token_hash: hashToken(issued),
+          last_seen_at: new Date().toISOString(),
+        },
+        { onConflict: "org_id,channel,external_id", ignoreDuplicates: true }
+      );
+
+  // two first requests racing: only one of them gets the token
+  const { data: claimed, error: upErr } = await q.select("external_id");
+  if (upErr) throw upErr;
+  if (!claimed?.length) return { ok: false, reason: "session_token_required" };
+
+  return { ok: true, issued };
+}
+
+/** Read access to a web session: token must match an issued one. */
+export async function checkWebSessionToken(
+  orgId: string,
+  sessionId: string,
+  token: string | null
+): Promise<boolean> {
+  if (!token) return false;
+  const { data } = await supa
+    .from(TABLE)
+    .select("session_token_hash")
+    .eq("org_id", orgId)
+    .eq("channel", "web")
+    .eq("external_id", sessionId)
+    .maybeSingle();
+  return !!data?.session_token_hash && sameHash(hashToken(token), data.session_token_hash);
+}
+
+// Read-only lookup (no identity row is created)
+export async function findCustomerKey(
+  orgId: string,
+  channel: ChannelName,
+  externalId: string
+): Promise<string | null> {
+  const { data } = await supa
+    .from(TABLE)
+    .select("customer_key")
+    .eq("org_id", orgId)
+    .eq("channel", channel)
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  return data?.customer_key || null;
+}
+
+// Where to reach a customer: the channel they last wrote from
+export async function findCustomerChannel(
+  orgId: string,
+  customerKey: string
+): Promise<{ channel: ChannelName; external_id: string }> {
+  const key = digits(customerKey);
+
+  const { data } = await supa
+    .from(TABLE)
+    .select("channel, external_id, last_seen_at")
+    .eq("org_id", orgId)
+    .eq("customer_key", key)
+    .order("last_seen_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const waba = { channel: "waba" as ChannelName, external_id: key };
+  if (!data?.channel) return waba;
+
+  const linked = {
+    channel: data.channel as ChannelName,
+    external_id: String(data.external_id),
+  };
+
+  // synthetic keys only exist for non-WhatsApp channels
+  if (isSyntheticCustomerKey(key)) return linked;
+
+  // phone-linked customer: answer where they last wrote from
+  const last = await lastInboundChannel(orgId, key);
+  return last === data.channel ? linked : waba;
+}
+
+async function lastInboundChannel(orgId: string, key: string): Promise<string | null> {
+  const { data: conv } = await supa
+    .from("conversations")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("customer_phone", key)
+    .maybeSingle();
+
+  if (!conv?.id) return null;
+
+  const { data: msg } = await supa
+    .from("messages")
+    .select("channel")
+    .eq("org_id", orgId)
+    .eq("conversation_id", conv.id)
+    .eq("direction", "in")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return msg?.channel || null;
+}
@@ -0,0 +1,179 @@
+// src/routes/channels/inboxLog.ts
+import { supa } from "../../db";
+import type { InboundMedia } from "../../ai/ingest/types";
+import type { ChannelName } from "./types";
+import { emitOrderEvent } from "../realtimeOrders";
+
+/**
+ * Inbox (conversations + messages) logging shared by every channel.
+ * WhatsApp outbound goes through the outbox (waba/outbox.ts), which logs its
+ * own rows with delivery status; other channels use logOutboundMessageToInbox.
+ */
+
+// Simple inbound → conversations + messages logger
+export async function logInboundMessageToInbox(args: {
+  orgId: string;
+  from: string; // phone / customer_key
+  text: string;
+  msgId: string;
+  media?: InboundMedia | null;
+  channel?: ChannelName;
+  customerName?: string | null;
+}) {
+  try {
+    const { orgId, from, text, msgId, media } = args;
+    const channel = args.channel || "waba";
+    const body = (text || "").trim() || "[non-text message]";
+
+    // normalize phone: digits only (same logic as normalizePhoneForKey)
+    const phoneKey = from.replace(/[^\d]/g, "");
+    if (!orgId || !phoneKey) return;
+
+    const nowIso = new Date().toISOString();
+
+    // 1) Find existing conversation
+    const { data: existing, error: convErr } = await supa
+      .from("conversations")
+      .select("id")
+      .eq("org_id", orgId)
+      .eq("customer_phone", phoneKey)
+      .maybeSingle();
+
+    if (convErr) {
+      console.warn("[INBOX][logInbound] conv lookup err", convErr.message);
+      return;
+    }
+
+    let conversationId: string | null = existing?.id ?? null;
+
+    // 2) If no conversation → create one
+    if (!conversationId) {
+      const { data: created, error: insErr } = await supa
+        .from("conversations")
+        .insert({
+          org_id: orgId,
+          customer_phone: phoneKey,
+          customer_name: args.customerName || null,
+          source: channel,
+          last_message_at: nowIso,
+          last_message_preview: body.slice(0, 120),
+        })
+        .select("id")
+        .maybeSingle();
+
+      if (insErr) {
+        console.warn("[INBOX][logInbound] conv insert err", insErr.message);
+        return;
+      }
+
+      conversationId = created?.id ?? null;
+    } else {
+      // 3) Update existing conversation preview
+      const { error: updErr } = await supa
+        .from("conversations")
+        .update({
+          last_message_at: nowIso,
+          last_message_preview: body.slice(0, 120),
+          source: channel,
+        })
+        .eq("id", conversationId)
+        .eq("org_id", orgId);
+
+      if (updErr) {
+        console.warn("[INBOX][logInbound] conv update err", updErr.message);
+      }
+    }
+
+    if (!conversationId) return;
+
+    // 4) Insert message row
+    const { error: msgErr } = await supa.from("messages").insert({
+      org_id: orgId,
+      conversation_id: conversationId,
+      direction: "in",
+      sender_type: "customer",
+      channel,
+      body,
+      wa_msg_id: channel === "waba" ? msgId : null,
+      ...(media
+        ? {
+            media_url: media.url,
+            media_type: media.kind,
+            media_mime: media.mime_type,
+            transcript: media.transcript ?? null,
+          }
+        : {}),
+    });
+
+    if (msgErr) {
+      console.warn("[INBOX][logInbound] msg insert err", msgErr.message);
+      return;
+    }
+
+    emitOrderEvent(orgId, "message_received", {
+      conversation_id: conversationId,
+      customer_phone: phoneKey,
+      channel,
+      message_id: msgId || null,
+      preview: body.slice(0, 120),
+      media_type: media?.kind ?? null,
+    });
+  } catch (e: any) {
+    console.warn("[INBOX][logInbound] catch", e?.message || e);
+  }
+}
+
+// Outbound reply on a non-WhatsApp channel
+export async function logOutboundMessageToInbox(args: {
+  orgId: string;
+  to: string; // customer_key
+  body: string;
+  channel: ChannelName;
+  senderType?: "ai" | "store" | "system";
+  deliveryStatus?: "sent" | "failed";
+  deliveryError?: string | null;
+}) {
+  try {
+    const phoneKey = String(args.to || "").replace(/[^\d]/g, "");
+    if (!args.orgId || !phoneKey) return;
+
+    const { data: conv } = await supa
+      .from("conversations")
+      .select("id")
+      .eq("org_id", args.orgId)
+      .eq("customer_phone", phoneKey)
+      .maybeSingle();
+
+    if (!conv?.id) return;
+
+    const nowIso = new Date().toISOString();
+    const { error } = await supa.from("messages").insert({
+      org_id: args.orgId,
+      conversation_id: conv.id,
+      direction: "out",
+      sender_type: args.senderType || "ai",
+      channel: args.channel,
+      body: args.body,
+      delivery_status: args.deliveryStatus || "sent",
+      delivery_status_at: nowIso,
+      delivery_error: args.deliveryError || null,
+    });
+
+    if (error) {
+      console.warn("[INBOX][logOutbound] msg insert err", error.message);
+    }
+
+    if (args.senderType === "store") {
+      await supa
+        .from("conversations")
+        .update({
+          last_message_at: nowIso,
+          last_message_preview: args.body.slice(0, 120),
+        })
+        .eq("id", conv.id)
+        .eq("org_id", args.orgId);
+    }
+  } catch (e: any) {
+    console.warn("[INBOX][logOutbound] catch", e?.message || e);
+  }
+}
@@ -0,0 +1,70 @@
+// src/routes/channels/index.ts
+import { supa } from "../../db";
+import { findCustomerChannel } from "./identity";
+import { sendOnChannel } from "./pipeline";
+import { telegramAdapter } from "./telegramAdapter";
+import { wabaAdapter } from "./wabaAdapter";
+import { webChatAdapter } from "./webChatAdapter";
+import {
+  CHANNEL_ORG_COLUMNS,
+  type ChannelAdapter,
+  type ChannelName,
+  type ChannelOrg,
+  type ChannelSendResult,
+  type OutboundChannelMessage,
+} from "./types";
+
+export * from "./types";
+export { processChannelMessage, sendOnChannel } from "./pipeline";
+export { resolveCustomerKey, findCustomerChannel } from "./identity";
+
+const ADAPTERS: Record<ChannelName, ChannelAdapter> = {
+  waba: wabaAdapter,
+  telegram: telegramAdapter,
+  web: webChatAdapter,
+};
+
+export function getChannelAdapter(channel: string): ChannelAdapter | null {
+  return (ADAPTERS as Record<string, ChannelAdapter>)[channel] || null;
+}
+
+export async function loadChannelOrg(orgId: string): Promise<ChannelOrg | null> {
+  const { data, error } = await supa
+    .from("orgs")
+    .select(CHANNEL_ORG_COLUMNS)
+    .eq("id", orgId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[CHANNEL] org lookup err", error.message);
+    return null;
+  }
+  return (data as ChannelOrg) || null;
+}
+
+/**
+ * Send to a customer on whichever channel they use (last one they wrote from).
+ * Use this instead of sendWabaText for anything customer-facing outside the
+ * inbound reply path (order updates, staff replies…).
+ */
+export async function sendToCustomer(opts: {
+  orgId: string;
+  customerKey: string; // phone key / orders.source_phone
+  message: OutboundChannelMessage;
+}): Promise<ChannelSendResult & { channel?: ChannelName }> {
+  const org = await loadChannelOrg(opts.orgId);
+  if (!org) return { ok: false, error: "org_not_found" };
+  if (org.is_disabled) return { ok: false, error: "org_disabled" };
+
+  const target = await findCustomerChannel(opts.orgId, opts.customerKey);
+  const adapter = ADAPTERS[target.channel];
+
+  const res = await sendOnChannel(
+    adapter,
+    org,
+    { external_id: target.external_id, customer_key: opts.customerKey },
+    opts.message
+  );
+
+  return { ...res, channel: target.channel };
+}
@@ -0,0 +1,154 @@
+// src/routes/channels/phoneVerification.ts
+import crypto from "crypto";
+import { supa } from "../../db";
+import { sendWabaTemplate } from "../waba";
+import { resolveCustomerKey } from "./identity";
+import type { ChannelName, ChannelOrg } from "./types";
+
+/**
+ * Phone ownership check for channels that can't prove it themselves (web
+ * widget): we send a 6-digit code to the number on WhatsApp and only link it
+ * once the session types the code back.
+ *
+ *   create table channel_phone_otps (
+ *     org_id uuid not null,
+ *     channel text not null,
+ *     external_id text not null,
+ *     phone text not null,
+ *     code_hash text not null,
+ *     attempts int not null default 0,
+ *     sent_at timestamptz not null,
+ *     expires_at timestamptz not null,
+ *     unique (org_id, channel, external_id)
+ *   );
+ *
+ * Outside the 24h window the code goes out with the org's
+ * 'phone_verification' template ({code}).
+ */
+
+const TABLE = "channel_phone_otps";
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_AFTER_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const digits = (s: string) => String(s || "").replace(/[^\d]/g, "");
+
+function codeHash(orgId: string, externalId: string, code: string) {
+  return crypto.createHash("sha256").update(`${orgId}:${externalId}:${code}`).digest("hex");
+}
+
+export type PhoneVerificationResult =
+  | { ok: true; customer_key?: string; expires_at?: string }
+  | { ok: false; error: string; retry_after_s?: number };
+
+export async function startPhoneVerification(
+  org: ChannelOrg,
+  channel: ChannelName,
+  externalId: string,
+  phone: string
+): Promise<PhoneVerificationResult> {
+  const phoneKey = digits(phone);
+  if (phoneKey.length < 8 || phoneKey.length > 15) return { ok: false, error: "invalid_phone" };
+  if (!org.wa_phone_number_id) return { ok: false, error: "whatsapp_not_configured" };
+
+  const { data: prev } = await supa
+    .from(TABLE)
+    .select("sent_at")
+    .eq("org_id", org.id)
+    .eq("channel", channel)
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  const since = prev?.sent_at ? Date.now() - new Date(prev.sent_at).getTime() : Infinity;
+  if (since < RESEND_AFTER_MS) {
+    return { ok: false, error: "too_soon", retry_after_s: Math.ceil((RESEND_AFTER_MS - since) / 1000) };
+  }
+
+  const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+  const now = Date.now();
+  const expires_at = new Date(now + CODE_TTL_MS).toISOString();
+
+  const { error } = await supa.from(TABLE).upsert(
+    {
+      org_id: org.id,
+      channel,
+      external_id: externalId,
+      phone: phoneKey,
+      code_hash: codeHash(org.id, externalId, code),
+      attempts: 0,
+      sent_at: new Date(now).toISOString(),
+      expires_at,
+    },
+    { onConflict: "org_id,channel,external_id" }
+  );
+  if (error) throw error;
+
+  const sent = await sendWabaTemplate({
+    phoneNumberId: org.wa_phone_number_id,
+    to: phoneKey,
+    orgId: org.id,
+    purpose: "phone_verification",
+    vars: { code },
+    text: `🔐 Your ${org.name || "store"} verification code is *${code}*. It expires in 10 minutes.`,
+  });
+
+  if (!sent.sent) {
+    console.warn("[PHONE_VERIFY][SEND_FAILED]", { org_id: org.id, channel, reason: sent.reason });
+    await supa.from(TABLE).delete().eq("org_id", org.id).eq("channel", channel).eq("external_id", externalId);
+    return { ok: false, error: sent.reason || "send_failed" };
+  }
+
+  console.log("[PHONE_VERIFY][SENT]", { org_id: org.id, channel, external_id: externalId });
+  return { ok: true, expires_at };
+}
+
+export async function confirmPhoneVerification(
+  org: ChannelOrg,
+  channel: ChannelName,
+  externalId: string,
+  code: string
+): Promise<PhoneVerificationResult> {
+  const { data: row, error } = await supa
+    .from(TABLE)
+    .select("phone, code_hash, attempts, expires_at")
+    .eq("org_id", org.id)
+    .eq("channel", channel)
+    .eq("external_id", externalId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!row || new Date(row.expires_at).getTime() < Date.now()) {
+    return { ok: false, error: "code_expired" };
+  }
+  if (Number(row.attempts || 0) >= MAX_ATTEMPTS) return { ok: false, error: "too_many_attempts" };
+
+  // count the attempt before comparing; a parallel guess loses the race
+  const { data: counted } = await supa
+    .from(TABLE)
+    .update({ attempts: Number(row.attempts || 0) + 1 })
+    .eq("org_id", org.id)
+    .eq("channel", channel)
+    .eq("external_id", externalId)
+    .eq("attempts", Number(row.attempts || 0))
+    .select("attempts");
+  if (!counted?.length) return { ok: false, error: "try_again" };
+
+  const given = Buffer.from(codeHash(org.id, externalId, digits(code)), "utf8");
+  const want = Buffer.from(String(row.code_hash), "utf8");
+  if (given.length !== want.length || !crypto.timingSafeEqual(given, want)) {
+    return { ok: false, error: "wrong_code" };
+  }
+
+  await supa.from(TABLE).delete().eq("org_id", org.id).eq("channel", channel).eq("external_id", externalId);
+
+  const customer_key = await resolveCustomerKey(org.id, {
+    channel,
+    external_id: externalId,
+    phone: row.phone,
+    phone_verified: true,
+  });
+
+  console.log("[PHONE_VERIFY][LINKED]", { org_id: org.id, channel, external_id: externalId });
+  return { ok: true, customer_key };
+}
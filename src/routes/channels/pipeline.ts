@@ -0,0 +1,214 @@
+// src/routes/channels/pipeline.ts
+import { ingestCoreFromMessage } from "../ingestCore";
+import {
+  claimInboundMessage,
+  markInboundDone,
+  markInboundReplied,
+} from "../waba/dedup";
+import { logInboundMessageToInbox, logOutboundMessageToInbox } from "./inboxLog";
+import { resolveCustomerKey } from "./identity";
+import type {
+  ChannelAdapter,
+  ChannelOrg,
+  ChannelSendResult,
+  InboundEnvelope,
+  OutboundChannelMessage,
+} from "./types";
+
+/**
+ * Inbound message → dedup → inbox → AI → reply, for any channel.
+ * waba_inbound_dedup is shared: WhatsApp keeps the bare wamid (existing rows),
+ * other channels are prefixed so ids can't collide.
+ */
+export function dedupKey(env: Pick<InboundEnvelope, "channel" | "id">): string {
+  return env.channel === "waba" ? env.id : `${env.channel}:${env.id}`;
+}
+
+// adapter.send + inbox row (WhatsApp's outbox writes its own row)
+export async function sendOnChannel(
+  adapter: ChannelAdapter,
+  org: ChannelOrg,
+  target: { external_id: string; customer_key: string },
+  msg: OutboundChannelMessage
+): Promise<ChannelSendResult> {
+  const res = await adapter.send(org, target.external_id, msg);
+
+  if (adapter.channel !== "waba") {
+    await logOutboundMessageToInbox({
+      orgId: org.id,
+      to: target.customer_key,
+      body: msg.image ? `[image sent] ${msg.text || ""}` : msg.text,
+      channel: adapter.channel,
+      senderType: msg.senderType,
+      deliveryStatus: res.ok ? "sent" : "failed",
+      deliveryError: res.ok ? null : res.error || null,
+    });
+  }
+
+  return res;
+}
+
+export type ChannelProcessResult = {
+  handled: boolean;
+  reason?: string;
+  customer_key?: string;
+  reply?: string | null;
+  order_id?: string | null;
+};
+
+export async function processChannelMessage(
+  adapter: ChannelAdapter,
+  org: ChannelOrg,
+  env: InboundEnvelope
+): Promise<ChannelProcessResult> {
+  const tag = env.channel.toUpperCase();
+  const key = dedupKey(env);
+  let claimed = false;
+
+  try {
+    // 🔁 Dedup (BEFORE any download / AI work)
+    const claim = await claimInboundMessage({
+      orgId: org.id,
+      waMsgId: key,
+      from: env.external_id,
+    });
+
+    if (!claim.claimed) {
+      console.log(`[${tag}][DEDUP] skipping already-seen msg`, {
+        msgId: key,
+        reason: claim.reason,
+      });
+      return { handled: false, reason: "duplicate" };
+    }
+    claimed = true;
+
+    // A previous (crashed) attempt already replied → don't run again
+    if (claim.alreadyReplied) {
+      console.log(`[${tag}][DEDUP] already replied, skipping retry`, key);
+      return { handled: false, reason: "already_replied" };
+    }
+
+    // 🧩 Channel-specific normalize (text, location, buttons, media…)
+    const msg = await adapter.normalize(org, env);
+    if (!msg) return { handled: false, reason: "unsupported_type" };
+
+    const customerKey = await resolveCustomerKey(org.id, msg);
+
+    console.log("[FLOW][INCOMING][V2]", {
+      org_id: org.id,
+      channel: msg.channel,
+      from: customerKey,
+      msgId: msg.id,
+      text: msg.text,
+      location_lat: msg.location_lat ?? null,
+      location_lng: msg.location_lng ?? null,
+    });
+
+    await logInboundMessageToInbox({
+      orgId: org.id,
+      from: customerKey,
+      text: msg.inbox_text || msg.text || "[non-text message]",
+      msgId: msg.id,
+      media: msg.media,
+      channel: msg.channel,
+      customerName: msg.name,
+    });
+
+    // 🛑 1) Hard block: org.disabled → no AI, no outgoing
+    if (org.is_disabled) {
+      console.log(`[${tag}] org is_disabled, skipping AI + reply`, {
+        org_id: org.id,
+      });
+      return { handled: false, reason: "org_disabled", customer_key: customerKey };
+    }
+
+    // 🧭 2) Ingest mode guard (WhatsApp only: local bridge orgs log but don't reply)
+    if (msg.channel === "waba" && org.ingest_mode && org.ingest_mode !== "waba") {
+      console.log("[WABA] org not in waba ingest_mode after log, skipping AI", {
+        org_id: org.id,
+        ingest_mode: org.ingest_mode,
+      });
+      return { handled: false, reason: "ingest_mode", customer_key: customerKey };
+    }
+
+    // ⏸ 3) Parse mode: manual = AI paused / manual mode
+    const parseMode = org.parse_mode || "ai";
+    if (parseMode !== "ai") {
+      console.log(`[${tag}] parse_mode != 'ai', skipping AI auto-reply`, {
+        org_id: org.id,
+        parse_mode: parseMode,
+      });
+      return { handled: false, reason: "parse_mode", customer_key: customerKey };
+    }
+
+    // 🔕 4) Auto-reply toggle: logs ok, but no automatic replies
+    if (!org.auto_reply_enabled) {
+      console.log(`[${tag}] auto_reply disabled for org, logging only`, org.id);
+      return { handled: false, reason: "auto_reply_off", customer_key: customerKey };
+    }
+
+    // 🧠 5) Single call into the AI / order brain
+    const result = await ingestCoreFromMessage({
+      org_id: org.id,
+      text: msg.text,
+      ts: msg.ts,
+      from_phone: customerKey,
+      from_name: msg.name || null,
+      msg_id: msg.id,
+      source: msg.channel,
+      location_lat: msg.location_lat ?? null,
+      location_lng: msg.location_lng ?? null,
+      media: msg.media ?? null,
+    });
+
+    console.log(`[${tag}][INGEST_RESULT][V2]`, {
+      org_id: org.id,
+      from: customerKey,
+      msgId: msg.id,
+      kind: result?.kind,
+      reason: result?.reason,
+      order_id: result?.order_id,
+      stored: result?.stored,
+      image: result?.image || null,
+    });
+
+    const reply =
+      typeof result?.reply === "string" && result.reply.trim()
+        ? result.reply.trim()
+        : null;
+
+    if (reply) {
+      await sendOnChannel(
+        adapter,
+        org,
+        { external_id: msg.external_id, customer_key: customerKey },
+        {
+          text: reply,
+          image: result?.image || null,
+          interactive: result?.interactive || null,
+          senderType: "ai",
+        }
+      );
+      await markInboundReplied(key);
+
+      console.log(`[${tag}][AUTO_REPLY][V2]`, {
+        org_id: org.id,
+        from: customerKey,
+        msgId: msg.id,
+        replyPreview: reply.slice(0, 150),
+      });
+    }
+
+    return {
+      handled: true,
+      customer_key: customerKey,
+      reply,
+      order_id: result?.order_id ?? null,
+    };
+  } catch (e: any) {
+    console.error(`[${tag}][MSG_ERR]`, e?.message || e);
+    return { handled: false, reason: "error" };
+  } finally {
+    if (claimed) await markInboundDone(key);
+  }
+}
@@ -0,0 +1,336 @@
+// src/routes/channels/telegramAdapter.ts
+import axios from "axios";
+import crypto from "crypto";
+import { transcribeAudio } from "../../ai/lang/transcribe";
+import type { InboundMedia, InteractiveReply } from "../../ai/ingest/types";
+import {
+  extFromMime,
+  uploadMediaToStorage,
+  WA_MEDIA_BUCKET,
+  WA_VOICE_BUCKET,
+} from "../waba/media";
+import { resolveCustomerKey } from "./identity";
+import type {
+  ChannelAdapter,
+  ChannelOrg,
+  InboundChannelMessage,
+} from "./types";
+
+/**
+ * Telegram Bot API channel.
+ *
+ * Per org: `orgs.telegram_bot_token` + `orgs.telegram_webhook_secret`.
+ * Webhook: POST /api/channels/telegram/:orgId, registered with setWebhook
+ * (secret_token → X-Telegram-Bot-Api-Secret-Token on every update).
+ *
+ * Menus go out as inline keyboards whose callback_data is the option id
+ * ("1", "2"…), so engines see the same text as on WhatsApp.
+ */
+
+const TG_API = "https://api.telegram.org";
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+
+const tgUrl = (token: string, method: string) => `${TG_API}/bot${token}/${method}`;
+
+export async function callTelegram(
+  token: string,
+  method: string,
+  body: Record<string, any>
+): Promise<any> {
+  const resp = await axios.post(tgUrl(token, method), body, { timeout: 15000 });
+  if (!resp.data?.ok) {
+    throw new Error(resp.data?.description || `telegram_${method}_failed`);
+  }
+  return resp.data.result;
+}
+
+// file_id → bytes (getFile + download)
+async function downloadTelegramFile(token: string, fileId: string) {
+  const file = await callTelegram(token, "getFile", { file_id: fileId });
+  if (!file?.file_path) throw new Error("telegram getFile: no file_path");
+  if (file.file_size && Number(file.file_size) > MAX_MEDIA_BYTES) {
+    throw new Error(`telegram file too large: ${file.file_size} bytes`);
+  }
+
+  const bin = await axios.get(`${TG_API}/file/bot${token}/${file.file_path}`, {
+    responseType: "arraybuffer",
+    timeout: 30000,
+    maxContentLength: MAX_MEDIA_BYTES,
+  });
+  return Buffer.from(bin.data);
+}
+
+// inline keyboard for our button / list menus
+export function buildInlineKeyboard(interactive?: InteractiveReply | null): any | null {
+  if (!interactive) return null;
+
+  const options =
+    interactive.type === "button"
+      ? interactive.buttons
+      : interactive.sections.flatMap((s) => s.rows);
+
+  if (!options.length) return null;
+
+  return {
+    inline_keyboard: options.map((o) => [
+      { text: o.title.slice(0, 64), callback_data: o.id.slice(0, 64) },
+    ]),
+  };
+}
+
+function buttonTitle(message: any, data: string): string | null {
+  const rows: any[][] = message?.reply_markup?.inline_keyboard || [];
+  for (const row of rows) {
+    for (const b of row) if (b?.callback_data === data) return String(b.text || "");
+  }
+  return null;
+}
+
+function displayName(from: any): string | null {
+  const name = [from?.first_name, from?.last_name].filter(Boolean).join(" ").trim();
+  return name || from?.username || null;
+}
+
+export const telegramAdapter: ChannelAdapter = {
+  channel: "telegram",
+
+  async verify(req, org) {
+    const expected = String(org.telegram_webhook_secret || "");
+    if (!expected) return { ok: false, reason: "no_secret_configured" };
+
+    const given = String(req.headers["x-telegram-bot-api-secret-token"] || "");
+    const a = Buffer.from(expected, "utf8");
+    const b = Buffer.from(given, "utf8");
+    const ok = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return ok ? { ok } : { ok, reason: given ? "secret_mismatch" : "missing_secret" };
+  },
+
+  parseInbound(req) {
+    const update = req.body || {};
+    const message = update.message || update.callback_query?.message;
+    const chatId = message?.chat?.id;
+    if (update.update_id == null || chatId == null) return [];
+
+    return [
+      {
+        channel: "telegram",
+        id: String(update.update_id),
+        external_id: String(chatId),
+        raw: update,
+      },
+    ];
+  },
+
+  async normalize(org, envelope) {
+    const update = envelope.raw || {};
+    const token = org.telegram_bot_token || "";
+
+    const base = {
+      channel: "telegram" as const,
+      id: envelope.id,
+      external_id: envelope.external_id,
+      phone: null as string | null,
+      text: "",
+      inbox_text: null as string | null,
+      ts: Date.now(),
+      location_lat: null as number | null,
+      location_lng: null as number | null,
+      media: null as InboundMedia | null,
+    };
+
+    // Inline keyboard press → the option id, as if typed
+    if (update.callback_query) {
+      const cq = update.callback_query;
+      const data = String(cq.data || "");
+      if (token) {
+        callTelegram(token, "answerCallbackQuery", {
+          callback_query_id: cq.id,
+        }).catch((e) =>
+          console.warn("[TELEGRAM] answerCallbackQuery err", e?.message || e)
+        );
+      }
+      if (!data) return null;
+      return {
+        ...base,
+        name: displayName(cq.from),
+        text: data,
+        inbox_text: buttonTitle(cq.message, data) || data,
+      };
+    }
+
+    const m = update.message;
+    if (!m) return null;
+
+    const msg: InboundChannelMessage = {
+      ...base,
+      name: displayName(m.from),
+      ts: Number(m.date || Date.now() / 1000) * 1000,
+    };
+
+    if (typeof m.text === "string") {
+      msg.text = m.text.trim();
+      // /start from the bot link – greet like a "hi"
+      if (msg.text === "/start") msg.text = "hi";
+      return msg.text ? msg : null;
+    }
+
+    if (m.location) {
+      msg.location_lat = m.location.latitude ?? null;
+      msg.location_lng = m.location.longitude ?? null;
+      return msg;
+    }
+
+    // Shared phone → link this chat to the customer's WhatsApp conversation.
+    // Only the sender's own contact card proves the number is theirs
+    // (a forwarded / typed-in contact has another user_id or none).
+    if (m.contact?.phone_number) {
+      const own = !!m.from?.id && String(m.contact.user_id ?? "") === String(m.from.id);
+      if (own) {
+        await resolveCustomerKey(org.id, {
+          channel: "telegram",
+          external_id: envelope.external_id,
+          phone: String(m.contact.phone_number),
+          phone_verified: true,
+          name: msg.name,
+        });
+      } else {
+        console.warn("[TELEGRAM][CONTACT_NOT_OWN]", {
+          org_id: org.id,
+          chat_id: envelope.external_id,
+          contact_user_id: m.contact.user_id ?? null,
+        });
+      }
+      if (token) {
+        await callTelegram(token, "sendMessage", {
+          chat_id: envelope.external_id,
+          text: own
+            ? "✅ Thanks! Your number is linked — you can continue your order here."
+            : "⚠️ That isn’t your own number. Please share your own contact (📎 → Contact → your number) to link it.",
+        }).catch((e) => console.warn("[TELEGRAM] contact ack err", e?.message || e));
+      }
+      return null;
+    }
+
+    if (!token) return null;
+
+    // Voice note → transcript
+    const voice = m.voice || m.audio;
+    if (voice?.file_id) {
+      try {
+        const buffer = await downloadTelegramFile(token, voice.file_id);
+        const mime = voice.mime_type || "audio/ogg";
+        const url = await uploadMediaToStorage(
+          WA_VOICE_BUCKET,
+          org.id,
+          buffer,
+          mime,
+          extFromMime(mime)
+        );
+        const stt = await transcribeAudio({
+          buffer,
+          mimeType: mime,
+          mediaId: voice.file_unique_id || voice.file_id,
+        });
+        msg.media = {
+          kind: "audio",
+          url,
+          mime_type: mime,
+          wa_media_id: null,
+          transcript: stt?.text || null,
+        };
+        msg.text = stt?.text || "";
+        msg.inbox_text = msg.text ? `🎤 ${msg.text}` : "[voice note]";
+      } catch (e: any) {
+        console.warn("[TELEGRAM][VOICE_ERR]", e?.message || e);
+        msg.inbox_text = "[voice note]";
+      }
+      return msg;
+    }
+
+    // Photo (largest size) / document → stored like WhatsApp media
+    const photo = Array.isArray(m.photo) ? m.photo[m.photo.length - 1] : null;
+    const doc = m.document;
+    const fileId = photo?.file_id || doc?.file_id;
+    if (fileId) {
+      const kind = photo ? "image" : "document";
+      const mime = photo ? "image/jpeg" : doc?.mime_type || "application/octet-stream";
+      msg.text = String(m.caption || "").trim();
+      try {
+        const buffer = await downloadTelegramFile(token, fileId);
+        const url = await uploadMediaToStorage(
+          WA_MEDIA_BUCKET,
+          org.id,
+          buffer,
+          mime,
+          extFromMime(mime)
+        );
+        msg.media = {
+          kind,
+          url,
+          mime_type: mime,
+          wa_media_id: null,
+          caption: msg.text || null,
+          filename: doc?.file_name || null,
+        };
+      } catch (e: any) {
+        console.warn("[TELEGRAM][MEDIA_ERR]", e?.message || e);
+      }
+      msg.inbox_text =
+        msg.text || (kind === "image" ? "[image]" : `[document] ${doc?.file_name || ""}`.trim());
+      return msg;
+    }
+
+    return null;
+  },
+
+  async send(org, to, msg) {
+    const token = org.telegram_bot_token;
+    if (!token) return { ok: false, error: "org_missing_telegram_bot_token" };
+
+    const reply_markup = buildInlineKeyboard(msg.interactive);
+
+    try {
+      const result = msg.image
+        ? await callTelegram(token, "sendPhoto", {
+            chat_id: to,
+            photo: msg.image,
+            caption: (msg.text || "").slice(0, 1024),
+            ...(reply_markup ? { reply_markup } : {}),
+          })
+        : await callTelegram(token, "sendMessage", {
+            chat_id: to,
+            text: (msg.text || "").slice(0, 4096),
+            ...(reply_markup ? { reply_markup } : {}),
+          });
+
+      return { ok: true, id: String(result?.message_id ?? ""), status: "sent" };
+    } catch (e: any) {
+      const error = e?.response?.data?.description || e?.message || String(e);
+      console.warn("[TELEGRAM][SEND_ERR]", { org_id: org.id, to, error });
+      return { ok: false, status: "failed", error };
+    }
+  },
+};
+
+// Point the bot's webhook at us (secret_token is echoed back on every update)
+export async function registerTelegramWebhook(
+  org: ChannelOrg,
+  publicBaseUrl: string
+): Promise<{ ok: boolean; url?: string; error?: string }> {
+  if (!org.telegram_bot_token) return { ok: false, error: "org_missing_telegram_bot_token" };
+  if (!org.telegram_webhook_secret) {
+    return { ok: false, error: "org_missing_telegram_webhook_secret" };
+  }
+
+  const url = `${publicBaseUrl.replace(/\/+$/, "")}/api/channels/telegram/${org.id}`;
+  try {
+    await callTelegram(org.telegram_bot_token, "setWebhook", {
+      url,
+      secret_token: org.telegram_webhook_secret,
+      allowed_updates: ["message", "callback_query"],
+    });
+    return { ok: true, url };
+  } catch (e: any) {
+    return { ok: false, error: e?.response?.data?.description || e?.message || String(e) };
+  }
+}
@@ -0,0 +1,106 @@
+// src/routes/channels/types.ts
+import type { Request } from "express";
+import type { InboundMedia, InteractiveReply } from "../../ai/ingest/types";
+
+/**
+ * One messaging channel (WhatsApp, Telegram, web chat…) behind a common shape.
+ *
+ * Inbound: webhook body → envelopes (cheap) → shared pipeline (pipeline.ts):
+ * dedup claim → adapter.normalize (may download media) → inbox →
+ * ingestCoreFromMessage → adapter.send(reply).
+ * Outbound: the engine's reply → adapter.send() in the channel's own format.
+ *
+ * Conversation state + inbox are keyed by `customer_key` (see identity.ts),
+ * so a customer who links their phone sees one conversation across channels.
+ */
+
+export type ChannelName = "waba" | "telegram" | "web";
+
+// org columns the adapters need (select in CHANNEL_ORG_COLUMNS)
+export type ChannelOrg = {
+  id: string;
+  name?: string | null;
+  is_disabled?: boolean | null;
+  auto_reply_enabled?: boolean | null;
+  parse_mode?: string | null;
+  ingest_mode?: string | null;
+  wa_phone_number_id?: string | null;
+  wa_access_token?: string | null;
+  telegram_bot_token?: string | null;
+  telegram_webhook_secret?: string | null;
+  webchat_secret?: string | null;
+};
+
+export const CHANNEL_ORG_COLUMNS =
+  "id, name, is_disabled, auto_reply_enabled, parse_mode, ingest_mode, wa_phone_number_id, wa_access_token, telegram_bot_token, telegram_webhook_secret, webchat_secret";
+
+// One inbound webhook item before any I/O (dedup happens on this)
+export type InboundEnvelope = {
+  channel: ChannelName;
+  id: string;
+  external_id: string;
+  raw: any;
+};
+
+export type InboundChannelMessage = {
+  channel: ChannelName;
+  // channel-native message id (see dedupKey in pipeline.ts)
+  id: string;
+  // channel-native sender id (phone for WABA, chat id for Telegram, session for web)
+  external_id: string;
+  // phone number if the channel shares one (WABA always, Telegram on contact share)
+  phone?: string | null;
+  // the sender proved it's their number (WABA itself, Telegram own contact,
+  // signed web request, web OTP) – only then is it linked, see identity.ts
+  phone_verified?: boolean;
+  name?: string | null;
+  text: string;
+  // what the inbox shows (e.g. button title instead of "1")
+  inbox_text?: string | null;
+  ts: number;
+  location_lat?: number | null;
+  location_lng?: number | null;
+  media?: InboundMedia | null;
+};
+
+export type OutboundChannelMessage = {
+  text: string;
+  image?: string | null;
+  interactive?: InteractiveReply | null;
+  senderType?: "ai" | "store" | "system";
+};
+
+export type ChannelSendResult = {
+  ok: boolean;
+  id?: string | null;
+  status?: string | null;
+  error?: string;
+};
+
+export type ChannelVerifyResult = {
+  ok: boolean;
+  reason?: string;
+};
+
+export interface ChannelAdapter {
+  readonly channel: ChannelName;
+
+  // Authenticity of the webhook call (signature / shared secret)
+  verify(req: Request, org: ChannelOrg): Promise<ChannelVerifyResult>;
+
+  // Webhook body → envelopes (may be empty, e.g. edits / joins)
+  parseInbound(req: Request, org: ChannelOrg): InboundEnvelope[];
+
+  // Envelope → message for ingest; null = type we don't handle
+  normalize(
+    org: ChannelOrg,
+    envelope: InboundEnvelope
+  ): Promise<InboundChannelMessage | null>;
+
+  // `to` is the channel-native recipient (external_id)
+  send(
+    org: ChannelOrg,
+    to: string,
+    msg: OutboundChannelMessage
+  ): Promise<ChannelSendResult>;
+}
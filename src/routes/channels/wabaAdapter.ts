@@ -0,0 +1,199 @@
+// src/routes/channels/wabaAdapter.ts
+import { parseInteractiveReply, sendWabaText } from "../waba";
+import { checkWabaWebhookRequest } from "../waba/signature";
+import {
+  isVoiceMessage,
+  storeInboundMedia,
+  storeInboundVoiceNote,
+  type StoredMedia,
+} from "../waba/media";
+import type {
+  ChannelAdapter,
+  ChannelOrg,
+  InboundChannelMessage,
+  InboundEnvelope,
+} from "./types";
+
+/**
+ * WhatsApp Cloud API as a channel. waba.ts still owns the webhook route
+ * (org lookup by phone_number_id, delivery statuses) and hands each message
+ * to the shared pipeline through this adapter.
+ */
+
+// One Cloud API `messages[]` entry → message for ingest
+export async function normalizeWabaMessage(
+  org: ChannelOrg,
+  msg: any
+): Promise<InboundChannelMessage | null> {
+  const from = String(msg?.from || "");
+  const msgId = String(msg?.id || "");
+  const msgType = msg?.type as string;
+
+  let text = "";
+  let inboxText: string | null = null; // what the inbox shows (button title)
+  let location_lat: number | null = null;
+  let location_lng: number | null = null;
+  let media: StoredMedia | null = null;
+
+  if (msgType === "text") {
+    text = (msg.text?.body || "").trim();
+    // empty text – ignore
+    if (!text) return null;
+  } else if (msgType === "location") {
+    text = ""; // addressEngine will use coords only
+    location_lat = msg.location?.latitude ?? null;
+    location_lng = msg.location?.longitude ?? null;
+    console.log("[WABA][LOCATION_MSG]", {
+      from,
+      msgId,
+      location_lat,
+      location_lng,
+    });
+  } else if (msgType === "interactive" || msgType === "button") {
+    const choice = parseInteractiveReply(msg);
+    if (!choice) {
+      console.log("[WABA][INTERACTIVE] unsupported reply", {
+        from,
+        msgId,
+        interactiveType: msg.interactive?.type || null,
+      });
+      return null;
+    }
+    // engines receive the choice id ("1", "2"…) exactly as if typed
+    text = choice.id;
+    inboxText = choice.title;
+    console.log("[WABA][INTERACTIVE_REPLY]", {
+      from,
+      msgId,
+      id: choice.id,
+      title: choice.title,
+    });
+  } else if (isVoiceMessage(msg)) {
+    // voice note → transcript is what the engines see
+    try {
+      media = await storeInboundVoiceNote({
+        orgId: org.id,
+        accessToken: org.wa_access_token || "",
+        msg,
+      });
+    } catch (e: any) {
+      console.warn("[WABA][VOICE_ERR]", {
+        msgId,
+        err: e?.message || e,
+      });
+    }
+    text = media?.transcript || "";
+    inboxText = text ? `🎤 ${text}` : "[voice note]";
+    console.log("[WABA][VOICE_MSG]", {
+      from,
+      msgId,
+      stored: !!media,
+      transcribed: !!text,
+    });
+  } else if (msgType === "image" || msgType === "document") {
+    // payment screenshots, handwritten lists, PDFs
+    try {
+      media = await storeInboundMedia({
+        orgId: org.id,
+        accessToken: org.wa_access_token || "",
+        msg,
+      });
+    } catch (e: any) {
+      console.warn("[WABA][MEDIA_ERR]", {
+        msgId,
+        type: msgType,
+        err: e?.message || e,
+      });
+    }
+    text = media?.caption || msg[msgType]?.caption?.trim() || "";
+    inboxText =
+      text ||
+      (msgType === "image"
+        ? "[image]"
+        : `[document] ${msg.document?.filename || ""}`.trim());
+    console.log("[WABA][MEDIA_MSG]", {
+      from,
+      msgId,
+      type: msgType,
+      stored: !!media,
+    });
+  } else {
+    // ignore other types for now (stickers, contacts, etc.)
+    return null;
+  }
+
+  return {
+    channel: "waba",
+    id: msgId,
+    external_id: from,
+    phone: from,
+    name: null,
+    text,
+    inbox_text: inboxText,
+    ts: Number(msg.timestamp || Date.now() / 1000) * 1000,
+    location_lat,
+    location_lng,
+    media,
+  };
+}
+
+export const wabaAdapter: ChannelAdapter = {
+  channel: "waba",
+
+  async verify(req) {
+    const check = await checkWabaWebhookRequest(req as any);
+    return { ok: check.ok, reason: check.reason };
+  },
+
+  parseInbound(req, org) {
+    const out: InboundEnvelope[] = [];
+    for (const entry of req.body?.entry || []) {
+      for (const change of entry.changes || []) {
+        const value = change.value || {};
+        if (
+          org.wa_phone_number_id &&
+          value.metadata?.phone_number_id !== org.wa_phone_number_id
+        ) {
+          continue;
+        }
+        for (const msg of value.messages || []) {
+          out.push({
+            channel: "waba",
+            id: String(msg.id),
+            external_id: String(msg.from),
+            raw: msg,
+          });
+        }
+      }
+    }
+    return out;
+  },
+
+  normalize(org, envelope) {
+    return normalizeWabaMessage(org, envelope.raw);
+  },
+
+  async send(org, to, msg) {
+    if (!org.wa_phone_number_id) {
+      return { ok: false, error: "org_missing_wa_phone_number_id" };
+    }
+
+    const queued = await sendWabaText({
+      phoneNumberId: org.wa_phone_number_id,
+      to,
+      orgId: org.id,
+      text: msg.text,
+      image: msg.image || undefined,
+      caption: msg.text,
+      interactive: msg.interactive || null,
+      senderType: msg.senderType,
+    });
+
+    if (!queued) return { ok: false, error: "send_blocked" };
+    return {
+      ok: !!queued.id && queued.status !== "failed",
+      id: queued.id,
+      status: queued.status,
+    };
+  },
+};
@@ -0,0 +1,151 @@
+// src/routes/channels/webChatAdapter.ts
+import crypto from "crypto";
+import type { InboundMedia } from "../../ai/ingest/types";
+import type {
+  ChannelAdapter,
+  InboundChannelMessage,
+  OutboundChannelMessage,
+} from "./types";
+
+/**
+ * Generic JSON web-chat channel (site widget, mobile app, kiosk…).
+ *
+ * POST /api/channels/web/:orgId/messages
+ *   { session_id, message_id?, text?, name?, phone?,
+ *     choice?: { id, title },            -- tapped menu option
+ *     location?: { lat, lng },
+ *     media?: { kind, url, mime_type } } -- already uploaded by the client
+ *   → { ok, customer_key, replies: [{ text, image, interactive }] }
+ *
+ * If `orgs.webchat_secret` is set the raw body must be signed:
+ *   X-Signature: hex(HMAC-SHA256(webchat_secret, body))
+ * (for server-to-server clients; a public widget leaves it empty).
+ * Without a signature the first response carries `session_token`, which
+ * every later request for that session sends as X-Session-Token.
+ *
+ * `phone` is only linked (see identity.ts) on signed requests – the calling
+ * server vouches for it. A public widget proves the number with a WhatsApp
+ * code instead: POST …/phone/start, then …/phone/verify (phoneVerification.ts).
+ *
+ * There is no push: replies produced while handling the request are returned
+ * in the response, later ones (store replies) via GET …/messages?session_id=.
+ */
+
+export type WebChatReply = {
+  text: string;
+  image: string | null;
+  interactive: OutboundChannelMessage["interactive"] | null;
+};
+
+// replies collected while a request is being processed (org:session → replies)
+const pendingReplies = new Map<string, WebChatReply[]>();
+
+const replyKey = (orgId: string, sessionId: string) => `${orgId}:${sessionId}`;
+
+export function beginWebChatTurn(orgId: string, sessionId: string) {
+  pendingReplies.set(replyKey(orgId, sessionId), []);
+}
+
+export function endWebChatTurn(orgId: string, sessionId: string): WebChatReply[] {
+  const key = replyKey(orgId, sessionId);
+  const out = pendingReplies.get(key) || [];
+  pendingReplies.delete(key);
+  return out;
+}
+
+export function signWebChatBody(body: string | Buffer, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export const webChatAdapter: ChannelAdapter = {
+  channel: "web",
+
+  async verify(req, org) {
+    const secret = String(org.webchat_secret || "");
+    if (!secret) return { ok: true };
+
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    const given = String(req.headers["x-signature"] || "").replace(/^sha256=/, "");
+    if (!rawBody || !given) return { ok: false, reason: "missing_signature" };
+
+    const a = Buffer.from(signWebChatBody(rawBody, secret), "utf8");
+    const b = Buffer.from(given, "utf8");
+    const ok = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return ok ? { ok } : { ok, reason: "bad_signature" };
+  },
+
+  parseInbound(req) {
+    const body = req.body || {};
+    const sessionId = String(body.session_id || "").trim();
+    if (!sessionId) return [];
+
+    return [
+      {
+        channel: "web",
+        id: String(body.message_id || crypto.randomUUID()),
+        external_id: sessionId.slice(0, 128),
+        raw: body,
+      },
+    ];
+  },
+
+  async normalize(org, envelope) {
+    const body = envelope.raw || {};
+
+    const msg: InboundChannelMessage = {
+      channel: "web",
+      id: envelope.id,
+      external_id: envelope.external_id,
+      phone: body.phone ? String(body.phone) : null,
+      // verify() already checked the signature when a secret is set
+      phone_verified: !!org.webchat_secret,
+      name: body.name ? String(body.name).slice(0, 80) : null,
+      text: String(body.text || "").trim(),
+      inbox_text: null,
+      ts: Date.now(),
+      location_lat: null,
+      location_lng: null,
+      media: null,
+    };
+
+    if (body.choice?.id) {
+      msg.text = String(body.choice.id);
+      msg.inbox_text = String(body.choice.title || body.choice.id);
+    }
+
+    const lat = Number(body.location?.lat);
+    const lng = Number(body.location?.lng);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      msg.location_lat = lat;
+      msg.location_lng = lng;
+    }
+
+    const kind = body.media?.kind;
+    if (body.media?.url && (kind === "image" || kind === "document")) {
+      msg.media = {
+        kind,
+        url: String(body.media.url),
+        mime_type: String(body.media.mime_type || "application/octet-stream"),
+        caption: msg.text || null,
+      } as InboundMedia;
+      if (!msg.inbox_text && !msg.text) msg.inbox_text = `[${kind}]`;
+    }
+
+    const hasContent = !!msg.text || msg.location_lat != null || !!msg.media;
+    return hasContent ? msg : null;
+  },
+
+  async send(org, to, msg) {
+    const reply: WebChatReply = {
+      text: msg.text,
+      image: msg.image || null,
+      interactive: msg.interactive || null,
+    };
+
+    const list = pendingReplies.get(replyKey(org.id, to));
+    if (list) list.push(reply);
+
+    // outside a request (store reply) the client picks it up from the inbox
+    return { ok: true, status: list ? "sent" : "stored" };
+  },
+};
@@ -0,0 +1,152 @@
+// src/routes/devWabaSimulator.ts
+import express from "express";
+import { USE_MEMORY_DB } from "../db";
+import { memoryDb } from "../db/memoryStore";
+import {
+  WABA_SIMULATOR_ENABLED,
+  clearSimTranscript,
+  getSimTranscript,
+  listSimFixtures,
+  loadSimFixture,
+  runSimFixture,
+  simulateInbound,
+  type SimInbound,
+} from "./waba/simulator";
+
+/**
+ * Dev-only WhatsApp simulator (mounted when WABA_SIMULATOR=1, never in production).
+ *
+ *   POST   /api/dev/waba-sim/send                 customer → webhook { phone_number_id, customer, text | tap | location | image }
+ *   GET    /api/dev/waba-sim/transcript           ?phone_number_id&customer&after=<seq>
+ *   DELETE /api/dev/waba-sim/transcript
+ *   GET    /api/dev/waba-sim/fixtures             fixture names (fixtures/waba-sim/*.json)
+ *   POST   /api/dev/waba-sim/fixtures/run         { names?: string[] } → all when omitted
+ *   POST   /api/dev/waba-sim/fixtures/:name/run
+ *   POST   /api/dev/waba-sim/db/seed              { reset?: boolean, tables: { table: rows[] } }   (DB_MODE=memory)
+ *   GET    /api/dev/waba-sim/db/:table            dump a table                                      (DB_MODE=memory)
+ */
+export const devWabaSimulator = express.Router();
+
+devWabaSimulator.use((_req, res, next) => {
+  if (!WABA_SIMULATOR_ENABLED) return res.status(404).json({ ok: false, error: "not_found" });
+  next();
+});
+
+function pickInbound(body: any): SimInbound | null {
+  if (typeof body?.text === "string") return { text: body.text };
+  if (body?.tap != null) return { tap: String(body.tap) };
+  if (body?.location?.lat != null && body?.location?.lng != null) {
+    return {
+      location: {
+        lat: Number(body.location.lat),
+        lng: Number(body.location.lng),
+        name: body.location.name,
+        address: body.location.address,
+      },
+    };
+  }
+  if (body?.image) return { image: { caption: body.image.caption, mime_type: body.image.mime_type } };
+  return null;
+}
+
+devWabaSimulator.get("/", (_req, res) => {
+  return res.json({
+    ok: true,
+    memory_db: USE_MEMORY_DB,
+    fixtures: listSimFixtures(),
+  });
+});
+
+devWabaSimulator.post("/send", async (req, res) => {
+  try {
+    const phoneNumberId = String(req.body?.phone_number_id || "").trim();
+    const customer = String(req.body?.customer || "").trim();
+    const input = pickInbound(req.body);
+
+    if (!phoneNumberId || !customer || !input) {
+      return res.status(400).json({
+        ok: false,
+        error: "phone_number_id, customer and one of text | tap | location | image are required",
+      });
+    }
+
+    const out = await simulateInbound({
+      phoneNumberId,
+      customer,
+      name: req.body?.name || null,
+      input,
+    });
+
+    return res.json({ ok: out.status === 200, webhook_status: out.status, ...out });
+  } catch (e: any) {
+    console.error("[WABA_SIM][send] err:", e?.message || e);
+    return res.status(400).json({ ok: false, error: e?.message || "sim_send_failed" });
+  }
+});
+
+devWabaSimulator.get("/transcript", (req, res) => {
+  const after = req.query.after != null ? Number(req.query.after) : undefined;
+  const items = getSimTranscript({
+    phoneNumberId: req.query.phone_number_id ? String(req.query.phone_number_id) : undefined,
+    customer: req.query.customer ? String(req.query.customer) : undefined,
+    afterSeq: Number.isFinite(after) ? after : undefined,
+  });
+  return res.json({ ok: true, items });
+});
+
+devWabaSimulator.delete("/transcript", (_req, res) => {
+  clearSimTranscript();
+  return res.json({ ok: true });
+});
+
+devWabaSimulator.get("/fixtures", (_req, res) => {
+  return res.json({ ok: true, items: listSimFixtures() });
+});
+
+devWabaSimulator.post("/fixtures/run", async (req, res) => {
+  try {
+    const names: string[] = Array.isArray(req.body?.names) && req.body.names.length
+      ? req.body.names.map(String)
+      : listSimFixtures();
+
+    const results = [];
+    for (const name of names) {
+      results.push(await runSimFixture(loadSimFixture(name)));
+    }
+
+    const ok = results.every((r) => r.ok);
+    return res.status(ok ? 200 : 422).json({
+      ok,
+      passed: results.filter((r) => r.ok).length,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (e: any) {
+    console.error("[WABA_SIM][fixtures/run] err:", e?.message || e);
+    return res.status(400).json({ ok: false, error: e?.message || "fixture_run_failed" });
+  }
+});
+
+devWabaSimulator.post("/fixtures/:name/run", async (req, res) => {
+  try {
+    const result = await runSimFixture(loadSimFixture(req.params.name));
+    return res.status(result.ok ? 200 : 422).json({ ok: result.ok, result });
+  } catch (e: any) {
+    console.error("[WABA_SIM][fixture run] err:", e?.message || e);
+    return res.status(400).json({ ok: false, error: e?.message || "fixture_run_failed" });
+  }
+});
+
+devWabaSimulator.post("/db/seed", (req, res) => {
+  if (!USE_MEMORY_DB) return res.status(409).json({ ok: false, error: "db_mode_not_memory" });
+  if (req.body?.reset) memoryDb.reset();
+  memoryDb.seed(req.body?.tables || {});
+  return res.json({ ok: true });
+});
+
+devWabaSimulator.get("/db/:table", (req, res) => {
+  if (!USE_MEMORY_DB) return res.status(409).json({ ok: false, error: "db_mode_not_memory" });
+  return res.json({ ok: true, items: memoryDb.dump(req.params.table) });
+});
+
+export default devWabaSimulator;
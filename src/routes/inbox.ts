@@ -1,16 +1,17 @@
 // src/routes/inbox.ts
 import express from "express";
 import jwt from "jsonwebtoken";
-import axios from "axios";
 import { supa } from "../db";
 import { interpretMessage } from "../ai/interpreter";
 import { normalizePhoneForKey, findActiveOrderForPhone } 
   from "./waba/clarifyAddress";
 import { getConversationState } from "../util/conversationState";
+import { enqueueWabaMessage } from "./waba/outbox";
+import { findCustomerChannel, sendToCustomer } from "./channels";
+import { emitOrderEvent } from "./realtimeOrders";
 
 export const inbox = express.Router();
 
-const META_WA_BASE = "https://graph.facebook.com/v21.0";
 const META_WA_TOKEN = process.env.META_WA_TOKEN || process.env.WA_ACCESS_TOKEN || "";
 
 type JwtPayload = {
@@ -95,7 +96,9 @@ inbox.get("/conversations/:conversationId/messages", async (req, res) => {
   try {
     const { data, error } = await supa
       .from("messages")
-      .select("id, created_at, direction, sender_type, channel, body, wa_msg_id")
+      .select(
+        "id, created_at, direction, sender_type, channel, body, wa_msg_id, delivery_status, delivery_status_at, delivery_error, media_url, media_type, media_mime, transcript"
+      )
       .eq("org_id", orgId)
       .eq("conversation_id", conversationId)
       .order("created_at", { ascending: true });
@@ -149,6 +152,34 @@ inbox.post("/send", express.json(), async (req, res) => {
     const waToken = String((orgRow as any).wa_access_token || "").trim();
     const isDisabled = !!(orgRow as any).is_disabled;
 
+    // Telegram / web chat customers → reply on their own channel
+    const target = await findCustomerChannel(orgId, phoneRaw);
+    if (target.channel !== "waba") {
+      if (isDisabled) {
+        return res.status(403).json({ ok: false, error: "org_disabled" });
+      }
+
+      const sent = await sendToCustomer({
+        orgId,
+        customerKey: phoneRaw,
+        message: { text, senderType: "store" },
+      });
+
+      console.log("[INBOX][SEND]", {
+        orgId,
+        channel: target.channel,
+        to: target.external_id,
+        ok: sent.ok,
+      });
+
+      if (!sent.ok) {
+        return res
+          .status(502)
+          .json({ ok: false, error: sent.error || "send_failed", channel: target.channel });
+      }
+      return res.json({ ok: true, channel: target.channel, status: sent.status || "sent" });
+    }
+
     if (!phoneNumberId) {
       return res
         .status(400)
@@ -173,75 +204,47 @@ inbox.post("/send", express.json(), async (req, res) => {
 
     const toNorm = normE164(phoneRaw);
 
-    // Send via Cloud API (per-org token)
-    const resp = await axios.post(
-      `${META_WA_BASE}/${phoneNumberId}/messages`,
-      {
+    // Queue via outbox (retries on Meta 5xx / rate limits, tracks delivery)
+    const queued = await enqueueWabaMessage({
+      orgId,
+      phoneNumberId,
+      to: toNorm,
+      payload: {
         messaging_product: "whatsapp",
         to: toNorm,
         type: "text",
         text: { body: text },
       },
-      {
-        headers: {
-          Authorization: `Bearer ${waToken}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    const wa_msg_id =
-      resp.data?.messages && resp.data.messages[0]?.id
-        ? String(resp.data.messages[0].id)
-        : null;
-
-    console.log("[INBOX][SEND]", { orgId, to: toNorm, text });
+      preview: text,
+      inboxBody: text,
+      senderType: "store",
+      bumpConversation: true,
+    });
 
-    // Find (or create) conversation row for this phone so the web UI reflects the reply immediately
-    const { data: convRow } = await supa
-      .from("conversations")
-      .select("id")
-      .eq("org_id", orgId)
-      .eq("customer_phone", toNorm.replace(/^\+/, "")) // most rows stored without '+'
-      .limit(1)
-      .maybeSingle();
+    console.log("[INBOX][SEND]", {
+      orgId,
+      to: toNorm,
+      text,
+      outbox_id: queued.id,
+      status: queued.status,
+    });
 
-    let conversationId: string | null = convRow?.id || null;
-    if (!conversationId) {
-      const { data: convRow2 } = await supa
-        .from("conversations")
-        .select("id")
-        .eq("org_id", orgId)
-        .eq("customer_phone", toNorm)
-        .limit(1)
-        .maybeSingle();
-      conversationId = convRow2?.id || null;
-    }
-
-    // Log outbound message if we have a conversation
-    if (conversationId) {
-      await supa.from("messages").insert({
-        org_id: orgId,
-        conversation_id: conversationId,
-        direction: "out",
-        sender_type: "store", // or 'ai'
-        channel: "waba",
-        body: text,
-        wa_msg_id,
+    if (!queued.id || queued.status === "failed") {
+      return res.status(502).json({
+        ok: false,
+        error: "send_failed",
+        outbox_id: queued.id,
+        message_id: queued.message_id,
       });
-
-      // bump conversation preview
-      await supa
-        .from("conversations")
-        .update({
-          last_message_at: new Date().toISOString(),
-          last_message_preview: text.slice(0, 120),
-        })
-        .eq("id", conversationId)
-        .eq("org_id", orgId);
     }
 
-    return res.json({ ok: true });
+    return res.json({
+      ok: true,
+      outbox_id: queued.id,
+      message_id: queued.message_id,
+      // "sent" on the fast path, "queued" when it will be retried
+      status: queued.status,
+    });
   } catch (e: any) {
     console.error("[INBOX][send][ERR]", e?.response?.data || e?.message || e);
     return res.status(500).json({ ok: false, error: "send_failed" });
@@ -338,7 +341,7 @@ inbox.get("/messages", async (req, res) => {
       // 2) Read ALL messages for this conversation (in + out)
       const { data: msgs, error: msgErr } = await supa
         .from("messages")
-        .select("id, body, created_at, direction")
+        .select("id, body, created_at, direction, delivery_status, delivery_error")
         .eq("org_id", orgId)
         .eq("conversation_id", conversationId)
         .order("created_at", { ascending: true });
@@ -355,6 +358,9 @@ inbox.get("/messages", async (req, res) => {
           from,
           text: m.body || "",
           ts: m.created_at,
+          // outbound only: queued | sent | delivered | read | failed
+          delivery_status: dir === "in" ? null : m.delivery_status || null,
+          delivery_error: dir === "in" ? null : m.delivery_error || null,
         };
       });
 
@@ -614,11 +620,21 @@ inbox.post("/manual_mode", express.json(), async (req, res) => {
 
     // If turning ON → Option A: only 1 customer at a time
     if (enabled) {
-      await supa
+      const { data: switchedOff } = await supa
         .from("org_customer_settings")
         .update({ manual_mode: false, manual_mode_until: null })
         .eq("org_id", orgId)
-        .eq("manual_mode", true);
+        .eq("manual_mode", true)
+        .neq("customer_phone", phoneKey)
+        .select("customer_phone");
+
+      for (const row of switchedOff || []) {
+        emitOrderEvent(orgId, "manual_mode_changed", {
+          customer_phone: row.customer_phone,
+          enabled: false,
+          until: null,
+        });
+      }
     }
 
     const now = new Date();
@@ -645,6 +661,12 @@ inbox.post("/manual_mode", express.json(), async (req, res) => {
       return res.status(500).json({ ok: false, error: "db_error" });
     }
 
+    emitOrderEvent(orgId, "manual_mode_changed", {
+      customer_phone: phoneKey,
+      enabled: !!data?.manual_mode,
+      until: data?.manual_mode_until || null,
+    });
+
     return res.json({
       ok: true,
       enabled: !!data?.manual_mode,
@@ -63,6 +63,7 @@ function mapToContext(input: LegacyIngestInput): IngestContext {
     source: (input.source as any) || "waba",
     location_lat: input.location_lat ?? null,
     location_lng: input.location_lng ?? null,
+    media: input.media ?? null,
   };
 }
 
@@ -85,5 +86,6 @@ export async function ingestCoreFromMessage(
     org_id: ctx.org_id,
     reason: (res as any).reason ?? undefined,
     image: (res as any).image ?? null,
+    interactive: res.interactive ?? null,
   };
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+// src/routes/kds.ts
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import {
+  bumpKdsItem,
+  bumpKdsOrder,
+  kdsStations,
+  listKdsTickets,
+  recallKdsItem,
+  recallKdsOrder,
+} from "../order/kitchenDisplay";
+
+/**
+ * Kitchen display screen API. Live updates come from the org's SSE stream
+ * (/api/realtime/orders, events kds_ticket / kds_item); these endpoints give
+ * the initial snapshot and the bump / recall actions.
+ *
+ *   GET  /api/kds/tickets?station=grill[&bumped=1]
+ *   POST /api/kds/items/:id/bump        queued → cooking → ready
+ *   POST /api/kds/items/:id/recall      one step back
+ *   POST /api/kds/orders/:id/bump       { station? } whole ticket ready, off screen
+ *   POST /api/kds/orders/:id/recall     { station? } bumped ticket back
+ *   POST /api/kds/recall                { station? } last bumped ticket back
+ */
+export const kds = express.Router();
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[kds][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  item_not_found: 404,
+  ticket_not_found: 404,
+  nothing_to_recall: 404,
+};
+
+function sendResult(res: any, result: any) {
+  if (!result.ok) return res.status(ERROR_STATUS[result.error] || 409).json(result);
+  return res.json(result);
+}
+
+// GET /api/kds/tickets
+kds.get("/tickets", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const { data: org } = await supa
+      .from("orgs")
+      .select("id, kds_stations")
+      .eq("id", req.org_id)
+      .maybeSingle();
+    const stations = kdsStations(org);
+
+    const station = trim(req.query?.station).toLowerCase() || null;
+    if (station && !stations.some((s) => s.id === station)) {
+      return res.status(400).json({ error: "invalid_station", allowed: stations.map((s) => s.id) });
+    }
+
+    const bumped = ["1", "true"].includes(trim(req.query?.bumped).toLowerCase());
+    const tickets = await listKdsTickets(req.org_id, {
+      station,
+      bumped,
+      limit: Number(req.query?.limit) || undefined,
+    });
+
+    return res.json({ ok: true, station, stations, tickets });
+  } catch (e: any) {
+    console.error("[kds][GET /tickets] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "list_failed" });
+  }
+});
+
+kds.post("/items/:id/bump", ensureOrgAuth, async (req: any, res) => {
+  try {
+    return sendResult(res, await bumpKdsItem(req.org_id, req.params.id));
+  } catch (e: any) {
+    console.error("[kds][POST /items/:id/bump] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "bump_failed" });
+  }
+});
+
+kds.post("/items/:id/recall", ensureOrgAuth, async (req: any, res) => {
+  try {
+    return sendResult(res, await recallKdsItem(req.org_id, req.params.id));
+  } catch (e: any) {
+    console.error("[kds][POST /items/:id/recall] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "recall_failed" });
+  }
+});
+
+kds.post("/orders/:id/bump", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const station = trim(req.body?.station).toLowerCase() || null;
+    return sendResult(res, await bumpKdsOrder(req.org_id, req.params.id, station));
+  } catch (e: any) {
+    console.error("[kds][POST /orders/:id/bump] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "bump_failed" });
+  }
+});
+
+kds.post("/orders/:id/recall", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const station = trim(req.body?.station).toLowerCase() || null;
+    return sendResult(res, await recallKdsOrder(req.org_id, req.params.id, station));
+  } catch (e: any) {
+    console.error("[kds][POST /orders/:id/recall] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "recall_failed" });
+  }
+});
+
+kds.post("/recall", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const station = trim(req.body?.station).toLowerCase() || null;
+    return sendResult(res, await recallKdsOrder(req.org_id, null, station));
+  } catch (e: any) {
+    console.error("[kds][POST /recall] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "recall_failed" });
+  }
+});
+
+export default kds;
@@ -5,48 +5,48 @@ import { supa } from "../db";
 import { parseOrder as ruleParse } from "../parser";
 import resolvePhoneForOrder, { normalizePhone } from "../util/normalizePhone";
 import { markSessionOnOrderStatusChange } from "../session/sessionEngine";
-import { emitNewOrder } from "./realtimeOrders";
+import { emitNewOrder, emitOrderEvent } from "./realtimeOrders";
+import { sendToCustomer } from "./channels";
+import { setState } from "../ai/ingest/stateManager";
+import {
+  getScheduledOrderQueue,
+  listDeliverySlots,
+  setOrderSchedule,
+} from "../ai/ingest/scheduleEngine";
+import {
+  INVOICEABLE_STATUSES,
+  getInvoiceForOrder,
+  issueInvoice,
+  renderInvoiceHtml,
+  renderInvoiceText,
+} from "../order/gstInvoice";
+import { textToPdf } from "../util/textPdf";
+import { notifyOrderStatusChange } from "../order/statusNotifications";
+import { assignOrderNumber, findOrderByNumber } from "../order/orderNumbers";
+import { TicketKind, normalizePaperWidth } from "../order/kitchenTicket";
+import { PrintFormat, renderOrderDocument } from "../order/printQueue";
+import {
+  CLOSED_ORDER_STATUSES,
+  ORDER_STATUSES,
+  OrderStatus,
+  allowedNextStatuses,
+  getOrderTimeline,
+  isOrderOpen,
+  normalizeOrderStatus,
+  recordOrderCreated,
+  transitionOrderStatus,
+} from "../order/orderLifecycle";
 // adjust path if realtimeOrders.ts is elsewhere
 
 export const orders = express.Router();
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Status constants (store lowercase in DB; accept any case from client)
+// Status constants (store lowercase in DB; accept any case / old names from
+// client). The lifecycle itself lives in order/orderLifecycle.
 // ─────────────────────────────────────────────────────────────────────────────
-const STATUS_LIST = [
-  "draft",
-  "awaiting_confirmation",
-  "awaiting_payment_or_method",
-  "accepted",
-  "shipped",
-  "delivered",
-  "paid",
-  "cancelled",
-] as const;
-const OPEN_STATUSES = new Set<OrderStatus>([
-  "draft",
-  "awaiting_confirmation",
-  "awaiting_payment_or_method",
-  "accepted",
-]);
-
-const CLOSED_STATUSES = new Set<OrderStatus>([
-  "shipped",
-  "paid",
-  "cancelled",
-  "delivered",
-]);
-
-
-type OrderStatus = (typeof STATUS_LIST)[number];
-const STATUS_SET = new Set<string>(STATUS_LIST);
-
-function normStatus(s?: string | null): OrderStatus | null {
-  const v = String(s ?? "")
-    .trim()
-    .toLowerCase();
-  return STATUS_SET.has(v) ? (v as OrderStatus) : null;
-}
+const CLOSED_STATUSES = new Set<OrderStatus>(CLOSED_ORDER_STATUSES);
+
+const normStatus = normalizeOrderStatus;
 
 const asStr = (v: any) =>
   typeof v === "string" ? v : v == null ? "" : String(v);
@@ -85,6 +85,7 @@ function ensureAuth(req: any, res: any, next: any) {
     const t = h.startsWith("Bearer ") ? h.slice(7) : "";
     const d: any = jwt.verify(t, process.env.JWT_SECRET!);
     req.org_id = d.org_id;
+    req.auth = d;
     next();
   } catch (e) {
     console.error("Auth error:", e);
@@ -92,6 +93,13 @@ function ensureAuth(req: any, res: any, next: any) {
   }
 }
 
+// Who to put in the audit trail: the staff user if the token names one,
+// else the org account that signed in.
+function authActorId(req: any): string {
+  const d = req.auth || {};
+  return String(d.user_id || d.sub || `org:${req.org_id}`);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GET /api/orders  → list recent orders for this org
 // Optional: ?status=pending|shipped|paid|cancelled&limit=100&offset=0
@@ -118,6 +126,21 @@ orders.get("/", ensureAuth, async (req: any, res) => {
   }
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/by-number/:ref → order by its number ("KS-0142", "142")
+// With a daily reset the latest order carrying that number is returned.
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/by-number/:ref", ensureAuth, async (req: any, res) => {
+  try {
+    const order = await findOrderByNumber(req.org_id, trim(req.params.ref));
+    if (!order) return res.status(404).json({ error: "order_not_found" });
+    res.json(order);
+  } catch (err: any) {
+    console.error("Orders GET /by-number error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GET /api/orders/past → list past (closed) orders for this org
 // We define "past" as: paid + cancelled
@@ -181,6 +204,69 @@ orders.get("/past", ensureAuth, async (req: any, res) => {
   }
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/scheduled?days=3 → upcoming scheduled orders, grouped by slot
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/scheduled", ensureAuth, async (req: any, res) => {
+  try {
+    const out = await getScheduledOrderQueue(req.org_id, {
+      days: Number(req.query.days || 3),
+    });
+    res.json(out);
+  } catch (err: any) {
+    console.error("Orders GET /scheduled error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/slots?days=3&all=1 → delivery slots with booked / capacity
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/slots", ensureAuth, async (req: any, res) => {
+  try {
+    const out = await listDeliverySlots(req.org_id, {
+      days: Number(req.query.days || 0) || undefined,
+      includeFull: req.query.all === "1",
+    });
+    res.json(out);
+  } catch (err: any) {
+    console.error("Orders GET /slots error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/orders/:id/schedule → staff (re)schedule; { scheduled_for: null } = ASAP
+// Body: { scheduled_for: ISO | null, scheduled_until?: ISO }
+// ─────────────────────────────────────────────────────────────────────────────
+orders.post("/:id/schedule", ensureAuth, async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const at = req.body?.scheduled_for;
+
+    let slot: { start: string; end: string } | null = null;
+    if (at != null && at !== "") {
+      const start = new Date(at);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({ error: "invalid_scheduled_for" });
+      }
+      const until = req.body?.scheduled_until ? new Date(req.body.scheduled_until) : null;
+      slot = {
+        start: start.toISOString(),
+        end: (until && !isNaN(until.getTime()) ? until : new Date(start.getTime() + 30 * 60_000)).toISOString(),
+      };
+    }
+
+    const ok = await setOrderSchedule(req.org_id, id, slot);
+    if (!ok) return res.status(500).json({ error: "schedule_update_failed" });
+
+    res.json({ ok: true, id, scheduled_for: slot?.start ?? null, scheduled_until: slot?.end ?? null });
+  } catch (err: any) {
+    console.error("Orders POST /:id/schedule error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper: parse pipeline (AI → rules) with HUMAN-READABLE reason preservation
 // Passes customer_phone so the parser can use customer-specific learnings.
@@ -305,7 +391,7 @@ async function snapshotPricesFromCatalog(
     // 2) Load catalog for this org (same shape as /products admin API)
     const { data: catalog, error: catErr } = await supa
       .from("products")
-      .select("canonical, variant, price_per_unit, dynamic_price")
+      .select("id, canonical, variant, price_per_unit, dynamic_price, hsn_code, tax_rate")
       .eq("org_id", org_id);
 
     if (catErr || !Array.isArray(catalog) || !catalog.length) {
@@ -350,8 +436,23 @@ async function snapshotPricesFromCatalog(
       return candidates[0];
     }
 
-    // 3) Freeze prices on each item
-    const frozen = items.map((it: any) => {
+    // 3) Freeze prices (and GST fields, for invoices) on each item
+    const frozen = items.map((item: any) => {
+      const product =
+        (item?.product_id != null &&
+          catalog.find((p: any) => String(p.id) === String(item.product_id))) ||
+        findMatchingProduct(item?.canonical || item?.name, item?.variant);
+
+      // HSN / rate as of now – set once, like prices
+      const it =
+        product && item && (item.hsn_code === undefined || item.tax_rate === undefined)
+          ? {
+              ...item,
+              hsn_code: item.hsn_code !== undefined ? item.hsn_code : product.hsn_code ?? null,
+              tax_rate: item.tax_rate !== undefined ? item.tax_rate : product.tax_rate ?? null,
+            }
+          : item;
+
       // if price already set, NEVER overwrite
       if (
         typeof it?.price_per_unit === "number" &&
@@ -360,11 +461,6 @@ async function snapshotPricesFromCatalog(
         return it;
       }
 
-      const product = findMatchingProduct(
-        it?.canonical || it?.name,
-        it?.variant
-      );
-
       // ignore dynamic_price flag → always use catalog price when present
       if (
         !product ||
@@ -495,6 +591,17 @@ orders.post("/", ensureAuth, async (req: any, res) => {
       .single();
     if (error) throw error;
 
+    data.order_number = await assignOrderNumber(req.org_id, data.id);
+    await recordOrderCreated({
+      org_id: req.org_id,
+      order_id: data.id,
+      status: data.status,
+      actor: { type: "store", id: authActorId(req) },
+      source: "dashboard",
+      reason: "created",
+      order: data,
+    });
+
     // ✅ SSE notify dashboard
     emitNewOrder(req.org_id, {
       order_id: data.id,
@@ -511,6 +618,10 @@ orders.post("/", ensureAuth, async (req: any, res) => {
 
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /api/orders/:id/status  → update status for an order in this org
+// Body: { status, reason? }. Only moves the lifecycle allows
+// (409 illegal_transition + allowed list otherwise); each one is audited
+// against the signed-in account (from the JWT, never the body) and the
+// customer is told (order/statusNotifications).
 // ─────────────────────────────────────────────────────────────────────────────
 orders.post("/:id/status", ensureAuth, async (req: any, res) => {
   const { id } = req.params;
@@ -518,7 +629,7 @@ orders.post("/:id/status", ensureAuth, async (req: any, res) => {
   if (!next) {
     return res
       .status(400)
-      .json({ error: "invalid_status", allowed: Array.from(STATUS_LIST) });
+      .json({ error: "invalid_status", allowed: Array.from(ORDER_STATUSES) });
   }
 
   async function syncSession(nextStatus: OrderStatus) {
@@ -547,73 +658,222 @@ orders.post("/:id/status", ensureAuth, async (req: any, res) => {
   }
 
   try {
+    const patch: Record<string, any> = {};
+
     // When closing the order, snapshot prices so catalog changes don't affect it
     if (next === "shipped" || next === "paid") {
       const frozenItems = await snapshotPricesFromCatalog(req.org_id, id);
 
       if (frozenItems) {
-        const order_total = computeOrderTotalFromItems(frozenItems);
-
-        const { error } = await supa
+        patch.items = frozenItems;
+        patch.order_total = computeOrderTotalFromItems(frozenItems);
+      } else {
+        // Snapshot failed → still close order, compute total from existing items if possible
+        const { data: curOrder, error: loadErr } = await supa
           .from("orders")
-          .update({
-            status: next,
-            items: frozenItems,
-            order_total,
-            pricing_locked: true,
-          })
+          .select("items")
           .eq("id", id)
-          .eq("org_id", req.org_id);
+          .eq("org_id", req.org_id)
+          .single();
 
-        if (error) throw error;
+        if (loadErr) throw loadErr;
 
-        await syncSession(next);
-        return res.json({ ok: true, status: next });
+        const existingItems = Array.isArray(curOrder?.items)
+          ? curOrder.items
+          : [];
+        patch.order_total = computeOrderTotalFromItems(existingItems);
       }
+      patch.pricing_locked = true;
+    }
 
-      // Snapshot failed → still close order, compute total from existing items if possible
-      const { data: curOrder, error: loadErr } = await supa
-        .from("orders")
-        .select("items")
-        .eq("id", id)
-        .eq("org_id", req.org_id)
-        .single();
+    const result = await transitionOrderStatus({
+      org_id: req.org_id,
+      order_id: id,
+      to: next,
+      actor: { type: "store", id: authActorId(req) },
+      source: "dashboard",
+      reason: trim(req.body?.reason) || null,
+      patch,
+      select: "*",
+    });
 
-      if (loadErr) throw loadErr;
+    if ("error" in result) {
+      return res
+        .status(result.error === "order_not_found" ? 404 : 409)
+        .json({
+          error: result.error,
+          from: result.from ?? null,
+          to: next,
+          allowed: result.allowed,
+        });
+    }
 
-      const existingItems = Array.isArray(curOrder?.items)
-        ? curOrder.items
-        : [];
-      const order_total = computeOrderTotalFromItems(existingItems);
+    await syncSession(next);
 
-      const { error } = await supa
-        .from("orders")
-        .update({
+    // same upsert signal as proof approval – also queues the kitchen ticket
+    if (result.changed && next === "accepted") {
+      emitNewOrder(req.org_id, { ...result.order, status: next });
+    }
+
+    // "accepted", "out for delivery"… → tell the customer (once per status)
+    const notification = result.changed
+      ? await notifyOrderStatusChange({
+          org_id: req.org_id,
+          order_id: id,
           status: next,
-          order_total,
-          pricing_locked: true,
+          reason: trim(req.body?.reason) || null,
         })
-        .eq("id", id)
-        .eq("org_id", req.org_id);
+      : null;
+
+    res.json({ ok: true, status: next, from: result.from, notification });
+  } catch (err: any) {
+    console.error("Order update error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
 
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/:id/invoice?format=html|pdf|json
+// GST tax invoice for a paid / shipped / delivered order. Issued (numbered)
+// on first request from the frozen price snapshot; the same invoice after that.
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/:id/invoice", ensureAuth, async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const format = trim(req.query?.format || "html").toLowerCase();
+    if (!["html", "pdf", "json"].includes(format)) {
+      return res.status(400).json({ error: "invalid_format", allowed: ["html", "pdf", "json"] });
+    }
+
+    let invoice = await getInvoiceForOrder(req.org_id, id);
+
+    if (!invoice) {
+      const { data: order, error } = await supa
+        .from("orders")
+        .select("*")
+        .eq("org_id", req.org_id)
+        .eq("id", id)
+        .maybeSingle();
       if (error) throw error;
+      if (!order) return res.status(404).json({ error: "order_not_found" });
+
+      const invoiceable =
+        INVOICEABLE_STATUSES.includes(String(order.status || "").toLowerCase()) ||
+        order.payment_status === "paid";
+      if (!invoiceable) {
+        return res.status(409).json({ error: "order_not_invoiceable", status: order.status });
+      }
 
-      await syncSession(next);
-      return res.json({ ok: true, status: next });
+      const { data: orgRow, error: orgErr } = await supa
+        .from("orgs")
+        .select("*")
+        .eq("id", req.org_id)
+        .single();
+      if (orgErr || !orgRow) throw new Error(orgErr?.message || "org_not_found");
+
+      // same snapshot as closing the order → prices / HSN / rates stop moving
+      const frozen = await snapshotPricesFromCatalog(req.org_id, id);
+      const items = frozen || (Array.isArray(order.items) ? order.items : []);
+      if (frozen) {
+        await supa
+          .from("orders")
+          .update({ items: frozen, pricing_locked: true })
+          .eq("id", id)
+          .eq("org_id", req.org_id);
+      }
+
+      invoice = await issueInvoice(orgRow, order, items);
     }
 
-    // Original behaviour for other statuses (pending/cancelled, etc.)
-    const { error } = await supa
+    if (format === "json") return res.json({ ok: true, invoice });
+
+    const filename = invoice.invoice_number.replace(/[^\w-]+/g, "_");
+    if (format === "pdf") {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}.pdf"`);
+      return res.send(textToPdf(renderInvoiceText(invoice)));
+    }
+
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    return res.send(renderInvoiceHtml(invoice));
+  } catch (e: any) {
+    console.error("[ORDERS][invoice] ERR", e?.message || e);
+    return res.status(500).json({ error: e?.message || "invoice_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/:id/receipt?kind=receipt|kitchen&format=html|text|escpos&width=58|80
+// Printable receipt / kitchen ticket sized for a thermal roll. Same renderer
+// the print agent gets from /api/print/jobs/next.
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/:id/receipt", ensureAuth, async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const kind = trim(req.query?.kind || "receipt").toLowerCase();
+    const format = trim(req.query?.format || "html").toLowerCase();
+    if (kind !== "receipt" && kind !== "kitchen") {
+      return res.status(400).json({ error: "invalid_kind", allowed: ["receipt", "kitchen"] });
+    }
+    if (!["html", "text", "escpos"].includes(format)) {
+      return res.status(400).json({ error: "invalid_format", allowed: ["html", "text", "escpos"] });
+    }
+    const width = req.query?.width != null ? normalizePaperWidth(req.query.width) : null;
+    if (req.query?.width != null && !width) {
+      return res.status(400).json({ error: "invalid_width", allowed: [58, 80] });
+    }
+
+    const { data: order, error } = await supa
       .from("orders")
-      .update({ status: next })
+      .select("*")
+      .eq("org_id", req.org_id)
       .eq("id", id)
-      .eq("org_id", req.org_id);
+      .maybeSingle();
     if (error) throw error;
+    if (!order) return res.status(404).json({ error: "order_not_found" });
 
-    await syncSession(next);
-    res.json({ ok: true, status: next });
+    const { data: orgRow } = await supa
+      .from("orgs")
+      .select("*")
+      .eq("id", req.org_id)
+      .maybeSingle();
+
+    const doc = renderOrderDocument(orgRow, order, kind as TicketKind, format as PrintFormat, width);
+    res.setHeader("Content-Type", doc.contentType);
+    return res.send(doc.body);
+  } catch (e: any) {
+    console.error("[ORDERS][receipt] ERR", e?.message || e);
+    return res.status(500).json({ error: e?.message || "receipt_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/orders/:id/timeline → status history (order_events), oldest first
+// ─────────────────────────────────────────────────────────────────────────────
+orders.get("/:id/timeline", ensureAuth, async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const { data: order, error } = await supa
+      .from("orders")
+      .select("id, status, order_number, created_at")
+      .eq("id", id)
+      .eq("org_id", req.org_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) return res.status(404).json({ error: "order_not_found" });
+
+    const events = await getOrderTimeline(req.org_id, id);
+
+    res.json({
+      order_id: order.id,
+      order_number: order.order_number ?? null,
+      status: order.status,
+      allowed_next: allowedNextStatuses(order.status),
+      events,
+    });
   } catch (err: any) {
-    console.error("Order update error:", err);
+    console.error("Orders GET /timeline error:", err);
     res.status(500).json({ error: err.message });
   }
 });
@@ -1007,7 +1267,30 @@ orders.post("/:id/split", ensureAuth, express.json(), async (req: any, res) => {
       .single();
     if (insErr) throw new Error(insErr.message);
 
-    return res.json({ ok: true, new_order_id: created?.id });
+    const new_order_number = created?.id
+      ? await assignOrderNumber(org_id, created.id)
+      : null;
+    if (created?.id) {
+      await recordOrderCreated({
+        org_id,
+        order_id: created.id,
+        status: "pending",
+        actor: { type: "store", id: authActorId(req) },
+        source: "dashboard",
+        reason: "operator_split",
+        meta: { split_from: cur.id },
+        order: {
+          id: created.id,
+          org_id,
+          source_phone: cur.source_phone,
+          items: move,
+          status: "pending",
+          order_number: new_order_number,
+        },
+      });
+    }
+
+    return res.json({ ok: true, new_order_id: created?.id, new_order_number });
   } catch (e: any) {
     console.error("[ORDERS][split] ERR", e?.message || e);
     return res
@@ -1085,16 +1368,18 @@ if (curStatus && CLOSED_STATUSES.has(curStatus)) {
       if (upPrevErr) throw new Error(upPrevErr.message);
 
       // 2) Cancel current (never delete—keep audit trail)
-      const { error: cancelErr } = await supa
-        .from("orders")
-        .update({
-          status: "cancelled",
-          parse_reason: "operator_merged_previous",
-        })
-        .eq("id", cur.id)
-        .eq("org_id", org_id);
+      const cancelled = await transitionOrderStatus({
+        org_id,
+        order_id: cur.id,
+        to: "cancelled",
+        actor: { type: "store", id: authActorId(req) },
+        source: "dashboard",
+        reason: "operator_merged_previous",
+        patch: { parse_reason: "operator_merged_previous" },
+        meta: { merged_into: prev.id },
+      });
 
-      if (cancelErr) throw new Error(cancelErr.message);
+      if ("error" in cancelled) throw new Error(cancelled.error);
 
       return res.json({ ok: true, merged_into: prev.id });
     } catch (e: any) {
@@ -1106,6 +1391,213 @@ if (curStatus && CLOSED_STATUSES.has(curStatus)) {
   }
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Payment proof (screenshot sent on WhatsApp, see ai/ingest/paymentProofEngine)
+// GET  /api/orders/:id/attachments
+// POST /api/orders/:id/payment-proof/approve
+// POST /api/orders/:id/payment-proof/reject   { reason? }
+// ─────────────────────────────────────────────────────────────────────────────
+async function notifyOrderCustomer(org_id: string, phone: string, text: string) {
+  try {
+    if (!phone) return;
+
+    // WhatsApp, Telegram or web chat – wherever the customer is talking to us
+    await sendToCustomer({
+      orgId: org_id,
+      customerKey: phone,
+      message: { text, senderType: "system" },
+    });
+  } catch (e: any) {
+    console.warn("[ORDERS][payment-proof] notify non-fatal", e?.message || e);
+  }
+}
+
+// where an order waits while staff look at its screenshot
+const PROOF_REVIEW_STATUSES = ["awaiting_store_action", "awaiting_payment_proof", "awaiting_customer_action"];
+
+async function getProofOrder(org_id: string, order_id: string) {
+  const { data, error } = await supa
+    .from("orders")
+    .select(
+      "id, org_id, order_number, source_phone, status, items, total_amount, created_at, payment_status, payment_proof_url, payment_proof_status"
+    )
+    .eq("org_id", org_id)
+    .eq("id", order_id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as any;
+}
+
+orders.get("/:id/attachments", ensureAuth, async (req: any, res) => {
+  try {
+    const { data, error } = await supa
+      .from("order_attachments")
+      .select("id, kind, url, mime_type, caption, created_at")
+      .eq("org_id", req.org_id)
+      .eq("order_id", req.params.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return res.json({ ok: true, items: data || [] });
+  } catch (e: any) {
+    console.error("[ORDERS][attachments] ERR", e?.message || e);
+    return res
+      .status(500)
+      .json({ ok: false, error: e?.message || "attachments_failed" });
+  }
+});
+
+orders.post(
+  "/:id/payment-proof/approve",
+  ensureAuth,
+  express.json(),
+  async (req: any, res) => {
+    try {
+      const org_id = req.org_id as string;
+      const order = await getProofOrder(org_id, String(req.params.id || ""));
+
+      if (!order) return res.status(404).json({ ok: false, error: "not_found" });
+      if (!order.payment_proof_url) {
+        return res.status(400).json({ ok: false, error: "no_payment_proof" });
+      }
+
+      if (order.payment_proof_status !== "pending_review" || !isOrderOpen(order.status)) {
+        return res.status(409).json({
+          ok: false,
+          error: "payment_proof_not_pending",
+          payment_proof_status: order.payment_proof_status ?? null,
+          status: order.status ?? null,
+        });
+      }
+
+      // proof still pending → paid + accepted in one step; a second click
+      // (or a reject racing it) finds nothing to update
+      const nowIso = new Date().toISOString();
+      const moved = await transitionOrderStatus({
+        org_id,
+        order_id: order.id,
+        to: "accepted",
+        actor: { type: "store", id: authActorId(req) },
+        source: "payment_proof_review",
+        reason: "payment_proof_approved",
+        patch: {
+          payment_status: "paid",
+          paid_at: nowIso,
+          payment_proof_status: "approved",
+          payment_proof_reviewed_at: nowIso,
+        },
+        from: PROOF_REVIEW_STATUSES,
+        where: { payment_proof_status: "pending_review" },
+      });
+
+      if ("error" in moved) {
+        return res.status(409).json({ ok: false, error: moved.error, status: moved.from ?? null });
+      }
+
+      try {
+        emitNewOrder(org_id, {
+          ...order,
+          status: "accepted",
+          payment_status: "paid",
+          payment_proof_status: "approved",
+        } as any);
+        emitOrderEvent(org_id, "order_paid", {
+          order_id: order.id,
+          order_number: order.order_number ?? null,
+          method: "payment_proof",
+          amount: order.total_amount ?? null,
+        });
+      } catch (e) {
+        console.warn("[ORDERS][payment-proof] SSE emit non-fatal", e);
+      }
+
+      await notifyOrderCustomer(
+        org_id,
+        order.source_phone,
+        "✅ Payment received — thank you! Your order is confirmed."
+      );
+
+      return res.json({ ok: true, payment_status: "paid", status: "accepted" });
+    } catch (e: any) {
+      console.error("[ORDERS][payment-proof/approve] ERR", e?.message || e);
+      return res
+        .status(500)
+        .json({ ok: false, error: e?.message || "approve_failed" });
+    }
+  }
+);
+
+orders.post(
+  "/:id/payment-proof/reject",
+  ensureAuth,
+  express.json(),
+  async (req: any, res) => {
+    try {
+      const org_id = req.org_id as string;
+      const order = await getProofOrder(org_id, String(req.params.id || ""));
+      const reason = String(req.body?.reason || "").trim().slice(0, 300);
+
+      if (!order) return res.status(404).json({ ok: false, error: "not_found" });
+      if (!order.payment_proof_url) {
+        return res.status(400).json({ ok: false, error: "no_payment_proof" });
+      }
+      // an approved proof has already marked the order paid – too late to reject
+      if (order.payment_proof_status !== "pending_review" || !isOrderOpen(order.status)) {
+        return res.status(409).json({
+          ok: false,
+          error: "payment_proof_not_pending",
+          payment_proof_status: order.payment_proof_status ?? null,
+          status: order.status ?? null,
+        });
+      }
+
+      const moved = await transitionOrderStatus({
+        org_id,
+        order_id: order.id,
+        to: "awaiting_payment_proof",
+        actor: { type: "store", id: authActorId(req) },
+        source: "payment_proof_review",
+        reason: reason || "payment_proof_rejected",
+        patch: {
+          payment_proof_status: "rejected",
+          payment_proof_reviewed_at: new Date().toISOString(),
+          payment_proof_reject_reason: reason || null,
+        },
+        from: PROOF_REVIEW_STATUSES,
+        where: { payment_proof_status: "pending_review" },
+      });
+
+      if ("error" in moved) {
+        return res.status(409).json({ ok: false, error: moved.error, status: moved.from ?? null });
+      }
+
+      // customer can send a new screenshot straight away
+      if (order.source_phone) {
+        await setState(org_id, order.source_phone, "awaiting_payment_proof", {
+          force: true,
+          source: "staff_proof_reject",
+        });
+      }
+
+      await notifyOrderCustomer(
+        org_id,
+        order.source_phone,
+        "⚠️ We couldn’t verify your payment screenshot." +
+          (reason ? `\nReason: ${reason}` : "") +
+          "\n\nPlease send a clear screenshot of the payment, or type *cancel* to change payment method."
+      );
+
+      return res.json({ ok: true, payment_proof_status: "rejected" });
+    } catch (e: any) {
+      console.error("[ORDERS][payment-proof/reject] ERR", e?.message || e);
+      return res
+        .status(500)
+        .json({ ok: false, error: e?.message || "reject_failed" });
+    }
+  }
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // DELETE /api/orders/:id
 // ─────────────────────────────────────────────────────────────────────────────
@@ -4,6 +4,26 @@ import multer from "multer";
 import path from "path";
 import { supa } from "../db";
 import fs from "fs";
+import {
+  buildStoreHoursConfig,
+  parseWeeklySchedule,
+  storeHoursStateAt,
+} from "../ai/helpers/storeHours";
+import {
+  normalizeGstin,
+  normalizeStateCode,
+  normalizeTaxRate,
+  sellerStateCode,
+} from "../order/gstInvoice";
+import { formatOrderNumber, orderNumberSettings } from "../order/orderNumbers";
+import {
+  NOTIFIABLE_STATUSES,
+  buildStatusNotificationText,
+  normalizeLang,
+  statusNotificationSettings,
+} from "../order/statusNotifications";
+import { getToneFromOrg } from "../ai/tone";
+import { DEFAULT_STATION, kdsStations } from "../order/kitchenDisplay";
 
 export const org = express.Router();
 
@@ -425,4 +445,490 @@ org.get("/customer-auto-reply", ensureAuth, async (req: any, res) => {
   }
 });
 
-export default org;
\ No newline at end of file
+export default org;
+
+// ─────────────────────────────────────────────
+// Store hours (see ai/helpers/storeHours)
+// ─────────────────────────────────────────────
+
+async function loadOrgHours(org_id: string) {
+  const { data, error } = await supa
+    .from("orgs")
+    .select("*")
+    .eq("id", org_id)
+    .single();
+  if (error || !data) throw new Error(error?.message || "org_not_found");
+
+  const cfg = buildStoreHoursConfig(data);
+  return {
+    ok: true,
+    timezone: cfg.timezone,
+    opening_hours: data.opening_hours ?? null, // null = legacy open/close pair
+    weekly: cfg.weekly,
+    holidays: cfg.holidays,
+    closed_until: data.closed_until ?? null,
+    closed_reason: data.closed_reason ?? null,
+    now: storeHoursStateAt(cfg),
+  };
+}
+
+// GET /api/org/hours
+org.get("/hours", ensureAuth, async (req: any, res) => {
+  try {
+    return res.json(await loadOrgHours(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][hours][GET] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "hours_fetch_failed" });
+  }
+});
+
+// POST /api/org/hours
+// Body: { opening_hours?: { mon: [{open, close}] } | null,
+//         store_holidays?: [{date, note}], store_timezone?: string }
+org.post("/hours", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const { opening_hours, store_holidays, store_timezone } = req.body || {};
+    const patch: any = {};
+
+    if (opening_hours === null) {
+      patch.opening_hours = null;
+    } else if (opening_hours !== undefined) {
+      const parsed = parseWeeklySchedule(opening_hours);
+      if ("error" in parsed) return res.status(400).json({ ok: false, error: parsed.error });
+      patch.opening_hours = parsed.schedule;
+    }
+
+    if (store_holidays !== undefined) {
+      if (!Array.isArray(store_holidays)) {
+        return res.status(400).json({ ok: false, error: "store_holidays_must_be_array" });
+      }
+      const bad = store_holidays.find(
+        (h: any) => !h || !/^\d{4}-\d{2}-\d{2}$/.test(String(h.date))
+      );
+      if (bad) return res.status(400).json({ ok: false, error: "invalid_holiday_date" });
+      patch.store_holidays = store_holidays.map((h: any) => ({
+        date: String(h.date),
+        note: h.note ? String(h.note) : null,
+      }));
+    }
+
+    if (store_timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: String(store_timezone) });
+      } catch {
+        return res.status(400).json({ ok: false, error: "invalid_timezone" });
+      }
+      patch.store_timezone = String(store_timezone);
+    }
+
+    if (Object.keys(patch).length) {
+      const { error } = await supa.from("orgs").update(patch).eq("id", req.org_id);
+      if (error) {
+        console.error("[ORG][hours][POST] error", error.message);
+        return res.status(500).json({ ok: false, error: "update_failed" });
+      }
+    }
+
+    return res.json(await loadOrgHours(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][hours][POST] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "hours_update_failed" });
+  }
+});
+
+// POST /api/org/hours/close-now
+// Body: { minutes?: number, until?: ISO string, reason?: string }
+// Temporary closure on top of the weekly hours; reopens by itself.
+org.post("/hours/close-now", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const { minutes, until, reason } = req.body || {};
+
+    let closedUntil: Date | null = null;
+    if (until) {
+      closedUntil = new Date(until);
+    } else if (Number(minutes) > 0) {
+      closedUntil = new Date(Date.now() + Number(minutes) * 60_000);
+    }
+    if (!closedUntil || isNaN(closedUntil.getTime()) || closedUntil <= new Date()) {
+      return res.status(400).json({ ok: false, error: "minutes_or_future_until_required" });
+    }
+
+    const { error } = await supa
+      .from("orgs")
+      .update({
+        closed_until: closedUntil.toISOString(),
+        closed_reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+      })
+      .eq("id", req.org_id);
+    if (error) {
+      console.error("[ORG][hours][close-now] error", error.message);
+      return res.status(500).json({ ok: false, error: "update_failed" });
+    }
+
+    return res.json(await loadOrgHours(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][hours][close-now] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "close_now_failed" });
+  }
+});
+
+// DELETE /api/org/hours/close-now – reopen now
+org.delete("/hours/close-now", ensureAuth, async (req: any, res) => {
+  try {
+    const { error } = await supa
+      .from("orgs")
+      .update({ closed_until: null, closed_reason: null })
+      .eq("id", req.org_id);
+    if (error) {
+      console.error("[ORG][hours][reopen] error", error.message);
+      return res.status(500).json({ ok: false, error: "update_failed" });
+    }
+
+    return res.json(await loadOrgHours(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][hours][reopen] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "reopen_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────
+// GST / invoice settings (see order/gstInvoice)
+// ─────────────────────────────────────────────
+
+const TAX_COLUMNS = [
+  "gstin",
+  "legal_name",
+  "gst_state_code",
+  "tax_inclusive",
+  "default_tax_rate",
+  "delivery_tax_rate",
+  "invoice_prefix",
+] as const;
+
+async function loadOrgTax(org_id: string) {
+  const { data, error } = await supa.from("orgs").select("*").eq("id", org_id).single();
+  if (error || !data) throw new Error(error?.message || "org_not_found");
+
+  const out: any = { ok: true };
+  for (const k of TAX_COLUMNS) out[k] = data[k] ?? null;
+  out.tax_inclusive = data.tax_inclusive !== false;
+  out.seller_state_code = sellerStateCode(data);
+  return out;
+}
+
+// GET /api/org/tax
+org.get("/tax", ensureAuth, async (req: any, res) => {
+  try {
+    return res.json(await loadOrgTax(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][tax][GET] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "tax_fetch_failed" });
+  }
+});
+
+// POST /api/org/tax
+// Body: { gstin?, legal_name?, gst_state_code?, tax_inclusive?,
+//         default_tax_rate?, delivery_tax_rate?, invoice_prefix? }
+org.post("/tax", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const body = req.body || {};
+    const patch: any = {};
+
+    if (body.gstin !== undefined) {
+      const gstin = body.gstin ? normalizeGstin(body.gstin) : null;
+      if (body.gstin && !gstin) return res.status(400).json({ ok: false, error: "invalid_gstin" });
+      patch.gstin = gstin;
+    }
+
+    if (body.gst_state_code !== undefined) {
+      const code = body.gst_state_code ? normalizeStateCode(body.gst_state_code) : null;
+      if (body.gst_state_code && !code) {
+        return res.status(400).json({ ok: false, error: "invalid_gst_state_code" });
+      }
+      patch.gst_state_code = code;
+    }
+
+    for (const k of ["default_tax_rate", "delivery_tax_rate"] as const) {
+      if (body[k] === undefined) continue;
+      const rate = normalizeTaxRate(body[k]);
+      if (rate === undefined) return res.status(400).json({ ok: false, error: `invalid_${k}` });
+      patch[k] = rate;
+    }
+
+    if (body.invoice_prefix !== undefined) {
+      const prefix = String(body.invoice_prefix || "").trim().toUpperCase();
+      if (prefix && !/^[A-Z0-9-]{1,10}$/.test(prefix)) {
+        return res.status(400).json({ ok: false, error: "invalid_invoice_prefix" });
+      }
+      patch.invoice_prefix = prefix || null;
+    }
+
+    if (body.legal_name !== undefined) patch.legal_name = String(body.legal_name || "").trim() || null;
+    if (body.tax_inclusive !== undefined) patch.tax_inclusive = body.tax_inclusive !== false;
+
+    if (Object.keys(patch).length) {
+      const { error } = await supa.from("orgs").update(patch).eq("id", req.org_id);
+      if (error) {
+        console.error("[ORG][tax][POST] error", error.message);
+        return res.status(500).json({ ok: false, error: "update_failed" });
+      }
+    }
+
+    return res.json(await loadOrgTax(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][tax][POST] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "tax_update_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────
+// Order numbers (see order/orderNumbers)
+// ─────────────────────────────────────────────
+
+async function loadOrgOrderNumbers(org_id: string) {
+  const { data, error } = await supa.from("orgs").select("*").eq("id", org_id).single();
+  if (error || !data) throw new Error(error?.message || "org_not_found");
+
+  const s = orderNumberSettings(data);
+  return {
+    ok: true,
+    order_number_prefix: s.prefix || null,
+    order_number_reset: s.reset,
+    order_number_padding: s.padding,
+    example: formatOrderNumber(s.prefix, 142, s.padding),
+  };
+}
+
+// GET /api/org/order-numbers
+org.get("/order-numbers", ensureAuth, async (req: any, res) => {
+  try {
+    return res.json(await loadOrgOrderNumbers(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][order-numbers][GET] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "order_numbers_fetch_failed" });
+  }
+});
+
+// POST /api/org/order-numbers
+// Body: { order_number_prefix?: "KS" | null, order_number_reset?: "never" | "daily",
+//         order_number_padding?: 1-8 }
+org.post("/order-numbers", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const body = req.body || {};
+    const patch: any = {};
+
+    if (body.order_number_prefix !== undefined) {
+      const prefix = String(body.order_number_prefix || "").trim().toUpperCase();
+      if (prefix && !/^[A-Z]{1,6}$/.test(prefix)) {
+        return res.status(400).json({ ok: false, error: "invalid_order_number_prefix" });
+      }
+      patch.order_number_prefix = prefix || null;
+    }
+
+    if (body.order_number_reset !== undefined) {
+      if (!["never", "daily"].includes(body.order_number_reset)) {
+        return res.status(400).json({ ok: false, error: "invalid_order_number_reset" });
+      }
+      patch.order_number_reset = body.order_number_reset;
+    }
+
+    if (body.order_number_padding !== undefined) {
+      const pad = Number(body.order_number_padding);
+      if (!Number.isInteger(pad) || pad < 1 || pad > 8) {
+        return res.status(400).json({ ok: false, error: "invalid_order_number_padding" });
+      }
+      patch.order_number_padding = pad;
+    }
+
+    if (Object.keys(patch).length) {
+      const { error } = await supa.from("orgs").update(patch).eq("id", req.org_id);
+      if (error) {
+        console.error("[ORG][order-numbers][POST] error", error.message);
+        return res.status(500).json({ ok: false, error: "update_failed" });
+      }
+    }
+
+    return res.json(await loadOrgOrderNumbers(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][order-numbers][POST] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "order_numbers_update_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────
+// Status notifications (see order/statusNotifications)
+// ─────────────────────────────────────────────
+
+async function loadOrgStatusNotifications(org_id: string) {
+  const { data, error } = await supa.from("orgs").select("*").eq("id", org_id).single();
+  if (error || !data) throw new Error(error?.message || "org_not_found");
+
+  const settings = statusNotificationSettings(data);
+  const tone = getToneFromOrg(data);
+  const language = data.notification_language || "en";
+
+  // what the customer would get right now, with sample values
+  const preview: Record<string, string | null> = {};
+  for (const status of NOTIFIABLE_STATUSES) {
+    preview[status] = buildStatusNotificationText({
+      status,
+      setting: settings[status],
+      tone,
+      lang: language,
+      vars: { order_number: "0142", store_name: data.name || "", customer_name: "", order_total: "₹480", reason: "" },
+    });
+  }
+
+  return { ok: true, notification_language: language, tone, statuses: settings, preview };
+}
+
+// GET /api/org/status-notifications
+org.get("/status-notifications", ensureAuth, async (req: any, res) => {
+  try {
+    return res.json(await loadOrgStatusNotifications(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][status-notifications][GET] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "status_notifications_fetch_failed" });
+  }
+});
+
+// POST /api/org/status-notifications
+// Body: { notification_language?: "en",
+//         statuses?: { accepted?: { enabled?: boolean, templates?: { en?: "…", ta?: "…" } }, … } }
+// A template set to "" / null goes back to the built-in copy.
+org.post("/status-notifications", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const body = req.body || {};
+    const patch: any = {};
+
+    if (body.notification_language !== undefined) {
+      const lang = normalizeLang(body.notification_language);
+      if (lang && !/^[a-z]{2,3}$/.test(lang)) {
+        return res.status(400).json({ ok: false, error: "invalid_notification_language" });
+      }
+      patch.notification_language = lang || null;
+    }
+
+    if (body.statuses !== undefined) {
+      if (!body.statuses || typeof body.statuses !== "object") {
+        return res.status(400).json({ ok: false, error: "invalid_statuses" });
+      }
+
+      const { data: cur } = await supa
+        .from("orgs")
+        .select("status_notifications")
+        .eq("id", req.org_id)
+        .maybeSingle();
+      const next: any = { ...(cur?.status_notifications || {}) };
+
+      for (const [status, cfg] of Object.entries<any>(body.statuses)) {
+        if (!NOTIFIABLE_STATUSES.includes(status as any)) {
+          return res.status(400).json({ ok: false, error: "invalid_status", status });
+        }
+        const entry: any = { ...(next[status] || {}) };
+
+        if (cfg?.enabled !== undefined) entry.enabled = cfg.enabled !== false;
+
+        if (cfg?.templates !== undefined) {
+          const templates: any = { ...(entry.templates || {}) };
+          for (const [rawLang, text] of Object.entries<any>(cfg.templates || {})) {
+            const lang = normalizeLang(rawLang);
+            if (!/^[a-z]{2,3}$/.test(lang)) {
+              return res.status(400).json({ ok: false, error: "invalid_template_language", status });
+            }
+            const t = String(text ?? "").trim();
+            if (t.length > 1000) {
+              return res.status(400).json({ ok: false, error: "template_too_long", status });
+            }
+            if (t) templates[lang] = t;
+            else delete templates[lang];
+          }
+          entry.templates = templates;
+        }
+
+        next[status] = entry;
+      }
+      patch.status_notifications = next;
+    }
+
+    if (Object.keys(patch).length) {
+      const { error } = await supa.from("orgs").update(patch).eq("id", req.org_id);
+      if (error) {
+        console.error("[ORG][status-notifications][POST] error", error.message);
+        return res.status(500).json({ ok: false, error: "update_failed" });
+      }
+    }
+
+    return res.json(await loadOrgStatusNotifications(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][status-notifications][POST] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "status_notifications_update_failed" });
+  }
+});
+
+// ─────────────────────────────────────────────
+// Kitchen display stations (see order/kitchenDisplay)
+// ─────────────────────────────────────────────
+
+async function loadOrgKdsStations(org_id: string) {
+  const { data, error } = await supa.from("orgs").select("*").eq("id", org_id).single();
+  if (error || !data) throw new Error(error?.message || "org_not_found");
+
+  return { ok: true, default_station: DEFAULT_STATION, stations: kdsStations(data) };
+}
+
+// GET /api/org/kds-stations
+org.get("/kds-stations", ensureAuth, async (req: any, res) => {
+  try {
+    return res.json(await loadOrgKdsStations(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][kds-stations][GET] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "kds_stations_fetch_failed" });
+  }
+});
+
+// POST /api/org/kds-stations
+// Body: { stations: [{ id?: "tandoor", name: "Tandoor", categories: ["breads", "kebabs"] }, …] }
+// Replaces the list. Only newly accepted orders are routed with it.
+org.post("/kds-stations", ensureAuth, express.json(), async (req: any, res) => {
+  try {
+    const list = req.body?.stations;
+    if (!Array.isArray(list) || list.length > 20) {
+      return res.status(400).json({ ok: false, error: "invalid_stations" });
+    }
+
+    for (const st of list) {
+      if (!String(st?.id || st?.name || "").trim()) {
+        return res.status(400).json({ ok: false, error: "station_name_required" });
+      }
+      if (st?.categories !== undefined && !Array.isArray(st.categories)) {
+        return res.status(400).json({ ok: false, error: "invalid_categories", station: st?.name || st?.id });
+      }
+    }
+
+    // one category → one station
+    const stations = kdsStations({ kds_stations: list });
+    const seen = new Map<string, string>();
+    for (const st of stations) {
+      for (const c of st.categories) {
+        if (seen.has(c)) {
+          return res
+            .status(400)
+            .json({ ok: false, error: "duplicate_category", category: c, stations: [seen.get(c), st.id] });
+        }
+        seen.set(c, st.id);
+      }
+    }
+
+    const { error } = await supa.from("orgs").update({ kds_stations: stations }).eq("id", req.org_id);
+    if (error) {
+      console.error("[ORG][kds-stations][POST] error", error.message);
+      return res.status(500).json({ ok: false, error: "update_failed" });
+    }
+
+    return res.json(await loadOrgKdsStations(req.org_id));
+  } catch (e: any) {
+    console.error("[ORG][kds-stations][POST] ERR", e?.message || e);
+    return res.status(500).json({ ok: false, error: e?.message || "kds_stations_update_failed" });
+  }
+});
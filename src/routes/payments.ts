@@ -2,6 +2,8 @@
 import express from "express";
 import { supa } from "../db";
 import { sendWabaText } from "../routes/waba";
+import { ensureOrderRef } from "../order/orderNumbers";
+import { refreshOrderTax } from "../order/gstInvoice";
 
 const router = express.Router();
 
@@ -53,12 +55,16 @@ router.post("/send-qr", async (req: any, res) => {
       return res.json({ ok: false, error: "missing_wa_phone_number_id" });
     }
 
+    // tax-exclusive org → GST on top, stored on the order
+    const taxOnTop = await refreshOrderTax(org_id, order_id);
+
     // 2) Load order (include more fields for rich summary)
     const { data: orderRow, error: orderErr } = await supa
       .from("orders")
       .select(
         `
         id,
+        order_number,
         items,
         source_phone,
         status,
@@ -123,8 +129,9 @@ router.post("/send-qr", async (req: any, res) => {
     }
 
     // Fallback: if subtotal is 0 but total_amount exists, use that
+    // (it includes GST on top, shown on its own line)
     if (subtotal === 0 && order.total_amount != null) {
-      const ta = Number(order.total_amount);
+      const ta = Number(order.total_amount) - taxOnTop;
       if (!Number.isNaN(ta)) subtotal = ta;
     }
 
@@ -139,7 +146,7 @@ router.post("/send-qr", async (req: any, res) => {
         : `₹${Math.round(deliveryFeeVal)}`;
 
     const totalPayable =
-      subtotal + (deliveryFeeVal != null ? deliveryFeeVal : 0);
+      subtotal + (deliveryFeeVal != null ? deliveryFeeVal : 0) + taxOnTop;
 
     const linesText =
       lines.length > 0 ? `${lines.join("\n")}\n\n` : "";
@@ -152,14 +159,12 @@ router.post("/send-qr", async (req: any, res) => {
         ? "AED "
         : `${currency} `;
 
-    // If you prefer short ID in text, you can still compute it:
-    // const shortId = String(order.id).slice(-5);
-
     const summaryMsg =
-      `🧾 *Order Summary (#${order.id})*\n` +
+      `🧾 *Order Summary (#${await ensureOrderRef(org_id, order)})*\n` +
       linesText +
       `Subtotal: ${symbol}${Math.round(subtotal)}\n` +
       `Delivery Fee: ${deliveryLabel}\n` +
+      (taxOnTop > 0 ? `GST: ${symbol}${taxOnTop}\n` : "") +
       `——————————\n` +
       `*Total Payable: ${symbol}${Math.round(totalPayable)}*\n` +
       `--------------------------------\n` +
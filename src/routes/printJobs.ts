@@ -0,0 +1,205 @@
+// src/routes/printJobs.ts
+import express from "express";
+import jwt from "jsonwebtoken";
+import { supa } from "../db";
+import { TicketKind, normalizePaperWidth } from "../order/kitchenTicket";
+import {
+  PrintFormat,
+  claimNextPrintJob,
+  completePrintJob,
+  enqueuePrintJob,
+  newPrintAgentKey,
+  renderOrderDocument,
+} from "../order/printQueue";
+
+/**
+ * Print queue for the in-store print agent.
+ *
+ *   GET  /api/print/jobs/next?format=escpos|text|html&width=58|80&agent=…
+ *   POST /api/print/jobs/:id/done          { ok: true } | { ok: false, error }
+ *                                          (409 job_not_printing if it was
+ *                                          requeued / already reported)
+ *   GET  /api/print/jobs?status=…          (dashboard)
+ *   POST /api/print/orders/:id/print       { kind: "kitchen" | "receipt" } (reprint)
+ *   POST /api/print/agent-key              (dashboard) → new agent key
+ *
+ * The agent authenticates with `x-print-agent-key`; dashboard calls use the
+ * usual Bearer token.
+ */
+export const printJobs = express.Router();
+
+const asStr = (v: any) => (typeof v === "string" ? v : v == null ? "" : String(v));
+const trim = (v: any) => asStr(v).trim();
+
+const FORMATS: PrintFormat[] = ["escpos", "text", "html"];
+
+function ensureOrgAuth(req: any, res: any, next: any) {
+  try {
+    const h = req.headers.authorization || "";
+    const t = h.startsWith("Bearer ") ? h.slice(7) : "";
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+
+    if (!d?.org_id) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = d.org_id;
+    next();
+  } catch (e) {
+    console.error("[printJobs][auth] error:", e);
+    return res.status(401).json({ error: "unauthorized" });
+  }
+}
+
+/** Agent key if present, otherwise a dashboard token. */
+async function ensurePrintAuth(req: any, res: any, next: any) {
+  const key = trim(req.headers["x-print-agent-key"]);
+  if (!key) return ensureOrgAuth(req, res, next);
+
+  try {
+    const { data: org, error } = await supa
+      .from("orgs")
+      .select("id")
+      .eq("print_agent_key", key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!org) return res.status(401).json({ error: "unauthorized" });
+
+    req.org_id = org.id;
+    next();
+  } catch (e: any) {
+    console.error("[printJobs][agent-auth] error:", e?.message || e);
+    return res.status(500).json({ error: "auth_failed" });
+  }
+}
+
+// GET /api/print/jobs/next → 204 when there's nothing to print
+printJobs.get("/jobs/next", ensurePrintAuth, async (req: any, res) => {
+  try {
+    const format = (trim(req.query?.format) || "escpos").toLowerCase() as PrintFormat;
+    if (!FORMATS.includes(format)) {
+      return res.status(400).json({ error: "invalid_format", allowed: FORMATS });
+    }
+    const width = req.query?.width != null ? normalizePaperWidth(req.query.width) : null;
+    if (req.query?.width != null && !width) {
+      return res.status(400).json({ error: "invalid_width", allowed: [58, 80] });
+    }
+
+    const job = await claimNextPrintJob(req.org_id, trim(req.query?.agent) || "agent");
+    if (!job) return res.status(204).end();
+
+    const [{ data: order }, { data: orgRow }] = await Promise.all([
+      supa.from("orders").select("*").eq("org_id", req.org_id).eq("id", job.order_id).maybeSingle(),
+      supa.from("orgs").select("*").eq("id", req.org_id).maybeSingle(),
+    ]);
+
+    if (!order) {
+      // order deleted since it was queued – nothing to print, ever
+      await completePrintJob(req.org_id, job.id, { ok: false, error: "order_not_found" });
+      return res.status(204).end();
+    }
+
+    const doc = renderOrderDocument(orgRow, order, job.kind, format, width);
+    const body = Buffer.isBuffer(doc.body) ? doc.body : Buffer.from(doc.body, "utf8");
+
+    return res.json({
+      ok: true,
+      job: {
+        id: job.id,
+        order_id: job.order_id,
+        kind: job.kind,
+        attempts: job.attempts,
+        created_at: job.created_at,
+      },
+      format,
+      content_type: doc.contentType,
+      content_base64: body.toString("base64"),
+    });
+  } catch (e: any) {
+    console.error("[printJobs][GET /jobs/next] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "claim_failed" });
+  }
+});
+
+// POST /api/print/jobs/:id/done
+printJobs.post("/jobs/:id/done", ensurePrintAuth, async (req: any, res) => {
+  try {
+    const ok = req.body?.ok !== false;
+    const job = await completePrintJob(req.org_id, req.params.id, {
+      ok,
+      error: ok ? null : trim(req.body?.error) || null,
+    });
+    if ("error" in job) {
+      return res
+        .status(job.error === "job_not_found" ? 404 : 409)
+        .json({ error: job.error, status: job.status ?? null });
+    }
+    return res.json({ ok: true, job });
+  } catch (e: any) {
+    console.error("[printJobs][POST /jobs/:id/done] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "update_failed" });
+  }
+});
+
+// GET /api/print/jobs?status=queued|printing|printed|failed&limit=50
+printJobs.get("/jobs", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query?.limit) || 50, 1), 200);
+    let q = supa
+      .from("print_jobs")
+      .select("*")
+      .eq("org_id", req.org_id)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    const status = trim(req.query?.status).toLowerCase();
+    if (status) q = q.eq("status", status);
+
+    const { data, error } = await q;
+    if (error) throw error;
+    return res.json({ ok: true, jobs: data || [] });
+  } catch (e: any) {
+    console.error("[printJobs][GET /jobs] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "list_failed" });
+  }
+});
+
+// POST /api/print/orders/:id/print → queue a (re)print
+printJobs.post("/orders/:id/print", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const kind = trim(req.body?.kind || "kitchen").toLowerCase() as TicketKind;
+    if (kind !== "kitchen" && kind !== "receipt") {
+      return res.status(400).json({ error: "invalid_kind", allowed: ["kitchen", "receipt"] });
+    }
+
+    const { data: order, error } = await supa
+      .from("orders")
+      .select("id")
+      .eq("org_id", req.org_id)
+      .eq("id", req.params.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!order) return res.status(404).json({ error: "order_not_found" });
+
+    const job = await enqueuePrintJob({ org_id: req.org_id, order_id: order.id, kind });
+    if (!job) return res.status(500).json({ error: "enqueue_failed" });
+    return res.json({ ok: true, job });
+  } catch (e: any) {
+    console.error("[printJobs][POST /orders/:id/print] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "enqueue_failed" });
+  }
+});
+
+// POST /api/print/agent-key → rotate; the old key stops working immediately
+printJobs.post("/agent-key", ensureOrgAuth, async (req: any, res) => {
+  try {
+    const key = newPrintAgentKey();
+    const { error } = await supa.from("orgs").update({ print_agent_key: key }).eq("id", req.org_id);
+    if (error) throw error;
+    return res.json({ ok: true, print_agent_key: key });
+  } catch (e: any) {
+    console.error("[printJobs][POST /agent-key] err:", e?.message || e);
+    return res.status(500).json({ error: e?.message || "rotate_failed" });
+  }
+});
+
+export default printJobs;
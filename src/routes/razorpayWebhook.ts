@@ -5,7 +5,9 @@ import {
   getOrgRazorpay,
   verifyRazorpayWebhookSignature,
 } from "../payments/razorpay";
-import { emitNewOrder } from "./realtimeOrders";
+import { emitNewOrder, emitOrderEvent } from "./realtimeOrders";
+import { ensureOrderRef } from "../order/orderNumbers";
+import { transitionOrderStatus } from "../order/orderLifecycle";
 
 export const razorpayWebhookRouter = express.Router();
 
@@ -226,40 +228,43 @@ razorpayWebhookRouter.post(
       payload?.payment_link?.entity?.payments?.[0]?.payment_id ||
       null;
     
-      const { data: updatedOrders, error: updErr } = await supa
-      .from("orders")
-      .update({
-        payment_provider: "razorpay",
-        payment_mode: "online",
-        payment_status: "paid",
-        paid_at: new Date().toISOString(),
-        status: "awaiting_store_action",
-        razorpay_payment_id: paymentId,
-      } as any)
-      .eq("id", order_id)
-      .eq("org_id", org_id)
-      // ✅ allow webhook retry but only emit once
-      .in("status", [
-        "awaiting_customer_action",
-        "awaiting_payment",
-        "awaiting_pickup_payment",
-        "awaiting_payment_proof"
-      ] as any)
-      .select(
-        "id, source_phone, items, total_amount, delivery_type, created_at, currency_code"
-      );
-
-      if (updErr) {
+      let moved;
+      try {
+        moved = await transitionOrderStatus({
+          org_id,
+          order_id,
+          to: "awaiting_store_action",
+          actor: { type: "payment", id: paymentId },
+          source: "razorpay_webhook",
+          reason: "payment_captured",
+          patch: {
+            payment_provider: "razorpay",
+            payment_mode: "online",
+            payment_status: "paid",
+            paid_at: new Date().toISOString(),
+            razorpay_payment_id: paymentId,
+          },
+          // ✅ allow webhook retry but only emit once
+          from: [
+            "awaiting_customer_action",
+            "awaiting_payment",
+            "awaiting_pickup_payment",
+            "awaiting_payment_proof",
+          ],
+          select:
+            "id, order_number, source_phone, items, total_amount, delivery_type, created_at, currency_code",
+        });
+      } catch (updErr) {
         console.error("[RZP_WEBHOOK][ORDER_UPDATE_ERR]", updErr);
         return res.status(200).send("ok");
       }
 
-      if (!updatedOrders || updatedOrders.length === 0) {
-        console.log("[RZP_WEBHOOK][NO_STATUS_MATCH] skipping send");
+      if ("error" in moved) {
+        console.log("[RZP_WEBHOOK][NO_STATUS_MATCH] skipping send", { error: moved.error, from: moved.from });
         return res.status(200).send("ok");
       }
 
-      const paidOrder = updatedOrders[0] as any;
+      const paidOrder = moved.order as any;
       const phone = digitsOnly(paidOrder?.source_phone);
 
       // 🔔 Notify dashboard now (status moved to awaiting_store_action)
@@ -273,6 +278,12 @@ razorpayWebhookRouter.post(
           total_amount: paidOrder.total_amount ?? null,
           items: paidOrder.items ?? [],
         });
+        emitOrderEvent(org_id, "order_paid", {
+          order_id: paidOrder.id,
+          order_number: paidOrder.order_number ?? null,
+          method: "razorpay",
+          amount: paidOrder.total_amount ?? null,
+        });
       } catch (e) {
         console.warn("[RZP_WEBHOOK][SSE_EMIT_ERR]", e);
       }
@@ -353,7 +364,7 @@ razorpayWebhookRouter.post(
 
       const msg =
         "✅ *Payment received!*\n\n" +
-        `Your order *#${order_id}* is confirmed for *Store Pickup*.\n\n` +
+        `Your order *#${await ensureOrderRef(org_id, paidOrder)}* is confirmed for *Store Pickup*.\n\n` +
         (summary ? summary + "\n" : "") +
         (storeAddress ? `📍 Address: ${storeAddress}\n` : "") +
         (mapsUrl ? `🗺 Map: ${mapsUrl}\n` : "") +
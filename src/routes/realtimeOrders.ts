@@ -1,7 +1,26 @@
 // src/routes/realtimeOrders.ts
 import type { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { isIngestReplay } from "../ai/ingest/ingestTrace";
+import {
+  OrgEvent,
+  OrgEventPayloads,
+  OrgEventType,
+  REPLAY_MAX_EVENTS,
+  orgEvents,
+  publishOrgEvent,
+} from "../realtime/orgEvents";
 
-const clientsByOrg = new Map<string, Set<Response>>();
+// Event catalogue, ids and replay live in realtime/orgEvents; this is the
+// SSE side (GET /api/realtime/orders). Needs the dashboard JWT – as a Bearer
+// header, or ?token=… since EventSource can't set headers – and streams the
+// token's org; a ?org_id that doesn't match it is refused.
+//
+// Migrating a dashboard that still connects with only ?org_id=… (now 401):
+//   new EventSource(`/api/realtime/orders?token=${encodeURIComponent(jwt)}`)
+// with the token it already sends to /api/orders. ?org_id may stay but must
+// be the token's org (403 otherwise). On a 401 – expired token – EventSource
+// gives up for good, so reconnect with a fresh token after the next login.
 
 function safeWrite(res: Response, chunk: string) {
   try {
@@ -12,9 +31,42 @@ function safeWrite(res: Response, chunk: string) {
   }
 }
 
+function frame(ev: OrgEvent) {
+  const id = ev.id != null ? `id: ${ev.id}\n` : "";
+  return `${id}event: ${ev.type}\ndata: ${JSON.stringify(ev.data ?? {})}\n\n`;
+}
+
+function lastEventIdOf(req: Request): number | null {
+  // header on automatic reconnect; query for clients that can't set headers
+  const raw = req.header("last-event-id") ?? req.query.last_event_id;
+  const n = Number(raw);
+  return raw != null && raw !== "" && Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function orgIdFromToken(req: Request): string | null {
+  const h = req.header("authorization") || "";
+  const t = h.startsWith("Bearer ") ? h.slice(7) : String(req.query.token || "");
+  if (!t) return null;
+  try {
+    const d: any = jwt.verify(t, process.env.JWT_SECRET!);
+    return d?.org_id ? String(d.org_id) : null;
+  } catch {
+    return null;
+  }
+}
+
+// a replay batch plus what arrives while it is written
+const SENT_IDS_KEPT = REPLAY_MAX_EVENTS * 2;
+
 export function sseOrders(req: Request, res: Response) {
-  const org_id = String(req.query.org_id || "");
-  if (!org_id) return res.status(400).json({ ok: false, error: "org_id_required" });
+  const org_id = orgIdFromToken(req);
+  if (!org_id) return res.status(401).json({ ok: false, error: "unauthorized" });
+
+  const asked = String(req.query.org_id || "");
+  if (asked && asked !== org_id) {
+    console.warn("[SSE][ORG_MISMATCH]", { org_id, asked });
+    return res.status(403).json({ ok: false, error: "forbidden" });
+  }
 
   // ✅ SSE headers
   res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
@@ -23,59 +75,111 @@ export function sseOrders(req: Request, res: Response) {
   res.setHeader("X-Accel-Buffering", "no");
   res.flushHeaders?.();
 
-  // ✅ Register client
-  if (!clientsByOrg.has(org_id)) clientsByOrg.set(org_id, new Set());
-  const set = clientsByOrg.get(org_id)!;
-  set.add(res);
+  const lastId = lastEventIdOf(req);
+
+  // ✅ Register first; live events wait until the replay is written so
+  // nothing is lost or sent twice in between
+  let replaying = lastId != null;
+  const pending: OrgEvent[] = [];
+  let closed = false;
+
+  // Ids come from several instances and local events skip the bus, so they
+  // don't arrive in order – dedupe on what this stream actually sent, not
+  // on the highest id so far.
+  const sentIds = new Set<number>();
+
+  const send = (ev: OrgEvent) => {
+    if (ev.id != null && sentIds.has(ev.id)) return true;
+    const ok = safeWrite(res, frame(ev));
+    if (ok && ev.id != null) {
+      sentIds.add(ev.id);
+      // Set keeps insertion order → drop the oldest
+      if (sentIds.size > SENT_IDS_KEPT) sentIds.delete(sentIds.values().next().value as number);
+    }
+    return ok;
+  };
+
+  const unsubscribe = orgEvents.subscribe(org_id, (ev) => {
+    if (replaying) {
+      pending.push(ev);
+      return;
+    }
+    if (!send(ev)) cleanup("[SSE][DROP_DEAD]");
+  });
 
-  console.log("[SSE][CONNECT]", { org_id, clients: set.size });
+  console.log("[SSE][CONNECT]", { org_id, last_event_id: lastId });
 
   // ✅ Send an immediate hello + ping so frontend can confirm it’s receiving events
+  safeWrite(res, `retry: 3000\n\n`);
   safeWrite(res, `event: hello\ndata: {"org_id":"${org_id}","ts":"${new Date().toISOString()}"}\n\n`);
   safeWrite(res, `event: ping\ndata: {"ok":true}\n\n`);
 
   // ✅ Heartbeat
   const heartbeat = setInterval(() => {
     const ok = safeWrite(res, `event: ping\ndata: {"ts":"${new Date().toISOString()}"}\n\n`);
-    if (!ok) {
-      // connection likely dead
-      clearInterval(heartbeat);
-      set.delete(res);
-      if (set.size === 0) clientsByOrg.delete(org_id);
-      console.log("[SSE][DROP_DEAD]", { org_id, clients: set.size });
-    }
+    // connection likely dead
+    if (!ok) cleanup("[SSE][DROP_DEAD]");
   }, 25000);
 
-  req.on("close", () => {
+  function cleanup(tag: string) {
+    if (closed) return;
+    closed = true;
     clearInterval(heartbeat);
-    set.delete(res);
-    if (set.size === 0) clientsByOrg.delete(org_id);
-    console.log("[SSE][DISCONNECT]", { org_id, clients: set.size });
-  });
+    unsubscribe();
+    console.log(tag, { org_id });
+  }
+
+  req.on("close", () => cleanup("[SSE][DISCONNECT]"));
+
+  if (lastId != null) {
+    orgEvents
+      .since(org_id, lastId)
+      .then(({ events, gap }) => {
+        // missed more than we keep → client reloads its lists
+        if (gap) safeWrite(res, `event: resync\ndata: {"last_event_id":${lastId}}\n\n`);
+        for (const ev of events) send(ev);
+        console.log("[SSE][REPLAY]", { org_id, from: lastId, events: events.length, gap });
+      })
+      .catch((e) => {
+        console.warn("[SSE][REPLAY_ERR]", e?.message || e);
+        safeWrite(res, `event: resync\ndata: {"last_event_id":${lastId}}\n\n`);
+      })
+      .finally(() => {
+        replaying = false;
+        for (const ev of pending.splice(0)) send(ev);
+      });
+  }
 }
 
-export function emitNewOrder(org_id: string, payload: any) {
-  const set = clientsByOrg.get(org_id);
-
-  // ✅ CRITICAL: this log will tell you immediately if org_id mismatch is the problem
-  console.log("[SSE][EMIT][new_order]", {
-    org_id,
-    hasClients: !!set,
-    clients: set?.size || 0,
-    payloadKeys: payload ? Object.keys(payload) : [],
-  });
+// Server-side consumers of the same event (kitchen printing…)
+type NewOrderListener = (org_id: string, payload: any) => void | Promise<void>;
+const newOrderListeners: NewOrderListener[] = [];
 
-  if (!set?.size) return;
+export function onNewOrder(listener: NewOrderListener) {
+  newOrderListeners.push(listener);
+}
 
-  const data = JSON.stringify(payload || {});
-  const msg = `event: new_order\ndata: ${data}\n\n`;
+export function emitNewOrder(org_id: string, payload: any) {
+  // admin replay runs in a sandbox – its "orders" must not ring the dashboard
+  if (isIngestReplay()) return;
 
-  for (const res of Array.from(set)) {
-    const ok = safeWrite(res, msg);
-    if (!ok) {
-      set.delete(res);
-    }
+  for (const listener of newOrderListeners) {
+    Promise.resolve()
+      .then(() => listener(org_id, payload))
+      .catch((e) => console.warn("[SSE][LISTENER_ERR]", e?.message || e));
   }
 
-  if (set.size === 0) clientsByOrg.delete(org_id);
-}
\ No newline at end of file
+  emitOrderEvent(org_id, "new_order", payload || {});
+}
+
+/**
+ * Any catalogue event on the org's stream. Fire-and-forget: persisted for
+ * replay and fanned out to every instance in the background.
+ */
+export function emitOrderEvent<T extends OrgEventType>(org_id: string, type: T, payload: OrgEventPayloads[T]) {
+  if (isIngestReplay()) return;
+
+  publishOrgEvent(org_id, type, payload).catch((e) =>
+    console.warn(`[SSE][EMIT_ERR][${type}]`, e?.message || e)
+  );
+}
@@ -1,16 +1,27 @@
 // src/routes/waba.ts
 import express from "express";
 import { supa } from "../db";
-import { ingestCoreFromMessage } from "./ingestCore";
-import axios from "axios";
+import type { InteractiveReply } from "../ai/ingest/types";
 // ⬇️ Adjust this import to wherever your helper lives
 
 import { logFlowEvent } from "./waba/wabaimports";
+import {
+  checkWabaWebhookRequest,
+  signWabaFixture,
+  WABA_SIGNATURE_TEST_MODE,
+} from "./waba/signature";
+import { applyWabaStatusUpdate, enqueueWabaMessage } from "./waba/outbox";
+import {
+  buildTemplatePayload,
+  describeTemplateSend,
+  findTemplateForPurpose,
+  isWithinSessionWindow,
+} from "./waba/templates";
+import { processChannelMessage } from "./channels/pipeline";
+import { wabaAdapter } from "./channels/wabaAdapter";
 
 export const waba = express.Router();
 console.log("🔥🔥 INGEST INDEX.TS RUNNING waba999");
-const seenMsgIds = new Set<string>();
-const MAX_SEEN_MSG_IDS = 10_000;
 
 const META_VERIFY_TOKEN = process.env.META_VERIFY_TOKEN || "";
 export const META_WA_BASE = "https://graph.facebook.com/v21.0";
@@ -38,9 +49,97 @@ waba.get("/", (req, res) => {
   return res.sendStatus(403);
 });
 
+// Cloud API: interactive body text is capped at 1024 chars
+const MAX_INTERACTIVE_BODY = 1024;
+
 // ─────────────────────────────
-// Send via Cloud API + log to inbox
+// IngestResult.interactive → Cloud API `interactive` object
+// Returns null when the reply can't be rendered (caller falls back to text)
 // ─────────────────────────────
+export function buildInteractivePayload(
+  bodyText: string,
+  interactive: InteractiveReply | null | undefined
+): any | null {
+  if (!interactive) return null;
+
+  const body = (bodyText || "").trim();
+  if (!body || body.length > MAX_INTERACTIVE_BODY) return null;
+
+  const header = interactive.header
+    ? { type: "text", text: interactive.header.slice(0, 60) }
+    : undefined;
+  const footer = interactive.footer
+    ? { text: interactive.footer.slice(0, 60) }
+    : undefined;
+
+  if (interactive.type === "button") {
+    if (!interactive.buttons?.length) return null;
+    return {
+      type: "button",
+      ...(header ? { header } : {}),
+      body: { text: body },
+      ...(footer ? { footer } : {}),
+      action: {
+        buttons: interactive.buttons.slice(0, 3).map((b) => ({
+          type: "reply",
+          reply: { id: b.id, title: b.title.slice(0, 20) },
+        })),
+      },
+    };
+  }
+
+  const sections = (interactive.sections || [])
+    .map((sec) => ({
+      ...(sec.title ? { title: sec.title.slice(0, 24) } : {}),
+      rows: (sec.rows || []).map((r) => ({
+        id: r.id,
+        title: r.title.slice(0, 24),
+        ...(r.description ? { description: r.description.slice(0, 72) } : {}),
+      })),
+    }))
+    .filter((sec) => sec.rows.length > 0);
+
+  if (!sections.length) return null;
+
+  return {
+    type: "list",
+    ...(header ? { header } : {}),
+    body: { text: body },
+    ...(footer ? { footer } : {}),
+    action: {
+      button: (interactive.button || "Choose").slice(0, 20),
+      sections,
+    },
+  };
+}
+
+// ─────────────────────────────
+// Inbound interactive / quick-reply → the choice id the engines expect
+// (ids are the same "1", "2"… a customer would type)
+// ─────────────────────────────
+export function parseInteractiveReply(
+  msg: any
+): { id: string; title: string } | null {
+  if (msg?.type === "interactive") {
+    const reply =
+      msg.interactive?.button_reply || msg.interactive?.list_reply || null;
+    if (!reply?.id) return null;
+    return { id: String(reply.id), title: String(reply.title || reply.id) };
+  }
+
+  // Template quick-reply buttons arrive as type "button"
+  if (msg?.type === "button") {
+    const payload = msg.button?.payload || msg.button?.text || "";
+    if (!payload) return null;
+    return {
+      id: String(payload),
+      title: String(msg.button?.text || payload),
+    };
+  }
+
+  return null;
+}
+
 // ─────────────────────────────
 // Send via Cloud API + log to inbox
 // ─────────────────────────────
@@ -51,6 +150,8 @@ export async function sendWabaText(opts: {
   image?: string;
   caption?: string;
   orgId?: string;
+  interactive?: InteractiveReply | null;
+  senderType?: "ai" | "store" | "system";
 }) {
   // 1) We now require orgId to resolve the per-org WA token
   if (!opts.orgId) {
@@ -114,6 +215,10 @@ export async function sendWabaText(opts: {
 
   let payload: any;
 
+  const interactivePayload = opts.image
+    ? null
+    : buildInteractivePayload(opts.text || "", opts.interactive);
+
   if (opts.image) {
     payload = {
       messaging_product: "whatsapp",
@@ -124,6 +229,13 @@ export async function sendWabaText(opts: {
         caption: opts.caption || opts.text || "",
       },
     };
+  } else if (interactivePayload) {
+    payload = {
+      messaging_product: "whatsapp",
+      to: toNorm,
+      type: "interactive",
+      interactive: interactivePayload,
+    };
   } else {
     payload = {
       messaging_product: "whatsapp",
@@ -133,194 +245,155 @@ export async function sendWabaText(opts: {
     };
   }
 
+  // ------------------------------------------------
+  // Queue via outbox (retries + rate limit + inbox delivery status)
+  // ------------------------------------------------
+  const bodyToStore = opts.image
+    ? `[image sent] ${opts.caption || opts.text || ""}`
+    : opts.text || "";
+
   try {
-    const resp = await axios.post(
-      `${META_WA_BASE}/${opts.phoneNumberId}/messages`,
+    return await enqueueWabaMessage({
+      orgId: opts.orgId,
+      phoneNumberId: opts.phoneNumberId,
+      to: toNorm,
       payload,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    // ------------------------------------------------
-    // FLOW LOG (unchanged)
-    // ------------------------------------------------
-    if (opts.orgId) {
-      try {
-        await logFlowEvent({
-          orgId: opts.orgId,
-          from: toNorm.replace(/^\+/, ""),
-          event: "auto_reply_sent",
-          msgId:
-            resp.data?.messages && resp.data.messages[0]?.id
-              ? String(resp.data.messages[0].id)
-              : undefined,
-          text: opts.text,
-          meta: {
-            phoneNumberId: opts.phoneNumberId,
-            image: opts.image || null,
-          },
-        });
-      } catch (e: any) {
-        console.warn("[WABA][FLOW_LOG_OUT_ERR]", e?.message || e);
-      }
-    }
-
-    // ------------------------------------------------
-    // INBOX MESSAGE LOGGING (unchanged)
-    // ------------------------------------------------
-    if (opts.orgId) {
-      try {
-        const { data: conv } = await supa
-          .from("conversations")
-          .select("id")
-          .eq("org_id", opts.orgId)
-          .eq("customer_phone", toNorm.replace(/^\+/, ""))
-          .limit(1)
-          .maybeSingle();
-
-        let convId = conv?.id || null;
-
-        if (!convId) {
-          const { data: conv2 } = await supa
-            .from("conversations")
-            .select("id")
-            .eq("org_id", opts.orgId)
-            .eq("customer_phone", toNorm)
-            .limit(1)
-            .maybeSingle();
-          convId = conv2?.id || null;
-        }
-
-        if (convId) {
-          const wa_msg_id =
-            resp.data?.messages && resp.data.messages[0]?.id
-              ? String(resp.data.messages[0].id)
-              : null;
-
-          const bodyToStore = opts.image
-            ? `[image sent] ${opts.caption || opts.text || ""}`
-            : opts.text;
-
-          const { error: msgErr } = await supa.from("messages").insert({
-            org_id: opts.orgId,
-            conversation_id: convId,
-            direction: "out",
-            sender_type: "ai",
-            channel: "waba",
-            body: bodyToStore,
-            wa_msg_id,
-          });
-
-          if (msgErr) {
-            console.warn("[INBOX][MSG out err]", msgErr.message);
-          }
-        }
-      } catch (e: any) {
-        console.warn("[INBOX][outbound log err]", e?.message || e);
-      }
-    }
+      preview: opts.text || opts.caption || null,
+      inboxBody: bodyToStore,
+      senderType: opts.senderType || "ai",
+      bumpConversation: opts.senderType === "store",
+    });
   } catch (e: any) {
     console.warn("[WABA][SEND_ERR]", e?.response?.data || e?.message || e);
   }
 }
 
-// Simple inbound → conversations + messages logger
-async function logInboundMessageToInbox(args: {
+// ─────────────────────────────
+// Session-aware send: free-form text inside the 24h window,
+// the org's mapped template (waba_templates) outside it
+// ─────────────────────────────
+export async function sendWabaTemplate(opts: {
+  phoneNumberId: string;
+  to: string;
   orgId: string;
-  from: string;
-  text: string;
-  msgId: string;
-}) {
-  try {
-    const { orgId, from, text, msgId } = args;
-    const body = (text || "").trim() || "[non-text message]";
-
-    // normalize phone: digits only (same logic as normalizePhoneForKey)
-    const phoneKey = from.replace(/[^\d]/g, "");
-    if (!orgId || !phoneKey) return;
-
-    const nowIso = new Date().toISOString();
+  purpose: string; // e.g. "order_status"
+  vars?: Record<string, any>; // values for the template's param_mapping
+  text?: string | null; // free-form copy to use inside the window
+  language?: string | null;
+  forceTemplate?: boolean;
+}): Promise<{ sent: boolean; via: "text" | "template" | null; reason?: string }> {
+  const vars = opts.vars || {};
+
+  const inWindow = opts.forceTemplate
+    ? false
+    : await isWithinSessionWindow(opts.orgId, opts.to);
+
+  if (inWindow && opts.text) {
+    // undefined: no token / enqueue threw (already logged)
+    const queued = await sendWabaText({
+      phoneNumberId: opts.phoneNumberId,
+      to: opts.to,
+      orgId: opts.orgId,
+      text: opts.text,
+    });
+    const sent = !!queued?.id && queued.status !== "failed";
+    return { sent, via: "text", reason: sent ? undefined : "send_failed" };
+  }
 
-    // 1) Find existing conversation
-    const { data: existing, error: convErr } = await supa
-      .from("conversations")
-      .select("id")
-      .eq("org_id", orgId)
-      .eq("customer_phone", phoneKey)
-      .maybeSingle();
+  const tpl = await findTemplateForPurpose(
+    opts.orgId,
+    opts.purpose,
+    opts.language
+  );
+
+  if (!tpl) {
+    console.warn("[WABA][TEMPLATE] no template mapped, cannot send", {
+      org_id: opts.orgId,
+      purpose: opts.purpose,
+      in_window: inWindow,
+    });
+    return { sent: false, via: null, reason: "no_template" };
+  }
 
-    if (convErr) {
-      console.warn("[INBOX][logInbound] conv lookup err", convErr.message);
-      return;
-    }
+  const toNorm = opts.to.startsWith("+") ? opts.to : `+${opts.to}`;
+  const inboxBody = describeTemplateSend(tpl, vars);
 
-    let conversationId: string | null = existing?.id ?? null;
-
-    // 2) If no conversation → create one
-    if (!conversationId) {
-      const { data: created, error: insErr } = await supa
-        .from("conversations")
-        .insert({
-          org_id: orgId,
-          customer_phone: phoneKey,
-          customer_name: null,
-          source: "waba",
-          last_message_at: nowIso,
-          last_message_preview: body.slice(0, 120),
-        })
-        .select("id")
-        .maybeSingle();
-
-      if (insErr) {
-        console.warn("[INBOX][logInbound] conv insert err", insErr.message);
-        return;
-      }
+  console.log("[FLOW][OUTGOING][TEMPLATE]", {
+    org_id: opts.orgId,
+    to: toNorm,
+    purpose: opts.purpose,
+    template: tpl.template_name,
+    language: tpl.language,
+  });
 
-      conversationId = created?.id ?? null;
-    } else {
-      // 3) Update existing conversation preview
-      const { error: updErr } = await supa
-        .from("conversations")
-        .update({
-          last_message_at: nowIso,
-          last_message_preview: body.slice(0, 120),
-          source: "waba",
-        })
-        .eq("id", conversationId)
-        .eq("org_id", orgId);
-
-      if (updErr) {
-        console.warn("[INBOX][logInbound] conv update err", updErr.message);
-      }
-    }
+  const queued = await enqueueWabaMessage({
+    orgId: opts.orgId,
+    phoneNumberId: opts.phoneNumberId,
+    to: toNorm,
+    payload: {
+      messaging_product: "whatsapp",
+      to: toNorm,
+      type: "template",
+      template: buildTemplatePayload(tpl, vars),
+    },
+    preview: inboxBody,
+    inboxBody,
+    senderType: "system",
+  });
 
-    if (!conversationId) return;
-
-    // 4) Insert message row
-    const { error: msgErr } = await supa.from("messages").insert({
-      org_id: orgId,
-      conversation_id: conversationId,
-      direction: "in",
-      sender_type: "customer",
-      channel: "waba",
-      body,
-      wa_msg_id: msgId,
-    });
+  return {
+    sent: !!queued.id && queued.status !== "failed",
+    via: "template",
+    reason: queued.status === "failed" ? "send_failed" : undefined,
+  };
+}
 
-    if (msgErr) {
-      console.warn("[INBOX][logInbound] msg insert err", msgErr.message);
+// ─────────────────────────────
+// Test mode: sign a fixture payload like Meta would
+// POST /test/sign  { ...webhook payload }  → { signature, body }
+// Send `body` verbatim with header X-Hub-Signature-256: <signature>
+// ─────────────────────────────
+if (WABA_SIGNATURE_TEST_MODE) {
+  console.log("[WABA][SIG] test mode enabled – /test/sign is exposed");
+
+  waba.post("/test/sign", (req, res) => {
+    try {
+      const signed = signWabaFixture(req.body);
+      return res.json({
+        ok: true,
+        header: "X-Hub-Signature-256",
+        signature: signed.signature,
+        body: signed.body,
+      });
+    } catch (e: any) {
+      return res.status(400).json({ ok: false, error: e?.message || e });
     }
-  } catch (e: any) {
-    console.warn("[INBOX][logInbound] catch", e?.message || e);
-  }
+  });
 }
 
 waba.post("/", async (req, res) => {
   try {
+    // 🔐 0) Verify X-Hub-Signature-256 before touching the payload
+    const sig = await checkWabaWebhookRequest(req);
+    if (!sig.ok) {
+      console.warn("[WABA][SIG_REJECT]", {
+        reason: sig.reason,
+        org_id: sig.orgId || null,
+        ip: req.ip,
+        url: req.originalUrl,
+      });
+
+      if (sig.orgId) {
+        await logFlowEvent({
+          orgId: sig.orgId,
+          event: "webhook_signature_rejected",
+          meta: { reason: sig.reason, ip: req.ip },
+        });
+      }
+
+      return res.sendStatus(401);
+    }
+
     const body = req.body;
     if (!body || !body.entry) {
       console.log("[WABA] no entry in body");
@@ -336,13 +409,18 @@ waba.post("/", async (req, res) => {
         const metadata = value.metadata || {};
         const phoneNumberId = metadata.phone_number_id as string | undefined;
 
+        // 📬 Delivery receipts (sent / delivered / read / failed)
+        for (const st of (value.statuses || []) as any[]) {
+          await applyWabaStatusUpdate(st);
+        }
+
         if (!phoneNumberId || messages.length === 0) continue;
 
         // 🔍 Find org for this WABA number
         const { data: orgs, error: orgErr } = await supa
           .from("orgs")
           .select(
-            "id, name, ingest_mode, auto_reply_enabled, is_disabled, parse_mode"
+            "id, name, ingest_mode, auto_reply_enabled, is_disabled, parse_mode, wa_access_token, wa_phone_number_id"
           )
           .eq("wa_phone_number_id", phoneNumberId)
           .limit(1);
@@ -367,154 +445,14 @@ waba.post("/", async (req, res) => {
         //   continue;
         // }
 
+        // dedup → inbox → AI → reply (shared with the other channels)
         for (const msg of messages) {
-          try {
-            const from = msg.from as string;
-            const msgId = msg.id as string;
-            const ts = Number(msg.timestamp || Date.now()) * 1000;
-            const msgType = msg.type as string;
-
-            // 🔁 Dedup per msgId (do this BEFORE type filtering)
-            if (seenMsgIds.has(msgId)) {
-              console.log("[WABA][DEDUP] skipping already-seen msg", msgId);
-              continue;
-            }
-            seenMsgIds.add(msgId);
-            if (seenMsgIds.size > MAX_SEEN_MSG_IDS) {
-              seenMsgIds.clear();
-            }
-
-            // 🧩 Normalize text + location
-            let text: string = "";
-            let location_lat: number | null = null;
-            let location_lng: number | null = null;
-
-            if (msgType === "text") {
-              text = (msg.text?.body || "").trim();
-              if (!text) {
-                // empty text – ignore
-                continue;
-              }
-            } else if (msgType === "location") {
-              text = ""; // addressEngine will use coords only
-              location_lat = msg.location?.latitude ?? null;
-              location_lng = msg.location?.longitude ?? null;
-              console.log("[WABA][LOCATION_MSG]", {
-                from,
-                msgId,
-                location_lat,
-                location_lng,
-              });
-            } else {
-              // ignore other types for now (image, audio, etc.)
-              continue;
-            }
-
-            console.log("[FLOW][INCOMING][V2]", {
-              org_id: org.id,
-              from,
-              msgId,
-              text,
-              type: msgType,
-              location_lat,
-              location_lng,
-            });
-
-            await logInboundMessageToInbox({
-              orgId: org.id,
-              from,
-              text: text || "[non-text message]",
-              msgId,
-            });
-
-            // 🛑 1) Hard block: org.disabled → no AI, no outgoing
-            if (org.is_disabled) {
-              console.log("[WABA] org is_disabled, skipping AI + reply", {
-                org_id: org.id,
-              });
-              continue;
-            }
-
-            // 🧭 2) Ingest mode guard (keep existing behaviour)
-            if (org.ingest_mode && org.ingest_mode !== "waba") {
-              console.log(
-                "[WABA] org not in waba ingest_mode after log, skipping AI",
-                {
-                  org_id: org.id,
-                  ingest_mode: org.ingest_mode,
-                }
-              );
-              continue;
-            }
-
-            // ⏸ 3) Parse mode: manual = AI paused / manual mode
-            const parseMode = org.parse_mode || "ai";
-            if (parseMode !== "ai") {
-              console.log("[WABA] parse_mode != 'ai', skipping AI auto-reply", {
-                org_id: org.id,
-                parse_mode: parseMode,
-              });
-              continue;
-            }
-
-            // 🔕 4) Auto-reply toggle: logs ok, but no automatic replies
-            if (!org.auto_reply_enabled) {
-              console.log(
-                "[WABA] auto_reply disabled for org, logging only",
-                org.id
-              );
-              continue;
-            }
-
-            // 🧠 5) Single call into your AI / order brain
-            const result = await ingestCoreFromMessage({
-              org_id: org.id,
-              text,
-              ts,
-              from_phone: from,
-              from_name: null,
-              msg_id: msgId,
-              source: "waba",
-              location_lat,
-              location_lng,
-            });
-
-            console.log("[WABA][INGEST_RESULT][V2]", {
-              org_id: org.id,
-              from,
-              msgId,
-              kind: result?.kind,
-              reason: result?.reason,
-              order_id: result?.order_id,
-              stored: result?.stored,
-              image: result?.image || null,
-            });
-
-            const reply =
-              typeof result?.reply === "string" && result.reply.trim()
-                ? result.reply.trim()
-                : null;
-
-            if (reply) {
-              await sendWabaText({
-                phoneNumberId,
-                to: from,
-                orgId: org.id,
-                text: reply,
-                image: result?.image || null,
-                caption: reply,
-              });
-
-              console.log("[WABA][AUTO_REPLY][V2]", {
-                org_id: org.id,
-                from,
-                msgId,
-                replyPreview: reply.slice(0, 150),
-              });
-            }
-          } catch (msgErr: any) {
-            console.error("[WABA][MSG_ERR]", msgErr?.message || msgErr);
-          }
+          await processChannelMessage(wabaAdapter, org, {
+            channel: "waba",
+            id: String(msg.id),
+            external_id: String(msg.from),
+            raw: msg,
+          });
         }
       }
     }
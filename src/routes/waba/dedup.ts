@@ -0,0 +1,187 @@
+// src/routes/waba/dedup.ts
+import { supa } from "../../db";
+
+/**
+ * Inbound WhatsApp message dedup, shared across instances and restarts.
+ *
+ * Table `waba_inbound_dedup` (one row per Meta message id):
+ *   wa_msg_id       text primary key
+ *   org_id          uuid
+ *   customer_phone  text
+ *   status          text        -- 'processing' | 'done'
+ *   attempts        int
+ *   claimed_at      timestamptz
+ *   replied_at      timestamptz -- set once the auto-reply went out
+ *   done_at         timestamptz
+ *   expires_at      timestamptz -- row is ignored (and pruned) after this
+ *
+ * Meta retries for up to ~7 days, so that is the default TTL.
+ */
+
+const TABLE = "waba_inbound_dedup";
+
+const DEDUP_TTL_MS =
+  Number(process.env.WABA_DEDUP_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+
+// A 'processing' row older than this is treated as a crashed worker → re-claimable
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+const PRUNE_EVERY_MS = 10 * 60 * 1000;
+let lastPruneAt = 0;
+
+// Local fallback when the DB is unreachable (bounded, oldest evicted first)
+const localSeen = new Map<string, number>();
+const MAX_LOCAL_SEEN = 10_000;
+
+export type InboundClaim = {
+  claimed: boolean;
+  // why we did NOT claim it (or that this is a retry of a stale claim)
+  reason?: "duplicate" | "in_flight" | "stale_retry" | "local_fallback";
+  // true when a reply was already sent for this message id
+  alreadyReplied?: boolean;
+};
+
+function rememberLocal(waMsgId: string): boolean {
+  const now = Date.now();
+  const seenAt = localSeen.get(waMsgId);
+  if (seenAt && now - seenAt < DEDUP_TTL_MS) return false;
+
+  localSeen.set(waMsgId, now);
+  while (localSeen.size > MAX_LOCAL_SEEN) {
+    const oldest = localSeen.keys().next().value;
+    if (oldest === undefined) break;
+    localSeen.delete(oldest);
+  }
+  return true;
+}
+
+async function pruneExpired() {
+  const now = Date.now();
+  if (now - lastPruneAt < PRUNE_EVERY_MS) return;
+  lastPruneAt = now;
+
+  const { error } = await supa
+    .from(TABLE)
+    .delete()
+    .lt("expires_at", new Date(now).toISOString());
+
+  if (error) console.warn("[WABA][DEDUP] prune err", error.message);
+}
+
+/**
+ * Atomically claims a message id for processing.
+ * Only the caller that gets { claimed: true } may run ingest + reply.
+ */
+export async function claimInboundMessage(opts: {
+  orgId: string;
+  waMsgId: string;
+  from?: string | null;
+}): Promise<InboundClaim> {
+  const { orgId, waMsgId } = opts;
+  if (!waMsgId) return { claimed: true };
+
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const expiresIso = new Date(now.getTime() + DEDUP_TTL_MS).toISOString();
+
+  try {
+    pruneExpired().catch(() => {});
+
+    // 1) Insert-if-absent: the unique key makes this race-free across instances
+    const { data: inserted, error: insErr } = await supa
+      .from(TABLE)
+      .upsert(
+        {
+          wa_msg_id: waMsgId,
+          org_id: orgId,
+          customer_phone: (opts.from || "").replace(/[^\d]/g, "") || null,
+          status: "processing",
+          attempts: 1,
+          claimed_at: nowIso,
+          expires_at: expiresIso,
+        },
+        { onConflict: "wa_msg_id", ignoreDuplicates: true }
+      )
+      .select("wa_msg_id");
+
+    if (insErr) throw insErr;
+    if (inserted && inserted.length > 0) return { claimed: true };
+
+    // 2) Row already exists → decide based on its state
+    const { data: row, error: selErr } = await supa
+      .from(TABLE)
+      .select("status, attempts, claimed_at, replied_at, expires_at")
+      .eq("wa_msg_id", waMsgId)
+      .maybeSingle();
+
+    if (selErr) throw selErr;
+    if (!row) return { claimed: false, reason: "in_flight" };
+
+    const expired =
+      row.expires_at && new Date(row.expires_at).getTime() < now.getTime();
+    const stale =
+      row.status === "processing" &&
+      row.claimed_at &&
+      now.getTime() - new Date(row.claimed_at).getTime() > STALE_PROCESSING_MS;
+
+    if (!expired && !stale) {
+      return {
+        claimed: false,
+        reason: row.status === "done" ? "duplicate" : "in_flight",
+        alreadyReplied: !!row.replied_at,
+      };
+    }
+
+    // 3) Expired or crashed claim → compare-and-set on claimed_at
+    const { data: reclaimed, error: updErr } = await supa
+      .from(TABLE)
+      .update({
+        status: "processing",
+        attempts: Number(row.attempts || 1) + 1,
+        claimed_at: nowIso,
+        expires_at: expiresIso,
+        ...(expired ? { replied_at: null, done_at: null } : {}),
+      })
+      .eq("wa_msg_id", waMsgId)
+      .eq("claimed_at", row.claimed_at)
+      .select("wa_msg_id");
+
+    if (updErr) throw updErr;
+    if (!reclaimed || reclaimed.length === 0) {
+      return { claimed: false, reason: "in_flight" };
+    }
+
+    return {
+      claimed: true,
+      reason: stale ? "stale_retry" : undefined,
+      alreadyReplied: !expired && !!row.replied_at,
+    };
+  } catch (e: any) {
+    console.warn("[WABA][DEDUP] db err, using local fallback", e?.message || e);
+    return rememberLocal(waMsgId)
+      ? { claimed: true, reason: "local_fallback" }
+      : { claimed: false, reason: "duplicate" };
+  }
+}
+
+// Reply for this message went out → never send it again on retries
+export async function markInboundReplied(waMsgId: string) {
+  if (!waMsgId) return;
+  const { error } = await supa
+    .from(TABLE)
+    .update({ replied_at: new Date().toISOString() })
+    .eq("wa_msg_id", waMsgId);
+
+  if (error) console.warn("[WABA][DEDUP] mark replied err", error.message);
+}
+
+// Processing finished (with or without a reply)
+export async function markInboundDone(waMsgId: string) {
+  if (!waMsgId) return;
+  const { error } = await supa
+    .from(TABLE)
+    .update({ status: "done", done_at: new Date().toISOString() })
+    .eq("wa_msg_id", waMsgId);
+
+  if (error) console.warn("[WABA][DEDUP] mark done err", error.message);
+}
@@ -0,0 +1,180 @@
+// src/routes/waba/media.ts
+import axios from "axios";
+import { supa } from "../../db";
+import { transcribeAudio } from "../../ai/lang/transcribe";
+
+/**
+ * Inbound WhatsApp media (images, documents, audio):
+ *  1) resolve the media id → short-lived Meta URL
+ *  2) download the bytes with the org's token
+ *  3) store them in Supabase Storage and return a public URL
+ */
+
+const META_WA_BASE = "https://graph.facebook.com/v21.0";
+
+// Bucket for customer images / documents (voice notes keep using 'voices')
+export const WA_MEDIA_BUCKET = process.env.WA_MEDIA_BUCKET || "wa-media";
+export const WA_VOICE_BUCKET = "voices";
+
+// Meta caps media at 100MB for documents; we don't need more than this
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+
+export type InboundMediaKind = "image" | "document" | "audio";
+
+export type StoredMedia = {
+  kind: InboundMediaKind;
+  url: string;
+  mime_type: string;
+  wa_media_id: string;
+  caption?: string | null;
+  filename?: string | null;
+  transcript?: string | null;
+  transcript_lang?: string | null;
+};
+
+export function extFromMime(mime: string): string {
+  const m = (mime || "").toLowerCase();
+  if (m.includes("jpeg") || m.includes("jpg")) return "jpg";
+  if (m.includes("png")) return "png";
+  if (m.includes("webp")) return "webp";
+  if (m.includes("gif")) return "gif";
+  if (m.includes("pdf")) return "pdf";
+  if (m.includes("ogg")) return "ogg";
+  if (m.includes("mpeg")) return "mp3";
+  if (m.includes("mp4")) return "mp4";
+  if (m.includes("amr")) return "amr";
+  if (m.includes("aac")) return "aac";
+  if (m.includes("wav")) return "wav";
+  if (m.includes("webm")) return "webm";
+  return "bin";
+}
+
+export async function downloadWhatsAppMedia(
+  mediaId: string,
+  accessToken: string = process.env.WA_ACCESS_TOKEN || ""
+): Promise<{ buffer: Buffer; contentType: string; ext: string }> {
+  if (!accessToken) throw new Error("WA media download: no access token");
+
+  // Step A: get media URL
+  const info = await axios.get(`${META_WA_BASE}/${mediaId}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    timeout: 15000,
+  });
+  const mediaInfo: any = info.data || {}; // { url, mime_type, file_size, ... }
+  if (!mediaInfo.url) throw new Error("WA media lookup failed: no url");
+
+  if (mediaInfo.file_size && Number(mediaInfo.file_size) > MAX_MEDIA_BYTES) {
+    throw new Error(`WA media too large: ${mediaInfo.file_size} bytes`);
+  }
+
+  // Step B: download binary
+  const bin = await axios.get(mediaInfo.url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    responseType: "arraybuffer",
+    timeout: 30000,
+    maxContentLength: MAX_MEDIA_BYTES,
+  });
+
+  const buffer = Buffer.from(bin.data);
+  const contentType = mediaInfo.mime_type || "application/octet-stream";
+
+  return { buffer, contentType, ext: extFromMime(contentType) };
+}
+
+export async function uploadMediaToStorage(
+  bucket: string,
+  orgId: string,
+  blob: Buffer,
+  contentType: string,
+  ext: string
+): Promise<string> {
+  const path = `${orgId}/${Date.now()}_${Math.random()
+    .toString(36)
+    .slice(2)}.${ext}`;
+
+  const { error } = await supa.storage.from(bucket).upload(path, blob, {
+    contentType,
+    upsert: false,
+  });
+  if (error) throw error;
+
+  const { data } = supa.storage.from(bucket).getPublicUrl(path);
+  return data.publicUrl;
+}
+
+// Meta message (type image/document/audio) → stored media, or null if none
+export async function storeInboundMedia(opts: {
+  orgId: string;
+  accessToken: string;
+  msg: any;
+  bucket?: string;
+}): Promise<StoredMedia | null> {
+  const { msg } = opts;
+  const kind = msg?.type as InboundMediaKind;
+  const part = kind ? msg?.[kind] : null;
+  if (!part?.id) return null;
+
+  const media = await downloadWhatsAppMedia(part.id, opts.accessToken);
+  const url = await uploadMediaToStorage(
+    opts.bucket || WA_MEDIA_BUCKET,
+    opts.orgId,
+    media.buffer,
+    media.contentType,
+    media.ext
+  );
+
+  return {
+    kind,
+    url,
+    mime_type: media.contentType,
+    wa_media_id: String(part.id),
+    caption: part.caption ? String(part.caption).trim() : null,
+    filename: part.filename ? String(part.filename) : null,
+  };
+}
+
+// audio message, or a document that is really audio (some clients send those)
+export function isVoiceMessage(msg: any): boolean {
+  if (msg?.type === "audio" || msg?.type === "voice") return true;
+  return (
+    msg?.type === "document" &&
+    String(msg.document?.mime_type || "").startsWith("audio/")
+  );
+}
+
+// Voice note → 'voices' bucket + transcript (null if STT is off / failed)
+export async function storeInboundVoiceNote(opts: {
+  orgId: string;
+  accessToken: string;
+  msg: any;
+}): Promise<StoredMedia | null> {
+  const { msg } = opts;
+  const part = msg?.audio || msg?.voice || msg?.document;
+  if (!part?.id) return null;
+
+  const media = await downloadWhatsAppMedia(part.id, opts.accessToken);
+  const url = await uploadMediaToStorage(
+    WA_VOICE_BUCKET,
+    opts.orgId,
+    media.buffer,
+    media.contentType,
+    media.ext
+  );
+
+  const stt = await transcribeAudio({
+    buffer: media.buffer,
+    mimeType: media.contentType,
+    mediaId: String(part.id),
+  });
+
+  return {
+    kind: "audio",
+    url,
+    mime_type: media.contentType,
+    wa_media_id: String(part.id),
+    caption: null,
+    filename: part.filename ? String(part.filename) : null,
+    transcript: stt?.text || null,
+    transcript_lang: stt?.language || null,
+  };
+}
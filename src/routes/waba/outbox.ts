@@ -0,0 +1,595 @@
+// src/routes/waba/outbox.ts
+import axios from "axios";
+import os from "os";
+import { supa } from "../../db";
+import { logFlowEvent } from "./wabaimports";
+import { WABA_SIMULATOR_ENABLED, captureSimulatedSend } from "./simulator";
+
+/**
+ * Outbound WhatsApp queue.
+ *
+ * Every Cloud API send goes through `waba_outbox` so a Meta 5xx / rate limit
+ * never loses a payment link or confirmation:
+ *
+ *   id               uuid primary key
+ *   org_id           uuid
+ *   phone_number_id  text
+ *   to_phone         text        -- E.164 with '+'
+ *   payload          jsonb       -- exact Cloud API /messages body
+ *   preview          text        -- text / caption, for logs
+ *   message_id       uuid        -- inbox `messages` row (delivery_status lives there)
+ *   sender_type      text        -- 'ai' | 'store' | 'system'
+ *   status           text        -- 'queued' | 'sending' | 'sent' | 'failed'
+ *   attempts         int
+ *   max_attempts     int
+ *   next_attempt_at  timestamptz
+ *   locked_at        timestamptz
+ *   locked_by        text
+ *   last_error       text
+ *   wa_msg_id        text
+ *   created_at / sent_at timestamptz
+ *
+ * `messages.delivery_status` walks: queued → sent → delivered → read (or failed
+ * before delivery), driven first by the outbox and then by the `statuses`
+ * webhook. A "failed" arriving after delivered / read only sets delivery_error.
+ */
+
+const META_WA_BASE = "https://graph.facebook.com/v21.0";
+const TABLE = "waba_outbox";
+
+const MAX_ATTEMPTS = Number(process.env.WABA_OUTBOX_MAX_ATTEMPTS || 6);
+const BASE_BACKOFF_MS = 15_000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.WABA_OUTBOX_POLL_MS || 5000);
+const WORKER_BATCH = 25;
+
+// Per-number throughput (Cloud API default is 80 mps; stay well under it)
+const MAX_MPS_PER_NUMBER = Number(process.env.WABA_MAX_MPS || 20);
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// Meta error codes worth retrying (throttling / transient)
+const RETRYABLE_META_CODES = new Set([
+  1, 2, 4, 17, 32, 613, 80007, 130429, 131000, 131016, 131048, 131056, 133004,
+]);
+
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed";
+
+export type DeliveryStatus =
+  | "queued"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed";
+
+// ─────────────────────────────
+// Per-number rate limiter
+// ─────────────────────────────
+//
+// Shared by every instance: each send claims a slot in the current second
+// for its number, so N workers together stay under MAX_MPS_PER_NUMBER.
+//
+//   create table waba_send_windows (
+//     phone_number_id text not null,
+//     window_start timestamptz not null,
+//     sent int not null default 0,
+//     primary key (phone_number_id, window_start)
+//   );
+//
+//   create or replace function take_waba_send_slot(p_number text)
+//   returns table (sent int, window_start timestamptz) language plpgsql as $$
+//   declare w timestamptz := date_trunc('second', clock_timestamp());
+//   begin
+//     return query
+//       insert into waba_send_windows as s (phone_number_id, window_start, sent)
+//       values (p_number, w, 1)
+//       on conflict (phone_number_id, window_start) do update set sent = s.sent + 1
+//       returning s.sent, s.window_start;
+//     delete from waba_send_windows
+//       where phone_number_id = p_number and window_start < w - interval '1 minute';
+//   end $$;
+//
+// If the RPC is unavailable we fall back to a token bucket in this process
+// (per instance only) rather than stop sending.
+
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function acquireLocalSlot(phoneNumberId: string) {
+  for (;;) {
+    const now = Date.now();
+    const b = buckets.get(phoneNumberId) || {
+      tokens: MAX_MPS_PER_NUMBER,
+      updatedAt: now,
+    };
+
+    const refill = ((now - b.updatedAt) / 1000) * MAX_MPS_PER_NUMBER;
+    b.tokens = Math.min(MAX_MPS_PER_NUMBER, b.tokens + refill);
+    b.updatedAt = now;
+
+    if (b.tokens >= 1) {
+      b.tokens -= 1;
+      buckets.set(phoneNumberId, b);
+      return;
+    }
+
+    buckets.set(phoneNumberId, b);
+    await sleep(Math.ceil(((1 - b.tokens) / MAX_MPS_PER_NUMBER) * 1000));
+  }
+}
+
+async function acquireSendSlot(phoneNumberId: string) {
+  for (;;) {
+    const { data, error } = await supa.rpc("take_waba_send_slot", { p_number: phoneNumberId });
+    const row = Array.isArray(data) ? data[0] : data;
+
+    if (error || !row) {
+      console.warn("[WABA_OUTBOX][RATE_LIMIT_FALLBACK]", error?.message || "no_row");
+      return acquireLocalSlot(phoneNumberId);
+    }
+    if (Number(row.sent) <= MAX_MPS_PER_NUMBER) return;
+
+    // this second is full everywhere → wait for the next one
+    const windowEnd = new Date(row.window_start).getTime() + 1000;
+    await sleep(Math.max(50, windowEnd - Date.now()));
+  }
+}
+
+function backoffMs(attempts: number): number {
+  const exp = BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1));
+  const jitter = Math.floor(Math.random() * 1000);
+  return Math.min(MAX_BACKOFF_MS, exp) + jitter;
+}
+
+function classifySendError(e: any): { retryable: boolean; message: string } {
+  const status = e?.response?.status as number | undefined;
+  const metaErr = e?.response?.data?.error;
+  const code = Number(metaErr?.code);
+  const message =
+    metaErr?.message ||
+    (status ? `http_${status}` : "") ||
+    e?.message ||
+    String(e);
+
+  // No response → network / timeout → retry
+  if (!status) return { retryable: true, message };
+  if (status >= 500 || status === 429) return { retryable: true, message };
+  if (Number.isFinite(code) && RETRYABLE_META_CODES.has(code)) {
+    return { retryable: true, message: `${code}: ${message}` };
+  }
+  return {
+    retryable: false,
+    message: Number.isFinite(code) ? `${code}: ${message}` : message,
+  };
+}
+
+// ─────────────────────────────
+// Inbox helpers
+// ─────────────────────────────
+async function findConversationId(
+  orgId: string,
+  toNorm: string
+): Promise<string | null> {
+  const { data: conv } = await supa
+    .from("conversations")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("customer_phone", toNorm.replace(/^\+/, ""))
+    .limit(1)
+    .maybeSingle();
+
+  if (conv?.id) return conv.id;
+
+  const { data: conv2 } = await supa
+    .from("conversations")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("customer_phone", toNorm)
+    .limit(1)
+    .maybeSingle();
+
+  return conv2?.id || null;
+}
+
+async function setMessageDelivery(
+  messageId: string | null,
+  patch: Record<string, any>
+) {
+  if (!messageId) return;
+  const { error } = await supa.from("messages").update(patch).eq("id", messageId);
+  if (error) console.warn("[WABA][OUTBOX] message update err", error.message);
+}
+
+// ─────────────────────────────
+// Enqueue
+// ─────────────────────────────
+export async function enqueueWabaMessage(opts: {
+  orgId: string;
+  phoneNumberId: string;
+  to: string;
+  payload: any;
+  preview?: string | null;
+  inboxBody?: string | null; // what to show in the inbox (null → don't log)
+  senderType?: "ai" | "store" | "system";
+  bumpConversation?: boolean;
+  sendNow?: boolean; // try immediately (default true)
+}): Promise<{ id: string | null; status: OutboxStatus | null; message_id: string | null }> {
+  const toNorm = opts.to.startsWith("+") ? opts.to : `+${opts.to}`;
+  const nowIso = new Date().toISOString();
+
+  // 1) Inbox row first so staff can see "queued" immediately
+  let messageId: string | null = null;
+  if (opts.inboxBody != null) {
+    try {
+      const convId = await findConversationId(opts.orgId, toNorm);
+      if (convId) {
+        const { data: msgRow, error: msgErr } = await supa
+          .from("messages")
+          .insert({
+            org_id: opts.orgId,
+            conversation_id: convId,
+            direction: "out",
+            sender_type: opts.senderType || "ai",
+            channel: "waba",
+            body: opts.inboxBody,
+            wa_msg_id: null,
+            delivery_status: "queued",
+            delivery_status_at: nowIso,
+          })
+          .select("id")
+          .maybeSingle();
+
+        if (msgErr) console.warn("[INBOX][MSG out err]", msgErr.message);
+        messageId = msgRow?.id || null;
+
+        if (opts.bumpConversation) {
+          await supa
+            .from("conversations")
+            .update({
+              last_message_at: nowIso,
+              last_message_preview: String(opts.inboxBody).slice(0, 120),
+            })
+            .eq("id", convId)
+            .eq("org_id", opts.orgId);
+        }
+      }
+    } catch (e: any) {
+      console.warn("[INBOX][outbound log err]", e?.message || e);
+    }
+  }
+
+  // 2) Outbox row
+  const { data: row, error } = await supa
+    .from(TABLE)
+    .insert({
+      org_id: opts.orgId,
+      phone_number_id: opts.phoneNumberId,
+      to_phone: toNorm,
+      payload: { ...opts.payload, to: toNorm },
+      preview: opts.preview ?? null,
+      message_id: messageId,
+      sender_type: opts.senderType || "ai",
+      status: "queued",
+      attempts: 0,
+      max_attempts: MAX_ATTEMPTS,
+      next_attempt_at: nowIso,
+      created_at: nowIso,
+    })
+    .select("*")
+    .maybeSingle();
+
+  if (error || !row) {
+    console.error("[WABA][OUTBOX] enqueue err", error?.message || error);
+    await setMessageDelivery(messageId, {
+      delivery_status: "failed",
+      delivery_status_at: new Date().toISOString(),
+      delivery_error: "enqueue_failed",
+    });
+    return { id: null, status: null, message_id: messageId };
+  }
+
+  if (opts.sendNow === false) {
+    return { id: row.id, status: "queued", message_id: messageId };
+  }
+
+  // 3) Fast path: claim + send right away (worker picks it up on failure)
+  const claimed = await claimRow(row);
+  if (!claimed) return { id: row.id, status: "queued", message_id: messageId };
+
+  const status = await deliverRow(claimed);
+  return { id: row.id, status, message_id: messageId };
+}
+
+// ─────────────────────────────
+// Claim + deliver
+// ─────────────────────────────
+async function claimRow(row: any): Promise<any | null> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .update({
+      status: "sending",
+      locked_at: new Date().toISOString(),
+      locked_by: WORKER_ID,
+    })
+    .eq("id", row.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[WABA][OUTBOX] claim err", error.message);
+    return null;
+  }
+  return data || null;
+}
+
+async function loadOrgToken(orgId: string): Promise<{
+  token: string | null;
+  blocked: string | null;
+}> {
+  const { data: row, error } = await supa
+    .from("orgs")
+    .select("is_disabled, wa_access_token")
+    .eq("id", orgId)
+    .maybeSingle();
+
+  if (error) return { token: null, blocked: null }; // transient → retry
+  if (!row) return { token: null, blocked: "org_not_found" };
+  if (row.is_disabled) return { token: null, blocked: "org_disabled" };
+  if (!row.wa_access_token) return { token: null, blocked: "missing_wa_access_token" };
+  return { token: row.wa_access_token, blocked: null };
+}
+
+async function deliverRow(row: any): Promise<OutboxStatus> {
+  const attempts = Number(row.attempts || 0) + 1;
+  const maxAttempts = Number(row.max_attempts || MAX_ATTEMPTS);
+
+  const fail = async (message: string, retryable: boolean) => {
+    const giveUp = !retryable || attempts >= maxAttempts;
+    const nowIso = new Date().toISOString();
+
+    await supa
+      .from(TABLE)
+      .update({
+        status: giveUp ? "failed" : "queued",
+        attempts,
+        last_error: message.slice(0, 500),
+        next_attempt_at: giveUp
+          ? null
+          : new Date(Date.now() + backoffMs(attempts)).toISOString(),
+        locked_at: null,
+        locked_by: null,
+      })
+      .eq("id", row.id);
+
+    console.warn("[WABA][OUTBOX][SEND_ERR]", {
+      id: row.id,
+      org_id: row.org_id,
+      attempts,
+      retryable,
+      giveUp,
+      error: message,
+    });
+
+    if (giveUp) {
+      await setMessageDelivery(row.message_id, {
+        delivery_status: "failed",
+        delivery_status_at: nowIso,
+        delivery_error: message.slice(0, 500),
+      });
+    }
+
+    return giveUp ? ("failed" as const) : ("queued" as const);
+  };
+
+  const { token, blocked } = await loadOrgToken(row.org_id);
+  if (blocked) {
+    console.log("[WABA][OUTBOX] blocked", { id: row.id, reason: blocked });
+    return fail(blocked, false);
+  }
+  if (!token) return fail("org_lookup_failed", true);
+
+  try {
+    await acquireSendSlot(row.phone_number_id);
+
+    // dev simulator plays Meta: capture the payload instead of sending it
+    const resp = WABA_SIMULATOR_ENABLED
+      ? captureSimulatedSend(row.phone_number_id, row.payload)
+      : await axios.post(
+          `${META_WA_BASE}/${row.phone_number_id}/messages`,
+          row.payload,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+              "Content-Type": "application/json",
+            },
+            timeout: 15000,
+          }
+        );
+
+    const wa_msg_id =
+      resp.data?.messages && resp.data.messages[0]?.id
+        ? String(resp.data.messages[0].id)
+        : null;
+    const nowIso = new Date().toISOString();
+
+    await supa
+      .from(TABLE)
+      .update({
+        status: "sent",
+        attempts,
+        wa_msg_id,
+        sent_at: nowIso,
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+      })
+      .eq("id", row.id);
+
+    await setMessageDelivery(row.message_id, {
+      wa_msg_id,
+      delivery_status: "sent",
+      delivery_status_at: nowIso,
+      delivery_error: null,
+    });
+
+    await logFlowEvent({
+      orgId: row.org_id,
+      from: String(row.to_phone || "").replace(/^\+/, ""),
+      event: row.sender_type === "store" ? "manual_reply_sent" : "auto_reply_sent",
+      msgId: wa_msg_id || undefined,
+      text: row.preview,
+      meta: {
+        phoneNumberId: row.phone_number_id,
+        type: row.payload?.type || null,
+        outbox_id: row.id,
+        attempts,
+      },
+    });
+
+    return "sent";
+  } catch (e: any) {
+    const { retryable, message } = classifySendError(e);
+    return fail(message, retryable);
+  }
+}
+
+// ─────────────────────────────
+// Worker: retries due rows + recovers stuck 'sending' rows
+// ─────────────────────────────
+let workerTimer: NodeJS.Timeout | null = null;
+let workerBusy = false;
+
+export async function processOutboxOnce(): Promise<number> {
+  if (workerBusy) return 0;
+  workerBusy = true;
+
+  try {
+    const nowIso = new Date().toISOString();
+
+    // Rows left in 'sending' by a crashed instance go back to the queue
+    await supa
+      .from(TABLE)
+      .update({ status: "queued", locked_at: null, locked_by: null })
+      .eq("status", "sending")
+      .lt("locked_at", new Date(Date.now() - LOCK_TIMEOUT_MS).toISOString());
+
+    const { data: due, error } = await supa
+      .from(TABLE)
+      .select("*")
+      .eq("status", "queued")
+      .lte("next_attempt_at", nowIso)
+      .order("next_attempt_at", { ascending: true })
+      .limit(WORKER_BATCH);
+
+    if (error) {
+      console.warn("[WABA][OUTBOX] poll err", error.message);
+      return 0;
+    }
+
+    let processed = 0;
+    for (const row of due || []) {
+      const claimed = await claimRow(row);
+      if (!claimed) continue; // another instance got it
+      await deliverRow(claimed);
+      processed++;
+    }
+    return processed;
+  } catch (e: any) {
+    console.warn("[WABA][OUTBOX] worker err", e?.message || e);
+    return 0;
+  } finally {
+    workerBusy = false;
+  }
+}
+
+export function startOutboxWorker() {
+  if (workerTimer) return;
+  console.log("[WABA][OUTBOX] worker started", {
+    worker: WORKER_ID,
+    interval_ms: WORKER_INTERVAL_MS,
+    max_mps: MAX_MPS_PER_NUMBER,
+  });
+  workerTimer = setInterval(() => {
+    processOutboxOnce().catch(() => {});
+  }, WORKER_INTERVAL_MS);
+}
+
+export function stopOutboxWorker() {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
+
+// ─────────────────────────────
+// `statuses` webhook → messages.delivery_status
+// ─────────────────────────────
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+export async function applyWabaStatusUpdate(status: any) {
+  const waMsgId = status?.id ? String(status.id) : "";
+  const next = String(status?.status || "") as DeliveryStatus;
+  if (!waMsgId || !(next in STATUS_RANK)) return;
+
+  const at = status?.timestamp
+    ? new Date(Number(status.timestamp) * 1000).toISOString()
+    : new Date().toISOString();
+
+  const errText =
+    next === "failed" && Array.isArray(status?.errors) && status.errors[0]
+      ? `${status.errors[0].code || ""}: ${
+          status.errors[0].title || status.errors[0].message || "failed"
+        }`.slice(0, 500)
+      : null;
+
+  try {
+    const { data: rows } = await supa
+      .from("messages")
+      .select("id, delivery_status")
+      .eq("wa_msg_id", waMsgId)
+      .limit(5);
+
+    let deliveredBefore = false;
+
+    for (const m of rows || []) {
+      const cur = (m.delivery_status || "queued") as DeliveryStatus;
+      if (cur === "failed") continue;
+
+      // a late "failed" after delivered / read keeps the status and only
+      // records the error next to it
+      if (next === "failed" && STATUS_RANK[cur] >= STATUS_RANK.delivered) {
+        deliveredBefore = true;
+        await setMessageDelivery(m.id, { delivery_error: errText });
+        continue;
+      }
+
+      // statuses can arrive out of order → never move backwards
+      if (STATUS_RANK[next] <= STATUS_RANK[cur]) continue;
+
+      await setMessageDelivery(m.id, {
+        delivery_status: next,
+        delivery_status_at: at,
+        delivery_error: errText,
+      });
+    }
+
+    if (next === "failed" && !deliveredBefore) {
+      await supa
+        .from(TABLE)
+        .update({ status: "failed", last_error: errText })
+        .eq("wa_msg_id", waMsgId);
+    }
+  } catch (e: any) {
+    console.warn("[WABA][STATUS] update err", e?.message || e);
+  }
+}
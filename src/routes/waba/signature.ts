@@ -0,0 +1,163 @@
+// src/routes/waba/signature.ts
+import crypto from "crypto";
+import type { Request } from "express";
+import { supa } from "../../db";
+
+/**
+ * Meta signs every webhook POST with the App Secret:
+ *   X-Hub-Signature-256: sha256=<hex hmac of the raw body>
+ *
+ * The raw body must be captured BEFORE JSON parsing (see captureRawBody),
+ * otherwise re-serialised JSON won't match the signature.
+ */
+
+const GLOBAL_APP_SECRET = process.env.META_APP_SECRET || "";
+
+// Test mode: lets dev/QA sign fixture payloads with the configured secret
+export const WABA_SIGNATURE_TEST_MODE =
+  process.env.WABA_SIGNATURE_TEST_MODE === "1" &&
+  process.env.NODE_ENV !== "production";
+
+// Escape hatch while an org is being migrated (never enable in production)
+const ALLOW_UNSIGNED = process.env.WABA_ALLOW_UNSIGNED === "1";
+
+// express.json({ verify }) hook → keeps the exact bytes on req.rawBody
+export function captureRawBody(req: any, _res: any, buf: Buffer) {
+  req.rawBody = Buffer.from(buf);
+}
+
+export function computeWabaSignature(
+  rawBody: Buffer | string,
+  appSecret: string
+): string {
+  const hex = crypto
+    .createHmac("sha256", appSecret)
+    .update(rawBody)
+    .digest("hex");
+  return `sha256=${hex}`;
+}
+
+export function verifyWabaSignature(
+  rawBody: Buffer,
+  signatureHeader: string,
+  appSecret: string
+): boolean {
+  const expected = computeWabaSignature(rawBody, appSecret);
+  const given = String(signatureHeader || "").trim();
+
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(given, "utf8");
+  const ok = a.length === b.length && crypto.timingSafeEqual(a, b);
+
+  console.log("[WABA][WEBHOOK][SIG]", {
+    ok,
+    sig_len: given.length,
+    body_len: rawBody?.length || 0,
+  });
+
+  return ok;
+}
+
+// Sign a fixture payload exactly the way Meta would (test mode only)
+export function signWabaFixture(
+  payload: any,
+  appSecret: string = GLOBAL_APP_SECRET
+): { body: string; signature: string } {
+  if (!appSecret) {
+    throw new Error("META_APP_SECRET not configured");
+  }
+  const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+  return { body, signature: computeWabaSignature(body, appSecret) };
+}
+
+// Every phone_number_id in the payload – one POST can batch several numbers
+function payloadPhoneNumberIds(body: any): string[] {
+  const ids = new Set<string>();
+  for (const entry of body?.entry || []) {
+    for (const change of entry?.changes || []) {
+      const id = change?.value?.metadata?.phone_number_id;
+      if (id) ids.add(String(id));
+    }
+  }
+  return Array.from(ids);
+}
+
+// Per-org app secret (orgs.wa_app_secret) → global META_APP_SECRET
+export async function resolveWabaAppSecret(
+  phoneNumberId: string | null
+): Promise<{ secret: string | null; orgId: string | null }> {
+  if (phoneNumberId) {
+    try {
+      const { data, error } = await supa
+        .from("orgs")
+        .select("id, wa_app_secret")
+        .eq("wa_phone_number_id", phoneNumberId)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.warn("[WABA][SIG] org secret lookup err", error.message);
+      } else if (data?.wa_app_secret) {
+        return { secret: data.wa_app_secret, orgId: data.id };
+      } else if (data?.id) {
+        return { secret: GLOBAL_APP_SECRET || null, orgId: data.id };
+      }
+    } catch (e: any) {
+      console.warn("[WABA][SIG] org secret lookup catch", e?.message || e);
+    }
+  }
+
+  return { secret: GLOBAL_APP_SECRET || null, orgId: null };
+}
+
+/**
+ * Verifies an incoming webhook request.
+ * Returns { ok: false, reason } when the request must be rejected.
+ *
+ * The signature covers the whole body, so every phone_number_id in it must
+ * resolve to the same app secret; a batch mixing orgs with different secrets
+ * is rejected (mixed_app_secrets) rather than trusted on one org's secret.
+ */
+export async function checkWabaWebhookRequest(
+  req: Request
+): Promise<{ ok: boolean; reason?: string; orgId?: string | null }> {
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+  const header = String(req.headers["x-hub-signature-256"] || "");
+  const phoneNumberIds = payloadPhoneNumberIds(req.body);
+
+  if (!Buffer.isBuffer(rawBody)) {
+    console.error(
+      "[WABA][SIG][FATAL] raw body not captured – mount waba with express.json({ verify: captureRawBody })"
+    );
+    return { ok: false, reason: "raw_body_missing" };
+  }
+
+  const resolved = phoneNumberIds.length
+    ? await Promise.all(phoneNumberIds.map((id) => resolveWabaAppSecret(id)))
+    : [await resolveWabaAppSecret(null)];
+  const { secret, orgId } = resolved[0];
+
+  if (new Set(resolved.map((r) => r.secret)).size > 1) {
+    console.warn("[WABA][SIG] payload spans numbers with different app secrets", {
+      phone_number_ids: phoneNumberIds,
+    });
+    return { ok: false, reason: "mixed_app_secrets", orgId };
+  }
+
+  if (!secret) {
+    if (ALLOW_UNSIGNED) {
+      console.warn("[WABA][SIG] no app secret configured, allowing unsigned", {
+        phone_number_ids: phoneNumberIds,
+      });
+      return { ok: true, orgId };
+    }
+    return { ok: false, reason: "app_secret_missing", orgId };
+  }
+
+  if (!header) {
+    return { ok: false, reason: "signature_missing", orgId };
+  }
+
+  const ok = verifyWabaSignature(rawBody, header, secret);
+  return ok ? { ok: true, orgId } : { ok: false, reason: "bad_signature", orgId };
+}
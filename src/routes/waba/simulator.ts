@@ -0,0 +1,488 @@
+// src/routes/waba/simulator.ts
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { memoryDb } from "../../db/memoryStore";
+import { USE_MEMORY_DB } from "../../db";
+import { getState } from "../../ai/ingest/stateManager";
+import { computeWabaSignature, resolveWabaAppSecret } from "./signature";
+
+/**
+ * Local WhatsApp Cloud API simulator (dev only, WABA_SIMULATOR=1).
+ *
+ * Plays the customer's phone:
+ *   - inbound: builds Meta-shaped webhook payloads, signs them like Meta and
+ *     POSTs them to our own /webhook/whatsapp (so waba.post("/") runs as-is)
+ *   - outbound: the outbox hands us the /messages body instead of calling
+ *     graph.facebook.com (captureSimulatedSend) and gets a fake wamid back
+ *
+ * Both directions land in an in-process transcript. Fixtures (JSON under
+ * fixtures/waba-sim) script a conversation and assert on the replies, the
+ * conversation state and the stored rows; they require DB_MODE=memory so each
+ * run starts from a clean, seeded store.
+ */
+
+export const WABA_SIMULATOR_ENABLED =
+  process.env.WABA_SIMULATOR === "1" && process.env.NODE_ENV !== "production";
+
+const FIXTURES_DIR =
+  process.env.WABA_SIM_FIXTURES_DIR ||
+  path.join(process.cwd(), "fixtures", "waba-sim");
+
+const MAX_TRANSCRIPT = 2000;
+
+export type SimDirection = "in" | "out";
+
+export type SimTranscriptEntry = {
+  seq: number;
+  direction: SimDirection;
+  phone_number_id: string;
+  customer: string; // digits only
+  type: string;
+  text: string;
+  wa_msg_id: string;
+  payload: any;
+  at: string;
+};
+
+// Customer → us
+export type SimInbound =
+  | { text: string }
+  | { tap: string } // button / list row id or title from the last interactive reply
+  | { location: { lat: number; lng: number; name?: string; address?: string } }
+  | { image: { caption?: string; mime_type?: string } };
+
+// ─────────────────────────────
+// Transcript
+// ─────────────────────────────
+const transcript: SimTranscriptEntry[] = [];
+let seq = 0;
+
+const digits = (s: string) => String(s || "").replace(/[^\d]/g, "");
+
+function record(e: Omit<SimTranscriptEntry, "seq" | "at">): SimTranscriptEntry {
+  const entry = { ...e, seq: ++seq, at: new Date().toISOString() };
+  transcript.push(entry);
+  if (transcript.length > MAX_TRANSCRIPT) transcript.shift();
+  return entry;
+}
+
+export function getSimTranscript(filter: {
+  phoneNumberId?: string;
+  customer?: string;
+  afterSeq?: number;
+} = {}): SimTranscriptEntry[] {
+  const customer = filter.customer ? digits(filter.customer) : "";
+  return transcript.filter(
+    (e) =>
+      (!filter.phoneNumberId || e.phone_number_id === filter.phoneNumberId) &&
+      (!customer || e.customer === customer) &&
+      (filter.afterSeq == null || e.seq > filter.afterSeq)
+  );
+}
+
+export function clearSimTranscript() {
+  transcript.length = 0;
+}
+
+// Readable text of a Cloud API /messages body (what the phone would show)
+export function describeOutboundPayload(payload: any): string {
+  switch (payload?.type) {
+    case "text":
+      return String(payload.text?.body || "");
+    case "image":
+      return `[image ${payload.image?.link || ""}] ${payload.image?.caption || ""}`.trim();
+    case "interactive": {
+      const i = payload.interactive || {};
+      const options =
+        i.type === "button"
+          ? (i.action?.buttons || []).map((b: any) => b.reply?.title)
+          : (i.action?.sections || []).flatMap((s: any) =>
+              (s.rows || []).map((r: any) => r.title)
+            );
+      return `${i.body?.text || ""}\n[${options.join(" | ")}]`;
+    }
+    case "template":
+      return `[template ${payload.template?.name || ""}]`;
+    default:
+      return `[${payload?.type || "unknown"}]`;
+  }
+}
+
+/**
+ * Outbox hook: stands in for POST graph.facebook.com/{phone_number_id}/messages.
+ * Returns the same shape Meta does so the outbox marks the row as sent.
+ */
+export function captureSimulatedSend(phoneNumberId: string, payload: any) {
+  const wa_msg_id = `wamid.SIM.${crypto.randomBytes(8).toString("hex")}`;
+
+  record({
+    direction: "out",
+    phone_number_id: String(phoneNumberId),
+    customer: digits(payload?.to),
+    type: String(payload?.type || "text"),
+    text: describeOutboundPayload(payload),
+    wa_msg_id,
+    payload,
+  });
+
+  return {
+    data: {
+      messaging_product: "whatsapp",
+      contacts: [{ input: payload?.to, wa_id: digits(payload?.to) }],
+      messages: [{ id: wa_msg_id }],
+    },
+  };
+}
+
+// ─────────────────────────────
+// Inbound payloads (Meta webhook shape)
+// ─────────────────────────────
+function lastInteractive(phoneNumberId: string, customer: string): any | null {
+  const outs = getSimTranscript({ phoneNumberId, customer }).filter(
+    (e) => e.direction === "out" && e.type === "interactive"
+  );
+  return outs.length ? outs[outs.length - 1].payload.interactive : null;
+}
+
+function buildInboundMessage(
+  phoneNumberId: string,
+  customer: string,
+  input: SimInbound
+): any {
+  const base = {
+    from: customer,
+    id: `wamid.SIMIN.${crypto.randomBytes(8).toString("hex")}`,
+    timestamp: String(Math.floor(Date.now() / 1000)),
+  };
+
+  if ("text" in input) {
+    return { ...base, type: "text", text: { body: input.text } };
+  }
+
+  if ("location" in input) {
+    return {
+      ...base,
+      type: "location",
+      location: {
+        latitude: input.location.lat,
+        longitude: input.location.lng,
+        ...(input.location.name ? { name: input.location.name } : {}),
+        ...(input.location.address ? { address: input.location.address } : {}),
+      },
+    };
+  }
+
+  if ("image" in input) {
+    return {
+      ...base,
+      type: "image",
+      image: {
+        id: `sim-media-${crypto.randomBytes(4).toString("hex")}`,
+        mime_type: input.image.mime_type || "image/jpeg",
+        ...(input.image.caption ? { caption: input.image.caption } : {}),
+      },
+    };
+  }
+
+  // tap → match against the buttons / rows the customer was last shown
+  const want = String(input.tap).trim().toLowerCase();
+  const shown = lastInteractive(phoneNumberId, customer);
+  if (!shown) throw new Error(`tap "${input.tap}": no interactive message to tap`);
+
+  if (shown.type === "button") {
+    const btn = (shown.action?.buttons || [])
+      .map((b: any) => b.reply)
+      .find(
+        (r: any) =>
+          String(r?.id).toLowerCase() === want ||
+          String(r?.title).toLowerCase() === want
+      );
+    if (!btn) throw new Error(`tap "${input.tap}": no such button`);
+    return {
+      ...base,
+      type: "interactive",
+      interactive: {
+        type: "button_reply",
+        button_reply: { id: btn.id, title: btn.title },
+      },
+    };
+  }
+
+  const row = (shown.action?.sections || [])
+    .flatMap((s: any) => s.rows || [])
+    .find(
+      (r: any) =>
+        String(r?.id).toLowerCase() === want ||
+        String(r?.title).toLowerCase() === want
+    );
+  if (!row) throw new Error(`tap "${input.tap}": no such list row`);
+  return {
+    ...base,
+    type: "interactive",
+    interactive: {
+      type: "list_reply",
+      list_reply: {
+        id: row.id,
+        title: row.title,
+        ...(row.description ? { description: row.description } : {}),
+      },
+    },
+  };
+}
+
+export function buildSimWebhookPayload(opts: {
+  phoneNumberId: string;
+  customer: string;
+  name?: string | null;
+  message: any;
+}) {
+  return {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "SIM_WABA_ID",
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: {
+                display_phone_number: "SIMULATOR",
+                phone_number_id: opts.phoneNumberId,
+              },
+              contacts: [
+                {
+                  profile: { name: opts.name || "Sim Customer" },
+                  wa_id: opts.customer,
+                },
+              ],
+              messages: [opts.message],
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Customer sends a message: signed POST into our own webhook, exactly like
+ * Meta. Resolves once waba.post("/") has answered (it processes inline), so
+ * the replies are already in the transcript.
+ */
+export async function simulateInbound(opts: {
+  phoneNumberId: string;
+  customer: string;
+  name?: string | null;
+  input: SimInbound;
+}): Promise<{ status: number; entry: SimTranscriptEntry; replies: SimTranscriptEntry[] }> {
+  const customer = digits(opts.customer);
+  const message = buildInboundMessage(opts.phoneNumberId, customer, opts.input);
+  const payload = buildSimWebhookPayload({
+    phoneNumberId: opts.phoneNumberId,
+    customer,
+    name: opts.name,
+    message,
+  });
+
+  const entry = record({
+    direction: "in",
+    phone_number_id: opts.phoneNumberId,
+    customer,
+    type: message.type,
+    text:
+      message.text?.body ??
+      message.interactive?.button_reply?.title ??
+      message.interactive?.list_reply?.title ??
+      (message.location
+        ? `[location ${message.location.latitude},${message.location.longitude}]`
+        : `[${message.type}] ${message.image?.caption || ""}`.trim()),
+    wa_msg_id: message.id,
+    payload: message,
+  });
+
+  const body = JSON.stringify(payload);
+  const { secret } = await resolveWabaAppSecret(opts.phoneNumberId);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (secret) headers["X-Hub-Signature-256"] = computeWabaSignature(body, secret);
+
+  const port = Number(process.env.PORT || 8787);
+  const resp = await axios.post(`http://127.0.0.1:${port}/webhook/whatsapp`, body, {
+    headers,
+    timeout: 60000,
+    validateStatus: () => true,
+  });
+
+  return {
+    status: resp.status,
+    entry,
+    replies: getSimTranscript({
+      phoneNumberId: opts.phoneNumberId,
+      customer,
+      afterSeq: entry.seq,
+    }).filter((e) => e.direction === "out"),
+  };
+}
+
+// ─────────────────────────────
+// Fixtures
+// ─────────────────────────────
+export type SimExpect = {
+  contains?: string[]; // every string must appear in some reply
+  not_contains?: string[];
+  matches?: string; // regex against the joined replies
+  replies?: number; // exact reply count
+  interactive?: boolean; // last reply carries buttons / list
+  state?: string; // ai_conversation_state after the step
+};
+
+export type SimFixtureStep = SimInbound & { expect?: SimExpect };
+
+export type SimFixture = {
+  name: string;
+  description?: string;
+  phone_number_id: string;
+  customer: string;
+  customer_name?: string;
+  seed?: Record<string, any[]>; // table → rows
+  steps: SimFixtureStep[];
+  // table → rows that must exist afterwards ({ column: value } subsets)
+  expect_rows?: Record<string, Record<string, any>[]>;
+};
+
+export type SimStepResult = {
+  index: number;
+  input: string;
+  replies: string[];
+  state: string | null;
+  ok: boolean;
+  failures: string[];
+};
+
+export type SimFixtureResult = {
+  name: string;
+  ok: boolean;
+  steps: SimStepResult[];
+  failures: string[];
+};
+
+export function listSimFixtures(): string[] {
+  if (!fs.existsSync(FIXTURES_DIR)) return [];
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.replace(/\.json$/, ""))
+    .sort();
+}
+
+export function loadSimFixture(name: string): SimFixture {
+  const safe = path.basename(String(name)).replace(/\.json$/, "");
+  const file = path.join(FIXTURES_DIR, `${safe}.json`);
+  if (!fs.existsSync(file)) throw new Error(`fixture_not_found: ${safe}`);
+  return JSON.parse(fs.readFileSync(file, "utf8")) as SimFixture;
+}
+
+function checkStep(exp: SimExpect, replies: SimTranscriptEntry[], state: string): string[] {
+  const failures: string[] = [];
+  const joined = replies.map((r) => r.text).join("\n---\n");
+
+  for (const s of exp.contains || []) {
+    if (!joined.includes(s)) failures.push(`reply missing "${s}"`);
+  }
+  for (const s of exp.not_contains || []) {
+    if (joined.includes(s)) failures.push(`reply unexpectedly contains "${s}"`);
+  }
+  if (exp.matches && !new RegExp(exp.matches, "m").test(joined)) {
+    failures.push(`reply does not match /${exp.matches}/`);
+  }
+  if (exp.replies != null && replies.length !== exp.replies) {
+    failures.push(`expected ${exp.replies} replies, got ${replies.length}`);
+  }
+  if (exp.interactive != null) {
+    const last = replies[replies.length - 1];
+    const isInteractive = last?.type === "interactive";
+    if (isInteractive !== exp.interactive) {
+      failures.push(`expected interactive=${exp.interactive}, got ${isInteractive}`);
+    }
+  }
+  if (exp.state && state !== exp.state) {
+    failures.push(`expected state "${exp.state}", got "${state}"`);
+  }
+  return failures;
+}
+
+function describeInput(step: SimInbound): string {
+  if ("text" in step) return step.text;
+  if ("tap" in step) return `[tap ${step.tap}]`;
+  if ("location" in step) return `[location ${step.location.lat},${step.location.lng}]`;
+  return `[image] ${step.image.caption || ""}`.trim();
+}
+
+export async function runSimFixture(fixture: SimFixture): Promise<SimFixtureResult> {
+  if (!USE_MEMORY_DB) {
+    throw new Error("fixtures need DB_MODE=memory (they reset the store)");
+  }
+
+  memoryDb.reset();
+  memoryDb.seed(fixture.seed || {});
+
+  const customer = digits(fixture.customer);
+  const orgId =
+    (fixture.seed?.orgs || []).find(
+      (o: any) => o.wa_phone_number_id === fixture.phone_number_id
+    )?.id || null;
+
+  const steps: SimStepResult[] = [];
+
+  for (const [index, step] of fixture.steps.entries()) {
+    const { expect, ...input } = step;
+    const failures: string[] = [];
+    let replies: SimTranscriptEntry[] = [];
+
+    try {
+      const out = await simulateInbound({
+        phoneNumberId: fixture.phone_number_id,
+        customer,
+        name: fixture.customer_name,
+        input: input as SimInbound,
+      });
+      if (out.status !== 200) failures.push(`webhook answered ${out.status}`);
+      replies = out.replies;
+    } catch (e: any) {
+      failures.push(e?.message || String(e));
+    }
+
+    const state = orgId ? await getState(orgId, customer) : null;
+    if (expect) failures.push(...checkStep(expect, replies, String(state)));
+
+    steps.push({
+      index,
+      input: describeInput(input as SimInbound),
+      replies: replies.map((r) => r.text),
+      state,
+      ok: failures.length === 0,
+      failures,
+    });
+
+    // later steps build on this one – stop at the first broken step
+    if (failures.length) break;
+  }
+
+  const failures = steps.flatMap((s) => s.failures.map((f) => `step ${s.index}: ${f}`));
+
+  if (!failures.length) {
+    for (const [table, wanted] of Object.entries(fixture.expect_rows || {})) {
+      const rows = memoryDb.dump(table) as any[];
+      for (const w of wanted) {
+        const hit = rows.some((r) =>
+          Object.entries(w).every(([k, v]) => JSON.stringify(r[k]) === JSON.stringify(v))
+        );
+        if (!hit) failures.push(`${table}: no row matching ${JSON.stringify(w)}`);
+      }
+    }
+  }
+
+  return { name: fixture.name, ok: failures.length === 0, steps, failures };
+}
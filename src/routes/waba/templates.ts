@@ -0,0 +1,246 @@
+// src/routes/waba/templates.ts
+import axios from "axios";
+import { supa } from "../../db";
+
+/**
+ * Per-org WhatsApp template registry.
+ *
+ * Free-form messages are only allowed within 24h of the customer's last
+ * inbound message. Outside that window Meta only accepts pre-approved
+ * templates, so each org maps a *purpose* (what we want to say) to one of
+ * its approved templates:
+ *
+ * Table `waba_templates`:
+ *   id             uuid primary key
+ *   org_id         uuid
+ *   purpose        text     -- e.g. 'order_status', 'payment_reminder', 'cart_reminder'
+ *   template_name  text     -- name as approved in Meta
+ *   language       text     -- Meta language code ('en', 'en_US', 'ta' …)
+ *   param_mapping  jsonb    -- ordered variable keys for {{1}}, {{2}}… in the body
+ *   is_active      boolean
+ *   created_at / updated_at timestamptz
+ *
+ * `orgs.wa_business_account_id` is needed to list templates from Meta.
+ */
+
+const META_WA_BASE = "https://graph.facebook.com/v21.0";
+const TABLE = "waba_templates";
+
+export const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Purposes the backend knows how to fill (documented for the admin UI)
+export const TEMPLATE_PURPOSES = [
+  "order_status",
+  "payment_reminder",
+  "cart_reminder",
+  "generic_followup",
+] as const;
+
+export type TemplatePurpose = (typeof TEMPLATE_PURPOSES)[number];
+
+// Variables a param_mapping may reference
+export const TEMPLATE_VARIABLES = [
+  "customer_name",
+  "store_name",
+  "order_id",
+  "order_status",
+  "order_total",
+  "payment_link",
+  "cart_items",
+  "message",
+] as const;
+
+export type WabaTemplateRow = {
+  id: string;
+  org_id: string;
+  purpose: string;
+  template_name: string;
+  language: string;
+  param_mapping: string[] | null;
+  is_active: boolean;
+};
+
+// ─────────────────────────────
+// 24h customer service window
+// ─────────────────────────────
+export async function getLastInboundAt(
+  orgId: string,
+  phone: string
+): Promise<Date | null> {
+  const phoneKey = String(phone || "").replace(/[^\d]/g, "");
+  if (!orgId || !phoneKey) return null;
+
+  const { data: convs } = await supa
+    .from("conversations")
+    .select("id")
+    .eq("org_id", orgId)
+    .in("customer_phone", [phoneKey, `+${phoneKey}`])
+    .limit(2);
+
+  const convIds = (convs || []).map((c: any) => c.id);
+  if (!convIds.length) return null;
+
+  const { data: msg } = await supa
+    .from("messages")
+    .select("created_at")
+    .eq("org_id", orgId)
+    .in("conversation_id", convIds)
+    .eq("direction", "in")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return msg?.created_at ? new Date(msg.created_at) : null;
+}
+
+export async function isWithinSessionWindow(
+  orgId: string,
+  phone: string
+): Promise<boolean> {
+  const last = await getLastInboundAt(orgId, phone);
+  if (!last) return false;
+  return Date.now() - last.getTime() < SESSION_WINDOW_MS;
+}
+
+// ─────────────────────────────
+// Registry lookup
+// ─────────────────────────────
+export async function findTemplateForPurpose(
+  orgId: string,
+  purpose: string,
+  language?: string | null
+): Promise<WabaTemplateRow | null> {
+  const { data, error } = await supa
+    .from(TABLE)
+    .select("id, org_id, purpose, template_name, language, param_mapping, is_active")
+    .eq("org_id", orgId)
+    .eq("purpose", purpose)
+    .eq("is_active", true);
+
+  if (error) {
+    console.warn("[WABA][TEMPLATES] lookup err", error.message);
+    return null;
+  }
+
+  const rows = (data || []) as WabaTemplateRow[];
+  if (!rows.length) return null;
+
+  if (language) {
+    const want = language.toLowerCase();
+    const exact = rows.find((r) => (r.language || "").toLowerCase() === want);
+    if (exact) return exact;
+    const prefix = rows.find((r) =>
+      (r.language || "").toLowerCase().startsWith(want.split("_")[0])
+    );
+    if (prefix) return prefix;
+  }
+
+  return rows[0];
+}
+
+// Cloud API `template` object for a registry row + variable values
+export function buildTemplatePayload(
+  tpl: Pick<WabaTemplateRow, "template_name" | "language" | "param_mapping">,
+  vars: Record<string, any>
+): any {
+  const mapping = Array.isArray(tpl.param_mapping) ? tpl.param_mapping : [];
+
+  const parameters = mapping.map((key) => {
+    const v = vars?.[key];
+    // Meta rejects empty parameters → use a dash
+    const text = v == null || String(v).trim() === "" ? "-" : String(v);
+    return { type: "text", text: text.slice(0, 1024) };
+  });
+
+  return {
+    name: tpl.template_name,
+    language: { code: tpl.language || "en" },
+    ...(parameters.length
+      ? { components: [{ type: "body", parameters }] }
+      : {}),
+  };
+}
+
+// Human-readable copy for the inbox ("[template] order_update: …")
+export function describeTemplateSend(
+  tpl: Pick<WabaTemplateRow, "template_name" | "param_mapping">,
+  vars: Record<string, any>
+): string {
+  const mapping = Array.isArray(tpl.param_mapping) ? tpl.param_mapping : [];
+  const values = mapping
+    .map((k) => vars?.[k])
+    .filter((v) => v != null && String(v).trim() !== "");
+  return `[template] ${tpl.template_name}${
+    values.length ? `: ${values.join(" · ")}` : ""
+  }`;
+}
+
+// ─────────────────────────────
+// Meta: list approved templates for the org's WABA
+// ─────────────────────────────
+export async function fetchMetaTemplates(orgId: string): Promise<{
+  ok: boolean;
+  error?: string;
+  templates: Array<{
+    name: string;
+    language: string;
+    status: string;
+    category: string | null;
+    body: string | null;
+    param_count: number;
+  }>;
+}> {
+  const { data: org, error } = await supa
+    .from("orgs")
+    .select("wa_business_account_id, wa_access_token")
+    .eq("id", orgId)
+    .maybeSingle();
+
+  if (error) return { ok: false, error: error.message, templates: [] };
+  if (!org?.wa_business_account_id) {
+    return { ok: false, error: "org_missing_wa_business_account_id", templates: [] };
+  }
+  if (!org?.wa_access_token) {
+    return { ok: false, error: "org_missing_wa_access_token", templates: [] };
+  }
+
+  const out: any[] = [];
+  let url: string | null =
+    `${META_WA_BASE}/${org.wa_business_account_id}/message_templates` +
+    `?fields=name,language,status,category,components&limit=100`;
+
+  try {
+    // follow paging (bounded)
+    for (let page = 0; url && page < 10; page++) {
+      const resp = await axios.get(url, {
+        headers: { Authorization: `Bearer ${org.wa_access_token}` },
+        timeout: 15000,
+      });
+      out.push(...(resp.data?.data || []));
+      url = resp.data?.paging?.next || null;
+    }
+  } catch (e: any) {
+    const msg = e?.response?.data?.error?.message || e?.message || String(e);
+    console.warn("[WABA][TEMPLATES] meta fetch err", msg);
+    return { ok: false, error: msg, templates: [] };
+  }
+
+  return {
+    ok: true,
+    templates: out.map((t: any) => {
+      const body =
+        (t.components || []).find(
+          (c: any) => String(c.type).toUpperCase() === "BODY"
+        )?.text || null;
+      const params = body ? body.match(/\{\{\s*\d+\s*\}\}/g) || [] : [];
+      return {
+        name: t.name,
+        language: t.language,
+        status: t.status,
+        category: t.category || null,
+        body,
+        param_count: new Set(params.map((p: string) => p.replace(/\s/g, ""))).size,
+      };
+    }),
+  };
+}
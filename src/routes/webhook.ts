@@ -1,19 +1,12 @@
 // src/routes/webhook.ts
 import express from 'express';
-import fetch from 'node-fetch'; // npm i node-fetch@2 (or use undici/fetch in Node18+)
-import { createClient } from '@supabase/supabase-js';
 import { supa as supaQuery } from '../db';
 import { parseOrder } from '../parser';
+import { downloadWhatsAppMedia, uploadMediaToStorage } from './waba/media';
+import { transcribeAudio } from '../ai/lang/transcribe';
 
 export const webhook = express.Router();
 
-const SUPABASE_URL = process.env.SUPABASE_URL!;
-const SUPABASE_SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE!;
-const supaAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE);
-
-
-
-
 // --- 1) Verify endpoint (Meta setup) ---
 webhook.get('/whatsapp', (req, res) => {
   const mode = req.query['hub.mode'];
@@ -26,48 +19,9 @@ webhook.get('/whatsapp', (req, res) => {
 });
 
 // --- Helpers ---
-async function downloadWhatsAppMedia(mediaId: string): Promise<{ buffer: Buffer; contentType: string; ext: string }> {
-  // Step A: get media URL
-  const metaToken = process.env.WA_ACCESS_TOKEN!;
-  const metaBase = 'https://graph.facebook.com/v21.0'; // check your app version; v21.0 latest as of late 2025
-  const metaResp = await fetch(`${metaBase}/${mediaId}`, {
-    headers: { Authorization: `Bearer ${metaToken}` }
-  });
-  if (!metaResp.ok) {
-    const txt = await metaResp.text();
-    throw new Error(`WA media lookup failed: ${metaResp.status} ${txt}`);
-  }
-  const mediaInfo: any = await metaResp.json(); // { url, mime_type, ... }
-
-  // Step B: download binary
-  const binResp = await fetch(mediaInfo.url, { headers: { Authorization: `Bearer ${metaToken}` } });
-  if (!binResp.ok) {
-    const txt = await binResp.text();
-    throw new Error(`WA media download failed: ${binResp.status} ${txt}`);
-  }
-  const arrayBuf = await binResp.arrayBuffer();
-  const buffer = Buffer.from(arrayBuf);
-  const mime = mediaInfo.mime_type || 'audio/webm';
-  const ext =
-    mime.includes('ogg') ? 'ogg' :
-    mime.includes('mpeg') ? 'mp3' :
-    mime.includes('mp4') ? 'mp4' :
-    mime.includes('amr') ? 'amr' :
-    mime.includes('aac') ? 'aac' :
-    mime.includes('wav') ? 'wav' : 'webm';
-
-  return { buffer, contentType: mime, ext };
-}
-
+// Media download/upload is shared with the live WABA pipeline (routes/waba/media.ts)
 async function uploadToVoices(orgId: string, blob: Buffer, contentType: string, ext: string) {
-  const path = `${orgId}/${Date.now()}_${Math.random().toString(36).slice(2)}.${ext}`;
-  const { error } = await supaAdmin.storage.from('voices').upload(path, blob, {
-    contentType,
-    upsert: false
-  });
-  if (error) throw error;
-  const { data } = supaAdmin.storage.from('voices').getPublicUrl(path);
-  return data.publicUrl;
+  return uploadMediaToStorage('voices', orgId, blob, contentType, ext);
 }
 
 // --- 2) Receive messages ---
@@ -169,13 +123,20 @@ webhook.post('/whatsapp', async (req, res) => {
       const media = await downloadWhatsAppMedia(mediaId);
       const publicUrl = await uploadToVoices(org.id, media.buffer, media.contentType, media.ext);
 
-      // (Optional) If you add transcription later, fill raw_text with the transcript.
+      // transcript (if STT is configured) → raw_text + parsed items
+      const stt = await transcribeAudio({
+        buffer: media.buffer,
+        mimeType: media.contentType,
+        mediaId,
+      });
+      const transcript = stt?.text || '';
+
       await supaQuery.from('orders').insert({
         org_id: org.id,
         source_phone: from,
         customer_name: null,
-        raw_text: '',         // will be empty until you add STT
-        items: [],            // same here; you can run STT + parse to fill items
+        raw_text: transcript,
+        items: transcript ? parseOrder(transcript) : [],
         audio_url: publicUrl,
         status: 'pending'
       });
@@ -18,6 +18,9 @@ import { clarifyLink } from "./routes/clarifyLink";
 import suggestReply from './routes/suggestReply';
 import availability from './routes/availability';
 import { waba } from './routes/waba';
+import { captureRawBody } from './routes/waba/signature';
+import { startOutboxWorker } from './routes/waba/outbox';
+import { startCartRecoveryWorker } from './ai/ingest/abandonedCarts';
 import { inbox } from './routes/inbox';
 import analytics from './routes/analytics';
 import path from "path"; // ⬅️ add this
@@ -26,8 +29,21 @@ import testing from './routes/testing';
 import { customerInsight } from "./routes/customerInsight";
 import { adminAiFaq } from "./routes/adminAiFaq";
 import adminProductUpsells from './routes/admin_product_upsells';
+import adminWabaTemplates from './routes/admin_waba_templates';
+import adminIngestTraces from './routes/admin_ingest_traces';
+import adminDeliveryZones from './routes/admin_delivery_zones';
+import adminGazetteer from './routes/admin_gazetteer';
+import adminPromoCodes from './routes/admin_promo_codes';
+import { printJobs } from './routes/printJobs';
+import { startKitchenPrinting } from './order/printQueue';
+import { kds } from './routes/kds';
+import { startKitchenDisplay } from './order/kitchenDisplay';
+import { startOrgEvents } from './realtime/orgEvents';
+import { channelWebhooks } from './routes/channelWebhooks';
 import { razorpayWebhookRouter } from './routes/razorpayWebhook';
 import { sseOrders } from './routes/realtimeOrders';
+import { devWabaSimulator } from './routes/devWabaSimulator';
+import { WABA_SIMULATOR_ENABLED } from './routes/waba/simulator';
 
 // ─────────────────────────────
 // Boot diagnostics
@@ -106,8 +122,11 @@ app.all('/webhook', (req, res) => {
 // ─────────────────────────────
 // WABA Webhook mounts (main + fallback path)
 // ─────────────────────────────
-app.use('/webhook/whatsapp', express.json(), waba);
-app.use('/api/waba/webhook', express.json(), waba);
+// (raw body kept on req.rawBody for X-Hub-Signature-256 verification)
+app.use('/webhook/whatsapp', express.json({ verify: captureRawBody }), waba);
+app.use('/api/waba/webhook', express.json({ verify: captureRawBody }), waba);
+// Telegram / web chat (raw body kept for the web-chat X-Signature HMAC)
+app.use('/api/channels', express.json({ verify: captureRawBody }), channelWebhooks);
 app.use("/api/razorpay", razorpayWebhookRouter);
 
 // ─────────────────────────────
@@ -146,8 +165,34 @@ app.use("/admin/business", adminBusiness);
 app.use("/api/testing", testing);
 app.use("/admin/ai", adminAiFaq);
 app.use("/api/admin/product-upsells", adminProductUpsells);
+app.use("/api/admin/waba-templates", adminWabaTemplates);
+app.use("/api/admin/ingest-traces", adminIngestTraces);
+app.use("/api/admin/delivery-zones", adminDeliveryZones);
+app.use("/api/admin/gazetteer", adminGazetteer);
+app.use("/api/admin/promo-codes", adminPromoCodes);
+app.use("/api/print", printJobs);
+app.use("/api/kds", kds);
+
+// Dev only: local WhatsApp simulator (customer phone + captured replies)
+if (WABA_SIMULATOR_ENABLED) {
+  console.log("[WABA_SIM] simulator enabled – /api/dev/waba-sim is exposed");
+  app.use("/api/dev/waba-sim", devWabaSimulator);
+}
+
 // ─────────────────────────────
 // Server start
 // ─────────────────────────────
 const PORT = Number(process.env.PORT || 8787);
-app.listen(PORT, () => console.log('✅ Backend listening on', PORT));
\ No newline at end of file
+app.listen(PORT, () => {
+  console.log('✅ Backend listening on', PORT);
+  // SSE events from other instances + replay window cleanup
+  startOrgEvents();
+  // Outbound WhatsApp retries (waba_outbox)
+  startOutboxWorker();
+  // Stale conversation states → abandoned carts + one reminder
+  startCartRecoveryWorker();
+  // Accepted orders → kitchen ticket in print_jobs
+  startKitchenPrinting();
+  // Accepted / cancelled orders → kitchen display tickets
+  startKitchenDisplay();
+});
\ No newline at end of file
@@ -10,16 +10,9 @@ export type Org = {
   created_at: string;
 };
 
-export type OrderStatus =
-  | "pending"
-  | "accepted"
-  | "shipped"
-  | "paid"
-  | "cancelled"
-  // legacy/optional:
-  | "delivered"
-  | "cancelled_by_customer"
-  | "archived_for_new";
+// Canonical lifecycle lives in order/orderLifecycle
+export type { OrderStatus } from "./order/orderLifecycle";
+import type { OrderStatus } from "./order/orderLifecycle";
 
 export type Order = {
   id: string;
@@ -76,6 +69,7 @@ export type ModifierPayload = {
 
 export type IngestSource =
   | "waba"
+  | "telegram"
   | "local_bridge"
   | "clarify_link"
   | "web"
@@ -0,0 +1,33 @@
+// src/util/opsAlert.ts
+import axios from "axios";
+
+/**
+ * Something the team should look at now, not find later in the logs.
+ *
+ * Always logged as [OPS_ALERT]. With OPS_ALERT_WEBHOOK_URL set it is also
+ * POSTed there as { text } (Slack / Discord / Teams incoming webhooks all
+ * accept that), at most once per `key` every OPS_ALERT_THROTTLE_MS.
+ */
+
+const WEBHOOK_URL = process.env.OPS_ALERT_WEBHOOK_URL || "";
+const THROTTLE_MS = Number(process.env.OPS_ALERT_THROTTLE_MS || 10 * 60 * 1000);
+
+const lastSent = new Map<string, { at: number; suppressed: number }>();
+
+export function opsAlert(key: string, text: string, meta: Record<string, any> = {}) {
+  console.error("[OPS_ALERT]", key, text, meta);
+  if (!WEBHOOK_URL) return;
+
+  const now = Date.now();
+  const prev = lastSent.get(key);
+  if (prev && now - prev.at < THROTTLE_MS) {
+    prev.suppressed += 1;
+    return;
+  }
+  lastSent.set(key, { at: now, suppressed: 0 });
+
+  const more = prev?.suppressed ? ` (+${prev.suppressed} more since last alert)` : "";
+  axios
+    .post(WEBHOOK_URL, { text: `⚠️ ${text}${more}\n${JSON.stringify(meta)}` }, { timeout: 5000 })
+    .catch((e) => console.warn("[OPS_ALERT] webhook err", e?.message || e));
+}
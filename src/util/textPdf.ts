@@ -0,0 +1,72 @@
+// src/util/textPdf.ts
+
+/**
+ * Minimal PDF writer: lines of text in Courier on A4 pages, no dependencies.
+ * Enough for invoices / receipts laid out as fixed-width text.
+ */
+
+const PAGE_W = 595; // A4 in points
+const PAGE_H = 842;
+const MARGIN = 40;
+
+// Courier only has Latin-1 – map the few symbols we use, drop the rest
+function toLatin1(s: string): string {
+  return String(s ?? "")
+    .replace(/₹/g, "Rs.")
+    .replace(/[–—]/g, "-")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+const escapePdf = (s: string) => s.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+export function textToPdf(lines: string[], opts: { fontSize?: number } = {}): Buffer {
+  const fontSize = opts.fontSize ?? 9;
+  const leading = Math.round(fontSize * 1.3 * 10) / 10;
+  const perPage = Math.max(1, Math.floor((PAGE_H - 2 * MARGIN) / leading));
+
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(1, lines.length); i += perPage) {
+    pages.push(lines.slice(i, i + perPage));
+  }
+
+  // 1 catalog, 2 page tree, 3 font, then page + content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((pageLines, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+
+    const body =
+      `BT /F1 ${fontSize} Tf ${leading} TL ${MARGIN} ${PAGE_H - MARGIN - fontSize} Td\n` +
+      pageLines.map((l) => `(${escapePdf(toLatin1(l))}) Tj T*`).join("\n") +
+      "\nET";
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(body, "latin1")} >>\nstream\n${body}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefAt = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+  return Buffer.from(out, "latin1");
+}